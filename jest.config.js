@@ -41,6 +41,11 @@ module.exports = {
     }
   },
   setupFilesAfterEnv: ['<rootDir>/tests/setup.ts'],
+  // chalk and ora are ESM-only, which ts-jest does not transform
+  moduleNameMapper: {
+    '^chalk$': '<rootDir>/tests/stubs/chalk.ts',
+    '^ora$': '<rootDir>/tests/stubs/ora.ts',
+  },
   moduleFileExtensions: ['ts', 'js', 'json'],
   testPathIgnorePatterns: ['/node_modules/', '/dist/'],
   testTimeout: 10000, // 10 seconds for async operations
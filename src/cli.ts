@@ -7,21 +7,26 @@
 
 import { Command } from 'commander';
 import chalk from 'chalk';
-import { Orchestrator } from './core/orchestrator';
 import { SparcCommand } from './commands/sparc';
 import { InitCommand } from './commands/init';
 import { AgentCommand } from './commands/agent';
 import { StatusCommand } from './commands/status';
-import fs from 'fs';
-import path from 'path';
+import { RunCommand } from './commands/run';
+import { ResumeCommand } from './commands/resume';
+import { ListCommand } from './commands/list';
+import { StartCommand } from './commands/start';
+import { ServeCommand } from './commands/serve';
+import { MemoryCommand } from './commands/memory';
+import { ApplyCommand } from './commands/apply';
+import { WatchCommand } from './commands/watch';
 import packageJson from '../package.json';
-import { Validator, ValidationError } from './utils/validation';
-import { PathSecurity, PathSecurityError } from './utils/path-security';
-import { ErrorHandler } from './utils/error-handler';
 const version = packageJson.version;
 
 const program = new Command();
 
+// Repeatable options, such as --include
+const collect = (value: string, previous: string[] = []) => [...previous, value];
+
 // ASCII art banner
 const banner = `
 ${chalk.cyan(`
@@ -62,135 +67,286 @@ program
   .option('-f, --file <file>', 'Input file for multimodal processing')
   .option('-p, --parallel <number>', 'Number of parallel agents', '3')
   .option('-m, --memory <path>', 'Memory bank path', './gemini-memory.json')
+  .option('-c, --config <file>', 'Configuration file', '.gemini-flow.json')
+  .option('--provider <name>', 'Run every mode on this provider (e.g. mock)')
+  .option('--fixture <file>', 'Mock provider fixture with scripted or recorded responses')
+  .option('--record <file>', 'Record provider responses to a fixture file')
+  .option('--attach', 'Run the task on the orchestrator started with "gemini-flow start"')
+  .option('--socket <path>', 'Control socket to attach to (default: .gemini-flow/control.sock)')
+  .option('--apply', 'Apply the file edits in the result after showing them')
+  .option('--review', 'Ask before applying each hunk of the file edits')
+  .option('--include <globs>', 'Show agents the contents of project files matching these globs (repeatable, comma-separated)', collect)
+  .option('--context-dir <dir>', 'Directory whose file tree agents are shown (default: working directory)')
   .action(async (mode, task, options) => {
     const sparc = new SparcCommand();
     await sparc.execute(mode, task, options);
   });
 
+// Apply command
+program
+  .command('apply <result>')
+  .description('Apply the file edits in a saved agent result (.json from sparc or run)')
+  .option('--review', 'Ask before applying each hunk')
+  .option('--dry-run', 'Only show the changes')
+  .action(async (result, options) => {
+    const apply = new ApplyCommand();
+    await apply.execute(result, options);
+  });
+
 // Agent command
 program
   .command('agent <task>')
   .description('Run a single agent task')
   .option('-m, --mode <mode>', 'Agent mode', 'coder')
   .option('-s, --stream', 'Stream output in real-time')
+  .option('-c, --config <file>', 'Configuration file', '.gemini-flow.json')
+  .option('--provider <name>', 'Run every mode on this provider (e.g. mock)')
+  .option('--fixture <file>', 'Mock provider fixture with scripted or recorded responses')
+  .option('--record <file>', 'Record provider responses to a fixture file')
+  .option('--attach', 'Run the task on the orchestrator started with "gemini-flow start"')
+  .option('--socket <path>', 'Control socket to attach to (default: .gemini-flow/control.sock)')
+  .option('--include <globs>', 'Show agents the contents of project files matching these globs (repeatable, comma-separated)', collect)
+  .option('--context-dir <dir>', 'Directory whose file tree agents are shown (default: working directory)')
   .action(async (task, options) => {
     const agent = new AgentCommand();
     await agent.execute(task, options);
   });
 
+// Run command
+program
+  .command('run <workflow>')
+  .description('Run a multi-step SPARC workflow file (YAML or JSON)')
+  .option('-c, --config <file>', 'Configuration file', '.gemini-flow.json')
+  .option('--dry-run', 'Validate the workflow and print the execution plan')
+  .option('-w, --watch', 'Follow the run in a live terminal dashboard')
+  .option('--provider <name>', 'Run every mode on this provider (e.g. mock)')
+  .option('--fixture <file>', 'Mock provider fixture with scripted or recorded responses')
+  .option('--record <file>', 'Record provider responses to a fixture file')
+  .option('--memory-scope <scope>', 'Memory agents see: clean (this run only), project (default) or run:<name>')
+  .option('--project <name>', 'Project namespace for memory (default: working directory name)')
+  .option('--include <globs>', 'Show agents the contents of project files matching these globs (repeatable, comma-separated)', collect)
+  .option('--context-dir <dir>', 'Directory whose file tree agents are shown (default: working directory)')
+  .action(async (workflow, options) => {
+    const run = new RunCommand();
+    await run.execute(workflow, options);
+  });
+
+// Watch command
+program
+  .command('watch')
+  .description('Show a live dashboard of the orchestrator started with "gemini-flow start"')
+  .option('-c, --config <file>', 'Configuration file', '.gemini-flow.json')
+  .option('--socket <path>', 'Control socket to attach to (default: .gemini-flow/control.sock)')
+  .action(async (options) => {
+    const watch = new WatchCommand();
+    await watch.execute(options);
+  });
+
+// Resume command
+program
+  .command('resume [runId]')
+  .description('Resume an interrupted run (defaults to the most recent one)')
+  .option('-c, --config <file>', 'Configuration file', '.gemini-flow.json')
+  .option('-l, --list', 'List recorded runs')
+  .option('--memory-scope <scope>', 'Memory agents see: clean (this run only), project (default) or run:<name>')
+  .option('--project <name>', 'Project namespace for memory (default: working directory name)')
+  .action(async (runId, options) => {
+    const resume = new ResumeCommand();
+    await resume.execute(runId, options);
+  });
+
 // Start command
 program
   .command('start')
-  .description('Start the orchestrator in interactive mode')
+  .description('Start the orchestrator with an interactive task REPL')
+  .option('-c, --config <file>', 'Configuration file', '.gemini-flow.json')
+  .option('--provider <name>', 'Run every mode on this provider (e.g. mock)')
+  .option('--fixture <file>', 'Mock provider fixture with scripted or recorded responses')
+  .option('--record <file>', 'Record provider responses to a fixture file')
+  .option('--no-repl', 'Run without the interactive prompt until interrupted')
+  .option('--memory-scope <scope>', 'Memory agents see: clean (this run only), project (default) or run:<name>')
+  .option('--project <name>', 'Project namespace for memory (default: working directory name)')
+  .action(async (options) => {
+    const start = new StartCommand();
+    await start.execute(options);
+  });
+
+// Serve command
+program
+  .command('serve')
+  .description('Serve an HTTP API for submitting tasks and workflows (token from GEMINI_FLOW_API_TOKEN)')
   .option('-c, --config <file>', 'Configuration file', '.gemini-flow.json')
+  .option('--host <host>', 'Interface to listen on', '127.0.0.1')
+  .option('-p, --port <port>', 'Port to listen on', '7420')
+  .option('--provider <name>', 'Run every mode on this provider (e.g. mock)')
+  .option('--fixture <file>', 'Mock provider fixture with scripted or recorded responses')
+  .option('--record <file>', 'Record provider responses to a fixture file')
+  .option('--memory-scope <scope>', 'Memory agents see: clean (this run only), project (default) or run:<name>')
+  .option('--project <name>', 'Project namespace for memory (default: working directory name)')
   .action(async (options) => {
-    console.log(chalk.cyan('Starting Gemini Code Flow Orchestrator...'));
-    
-    try {
-      // Safely load configuration with proper error handling and path validation
-      let config = {};
-      if (options.config) {
-        try {
-          // Use secure path validation
-          const resolvedConfigPath = await PathSecurity.resolveSafePath(
-            options.config,
-            process.cwd(),
-            {
-              mustExist: true,
-              allowedExtensions: ['.json'],
-              requireReadable: true
-            }
-          );
-          
-          const configContent = await fs.readFileSync(resolvedConfigPath, 'utf8');
-          const rawConfig = JSON.parse(configContent);
-          
-          // Validate configuration
-          config = Validator.validateConfig(rawConfig);
-          
-        } catch (configError) {
-          if (configError instanceof PathSecurityError) {
-            console.warn(chalk.yellow(`⚠ Config path security error: ${configError.message}, using defaults`));
-          } else if (configError instanceof ValidationError) {
-            console.warn(chalk.yellow(`⚠ Config validation error: ${configError.message}, using defaults`));
-          } else if (configError instanceof SyntaxError) {
-            console.warn(chalk.yellow(`⚠ Config file invalid JSON: ${options.config}, using defaults`));
-          } else {
-            console.warn(chalk.yellow(`⚠ Error loading config: ${ErrorHandler.formatError(configError)}, using defaults`));
-          }
-        }
-      }
-      
-      const orchestrator = new Orchestrator(config);
-      
-      orchestrator.on('started', () => {
-        console.log(chalk.green('✓ Orchestrator started successfully'));
-      });
-      
-      orchestrator.on('agentSpawned', (agent) => {
-        console.log(chalk.blue(`🤖 Agent ${agent.id} spawned in ${agent.mode} mode`));
-      });
-      
-      orchestrator.on('agentCompleted', (agent) => {
-        console.log(chalk.green(`✓ Agent ${agent.id} completed successfully`));
-      });
-      
-      await orchestrator.start();
-      
-      // Keep process alive
-      process.on('SIGINT', async () => {
-        console.log(chalk.yellow('\nGracefully shutting down...'));
-        await orchestrator.stop();
-        process.exit(0);
-      });
-      
-    } catch (error) {
-      console.error(chalk.red('Error starting orchestrator:'), error instanceof Error ? error.message : 'Unknown error');
-      process.exit(1);
-    }
+    const serve = new ServeCommand();
+    await serve.execute(options);
   });
 
 // List command
 program
   .command('list')
-  .description('List available SPARC modes')
-  .action(() => {
-    console.log(chalk.cyan('\nAvailable SPARC Development Modes:\n'));
-    
-    const modes = [
-      { icon: '🏗️', name: 'architect', desc: 'System design and architecture' },
-      { icon: '🧠', name: 'coder', desc: 'Clean, modular implementation' },
-      { icon: '🧪', name: 'tester', desc: 'Test-driven development' },
-      { icon: '🪲', name: 'debugger', desc: 'Troubleshooting and bug fixes' },
-      { icon: '🛡️', name: 'security', desc: 'Security audits and reviews' },
-      { icon: '📚', name: 'documentation', desc: 'Comprehensive documentation' },
-      { icon: '🔗', name: 'integrator', desc: 'Component integration' },
-      { icon: '📈', name: 'monitor', desc: 'Performance monitoring' },
-      { icon: '🧹', name: 'optimizer', desc: 'Code optimization' },
-      { icon: '❓', name: 'ask', desc: 'Task formulation guide' },
-      { icon: '🚀', name: 'devops', desc: 'Deployment and infrastructure' },
-      { icon: '📘', name: 'tutorial', desc: 'Interactive learning' },
-      { icon: '🔐', name: 'database', desc: 'Database management' },
-      { icon: '📋', name: 'specification', desc: 'Requirements and pseudocode' },
-      { icon: '♾️', name: 'mcp', desc: 'External service integration' },
-      { icon: '⚡', name: 'orchestrator', desc: 'Complex workflows' },
-      { icon: '🎨', name: 'designer', desc: 'UI/UX with multimodal' },
-    ];
-    
-    modes.forEach(mode => {
-      console.log(`  ${mode.icon} ${chalk.yellow(mode.name.padEnd(15))} ${mode.desc}`);
-    });
-    
-    console.log(chalk.gray('\nExample: gemini-flow sparc architect "Design a REST API"'));
+  .description('List available SPARC modes and their effective settings')
+  .option('-c, --config <file>', 'Configuration file', '.gemini-flow.json')
+  .action(async (options) => {
+    const list = new ListCommand();
+    await list.execute(options);
   });
 
 // Status command
 program
   .command('status')
   .description('Show orchestrator status')
-  .action(async () => {
+  .option('-c, --config <file>', 'Configuration file', '.gemini-flow.json')
+  .option('--attach', 'Report on the orchestrator started with "gemini-flow start"')
+  .option('--socket <path>', 'Control socket to attach to (default: .gemini-flow/control.sock)')
+  .action(async (options) => {
     const status = new StatusCommand();
-    await status.execute();
+    await status.execute(options);
+  });
+
+// Memory commands
+const memory = program
+  .command('memory')
+  .description('Inspect and manage the memory bank');
+
+/**
+ * Options shared by the memory subcommands that select entries
+ */
+const withMemoryFilters = (command: Command): Command => command
+  .option('--type <types>', 'Only these entry types (comma-separated: knowledge, decision, error, result)')
+  .option('--tag <tags>', 'Only entries with any of these tags (comma-separated)')
+  .option('--agent <id>', 'Only entries stored by this agent')
+  .option('--since <date>', 'Only entries stored since a date (2024-05-01) or age (7d, 12h)')
+  .option('--until <date>', 'Only entries stored until a date or age')
+  .option('--project <name>', 'Only entries from this project')
+  .option('--run <name>', 'Only entries from this run')
+  .option('--pinned', 'Only pinned entries')
+  .option('-c, --config <file>', 'Configuration file', '.gemini-flow.json');
+
+withMemoryFilters(
+  memory
+    .command('list')
+    .description('List the newest memory entries')
+    .option('-n, --limit <number>', 'Maximum entries to show', '20')
+).action(async (options) => {
+  const command = new MemoryCommand();
+  await command.list(options);
+});
+
+withMemoryFilters(
+  memory
+    .command('search <text>')
+    .description('List memory entries containing text')
+    .option('-n, --limit <number>', 'Maximum entries to show', '20')
+).action(async (text, options) => {
+  const command = new MemoryCommand();
+  await command.search(text, options);
+});
+
+memory
+  .command('show <id>')
+  .description('Show a memory entry in full')
+  .option('-c, --config <file>', 'Configuration file', '.gemini-flow.json')
+  .action(async (id, options) => {
+    const command = new MemoryCommand();
+    await command.show(id, options);
+  });
+
+memory
+  .command('delete <ids...>')
+  .description('Delete memory entries')
+  .option('-c, --config <file>', 'Configuration file', '.gemini-flow.json')
+  .action(async (ids, options) => {
+    const command = new MemoryCommand();
+    await command.delete(ids, options);
+  });
+
+memory
+  .command('pin <ids...>')
+  .description('Keep memory entries regardless of retention limits')
+  .option('-c, --config <file>', 'Configuration file', '.gemini-flow.json')
+  .action(async (ids, options) => {
+    const command = new MemoryCommand();
+    await command.pin(ids, true, options);
+  });
+
+memory
+  .command('unpin <ids...>')
+  .description('Let retention limits remove memory entries again')
+  .option('-c, --config <file>', 'Configuration file', '.gemini-flow.json')
+  .action(async (ids, options) => {
+    const command = new MemoryCommand();
+    await command.pin(ids, false, options);
+  });
+
+memory
+  .command('tag <id> <tags...>')
+  .description('Add tags to a memory entry')
+  .option('--remove', 'Remove the tags instead')
+  .option('-c, --config <file>', 'Configuration file', '.gemini-flow.json')
+  .action(async (id, tags, options) => {
+    const command = new MemoryCommand();
+    await command.tag(id, tags, options);
+  });
+
+withMemoryFilters(
+  memory
+    .command('export <file>')
+    .description('Write memory entries to a JSON memory file')
+    .option('-f, --force', 'Overwrite the file if it exists')
+).action(async (file, options) => {
+  const command = new MemoryCommand();
+  await command.export(file, options);
+});
+
+memory
+  .command('import <file>')
+  .description('Add the entries of a JSON memory file, skipping ones already stored')
+  .option('-c, --config <file>', 'Configuration file', '.gemini-flow.json')
+  .action(async (file, options) => {
+    const command = new MemoryCommand();
+    await command.import(file, options);
+  });
+
+memory
+  .command('stats')
+  .description('Summarize the memory bank')
+  .option('-c, --config <file>', 'Configuration file', '.gemini-flow.json')
+  .action(async (options) => {
+    const command = new MemoryCommand();
+    await command.stats(options);
+  });
+
+memory
+  .command('consolidate')
+  .description('Condense related memory entries into lasting knowledge and decisions')
+  .option('--by <grouping>', 'Group entries by mode tag or by run: tag or namespace (default: tag)')
+  .option('--min-group <number>', 'Smallest group worth condensing (default: 3)')
+  .option('--project <name>', 'Only entries from this project')
+  .option('--run <name>', 'Only entries from this run')
+  .option('--dry-run', 'Show the groups without asking the model')
+  .option('--provider <name>', 'Provider that condenses the entries (e.g. mock)')
+  .option('--fixture <file>', 'Mock provider fixture with scripted or recorded responses')
+  .option('-c, --config <file>', 'Configuration file', '.gemini-flow.json')
+  .action(async (options) => {
+    const command = new MemoryCommand();
+    await command.consolidate(options);
+  });
+
+memory
+  .command('migrate <source>')
+  .description('Import a JSON memory file into a SQLite database')
+  .option('--to <path>', 'Target database (default: memoryPath when it is SQLite, else .gemini-flow/memory.db)')
+  .option('-c, --config <file>', 'Configuration file', '.gemini-flow.json')
+  .action(async (source, options) => {
+    const command = new MemoryCommand();
+    await command.migrate(source, options);
   });
 
 // Parse arguments
@@ -5,38 +5,77 @@
 
 import chalk from 'chalk';
 import ora from 'ora';
-import { GeminiClient } from '../core/gemini-client';
-import { AgentMode } from '../types';
+import { ProviderRegistry, DEFAULT_PROVIDER } from '../providers/provider-registry';
+import { ModeRegistry } from '../core/mode-registry';
+import { ControlClient } from '../core/control-client';
+import { DEFAULT_SOCKET_PATH } from '../core/control-protocol';
+import { WorkspaceScanner } from '../core/workspace-scanner';
+import { estimateTokens } from '../providers/provider-utils';
+import { AgentOutput, Task } from '../types';
+import { ConfigLoader, ProviderOptions, WorkspaceOptions } from '../utils/config-loader';
+import { Validator } from '../utils/validation';
+import { ErrorHandler } from '../utils/error-handler';
+
+interface AgentOptions extends ProviderOptions, WorkspaceOptions {
+  mode?: string;
+  stream?: boolean;
+  config?: string;
+  attach?: boolean;
+  socket?: string;
+}
 
 export class AgentCommand {
-  async execute(task: string, options: { mode?: string; stream?: boolean }): Promise<void> {
-    const mode = (options.mode || 'coder') as AgentMode;
+  async execute(task: string, options: AgentOptions): Promise<void> {
+    if (options.attach || options.socket) {
+      await this.executeAttached(task, options);
+      return;
+    }
+
     const spinner = ora(`🤖 Agent working on task...`).start();
 
     try {
-      const apiKey = process.env.GEMINI_API_KEY;
-      if (!apiKey) {
+      const config = ConfigLoader.applyProviderOptions(
+        await ConfigLoader.load(options.config, { optional: true }),
+        options
+      );
+      const modes = new ModeRegistry(config.modes);
+      const mode = Validator.validateAgentMode(options.mode || 'coder', modes.getCustomModes());
+      const providers = new ProviderRegistry(config);
+      const apiKey = config.apiKey || process.env.GEMINI_API_KEY;
+      if (providers.getProviderName(mode) === DEFAULT_PROVIDER && !apiKey) {
         throw new Error('GEMINI_API_KEY environment variable is required');
       }
 
-      const client = new GeminiClient({ apiKey });
-      const prompt = `You are an AI assistant in ${mode} mode. 
+      const client = providers.forMode(mode);
+      const generationOptions = modes.getGenerationOptions(mode);
+      const workspace = ConfigLoader.workspaceFromOptions(options);
+      const render = (context: string) => `${modes.getSystemPrompt(mode)}
 
 Task: ${task}
-
+${context ? `\n${context}` : ''}
 Please provide a clear, actionable response. Be concise but thorough.`;
 
+      let prompt = render('');
+      if (workspace) {
+        const { text, report } = await WorkspaceScanner.section(workspace, task, modes.getContextBudget(mode) - estimateTokens(prompt));
+        if (report.dropped.length > 0) {
+          spinner.warn(`Left out of the prompt: ${report.dropped.map(item => item.id).join(', ')}`);
+          spinner.start('🤖 Agent working on task...');
+        }
+        prompt = render(text);
+      }
+
       if (options.stream) {
         spinner.stop();
         console.log(chalk.cyan('🤖 Agent response:\n'));
         
-        for await (const chunk of client.streamExecute(prompt, mode)) {
+        for await (const chunk of client.streamExecute(prompt, mode, generationOptions)) {
           process.stdout.write(chunk);
         }
         
         console.log('\n');
       } else {
-        const result = await client.execute(prompt, mode);
+        const result = await client.execute(prompt, mode, generationOptions);
         spinner.succeed('Agent completed task');
         
         console.log(chalk.cyan('\n🤖 Agent response:\n'));
@@ -48,4 +87,56 @@ Please provide a clear, actionable response. Be concise but thorough.`;
       console.error(chalk.red('Error:'), error instanceof Error ? error.message : 'Unknown error');
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Hand the task to the orchestrator listening on the control socket and wait for its result
+   */
+  private async executeAttached(description: string, options: AgentOptions): Promise<void> {
+    const spinner = ora('🤖 Submitting task to the running orchestrator...').start();
+
+    try {
+      const config = await ConfigLoader.load(options.config, { optional: true });
+      const workspace = ConfigLoader.workspaceFromOptions(options);
+      const client = await ControlClient.connect(options.socket || config.socketPath || DEFAULT_SOCKET_PATH);
+
+      try {
+        const taskId = `agent-${Date.now()}`;
+        if (options.stream) {
+          await client.subscribe(['agentOutput']);
+          client.on('agentOutput', (output: AgentOutput) => {
+            if (output.taskId === taskId) {
+              process.stdout.write(output.chunk);
+            }
+          });
+        }
+
+        await client.call<Task>('addTask', { id: taskId, mode: options.mode || 'coder', description, workspace });
+        if (options.stream) {
+          spinner.stop();
+          console.log(chalk.cyan(`🤖 Agent response (task ${taskId}):\n`));
+        } else {
+          spinner.text = `🤖 Task ${taskId} queued, waiting for an agent...`;
+        }
+
+        const [result] = await client.call<Task[]>('wait', { taskIds: [taskId] });
+        if (result.status !== 'completed') {
+          const reason = result.statusReason ? ` (${result.statusReason})` : '';
+          throw new Error(`Task ${taskId} ${result.status}${reason}`);
+        }
+
+        if (options.stream) {
+          console.log('\n');
+        } else {
+          spinner.succeed('Agent completed task');
+          console.log(chalk.cyan('\n🤖 Agent response:\n'));
+          console.log(result.result);
+        }
+      } finally {
+        client.close();
+      }
+    } catch (error) {
+      spinner.fail('Agent failed');
+      console.error(chalk.red('Error:'), ErrorHandler.sanitizeError(error));
+    }
+  }
+}
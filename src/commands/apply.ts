@@ -0,0 +1,56 @@
+/**
+ * Apply Command for Gemini Code Flow
+ * Applies the file edits in a saved agent result to the project
+ */
+
+import chalk from 'chalk';
+import fs from 'fs-extra';
+import { Patch, PatchError } from '../core/patch';
+import { StructuredOutput } from '../core/structured-output';
+import { PatchReview } from './patch-review';
+import { ValidationError } from '../utils/validation';
+import { PathSecurity, PathSecurityError } from '../utils/path-security';
+import { ErrorHandler } from '../utils/error-handler';
+
+interface ApplyOptions {
+  review?: boolean;
+  dryRun?: boolean;
+}
+
+export class ApplyCommand {
+  /**
+   * Preview the edits in a result saved by `sparc` or `run` (the .json file)
+   * and apply them, all at once or after reviewing each hunk
+   */
+  async execute(resultPath: string, options: ApplyOptions): Promise<void> {
+    try {
+      const resolvedPath = await PathSecurity.resolveSafePath(resultPath, process.cwd(), {
+        mustExist: true,
+        allowedExtensions: ['.json'],
+        requireReadable: true,
+      });
+
+      const result = await fs.readJson(resolvedPath);
+      if (!StructuredOutput.isAgentResult(result)) {
+        throw new ValidationError(`${resultPath} is not a saved agent result`, 'result');
+      }
+
+      const patches = await Patch.plan(result);
+      const written = await new PatchReview().run(patches, { apply: !options.dryRun, review: options.review && !options.dryRun });
+
+      if (patches.length > 0 && !options.dryRun) {
+        console.log(chalk.gray(`\n${written} of ${patches.length} file${patches.length === 1 ? '' : 's'} written`));
+      }
+      if (written < patches.length && !options.dryRun && !options.review) {
+        process.exitCode = 1;
+      }
+    } catch (error) {
+      if (error instanceof PathSecurityError || error instanceof PatchError || error instanceof ValidationError) {
+        console.error(chalk.red('Error:'), error.message);
+      } else {
+        console.error(chalk.red('Error:'), ErrorHandler.sanitizeError(error));
+      }
+      process.exitCode = 1;
+    }
+  }
+}
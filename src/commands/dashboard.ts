@@ -0,0 +1,354 @@
+/**
+ * Live terminal dashboard for Gemini Code Flow
+ * Renders an orchestrator's task DAG, agents, output, rate limits and errors,
+ * in this process or over its control socket
+ */
+
+import chalk from 'chalk';
+import readline from 'readline';
+import { EventEmitter } from 'events';
+import { Orchestrator } from '../core/orchestrator';
+import { ControlClient } from '../core/control-client';
+import { RunMonitor } from '../core/run-monitor';
+import { Agent, RateLimitStats, RateLimitStatus, Task } from '../types';
+import { Logger, LogLevel } from '../utils/logger';
+
+const REFRESH_MS = 1000;
+const RENDER_THROTTLE_MS = 100;
+
+export interface DashboardState {
+  runId: string;
+  isRunning: boolean;
+  isPaused: boolean;
+  tasks: Task[];
+  agents: Agent[];
+  rateLimits: Record<string, RateLimitStatus>;
+}
+
+/**
+ * Where a dashboard gets its data: an orchestrator's events, and a snapshot
+ * of its state read on every refresh
+ */
+export interface DashboardSource {
+  events: EventEmitter;
+  read(): Promise<DashboardState>;
+}
+
+export class Dashboard {
+  private source: DashboardSource;
+  private monitor: RunMonitor = new RunMonitor();
+  private title: string;
+  private state: DashboardState = { runId: '', isRunning: false, isPaused: false, tasks: [], agents: [], rateLimits: {} };
+  private startedAt: Date = new Date();
+  private active: boolean = false;
+  private refreshing: boolean = false;
+  private detach?: () => void;
+  private timer?: NodeJS.Timeout;
+  private renderTimer?: NodeJS.Timeout;
+  private keypressHandler?: (input: string, key: readline.Key) => void;
+
+  constructor(source: DashboardSource, title: string) {
+    this.source = source;
+    this.title = title;
+  }
+
+  /**
+   * Follow an orchestrator running in this process
+   */
+  static local(orchestrator: Orchestrator): DashboardSource {
+    return {
+      events: orchestrator,
+      read: async () => ({
+        runId: orchestrator.getRunId(),
+        ...orchestrator.getStatus(),
+        tasks: orchestrator.getTasks(),
+        agents: orchestrator.getActiveAgents(),
+        rateLimits: orchestrator.getRateLimitStatus(),
+      }),
+    };
+  }
+
+  /**
+   * Follow an orchestrator over its control socket. The client must be
+   * subscribed to the monitored events.
+   */
+  static remote(client: ControlClient): DashboardSource {
+    return {
+      events: client,
+      read: async () => {
+        const [status, agents, rateLimits] = await Promise.all([
+          client.call<Omit<DashboardState, 'agents' | 'rateLimits'>>('getStatus'),
+          client.call<Agent[]>('getAgents'),
+          client.call<Record<string, RateLimitStatus>>('getRateLimits'),
+        ]);
+        return { ...status, agents, rateLimits };
+      },
+    };
+  }
+
+  /**
+   * Start rendering. `onQuit` is called when the user presses q or Ctrl-C.
+   */
+  start(onQuit: () => void): void {
+    if (this.active) return;
+    this.active = true;
+    this.startedAt = new Date();
+
+    this.detach = this.monitor.attach(this.source.events);
+    this.monitor.on('update', () => this.scheduleRender());
+    this.timer = setInterval(() => void this.refresh(), REFRESH_MS);
+    // Log lines would scroll the dashboard off screen; show warnings and errors in it instead
+    Logger.redirect((level, message) => {
+      if (level >= LogLevel.WARN) {
+        this.monitor.addError(message);
+        this.scheduleRender();
+      }
+    });
+    this.listenForKeys(onQuit);
+
+    process.stdout.write('\x1b[?25l');
+    void this.refresh();
+  }
+
+  /**
+   * Stop rendering and give the terminal back
+   */
+  stop(): void {
+    if (!this.active) return;
+
+    this.render();
+    this.active = false;
+    clearInterval(this.timer);
+    clearTimeout(this.renderTimer);
+    this.detach?.();
+    this.monitor.removeAllListeners('update');
+    Logger.redirect();
+
+    if (this.keypressHandler) {
+      process.stdin.off('keypress', this.keypressHandler);
+      process.stdin.setRawMode(false);
+      process.stdin.pause();
+    }
+
+    process.stdout.write('\x1b[?25h\n');
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  /**
+   * Read the orchestrator's state and render it. A refresh still waiting on
+   * the control socket is not overlapped.
+   */
+  private async refresh(): Promise<void> {
+    if (this.refreshing) return;
+    this.refreshing = true;
+
+    try {
+      this.state = await this.source.read();
+      this.monitor.track(this.state.agents);
+    } catch (error) {
+      this.monitor.addError(`Cannot read the orchestrator's state: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      this.refreshing = false;
+    }
+    this.render();
+  }
+
+  private scheduleRender(): void {
+    if (this.renderTimer) return;
+    this.renderTimer = setTimeout(() => {
+      this.renderTimer = undefined;
+      this.render();
+    }, RENDER_THROTTLE_MS);
+  }
+
+  private render(): void {
+    if (!this.active || !process.stdout.isTTY) return;
+
+    const frame = this.buildFrame(process.stdout.columns || 100, process.stdout.rows || 40);
+    process.stdout.write(`\x1b[H\x1b[2J${frame}`);
+  }
+
+  private buildFrame(width: number, height: number): string {
+    const { tasks, runId } = this.state;
+    const completed = tasks.filter(task => task.status === 'completed').length;
+    const state = this.state.isPaused ? chalk.yellow('paused') : this.state.isRunning ? chalk.green('running') : chalk.gray('stopped');
+
+    const header = [
+      chalk.cyan.bold(`⚡ ${this.title}`) +
+        chalk.gray(`  ${runId}  elapsed ${this.formatClock(Date.now() - this.startedAt.getTime())}  `) +
+        state,
+      '',
+    ];
+    const footer = ['', chalk.gray('[↑/↓] select agent  [q] close dashboard')];
+
+    const taskLines = [chalk.bold(`Tasks (${completed}/${tasks.length} completed)`), ...this.renderTasks(tasks)];
+    const agentLines = [chalk.bold(`Active agents (${this.monitor.getActiveAgents().length})`), ...this.renderAgents(tasks)];
+    const limitLines = [chalk.bold('Rate limits'), ...this.renderRateLimits()];
+    const errorLines = [chalk.bold('Recent errors'), ...this.renderErrors()];
+
+    const fixed = header.length + footer.length + agentLines.length + limitLines.length + errorLines.length + 4;
+    const taskBudget = Math.max(4, Math.floor((height - fixed) / 2));
+    const shownTasks = this.limit(taskLines, taskBudget);
+    const outputLines = this.renderOutput(Math.max(3, height - fixed - shownTasks.length));
+
+    return [
+      ...header,
+      ...shownTasks,
+      '',
+      ...agentLines,
+      '',
+      ...outputLines,
+      '',
+      ...limitLines,
+      '',
+      ...errorLines,
+      ...footer,
+    ]
+      .map(line => this.truncate(line, width))
+      .join('\n');
+  }
+
+  private renderTasks(tasks: Task[]): string[] {
+    if (tasks.length === 0) {
+      return [chalk.gray('  No tasks queued')];
+    }
+
+    const byId = new Map(tasks.map(task => [task.id, task]));
+    return RunMonitor.layoutDag(tasks).map(({ task, depth }) => {
+      const indent = depth > 0 ? `${'  '.repeat(depth - 1)}└ ` : '';
+      let detail = '';
+      if (task.status === 'running') {
+        const agent = this.monitor.getActiveAgents().find(active => active.id === task.assignedAgent);
+        detail = agent ? this.formatElapsed(Date.now() - agent.startTime.getTime()) : '';
+      } else if (task.status === 'pending') {
+        const waiting = task.dependencies.filter(id => byId.get(id)?.status !== 'completed');
+        detail = waiting.length > 0 ? `waiting on ${waiting.map(id => this.displayId(id)).join(', ')}` : 'queued';
+      } else if (task.statusReason) {
+        detail = task.statusReason;
+      }
+
+      return `  ${this.statusIcon(task)} ${indent}${chalk.yellow(this.displayId(task.id))} ${chalk.gray(task.mode)} ${task.status} ${chalk.gray(detail)}`;
+    });
+  }
+
+  private renderAgents(tasks: Task[]): string[] {
+    const agents = this.monitor.getActiveAgents();
+    if (agents.length === 0) {
+      return [chalk.gray('  No agents running')];
+    }
+
+    const selected = this.monitor.getSelectedAgent();
+    return agents.map(agent => {
+      const task = tasks.find(candidate => candidate.assignedAgent === agent.id);
+      const marker = agent.id === selected?.id ? chalk.cyan('›') : ' ';
+      return `${marker} 🤖 ${agent.mode.padEnd(14)} ${(task ? this.displayId(task.id) : agent.id).padEnd(24)} ` +
+        chalk.gray(this.formatElapsed(Date.now() - agent.startTime.getTime()));
+    });
+  }
+
+  private renderOutput(maxLines: number): string[] {
+    const agent = this.monitor.getSelectedAgent();
+    if (!agent) {
+      return [chalk.bold('Output'), chalk.gray('  Waiting for an agent to start')];
+    }
+
+    const output = this.monitor.getOutput(agent.id)
+      // eslint-disable-next-line no-control-regex
+      .replace(/\x1b\[[0-9;]*[A-Za-z]|[\x00-\x08\x0B-\x1F\x7F]/g, '');
+    const lines = output.split('\n').slice(-(maxLines - 1)).map(line => `  ${line}`);
+
+    return [
+      chalk.bold(`Output · ${agent.mode} ${chalk.gray(`(${agent.status})`)}`),
+      ...(output.trim() ? lines : [chalk.gray('  No output yet')]),
+    ];
+  }
+
+  private renderRateLimits(): string[] {
+    const usage = Object.entries(this.state.rateLimits);
+    if (usage.length === 0) {
+      return [chalk.gray('  No client-side limits for the providers in use')];
+    }
+
+    return usage.map(([provider, limits]) =>
+      `  ${provider.padEnd(10)} minute ${this.formatUsage(limits.minute)}   day ${this.formatUsage(limits.daily)}`
+    );
+  }
+
+  private renderErrors(): string[] {
+    const errors = this.monitor.getErrors();
+    if (errors.length === 0) {
+      return [chalk.gray('  None')];
+    }
+
+    return errors.map(error => `  ${chalk.gray(error.at.toLocaleTimeString())} ${chalk.red(error.message)}`);
+  }
+
+  private formatUsage(stats: RateLimitStats): string {
+    const ratio = stats.maxRequests > 0 ? Math.min(stats.currentRequests / stats.maxRequests, 1) : 0;
+    const filled = Math.round(ratio * 10);
+    const bar = '█'.repeat(filled) + '░'.repeat(10 - filled);
+    const colour = ratio >= 0.9 ? chalk.red : ratio >= 0.7 ? chalk.yellow : chalk.green;
+    return `${colour(bar)} ${stats.currentRequests}/${stats.maxRequests}`;
+  }
+
+  private listenForKeys(onQuit: () => void): void {
+    if (!process.stdin.isTTY) return;
+
+    readline.emitKeypressEvents(process.stdin);
+    process.stdin.setRawMode(true);
+    process.stdin.resume();
+
+    this.keypressHandler = (_input: string, key: readline.Key) => {
+      if (key?.name === 'q' || (key?.ctrl && key.name === 'c')) {
+        onQuit();
+      } else if (key?.name === 'up' || key?.name === 'k') {
+        this.monitor.selectNext(-1);
+      } else if (key?.name === 'down' || key?.name === 'j' || key?.name === 'tab') {
+        this.monitor.selectNext(1);
+      }
+    };
+    process.stdin.on('keypress', this.keypressHandler);
+  }
+
+  private limit(lines: string[], max: number): string[] {
+    if (lines.length <= max) return lines;
+    return [...lines.slice(0, max - 1), chalk.gray(`  … ${lines.length - max + 1} more`)];
+  }
+
+  private truncate(line: string, width: number): string {
+    // eslint-disable-next-line no-control-regex
+    const visible = line.replace(/\x1b\[[0-9;]*m/g, '');
+    if (visible.length <= width) return line;
+    return `${visible.slice(0, width - 1)}…`;
+  }
+
+  /**
+   * Workflow task ids are prefixed with the run id; show just the step id
+   */
+  private displayId(taskId: string): string {
+    const prefix = `${this.state.runId}-`;
+    return taskId.startsWith(prefix) ? taskId.slice(prefix.length) : taskId;
+  }
+
+  private statusIcon(task: Task): string {
+    switch (task.status) {
+      case 'completed': return chalk.green('✓');
+      case 'running': return chalk.blue('●');
+      case 'pending': return chalk.gray('○');
+      case 'skipped': return chalk.gray('⊘');
+      default: return chalk.red('✗');
+    }
+  }
+
+  private formatElapsed(ms: number): string {
+    return ms < 60000 ? `${Math.floor(ms / 1000)}s` : this.formatClock(ms);
+  }
+
+  private formatClock(ms: number): string {
+    const seconds = Math.floor(ms / 1000);
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * List Command for Gemini Code Flow
+ * Shows every SPARC mode with its effective settings
+ */
+
+import chalk from 'chalk';
+import { ModeRegistry, ResolvedMode } from '../core/mode-registry';
+import { SparcMode } from '../types';
+import { ConfigLoader } from '../utils/config-loader';
+import { ErrorHandler } from '../utils/error-handler';
+
+interface ListOptions {
+  config?: string;
+}
+
+export class ListCommand {
+  async execute(options: ListOptions = {}): Promise<void> {
+    try {
+      const config = await ConfigLoader.load(options.config, { optional: true });
+      const modes = new ModeRegistry(config.modes).list();
+
+      console.log(chalk.cyan('\nAvailable SPARC Development Modes:\n'));
+      modes.filter(mode => !mode.custom).forEach(mode => this.printMode(mode));
+
+      const customModes = modes.filter(mode => mode.custom);
+      if (customModes.length > 0) {
+        console.log(chalk.cyan('\nCustom Modes:\n'));
+        customModes.forEach(mode => this.printMode(mode));
+      }
+
+      if (modes.some(mode => mode.overridden.length > 0)) {
+        console.log(chalk.gray('\n  * overridden in config'));
+      }
+      console.log(chalk.gray('\nExample: gemini-flow sparc architect "Design a REST API"'));
+    } catch (error) {
+      console.error(chalk.red('Error:'), ErrorHandler.sanitizeError(error));
+      process.exitCode = 1;
+    }
+  }
+
+  private printMode(mode: ResolvedMode): void {
+    console.log(`  ${mode.icon} ${chalk.yellow(mode.mode.padEnd(15))} ${mode.description}`);
+    console.log(chalk.gray(`     ${this.formatSettings(mode)}`));
+  }
+
+  private formatSettings(mode: ResolvedMode): string {
+    const mark = (key: keyof SparcMode): string => (mode.overridden.includes(key) ? '*' : '');
+    const settings = [`temperature ${mode.temperature}${mark('temperature')}`];
+
+    if (mode.maxTokens !== undefined) settings.push(`max tokens ${mode.maxTokens}${mark('maxTokens')}`);
+    if (mode.contextTokens !== undefined) settings.push(`context ${mode.contextTokens} tokens${mark('contextTokens')}`);
+    if (mode.model) settings.push(`model ${mode.model}${mark('model')}`);
+    if (mode.provider) settings.push(`provider ${mode.provider}${mark('provider')}`);
+    if (mode.tools && mode.tools.length > 0) settings.push(`tools ${mode.tools.join(', ')}${mark('tools')}`);
+    if (mode.output) settings.push(`output ${mode.output.join(', ')}${mark('output')}`);
+    if (mode.editsFiles) settings.push(`edits files${mark('editsFiles')}`);
+    if (mode.overridden.includes('systemPrompt')) settings.push('custom prompt*');
+
+    return settings.join(', ');
+  }
+}
@@ -0,0 +1,398 @@
+/**
+ * Memory Command for Gemini Code Flow
+ * Inspects, curates and maintains the memory bank
+ */
+
+import chalk from 'chalk';
+import fs from 'fs-extra';
+import ora from 'ora';
+import path from 'path';
+import { MemoryManager, DEFAULT_MEMORY_PATH } from '../core/memory-manager';
+import { StructuredOutput } from '../core/structured-output';
+import { JsonMemoryStore } from '../memory/json-memory-store';
+import { MEMORY_ENTRY_TYPES, MemoryMigration, MigrationResult } from '../memory/memory-migration';
+import { MemoryConsolidator } from '../memory/memory-consolidator';
+import { MockProvider } from '../providers/mock-provider';
+import { DEFAULT_PROVIDER, ProviderRegistry } from '../providers/provider-registry';
+import { ConfigFile, LLMProvider, MemoryEntry, MemoryQuery } from '../types';
+import { ConfigLoader, ProviderOptions } from '../utils/config-loader';
+import { ErrorHandler } from '../utils/error-handler';
+import { Validator, ValidationError } from '../utils/validation';
+
+export const DEFAULT_SQLITE_MEMORY_PATH = '.gemini-flow/memory.db';
+
+const DEFAULT_LIST_LIMIT = 20;
+
+interface MemoryOptions {
+  config?: string;
+}
+
+interface FilterOptions extends MemoryOptions {
+  type?: string;
+  tag?: string;
+  agent?: string;
+  since?: string;
+  until?: string;
+  project?: string;
+  run?: string;
+  pinned?: boolean;
+  limit?: string;
+}
+
+interface MigrateOptions extends MemoryOptions {
+  to?: string;
+}
+
+interface TagOptions extends MemoryOptions {
+  remove?: boolean;
+}
+
+interface ExportOptions extends FilterOptions {
+  force?: boolean;
+}
+
+interface ConsolidateOptions extends MemoryOptions, ProviderOptions {
+  by?: string;
+  minGroup?: string;
+  project?: string;
+  run?: string;
+  dryRun?: boolean;
+}
+
+export class MemoryCommand {
+  /**
+   * List the newest entries matching the filters
+   */
+  async list(options: FilterOptions = {}): Promise<void> {
+    await this.withMemory(options, async memory => {
+      const entries = await memory.list({ ...this.toQuery(options), limit: this.toLimit(options) });
+      this.printEntries(entries, 'No memory entries match');
+    });
+  }
+
+  /**
+   * List entries whose content contains `text`
+   */
+  async search(text: string, options: FilterOptions = {}): Promise<void> {
+    await this.withMemory(options, async memory => {
+      const entries = await memory.list({ ...this.toQuery(options), text, limit: this.toLimit(options) });
+      this.printEntries(entries, `No memory entries contain "${text}"`);
+    });
+  }
+
+  /**
+   * Print one entry in full
+   */
+  async show(id: string, options: MemoryOptions = {}): Promise<void> {
+    await this.withMemory(options, async memory => {
+      const entry = await memory.get(id);
+      if (!entry) {
+        throw new ValidationError(`Unknown memory entry: ${id}`, 'id');
+      }
+
+      console.log(chalk.cyan(`\n🧠 ${entry.id}${entry.pinned ? ' 📌' : ''}\n`));
+      console.log(`  Type:       ${entry.type}`);
+      console.log(`  Agent:      ${entry.agentId}`);
+      console.log(`  Stored:     ${entry.timestamp.toLocaleString()}`);
+      console.log(`  Tags:       ${entry.tags.join(', ') || chalk.gray('none')}`);
+      if (entry.namespace) {
+        const { project, run, task } = entry.namespace;
+        console.log(`  Namespace:  ${[project, run, task].filter(Boolean).join(' / ')}`);
+      }
+      if (entry.sources) {
+        console.log(`  Sources:    ${entry.sources.join(', ')}`);
+      }
+      console.log(`  Embedding:  ${entry.embedding ? entry.embedding.model : chalk.gray('none')}`);
+      console.log(chalk.cyan('\n  Content:\n'));
+      console.log(typeof entry.content === 'string' || StructuredOutput.isAgentResult(entry.content)
+        ? MemoryManager.entryText(entry)
+        : JSON.stringify(entry.content, null, 2));
+      console.log('');
+    });
+  }
+
+  async delete(ids: string[], options: MemoryOptions = {}): Promise<void> {
+    await this.withMemory(options, async memory => {
+      const deleted = await memory.delete(ids);
+      console.log(chalk.green(`✓ Deleted ${deleted} of ${ids.length} entries`));
+      if (deleted < ids.length) {
+        console.log(chalk.yellow('  Some ids were not found'));
+      }
+    });
+  }
+
+  /**
+   * Pin entries so retention never removes them, or unpin them
+   */
+  async pin(ids: string[], pinned: boolean, options: MemoryOptions = {}): Promise<void> {
+    await this.withMemory(options, async memory => {
+      const found = await memory.pin(ids, pinned);
+      const missing = ids.filter(id => !found.includes(id));
+
+      console.log(chalk.green(`✓ ${pinned ? 'Pinned' : 'Unpinned'} ${found.length} entries`));
+      if (missing.length > 0) {
+        throw new ValidationError(`Unknown memory entries: ${missing.join(', ')}`, 'id');
+      }
+    });
+  }
+
+  /**
+   * Add tags to an entry, or remove them with --remove
+   */
+  async tag(id: string, tags: string[], options: TagOptions = {}): Promise<void> {
+    await this.withMemory(options, async memory => {
+      const entry = await memory.tag(id, options.remove ? { remove: tags } : { add: tags });
+      if (!entry) {
+        throw new ValidationError(`Unknown memory entry: ${id}`, 'id');
+      }
+      console.log(chalk.green(`✓ ${entry.id} tags: ${entry.tags.join(', ') || 'none'}`));
+    });
+  }
+
+  /**
+   * Write matching entries to a JSON memory file, which `import` and `migrate` read
+   */
+  async export(file: string, options: ExportOptions = {}): Promise<void> {
+    await this.withMemory(options, async (memory, memoryPath) => {
+      const target = path.resolve(file);
+      if (target === path.resolve(memoryPath)) {
+        throw new ValidationError('Cannot export the memory bank onto itself', 'file');
+      }
+      if (!options.force && await fs.pathExists(target)) {
+        throw new ValidationError(`${file} already exists (use --force to overwrite it)`, 'file');
+      }
+
+      const entries = await memory.export(this.toQuery(options));
+      await fs.outputJson(target, JsonMemoryStore.serialize(entries), { spaces: 2 });
+      console.log(chalk.green(`✓ Exported ${entries.length} entries to ${file}`));
+    });
+  }
+
+  /**
+   * Add the entries of a JSON memory file to the memory bank
+   */
+  async import(file: string, options: MemoryOptions = {}): Promise<void> {
+    await this.withMemory(options, async memory => {
+      const result = await memory.importJson(file);
+      console.log(chalk.green(`✓ Imported ${result.imported} entries from ${file}`));
+      this.printSkipped(result);
+    });
+  }
+
+  async stats(options: MemoryOptions = {}): Promise<void> {
+    await this.withMemory(options, async (memory, memoryPath) => {
+      const stats = await memory.stats();
+      const top = (counts: Record<string, number>, limit: number = 10): string =>
+        Object.entries(counts)
+          .sort((a, b) => b[1] - a[1])
+          .slice(0, limit)
+          .map(([name, count]) => `${name} (${count})`)
+          .join(', ') || chalk.gray('none');
+
+      console.log(chalk.cyan('\n🧠 Memory Bank\n'));
+      console.log(`  Path:        ${memoryPath} (${stats.backend})`);
+      console.log(`  Entries:     ${stats.total}`);
+      console.log(`  Pinned:      ${stats.pinned}`);
+      if (stats.oldest && stats.newest) {
+        console.log(`  Stored:      ${stats.oldest.toLocaleString()} - ${stats.newest.toLocaleString()}`);
+      }
+      console.log(`  Types:       ${top(stats.byType)}`);
+      console.log(`  Top tags:    ${top(stats.byTag)}`);
+      console.log(`  Embeddings:  ${top(stats.byEmbeddingModel)}`);
+      console.log('');
+    });
+  }
+
+  /**
+   * Condense groups of related entries into knowledge and decision entries
+   */
+  async consolidate(options: ConsolidateOptions = {}): Promise<void> {
+    await this.withMemory(options, async (memory, _memoryPath, config) => {
+      const settings = Validator.validateMemoryConsolidation({
+        ...config.memoryConsolidation,
+        ...(options.by !== undefined ? { groupBy: options.by } : {}),
+        ...(options.minGroup !== undefined ? { minGroupSize: Number(options.minGroup) } : {}),
+      });
+      const scope = options.project || options.run
+        ? { project: options.project, runs: options.run ? [options.run] : undefined }
+        : undefined;
+
+      const consolidator = new MemoryConsolidator(
+        // A dry run never asks the model, so it needs no credentials
+        options.dryRun ? new MockProvider() : this.createProvider(config, options, settings.provider),
+        settings
+      );
+      if (options.dryRun) {
+        const { groups } = await memory.consolidate(consolidator, { scope, dryRun: true });
+        if (groups.length === 0) {
+          console.log(chalk.yellow(`No groups of ${consolidator.minGroupSize} or more entries to consolidate`));
+          return;
+        }
+        console.log(chalk.cyan('\n🧠 Groups to consolidate\n'));
+        groups.forEach(group => console.log(`  ${group.key}: ${group.entries.length} entries`));
+        console.log('');
+        return;
+      }
+
+      const spinner = ora('Consolidating memory...').start();
+      const result = await memory.consolidate(consolidator, { scope });
+      if (result.groups.length === 0) {
+        spinner.info(`No groups of ${consolidator.minGroupSize} or more entries to consolidate`);
+        return;
+      }
+      spinner.succeed(
+        `Condensed ${result.consolidated} entries from ${result.groups.length - result.failed.length} groups ` +
+        `into ${result.created.length} entries`
+      );
+
+      this.printEntries(result.created, 'Nothing in the condensed entries was worth keeping');
+      if (result.failed.length > 0) {
+        result.failed.forEach(failure => console.log(chalk.yellow(`  ${failure.key}: ${failure.error}`)));
+        throw new Error(`${result.failed.length} groups could not be consolidated`);
+      }
+    });
+  }
+
+  /**
+   * Import a JSON memory file into a SQLite database
+   */
+  async migrate(source: string, options: MigrateOptions = {}): Promise<void> {
+    try {
+      const config = await ConfigLoader.load(options.config, { optional: true });
+      const configured = config.memoryPath && MemoryManager.inferBackendType(config.memoryPath) === 'sqlite'
+        ? config.memoryPath
+        : undefined;
+      const target = path.resolve(options.to || configured || DEFAULT_SQLITE_MEMORY_PATH);
+
+      if (MemoryManager.inferBackendType(target) !== 'sqlite') {
+        throw new Error(`Migration target must be a SQLite database (.db, .sqlite or .sqlite3): ${target}`);
+      }
+      if (path.resolve(source) === target) {
+        throw new Error('Migration source and target are the same file');
+      }
+
+      const spinner = ora(`Importing ${source} into ${target}...`).start();
+      const backend = MemoryManager.createBackend(target, 'sqlite');
+
+      try {
+        await backend.initialize();
+        const result = await MemoryMigration.importJson(source, backend);
+        spinner.succeed(`Imported ${result.imported} entries into ${target}`);
+
+        this.printSkipped(result);
+        if (!configured || path.resolve(configured) !== target) {
+          console.log(chalk.gray(`\nSet "memoryPath": "${path.relative(process.cwd(), target)}" in .gemini-flow.json to use it.`));
+        }
+      } catch (error) {
+        spinner.fail('Migration failed');
+        throw error;
+      } finally {
+        await backend.close();
+      }
+    } catch (error) {
+      console.error(chalk.red('Error:'), ErrorHandler.sanitizeError(error));
+      process.exitCode = 1;
+    }
+  }
+
+  /**
+   * Open the configured memory bank for `action` and close it afterwards
+   */
+  private async withMemory(
+    options: MemoryOptions,
+    action: (memory: MemoryManager, memoryPath: string, config: ConfigFile) => Promise<void>
+  ): Promise<void> {
+    try {
+      const config = await ConfigLoader.load(options.config, { optional: true });
+      const memory = MemoryManager.fromConfig(config);
+      await memory.initialize();
+
+      try {
+        await action(memory, config.memoryPath || DEFAULT_MEMORY_PATH, config);
+      } finally {
+        await memory.close();
+      }
+    } catch (error) {
+      console.error(chalk.red('Error:'), ErrorHandler.sanitizeError(error));
+      process.exitCode = 1;
+    }
+  }
+
+  /**
+   * Provider named on the command line, else the one configured for consolidation, else the default
+   */
+  private createProvider(config: ConfigFile, options: ProviderOptions, configured?: string): LLMProvider {
+    const providerConfig = ConfigLoader.applyProviderOptions(config, options);
+    const apiKey = providerConfig.apiKey || process.env.GEMINI_API_KEY;
+    const providers = new ProviderRegistry({ ...providerConfig, apiKey });
+
+    const name = options.provider || configured || providers.getProviderName();
+    if (name === DEFAULT_PROVIDER && !apiKey) {
+      throw new Error('GEMINI_API_KEY environment variable is required');
+    }
+    return providers.get(name);
+  }
+
+  private toQuery(options: FilterOptions): MemoryQuery {
+    const types = options.type ? this.splitList(options.type) : undefined;
+    const unknown = types?.filter(type => !MEMORY_ENTRY_TYPES.includes(type as MemoryEntry['type']));
+    if (unknown && unknown.length > 0) {
+      throw new ValidationError(`Unknown entry type(s): ${unknown.join(', ')}. Use: ${MEMORY_ENTRY_TYPES.join(', ')}`, 'type');
+    }
+
+    return {
+      types: types as Array<MemoryEntry['type']> | undefined,
+      tags: options.tag ? this.splitList(options.tag) : undefined,
+      agentId: options.agent,
+      since: options.since !== undefined ? Validator.validateDate(options.since, 'since') : undefined,
+      until: options.until !== undefined ? Validator.validateDate(options.until, 'until') : undefined,
+      scope: options.project || options.run
+        ? { project: options.project, runs: options.run ? [options.run] : undefined }
+        : undefined,
+      pinned: options.pinned || undefined,
+    };
+  }
+
+  private toLimit(options: FilterOptions): number {
+    if (options.limit === undefined) return DEFAULT_LIST_LIMIT;
+
+    const limit = Number(options.limit);
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new ValidationError('Limit must be a positive integer', 'limit');
+    }
+    return limit;
+  }
+
+  private splitList(value: string): string[] {
+    return value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+  }
+
+  private printEntries(entries: MemoryEntry[], emptyMessage: string): void {
+    if (entries.length === 0) {
+      console.log(chalk.yellow(emptyMessage));
+      return;
+    }
+
+    console.log('');
+    for (const entry of entries) {
+      const summary = MemoryManager.entryText(entry).replace(/\s+/g, ' ').trim();
+      console.log(
+        `  ${chalk.yellow(entry.id)} ${chalk.gray(entry.timestamp.toLocaleString())}  ` +
+        `${entry.type.padEnd(9)} ${entry.pinned ? '📌 ' : ''}${summary.length > 60 ? `${summary.slice(0, 57)}...` : summary}`
+      );
+      if (entry.tags.length > 0) {
+        console.log(chalk.gray(`    tags: ${entry.tags.join(', ')}`));
+      }
+    }
+    console.log(chalk.gray(`\n${entries.length} entries. Show one with: gemini-flow memory show <id>`));
+  }
+
+  private printSkipped(result: MigrationResult): void {
+    if (result.skipped > 0) {
+      console.log(chalk.gray(`  ${result.skipped} entries were already present`));
+    }
+    if (result.invalid > 0) {
+      console.log(chalk.yellow(`  ${result.invalid} invalid entries were ignored`));
+    }
+  }
+}
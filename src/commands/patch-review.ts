@@ -0,0 +1,137 @@
+/**
+ * Patch Review for Gemini Code Flow
+ * Previews file edits from agent results as diffs and applies them, all at once or hunk by hunk
+ */
+
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import { FilePatch, Patch, PatchHunk } from '../core/patch';
+import { ErrorHandler } from '../utils/error-handler';
+
+export interface PatchReviewOptions {
+  /** Apply every hunk without asking */
+  apply?: boolean;
+  /** Ask about each hunk before applying it */
+  review?: boolean;
+}
+
+type HunkAnswer = 'yes' | 'no' | 'file' | 'skip-file' | 'quit';
+
+export class PatchReview {
+  private print: (line: string) => void;
+
+  constructor(print: (line: string) => void = console.log) {
+    this.print = print;
+  }
+
+  /**
+   * Show the patches and apply the ones accepted. Returns the number of files written.
+   */
+  async run(patches: FilePatch[], options: PatchReviewOptions): Promise<number> {
+    if (patches.length === 0) {
+      this.print(chalk.gray('\nNo file changes in the result.'));
+      return 0;
+    }
+
+    if (options.review) {
+      return this.review(patches);
+    }
+
+    this.print(chalk.cyan(`\n📝 ${patches.length} file${patches.length === 1 ? '' : 's'} changed:\n`));
+    patches.forEach(patch => this.printPatch(patch));
+
+    return options.apply ? this.write(patches.map(patch => ({ patch, hunks: patch.hunks }))) : 0;
+  }
+
+  private async review(patches: FilePatch[]): Promise<number> {
+    const accepted: Array<{ patch: FilePatch; hunks: PatchHunk[] }> = [];
+
+    review: for (const patch of patches) {
+      const hunks: PatchHunk[] = [];
+      let acceptRest = false;
+
+      for (const [i, hunk] of patch.hunks.entries()) {
+        if (acceptRest) {
+          hunks.push(hunk);
+          continue;
+        }
+
+        this.print('');
+        this.print(chalk.bold(`${patch.path}${patch.original === undefined ? ' (new file)' : ''} - hunk ${i + 1} of ${patch.hunks.length}`));
+        this.printHunk(hunk);
+
+        const answer = await this.ask();
+        if (answer === 'quit') {
+          if (hunks.length > 0) accepted.push({ patch, hunks });
+          break review;
+        }
+        if (answer === 'skip-file') break;
+        if (answer === 'yes' || answer === 'file') hunks.push(hunk);
+        acceptRest = answer === 'file';
+      }
+
+      if (hunks.length > 0) {
+        accepted.push({ patch, hunks });
+      }
+    }
+
+    return this.write(accepted);
+  }
+
+  private async ask(): Promise<HunkAnswer> {
+    const { answer } = await inquirer.prompt<{ answer: HunkAnswer }>([{
+      type: 'expand',
+      name: 'answer',
+      message: 'Apply this hunk?',
+      choices: [
+        { key: 'y', name: 'Apply this hunk', value: 'yes' },
+        { key: 'n', name: 'Skip this hunk', value: 'no' },
+        { key: 'a', name: 'Apply this hunk and the rest of the file', value: 'file' },
+        { key: 'd', name: 'Skip the rest of the file', value: 'skip-file' },
+        { key: 'q', name: 'Stop reviewing (hunks already accepted are applied)', value: 'quit' },
+      ],
+    }]);
+    return answer;
+  }
+
+  /**
+   * Write each file, carrying on past files that fail
+   */
+  private async write(accepted: Array<{ patch: FilePatch; hunks: PatchHunk[] }>): Promise<number> {
+    let written = 0;
+
+    this.print('');
+    for (const { patch, hunks } of accepted) {
+      try {
+        await Patch.write(patch, hunks);
+        written++;
+        const partial = hunks.length < patch.hunks.length ? ` (${hunks.length} of ${patch.hunks.length} hunks)` : '';
+        this.print(chalk.green(`✓ ${patch.original === undefined ? 'Created' : 'Updated'} ${patch.path}${partial}`));
+      } catch (error) {
+        this.print(chalk.red(`✗ ${patch.path}: ${ErrorHandler.sanitizeError(error)}`));
+      }
+    }
+
+    if (accepted.length === 0) {
+      this.print(chalk.gray('No changes applied.'));
+    }
+    return written;
+  }
+
+  private printPatch(patch: FilePatch): void {
+    const lines = Patch.format(patch).split('\n');
+    this.print(chalk.bold(lines[0]));
+    this.print(chalk.bold(lines[1]));
+    patch.hunks.forEach(hunk => this.printHunk(hunk));
+    this.print('');
+  }
+
+  private printHunk(hunk: PatchHunk): void {
+    this.print(chalk.cyan(Patch.formatHunkHeader(hunk)));
+    for (const line of hunk.lines) {
+      if (line[0] === '+') this.print(chalk.green(line));
+      else if (line[0] === '-') this.print(chalk.red(line));
+      else this.print(line);
+    }
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * Interactive REPL for Gemini Code Flow
+ * Submits and manages tasks on a running Orchestrator
+ */
+
+import chalk from 'chalk';
+import { Orchestrator } from '../core/orchestrator';
+import { Task } from '../types';
+import { ReplParser } from '../utils/repl-parser';
+import { ValidationError } from '../utils/validation';
+import { ErrorHandler } from '../utils/error-handler';
+
+const HELP = [
+  ['add <mode> "<description>"', 'Queue a task (--after <id>[,<id>] --priority low|medium|high --id <id>)'],
+  ['tasks', 'List every task and its status'],
+  ['inspect <id>', 'Show a task\'s details and attempt history'],
+  ['output <id>', 'Show the output an agent produced for a task'],
+  ['cancel <id>', 'Cancel a pending or running task'],
+  ['pause', 'Stop starting new tasks (running agents finish)'],
+  ['resume', 'Start queued tasks again'],
+  ['wait [id...]', 'Wait until the given tasks (or all tasks) finish'],
+  ['status', 'Show orchestrator status'],
+  ['help', 'Show this help'],
+  ['exit', 'Stop the orchestrator and quit'],
+];
+
+export class Repl {
+  private orchestrator: Orchestrator;
+  private print: (line: string) => void;
+
+  constructor(orchestrator: Orchestrator, print: (line: string) => void = console.log) {
+    this.orchestrator = orchestrator;
+    this.print = print;
+  }
+
+  /**
+   * Run one command line. Returns false once the user asks to exit.
+   */
+  async execute(line: string): Promise<boolean> {
+    try {
+      const [command, ...args] = ReplParser.tokenize(line);
+
+      switch (command) {
+        case undefined:
+          break;
+        case 'add':
+          await this.addTask(args);
+          break;
+        case 'tasks':
+        case 'ls':
+          this.listTasks();
+          break;
+        case 'inspect':
+          this.inspectTask(this.requireTask(args[0]));
+          break;
+        case 'output':
+          this.showOutput(this.requireTask(args[0]));
+          break;
+        case 'cancel':
+          await this.cancelTask(this.requireTask(args[0]));
+          break;
+        case 'pause':
+          this.orchestrator.pause();
+          this.print(chalk.yellow('⏸  Paused - running agents will finish, queued tasks wait'));
+          break;
+        case 'resume':
+          this.orchestrator.resume();
+          this.print(chalk.green('▶  Resumed'));
+          break;
+        case 'wait':
+          await this.waitForTasks(args);
+          break;
+        case 'status':
+          this.showStatus();
+          break;
+        case 'help':
+          this.printHelp();
+          break;
+        case 'exit':
+        case 'quit':
+          return false;
+        default:
+          this.print(chalk.red(`Unknown command: ${command}. Type "help" for a list of commands.`));
+      }
+    } catch (error) {
+      this.print(chalk.red(`Error: ${ErrorHandler.sanitizeError(error)}`));
+    }
+
+    return true;
+  }
+
+  private async addTask(args: string[]): Promise<void> {
+    const task = await this.orchestrator.submitTask(ReplParser.parseAddTask(args));
+    const after = task.dependencies.length > 0 ? chalk.gray(` after ${task.dependencies.join(', ')}`) : '';
+    this.print(chalk.green(`+ ${task.id}`) + ` ${task.mode} (${task.priority})${after}`);
+  }
+
+  private listTasks(): void {
+    const tasks = this.orchestrator.getTasks();
+    if (tasks.length === 0) {
+      this.print(chalk.gray('No tasks yet. Add one with: add coder "Write a slugify helper"'));
+      return;
+    }
+
+    for (const task of tasks) {
+      const description = task.description.length > 50 ? `${task.description.slice(0, 47)}...` : task.description;
+      this.print(
+        `  ${this.statusIcon(task)} ${chalk.yellow(task.id.padEnd(20))} ${task.status.padEnd(10)} ` +
+        `${task.mode.padEnd(14)} ${description}`
+      );
+    }
+  }
+
+  private inspectTask(task: Task): void {
+    this.print(chalk.cyan(`\n${task.id}`));
+    this.print(`  Status:       ${task.status}${task.statusReason ? chalk.gray(` (${task.statusReason})`) : ''}`);
+    this.print(`  Mode:         ${task.mode}`);
+    this.print(`  Priority:     ${task.priority}`);
+    this.print(`  Depends on:   ${task.dependencies.length > 0 ? task.dependencies.join(', ') : '-'}`);
+    this.print(`  Agent:        ${task.assignedAgent || '-'}`);
+    this.print(`  Attempts:     ${task.attempts || 0}`);
+    this.print(`  Description:  ${task.description}`);
+
+    for (const attempt of task.history || []) {
+      const duration = attempt.endedAt.getTime() - attempt.startedAt.getTime();
+      const error = attempt.error ? chalk.gray(` - ${attempt.error}`) : '';
+      this.print(`    #${attempt.attempt} ${attempt.status} in ${duration}ms${error}`);
+    }
+    this.print('');
+  }
+
+  private showOutput(task: Task): void {
+    if (task.result === undefined) {
+      this.print(chalk.gray(`${task.id} has no output yet (${task.status})`));
+      return;
+    }
+    this.print(chalk.cyan(`\n📋 ${task.id} (${task.mode})\n`));
+    this.print(task.result);
+    this.print('');
+  }
+
+  private async cancelTask(task: Task): Promise<void> {
+    if (await this.orchestrator.cancelTask(task.id)) {
+      this.print(chalk.yellow(`✗ Cancelled ${task.id}`));
+    } else {
+      this.print(chalk.gray(`${task.id} has already finished (${task.status})`));
+    }
+  }
+
+  private async waitForTasks(ids: string[]): Promise<void> {
+    ids.forEach(id => this.requireTask(id));
+    const tasks = await this.orchestrator.waitForCompletion(ids.length > 0 ? ids : undefined);
+    const completed = tasks.filter(task => task.status === 'completed').length;
+    this.print(chalk.cyan(`${completed}/${tasks.length} task(s) completed`));
+  }
+
+  private showStatus(): void {
+    const status = this.orchestrator.getStatus();
+    const state = status.isPaused ? chalk.yellow('paused') : status.isRunning ? chalk.green('running') : chalk.red('stopped');
+
+    this.print(`  State:          ${state}`);
+    this.print(`  Active agents:  ${status.activeAgents}`);
+    this.print(`  Queued tasks:   ${status.pendingTasks}`);
+    this.print(`  Completed:      ${status.completedAgents}`);
+    this.print(`  Failed:         ${status.failedAgents}`);
+    this.print(`  Cancelled:      ${status.cancelledTasks}`);
+  }
+
+  private printHelp(): void {
+    this.print(chalk.cyan('\nCommands:\n'));
+    for (const [usage, description] of HELP) {
+      this.print(`  ${chalk.yellow(usage.padEnd(30))} ${description}`);
+    }
+    this.print('');
+  }
+
+  private requireTask(id: string | undefined): Task {
+    if (!id) {
+      throw new ValidationError('A task id is required', 'id');
+    }
+    const task = this.orchestrator.getTask(id);
+    if (!task) {
+      throw new ValidationError(`Unknown task: ${id}`, 'id');
+    }
+    return task;
+  }
+
+
+  private statusIcon(task: Task): string {
+    switch (task.status) {
+      case 'completed': return chalk.green('✓');
+      case 'running': return chalk.blue('●');
+      case 'pending': return chalk.gray('○');
+      default: return chalk.red('✗');
+    }
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Resume Command for Gemini Code Flow
+ * Continues an interrupted run from its on-disk journal
+ */
+
+import chalk from 'chalk';
+import { Orchestrator } from '../core/orchestrator';
+import { RunJournal, RunState, DEFAULT_RUNS_DIR } from '../core/run-journal';
+import { ConfigFile, Task } from '../types';
+import { ConfigLoader, MemoryOptions } from '../utils/config-loader';
+import { ErrorHandler } from '../utils/error-handler';
+
+interface ResumeOptions extends MemoryOptions {
+  config?: string;
+  list?: boolean;
+}
+
+const TERMINAL_STATUSES = ['completed', 'failed', 'skipped', 'cancelled', 'timed_out'];
+
+export class ResumeCommand {
+  async execute(runId: string | undefined, options: ResumeOptions): Promise<void> {
+    try {
+      const config = ConfigLoader.applyMemoryOptions(await ConfigLoader.load(options.config), options);
+      const statePath = config.statePath || DEFAULT_RUNS_DIR;
+
+      if (options.list) {
+        await this.listRuns(statePath);
+        return;
+      }
+
+      const targetRunId = runId || (await RunJournal.listRuns(statePath))[0]?.runId;
+      if (!targetRunId) {
+        console.log(chalk.yellow(`No runs found in ${statePath}`));
+        return;
+      }
+
+      const state = await RunJournal.load(targetRunId, statePath);
+      const unfinished = state.tasks.filter(task => !TERMINAL_STATUSES.includes(task.status));
+
+      this.printState(state, unfinished);
+
+      if (unfinished.length === 0) {
+        console.log(chalk.green('Nothing to resume - every task has already finished.'));
+        return;
+      }
+
+      await this.resumeRun(state, { ...config, runId: state.runId, runLabel: state.label, statePath });
+    } catch (error) {
+      console.error(chalk.red('Error:'), ErrorHandler.sanitizeError(error));
+      process.exitCode = 1;
+    }
+  }
+
+  private async resumeRun(state: RunState, config: ConfigFile): Promise<void> {
+    const orchestrator = new Orchestrator(config);
+
+    orchestrator.on('agentSpawned', (agent) => {
+      console.log(chalk.blue(`🤖 ${agent.mode} agent started`));
+    });
+
+    orchestrator.on('taskCompleted', (task: Task) => {
+      if (task.status === 'completed') {
+        console.log(chalk.green(`✓ Task ${task.id} completed`));
+      } else {
+        console.log(chalk.red(`✗ Task ${task.id} ${task.status}`));
+      }
+    });
+
+    await orchestrator.start();
+
+    try {
+      await orchestrator.restore(state.tasks);
+
+      const settled = await orchestrator.waitForCompletion(state.tasks.map(task => task.id));
+      this.printSummary(settled);
+
+      if (settled.some(task => task.status !== 'completed')) {
+        process.exitCode = 1;
+      }
+    } finally {
+      await orchestrator.stop();
+    }
+  }
+
+  private async listRuns(statePath: string): Promise<void> {
+    const runs = await RunJournal.listRuns(statePath);
+    if (runs.length === 0) {
+      console.log(chalk.yellow(`No runs found in ${statePath}`));
+      return;
+    }
+
+    console.log(chalk.cyan('\n📜 Recorded Runs\n'));
+    for (const run of runs) {
+      const state = await RunJournal.load(run.runId, statePath);
+      const done = state.tasks.filter(task => task.status === 'completed').length;
+      const label = run.label ? chalk.gray(` ${run.label}`) : '';
+      console.log(
+        `  ${chalk.yellow(run.runId.padEnd(24))} ${run.startedAt.toLocaleString()}  ` +
+        `${done}/${state.tasks.length} completed${label}`
+      );
+    }
+    console.log(chalk.gray('\nExample: gemini-flow resume <runId>'));
+  }
+
+  private printState(state: RunState, unfinished: Task[]): void {
+    const completed = state.tasks.filter(task => task.status === 'completed').length;
+    const interrupted = unfinished.filter(task => task.status === 'running').length;
+
+    console.log(chalk.cyan(`\n⏯  Resuming run ${state.runId}${state.label ? ` (${state.label})` : ''}`));
+    console.log(chalk.gray(`  Started: ${state.startedAt.toLocaleString()}`));
+    console.log(`  ${chalk.green(String(completed))} completed, will be skipped`);
+    console.log(`  ${chalk.yellow(String(interrupted))} interrupted while running, will be retried`);
+    console.log(`  ${chalk.blue(String(unfinished.length - interrupted))} still pending\n`);
+  }
+
+  private printSummary(tasks: Task[]): void {
+    console.log(chalk.cyan('\n📋 Run Summary\n'));
+
+    for (const task of tasks) {
+      const reason = task.statusReason ? chalk.gray(` (${task.statusReason})`) : '';
+      const icon = task.status === 'completed'
+        ? chalk.green('✓')
+        : task.status === 'failed' ? chalk.red('✗') : chalk.gray('○');
+      console.log(`  ${icon} ${task.id.padEnd(30)} ${task.status}${reason}`);
+    }
+    console.log();
+  }
+}
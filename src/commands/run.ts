@@ -0,0 +1,189 @@
+/**
+ * Run Command for Gemini Code Flow
+ * Executes declarative multi-step SPARC workflows through the Orchestrator
+ */
+
+import chalk from 'chalk';
+import fs from 'fs-extra';
+import { Orchestrator } from '../core/orchestrator';
+import { WorkflowLoader } from '../core/workflow';
+import { ModeRegistry } from '../core/mode-registry';
+import { Dashboard } from './dashboard';
+import { DEFAULT_RUNS_DIR } from '../core/run-journal';
+import { ConfigFile, Task, Workflow } from '../types';
+import { ConfigLoader, MemoryOptions, ProviderOptions, WorkspaceOptions } from '../utils/config-loader';
+import { ValidationError } from '../utils/validation';
+import { PathSecurity, PathSecurityError } from '../utils/path-security';
+import { ErrorHandler } from '../utils/error-handler';
+
+interface RunOptions extends ProviderOptions, MemoryOptions, WorkspaceOptions {
+  config?: string;
+  dryRun?: boolean;
+  watch?: boolean;
+}
+
+export class RunCommand {
+  async execute(workflowPath: string, options: RunOptions): Promise<void> {
+    try {
+      const resolvedPath = await PathSecurity.resolveSafePath(workflowPath, process.cwd(), {
+        mustExist: true,
+        allowedExtensions: ['.yml', '.yaml', '.json'],
+        requireReadable: true,
+      });
+
+      const config = ConfigLoader.applyMemoryOptions(
+        ConfigLoader.applyProviderOptions(await ConfigLoader.load(options.config, { optional: true }), options),
+        options
+      );
+      const workflow = await WorkflowLoader.load(resolvedPath, new ModeRegistry(config.modes).getCustomModes());
+      const runId = `run-${Date.now()}`;
+      const tasks = WorkflowLoader.toTasks(workflow, runId);
+      const workspace = ConfigLoader.workspaceFromOptions(options);
+      for (const task of tasks) {
+        task.workspace = workspace;
+      }
+
+      this.printPlan(workflow, tasks);
+
+      if (options.dryRun) {
+        return;
+      }
+
+      await this.runWorkflow(workflow, tasks, runId, config, options.watch);
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof PathSecurityError) {
+        console.log(chalk.red(`Workflow Error: ${error.message}`));
+      } else {
+        console.error(chalk.red('Error:'), ErrorHandler.sanitizeError(error));
+      }
+      process.exitCode = 1;
+    }
+  }
+
+  private async runWorkflow(
+    workflow: Workflow,
+    tasks: Task[],
+    runId: string,
+    config: ConfigFile,
+    watch: boolean = false
+  ): Promise<void> {
+    const orchestrator = new Orchestrator({
+      ...config,
+      runId,
+      runLabel: workflow.name,
+      statePath: config.statePath || DEFAULT_RUNS_DIR,
+    });
+    const stepIds = new Map(tasks.map((task, index) => [task.id, workflow.steps[index].id]));
+    const dashboard = watch ? new Dashboard(Dashboard.local(orchestrator), workflow.name) : undefined;
+    // The dashboard shows these itself
+    const log = (line: string) => {
+      if (!dashboard?.isActive()) console.log(line);
+    };
+
+    orchestrator.on('agentSpawned', (agent) => {
+      log(chalk.blue(`🤖 ${agent.mode} agent started`));
+    });
+
+    orchestrator.on('taskSkipped', (task: Task) => {
+      log(chalk.gray(`○ Step ${stepIds.get(task.id) || task.id} skipped: ${task.statusReason}`));
+    });
+
+    orchestrator.on('taskCompleted', (task: Task) => {
+      const stepId = stepIds.get(task.id) || task.id;
+      if (task.status === 'completed') {
+        log(chalk.green(`✓ Step ${stepId} completed`));
+      } else {
+        log(chalk.red(`✗ Step ${stepId} ${task.status}`));
+      }
+    });
+
+    await orchestrator.start();
+
+    try {
+      for (const task of tasks) {
+        await orchestrator.addTask(task);
+      }
+
+      console.log(chalk.gray(`Run ID: ${runId} (resume with: gemini-flow resume ${runId})\n`));
+
+      dashboard?.start(() => {
+        dashboard.stop();
+        console.log(chalk.gray('Dashboard closed - the run continues (Ctrl-C to stop, then resume it later)'));
+      });
+
+      const settled = await orchestrator.waitForCompletion(tasks.map(task => task.id));
+      dashboard?.stop();
+      await this.saveResults(workflow, runId, settled, stepIds);
+      this.printSummary(settled, stepIds);
+
+      if (settled.some(task => task.status !== 'completed')) {
+        process.exitCode = 1;
+      }
+    } finally {
+      dashboard?.stop();
+      await orchestrator.stop();
+    }
+  }
+
+  private printPlan(workflow: Workflow, tasks: Task[]): void {
+    console.log(chalk.cyan(`\n⚡ Workflow: ${workflow.name}`));
+    if (workflow.description) {
+      console.log(chalk.gray(`  ${workflow.description}`));
+    }
+    console.log();
+
+    workflow.steps.forEach((step, index) => {
+      const deps = step.dependsOn && step.dependsOn.length > 0
+        ? chalk.gray(` (after ${step.dependsOn.join(', ')})`)
+        : '';
+      console.log(`  ${index + 1}. ${chalk.yellow(step.id.padEnd(15))} ${step.mode}${deps}`);
+    });
+
+    console.log(chalk.gray(`\n  ${tasks.length} step(s) queued\n`));
+  }
+
+  private async saveResults(
+    workflow: Workflow,
+    runId: string,
+    tasks: Task[],
+    stepIds: Map<string, string>
+  ): Promise<void> {
+    const outputDir = await PathSecurity.ensureSafeDirectory('.gemini-flow');
+
+    for (const task of tasks) {
+      if (task.result === undefined) continue;
+
+      const stepId = stepIds.get(task.id) || task.id;
+      const outputPath = PathSecurity.createSafeOutputPath(
+        outputDir,
+        `${workflow.name}-${runId}-${stepId}`,
+        '.md'
+      );
+      await fs.writeFile(outputPath, `# ${stepId} (${task.mode})\n\n${task.result}`);
+
+      if (task.output) {
+        const jsonPath = PathSecurity.createSafeOutputPath(outputDir, `${workflow.name}-${runId}-${stepId}`, '.json');
+        await fs.writeJson(jsonPath, task.output, { spaces: 2 });
+      }
+    }
+
+    console.log(chalk.gray(`\n💾 Step results saved to: ${outputDir}`));
+  }
+
+  private printSummary(tasks: Task[], stepIds: Map<string, string>): void {
+    console.log(chalk.cyan('\n📋 Workflow Summary\n'));
+
+    for (const task of tasks) {
+      const stepId = (stepIds.get(task.id) || task.id).padEnd(15);
+      const reason = task.statusReason ? chalk.gray(` (${task.statusReason})`) : '';
+      if (task.status === 'completed') {
+        console.log(`  ${chalk.green('✓')} ${stepId} completed`);
+      } else if (task.status === 'failed') {
+        console.log(`  ${chalk.red('✗')} ${stepId} failed${reason}`);
+      } else {
+        console.log(`  ${chalk.gray('○')} ${stepId} ${task.status}${reason}`);
+      }
+    }
+    console.log();
+  }
+}
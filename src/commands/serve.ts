@@ -0,0 +1,78 @@
+/**
+ * Serve Command for Gemini Code Flow
+ * Hosts the HTTP API on top of an Orchestrator
+ */
+
+import chalk from 'chalk';
+import crypto from 'crypto';
+import { Orchestrator } from '../core/orchestrator';
+import { ApiServer, DEFAULT_API_HOST, DEFAULT_API_PORT } from '../core/api-server';
+import { DEFAULT_RUNS_DIR } from '../core/run-journal';
+import { ConfigLoader, MemoryOptions, ProviderOptions } from '../utils/config-loader';
+import { ValidationError } from '../utils/validation';
+import { ErrorHandler } from '../utils/error-handler';
+
+export const API_TOKEN_ENV = 'GEMINI_FLOW_API_TOKEN';
+
+interface ServeOptions extends ProviderOptions, MemoryOptions {
+  config?: string;
+  host?: string;
+  port?: string;
+}
+
+export class ServeCommand {
+  async execute(options: ServeOptions): Promise<void> {
+    try {
+      const port = this.parsePort(options.port);
+      const config = ConfigLoader.applyMemoryOptions(
+        ConfigLoader.applyProviderOptions(await ConfigLoader.load(options.config), options),
+        options
+      );
+
+      const token = process.env[API_TOKEN_ENV] || crypto.randomBytes(24).toString('hex');
+      const orchestrator = new Orchestrator({
+        ...config,
+        statePath: config.statePath || DEFAULT_RUNS_DIR,
+      });
+      const api = new ApiServer(orchestrator, { token, host: options.host || DEFAULT_API_HOST, port });
+
+      await orchestrator.start();
+      const address = await api.listen();
+
+      console.log(chalk.green(`✓ HTTP API listening on http://${address.address}:${address.port}`));
+      console.log(chalk.gray(`  Run ID: ${orchestrator.getRunId()}`));
+      if (process.env[API_TOKEN_ENV]) {
+        console.log(chalk.gray(`  Authenticate with the token from ${API_TOKEN_ENV}`));
+      } else {
+        console.log(chalk.yellow(`  Bearer token: ${token}`));
+        console.log(chalk.gray(`  Set ${API_TOKEN_ENV} to choose your own token`));
+      }
+
+      const shutdown = async () => {
+        console.log(chalk.yellow('\nGracefully shutting down...'));
+        await api.close();
+        await orchestrator.stop();
+        process.exit(0);
+      };
+      process.once('SIGINT', shutdown);
+      process.once('SIGTERM', shutdown);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        console.log(chalk.red(`Validation Error: ${error.message}`));
+      } else {
+        console.error(chalk.red('Error:'), ErrorHandler.sanitizeError(error));
+      }
+      process.exitCode = 1;
+    }
+  }
+
+  private parsePort(value: string | undefined): number {
+    if (value === undefined) return DEFAULT_API_PORT;
+
+    const port = Number(value);
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+      throw new ValidationError(`Invalid port: ${value}`, 'port');
+    }
+    return port;
+  }
+}
@@ -6,16 +6,30 @@
 import chalk from 'chalk';
 import ora from 'ora';
 import fs from 'fs-extra';
-import { GeminiClient } from '../core/gemini-client';
-import { AgentMode } from '../types';
+import { ProviderRegistry } from '../providers/provider-registry';
+import { ModeRegistry } from '../core/mode-registry';
+import { ControlClient } from '../core/control-client';
+import { DEFAULT_SOCKET_PATH } from '../core/control-protocol';
+import { StructuredOutput } from '../core/structured-output';
+import { Patch, PatchError } from '../core/patch';
+import { PatchReview } from './patch-review';
+import { WorkspaceScanner } from '../core/workspace-scanner';
+import { estimateTokens } from '../providers/provider-utils';
+import { AgentMode, AgentResult, ConfigFile, ResultSection, Task, WorkspaceContext } from '../types';
+import { ConfigLoader, ProviderOptions, WorkspaceOptions } from '../utils/config-loader';
 import { Validator, ValidationError } from '../utils/validation';
 import { PathSecurity, PathSecurityError } from '../utils/path-security';
 import { ErrorHandler } from '../utils/error-handler';
 
-interface SparcOptions {
+interface SparcOptions extends ProviderOptions, WorkspaceOptions {
   file?: string;
   parallel?: string;
   memory?: string;
+  config?: string;
+  attach?: boolean;
+  socket?: string;
+  apply?: boolean;
+  review?: boolean;
 }
 
 export class SparcCommand {
@@ -27,11 +41,23 @@ export class SparcCommand {
     }
 
     try {
+      const config = ConfigLoader.applyProviderOptions(
+        await ConfigLoader.load(options.config, { optional: true }),
+        options
+      );
+      const modes = new ModeRegistry(config.modes);
+      const workspace = ConfigLoader.workspaceFromOptions(options);
+
+      if (options.attach || options.socket) {
+        await this.executeAttached(mode, Validator.validateTaskDescription(task), config, modes, workspace, options);
+        return;
+      }
+
       // Validate inputs using new validation utility
-      const validatedMode = Validator.validateAgentMode(mode);
+      const validatedMode = Validator.validateAgentMode(mode, modes.getCustomModes());
       const validatedTask = Validator.validateTaskDescription(task);
       
-      await this.executeSparc(validatedMode, validatedTask, options);
+      await this.executeSparc(validatedMode, validatedTask, config, modes, workspace, options);
     } catch (error) {
       if (error instanceof ValidationError) {
         console.log(chalk.red(`Validation Error: ${error.message}`));
@@ -44,19 +70,36 @@ export class SparcCommand {
     }
   }
 
-  private async executeSparc(mode: AgentMode, task: string, options: SparcOptions): Promise<void> {
-
-    const spinner = ora(`${this.getModeIcon(mode as AgentMode)} Running ${mode} mode...`).start();
+  private async executeSparc(
+    mode: AgentMode,
+    task: string,
+    config: ConfigFile,
+    modes: ModeRegistry,
+    workspace: WorkspaceContext | undefined,
+    options: SparcOptions
+  ): Promise<void> {
+    const icon = modes.get(mode).icon;
+    const spinner = ora(`${icon} Running ${mode} mode...`).start();
 
     try {
-      const apiKey = process.env.GEMINI_API_KEY;
-      const client = new GeminiClient({ 
+      const apiKey = config.apiKey || process.env.GEMINI_API_KEY;
+      const providers = new ProviderRegistry({
+        ...config,
         apiKey,
         authMethod: apiKey ? 'api-key' : 'google-account'
       });
-      const prompt = this.buildSparcPrompt(mode as AgentMode, task);
+      const client = providers.forMode(mode);
+      const sections = modes.getOutputSections(mode);
+      const prompt = await this.buildSparcPrompt(modes, mode, task, sections, workspace, message => {
+        spinner.warn(message);
+        spinner.start(`${icon} Running ${mode} mode...`);
+      });
+      const generationOptions = {
+        ...modes.getGenerationOptions(mode),
+        ...(providers.supportsStructuredOutput(mode) ? { responseSchema: StructuredOutput.schemaFor(sections) } : {}),
+      };
 
-      let result: string;
+      let reply: string;
 
       if (options.file) {
         // Use secure path validation
@@ -79,31 +122,29 @@ export class SparcCommand {
         const fileBuffer = await fs.readFile(resolvedPath);
         const mimeType = PathSecurity.getSafeMimeType(resolvedPath);
         
-        result = await client.executeMultimodal(
+        reply = await client.executeMultimodal(
           prompt,
           [{ mimeType, data: fileBuffer }],
-          mode
+          mode,
+          generationOptions
         );
       } else {
-        result = await client.execute(prompt, mode);
+        reply = await client.execute(prompt, mode, generationOptions);
       }
 
-      spinner.succeed(`${this.getModeIcon(mode as AgentMode)} ${mode} completed successfully`);
-      
-      console.log(chalk.cyan('\n📋 Result:\n'));
-      console.log(result);
-      
-      // Save result to file using secure path creation
-      const outputDir = await PathSecurity.ensureSafeDirectory('.gemini-flow');
-      const outputPath = PathSecurity.createSafeOutputPath(
-        outputDir,
-        `${mode}-${Date.now()}`,
-        '.md'
+      const result = await StructuredOutput.parseWithRepair(
+        reply,
+        sections,
+        repairPrompt => client.execute(repairPrompt, mode, generationOptions),
+        problem => {
+          spinner.warn(`Result ${problem}`);
+          spinner.start(`${icon} Running ${mode} mode...`);
+        }
       );
+
+      spinner.succeed(`${icon} ${mode} completed successfully`);
       
-      await fs.writeFile(outputPath, `# ${mode.toUpperCase()} Mode Result\n\n${result}`);
-      
-      console.log(chalk.gray(`\n💾 Result saved to: ${outputPath}`));
+      await this.showResult(mode, result, modes.editsFiles(mode), options);
 
     } catch (error) {
       spinner.fail(`${mode} mode failed`);
@@ -116,68 +157,121 @@ export class SparcCommand {
     }
   }
 
-  private buildSparcPrompt(mode: AgentMode, task: string): string {
-    const modePrompts = {
-      architect: `You are an expert system architect. Design scalable, maintainable solutions using best practices and design patterns.`,
-      coder: `You are an expert programmer. Write clean, efficient, and well-documented code following best practices.`,
-      tester: `You are a testing specialist. Create comprehensive test cases and implement test-driven development practices.`,
-      debugger: `You are a debugging expert. Identify and fix issues systematically, considering root causes and edge cases.`,
-      security: `You are a security specialist. Identify vulnerabilities and implement secure coding practices.`,
-      documentation: `You are a technical writer. Create clear, comprehensive documentation for developers and users.`,
-      integrator: `You are a system integration expert. Connect components and ensure seamless interoperability.`,
-      monitor: `You are a monitoring specialist. Implement observability and performance tracking solutions.`,
-      optimizer: `You are a performance optimization expert. Improve efficiency and resource utilization.`,
-      ask: `You are a task formulation expert. Help clarify requirements and break down complex problems.`,
-      devops: `You are a DevOps engineer. Implement deployment, infrastructure, and automation solutions.`,
-      tutorial: `You are an educational expert. Create step-by-step learning materials and tutorials.`,
-      database: `You are a database administrator. Design and optimize data storage and retrieval systems.`,
-      specification: `You are a requirements analyst. Write clear specifications and pseudocode.`,
-      mcp: `You are an integration specialist. Connect external services and APIs using MCP protocols.`,
-      orchestrator: `You are a workflow orchestrator. Coordinate complex multi-step processes.`,
-      designer: `You are a UI/UX designer. Create intuitive and visually appealing user interfaces.`,
-    };
-
-    const basePrompt = modePrompts[mode] || modePrompts.coder;
-
-    return `${basePrompt}
+  /**
+   * Run the mode as a task on the orchestrator listening on the control socket.
+   * The orchestrator validates the mode against its own configuration.
+   */
+  private async executeAttached(
+    mode: string,
+    task: string,
+    config: ConfigFile,
+    modes: ModeRegistry,
+    workspace: WorkspaceContext | undefined,
+    options: SparcOptions
+  ): Promise<void> {
+    if (options.file) {
+      throw new ValidationError('--file cannot be used with --attach', 'file');
+    }
 
-## Task Description
-${task}
+    const spinner = ora(`Submitting ${mode} task to the running orchestrator...`).start();
 
-## SPARC Methodology
-Please follow the SPARC methodology in your response:
+    try {
+      const client = await ControlClient.connect(options.socket || config.socketPath || DEFAULT_SOCKET_PATH);
+
+      try {
+        const taskId = `sparc-${Date.now()}`;
+        await client.call<Task>('addTask', { id: taskId, mode, description: task, workspace });
+        spinner.text = `Task ${taskId} queued, waiting for an agent...`;
+
+        const [result] = await client.call<Task[]>('wait', { taskIds: [taskId] });
+        if (result.status !== 'completed') {
+          const reason = result.statusReason ? ` (${result.statusReason})` : '';
+          throw new Error(`Task ${taskId} ${result.status}${reason}`);
+        }
+
+        spinner.succeed(`${mode} completed successfully`);
+        await this.showResult(mode, result.output || { summary: result.result || '' }, modes.editsFiles(mode), options);
+      } finally {
+        client.close();
+      }
+    } catch (error) {
+      spinner.fail(`${mode} mode failed`);
+      console.error(chalk.red('Error:'), ErrorHandler.sanitizeError(error));
+    }
+  }
 
-1. **Specification**: Define what needs to be done
-2. **Pseudocode**: Outline the approach
-3. **Architecture**: Design the solution
-4. **Refinement**: Iterate and improve
-5. **Completion**: Deliver the final result
+  /**
+   * Print a result, save it under .gemini-flow and, for modes that edit files,
+   * preview (or apply) the file edits in it
+   */
+  private async showResult(mode: string, result: AgentResult, editsFiles: boolean, options: SparcOptions): Promise<void> {
+    const markdown = StructuredOutput.toMarkdown(result);
+    console.log(chalk.cyan('\n📋 Result:\n'));
+    console.log(markdown);
+    
+    // Save result to file using secure path creation
+    const outputDir = await PathSecurity.ensureSafeDirectory('.gemini-flow');
+    const name = `${mode}-${Date.now()}`;
+    const outputPath = PathSecurity.createSafeOutputPath(outputDir, name, '.md');
+    const jsonPath = PathSecurity.createSafeOutputPath(outputDir, name, '.json');
+    
+    await fs.writeFile(outputPath, `# ${mode.toUpperCase()} Mode Result\n\n${markdown}`);
+    await fs.writeJson(jsonPath, result, { spaces: 2 });
+    
+    console.log(chalk.gray(`\n💾 Result saved to: ${outputPath}`));
+
+    if (!editsFiles) {
+      return;
+    }
 
-Be thorough, systematic, and consider edge cases. Provide practical, actionable solutions.`;
+    try {
+      const patches = await Patch.plan(result);
+      await new PatchReview().run(patches, options);
+      if (patches.length > 0 && !options.apply && !options.review) {
+        console.log(chalk.yellow('Apply these changes with --apply, or review them hunk by hunk with --review.'));
+        console.log(chalk.yellow(`To apply them later: gemini-flow apply ${jsonPath}`));
+      }
+    } catch (error) {
+      if (error instanceof PathSecurityError || error instanceof PatchError) {
+        console.error(chalk.red('Error:'), error.message);
+      } else {
+        console.error(chalk.red('Error:'), ErrorHandler.sanitizeError(error));
+      }
+    }
   }
 
-  private getModeIcon(mode: AgentMode): string {
-    const icons = {
-      architect: '🏗️',
-      coder: '🧠',
-      tester: '🧪',
-      debugger: '🪲',
-      security: '🛡️',
-      documentation: '📚',
-      integrator: '🔗',
-      monitor: '📈',
-      optimizer: '🧹',
-      ask: '❓',
-      devops: '🚀',
-      tutorial: '📘',
-      database: '🔐',
-      specification: '📋',
-      mcp: '♾️',
-      orchestrator: '⚡',
-      designer: '🎨',
-    };
-
-    return icons[mode] || '🤖';
+  /**
+   * Build the prompt, with as much of the workspace as fits in the mode's context budget.
+   * Workspace files that are left out are passed to `warn`.
+   */
+  private async buildSparcPrompt(
+    modes: ModeRegistry,
+    mode: AgentMode,
+    task: string,
+    sections: ResultSection[],
+    workspace?: WorkspaceContext,
+    warn: (message: string) => void = () => undefined
+  ): Promise<string> {
+    const render = (context: string) => `${modes.getSystemPrompt(mode)}
+
+## Task Description
+${task}
+${context ? `\n${context}` : ''}
+## SPARC Methodology
+Work through the task following the SPARC methodology: specification, pseudocode, architecture, refinement and completion.
+Be thorough, systematic, and consider edge cases. Provide practical, actionable solutions.
+
+${StructuredOutput.instructions(sections)}`;
+
+    if (!workspace) {
+      return render('');
+    }
+    const budget = modes.getContextBudget(mode) - estimateTokens(render(''));
+    const { text, report } = await WorkspaceScanner.section(workspace, task, budget);
+    if (report.dropped.length > 0) {
+      warn(`Left out of the prompt: ${report.dropped.map(item => item.id).join(', ')}`);
+    }
+    return render(text);
   }
 
 }
\ No newline at end of file
@@ -0,0 +1,101 @@
+/**
+ * Start Command for Gemini Code Flow
+ * Runs the orchestrator with an interactive REPL for submitting tasks
+ */
+
+import chalk from 'chalk';
+import readline from 'readline';
+import { Orchestrator } from '../core/orchestrator';
+import { DEFAULT_RUNS_DIR } from '../core/run-journal';
+import { DEFAULT_SOCKET_PATH } from '../core/control-protocol';
+import { Agent, Task } from '../types';
+import { ConfigLoader, MemoryOptions, ProviderOptions } from '../utils/config-loader';
+import { Repl } from './repl';
+
+interface StartOptions extends ProviderOptions, MemoryOptions {
+  config?: string;
+  repl?: boolean;
+}
+
+export class StartCommand {
+  async execute(options: StartOptions): Promise<void> {
+    console.log(chalk.cyan('Starting Gemini Code Flow Orchestrator...'));
+
+    try {
+      const config = ConfigLoader.applyMemoryOptions(
+        ConfigLoader.applyProviderOptions(await ConfigLoader.load(options.config), options),
+        options
+      );
+
+      const orchestrator = new Orchestrator({
+        ...config,
+        statePath: config.statePath || DEFAULT_RUNS_DIR,
+        socketPath: config.socketPath || DEFAULT_SOCKET_PATH,
+      });
+
+      orchestrator.on('started', () => {
+        console.log(chalk.green('✓ Orchestrator started successfully'));
+        console.log(chalk.gray(`  Run ID: ${orchestrator.getRunId()} (resume with: gemini-flow resume ${orchestrator.getRunId()})`));
+        console.log(chalk.gray(`  Control socket: ${orchestrator.getSocketPath()} (attach with: gemini-flow status --attach)`));
+      });
+
+      orchestrator.on('agentSpawned', (agent: Agent) => {
+        console.log(chalk.blue(`🤖 Agent ${agent.id} spawned in ${agent.mode} mode`));
+      });
+
+      orchestrator.on('taskCompleted', (task: Task) => {
+        if (task.status === 'completed') {
+          console.log(chalk.green(`✓ Task ${task.id} completed`));
+        } else {
+          const reason = task.statusReason ? ` (${task.statusReason})` : '';
+          console.log(chalk.red(`✗ Task ${task.id} ${task.status}${reason}`));
+        }
+      });
+
+      await orchestrator.start();
+
+      if (options.repl === false) {
+        // Keep process alive until interrupted
+        process.on('SIGINT', async () => {
+          console.log(chalk.yellow('\nGracefully shutting down...'));
+          await orchestrator.stop();
+          process.exit(0);
+        });
+        return;
+      }
+
+      await this.runRepl(orchestrator);
+    } catch (error) {
+      console.error(chalk.red('Error starting orchestrator:'), error instanceof Error ? error.message : 'Unknown error');
+      process.exit(1);
+    }
+  }
+
+  /**
+   * Read commands until the user exits, then stop the orchestrator
+   */
+  private async runRepl(orchestrator: Orchestrator): Promise<void> {
+    const repl = new Repl(orchestrator);
+    const rl = readline.createInterface({
+      input: process.stdin,
+      output: process.stdout,
+      prompt: 'gemini-flow> ',
+      terminal: process.stdin.isTTY,
+    });
+    rl.on('SIGINT', () => rl.close());
+
+    console.log(chalk.gray('Type "help" for commands, "exit" to quit.'));
+    rl.prompt();
+
+    for await (const line of rl) {
+      if (!(await repl.execute(line))) {
+        break;
+      }
+      rl.prompt();
+    }
+    rl.close();
+
+    console.log(chalk.yellow('\nGracefully shutting down...'));
+    await orchestrator.stop();
+  }
+}
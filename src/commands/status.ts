@@ -6,21 +6,51 @@
 import chalk from 'chalk';
 import fs from 'fs-extra';
 import path from 'path';
+import { ControlClient } from '../core/control-client';
+import { DEFAULT_SOCKET_PATH } from '../core/control-protocol';
+import { MemoryManager, DEFAULT_MEMORY_PATH } from '../core/memory-manager';
+import { Task } from '../types';
+import { ConfigLoader } from '../utils/config-loader';
+import { ErrorHandler } from '../utils/error-handler';
+
+interface StatusOptions {
+  attach?: boolean;
+  socket?: string;
+  config?: string;
+}
+
+interface LiveStatus {
+  runId: string;
+  isRunning: boolean;
+  isPaused: boolean;
+  activeAgents: number;
+  completedAgents: number;
+  failedAgents: number;
+  pendingTasks: number;
+  cancelledTasks: number;
+  tasks: Task[];
+}
 
 export class StatusCommand {
-  async execute(): Promise<void> {
+  async execute(options: StatusOptions = {}): Promise<void> {
+    if (options.attach || options.socket) {
+      await this.showLiveStatus(options);
+      return;
+    }
+
     console.log(chalk.cyan('\n📊 Gemini Code Flow Status\n'));
 
     try {
       // Check configuration
-      const configPath = path.join(process.cwd(), '.gemini-flow.json');
+      const configPath = path.resolve(options.config || '.gemini-flow.json');
       const hasConfig = await fs.pathExists(configPath);
+      const config = await ConfigLoader.load(configPath, { optional: true });
+      const memoryPath = config.memoryPath || DEFAULT_MEMORY_PATH;
       
       if (hasConfig) {
-        const config = await fs.readJson(configPath);
         console.log(chalk.green('✓ Configuration found'));
         console.log(chalk.gray(`  Max Agents: ${config.maxAgents || 10}`));
-        console.log(chalk.gray(`  Memory Path: ${config.memoryPath || './gemini-memory.json'}`));
+        console.log(chalk.gray(`  Memory Path: ${memoryPath}`));
         console.log(chalk.gray(`  Auth Method: ${config.authMethod || 'google-account'}`));
       } else {
         console.log(chalk.yellow('⚠ No configuration file found'));
@@ -35,18 +65,21 @@ export class StatusCommand {
       );
 
       // Check memory
-      const memoryPath = path.join(process.cwd(), '.gemini-flow/memory.json');
-      const hasMemory = await fs.pathExists(memoryPath);
-      
-      if (hasMemory) {
-        const memoryData = await fs.readJson(memoryPath);
-        const entryCount = Object.values(memoryData)
-          .reduce((sum: number, entries: unknown) => {
-            return sum + (Array.isArray(entries) ? entries.length : 0);
-          }, 0);
-        
-        console.log(chalk.green(`\n✓ Memory bank found`));
-        console.log(chalk.gray(`  Entries: ${entryCount}`));
+      if (await fs.pathExists(memoryPath)) {
+        // Only look: no retention pass, consolidation or rewrite of the memory file
+        const memory = MemoryManager.fromConfig(config, { readOnly: true });
+        await memory.initialize();
+        try {
+          const stats = await memory.stats();
+          console.log(chalk.green(`\n✓ Memory bank found`));
+          console.log(chalk.gray(`  Entries: ${stats.total} (${stats.pinned} pinned)`));
+          if (stats.newest) {
+            console.log(chalk.gray(`  Last stored: ${stats.newest.toLocaleString()}`));
+          }
+          console.log(chalk.gray('  Inspect with: gemini-flow memory list'));
+        } finally {
+          await memory.close();
+        }
       } else {
         console.log(chalk.gray('\n○ No memory bank initialized yet'));
       }
@@ -89,4 +122,41 @@ export class StatusCommand {
       console.error(chalk.red('Error checking status:'), error instanceof Error ? error.message : 'Unknown error');
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Report on the orchestrator listening on the control socket
+   */
+  private async showLiveStatus(options: StatusOptions): Promise<void> {
+    try {
+      const config = await ConfigLoader.load(options.config, { optional: true });
+      const client = await ControlClient.connect(options.socket || config.socketPath || DEFAULT_SOCKET_PATH);
+
+      try {
+        const status = await client.call<LiveStatus>('getStatus');
+        const state = status.isPaused ? chalk.yellow('paused') : status.isRunning ? chalk.green('running') : chalk.red('stopped');
+
+        console.log(chalk.cyan(`\n📊 Orchestrator ${status.runId}\n`));
+        console.log(`  State:          ${state}`);
+        console.log(`  Active agents:  ${status.activeAgents}`);
+        console.log(`  Queued tasks:   ${status.pendingTasks}`);
+        console.log(`  Completed:      ${status.completedAgents}`);
+        console.log(`  Failed:         ${status.failedAgents}`);
+        console.log(`  Cancelled:      ${status.cancelledTasks}`);
+
+        if (status.tasks.length > 0) {
+          console.log(chalk.cyan('\n  Tasks:'));
+          for (const task of status.tasks) {
+            const description = task.description.length > 50 ? `${task.description.slice(0, 47)}...` : task.description;
+            console.log(`    ${chalk.yellow(task.id.padEnd(20))} ${task.status.padEnd(10)} ${task.mode.padEnd(14)} ${description}`);
+          }
+        }
+        console.log('');
+      } finally {
+        client.close();
+      }
+    } catch (error) {
+      console.error(chalk.red('Error:'), ErrorHandler.sanitizeError(error));
+      process.exitCode = 1;
+    }
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Watch Command for Gemini Code Flow
+ * Shows the live dashboard for the orchestrator started with "gemini-flow start"
+ */
+
+import chalk from 'chalk';
+import { ControlClient } from '../core/control-client';
+import { DEFAULT_SOCKET_PATH } from '../core/control-protocol';
+import { MONITORED_EVENTS } from '../core/run-monitor';
+import { Dashboard } from './dashboard';
+import { ConfigLoader } from '../utils/config-loader';
+import { ErrorHandler } from '../utils/error-handler';
+
+interface WatchOptions {
+  config?: string;
+  socket?: string;
+}
+
+export class WatchCommand {
+  async execute(options: WatchOptions = {}): Promise<void> {
+    try {
+      const config = await ConfigLoader.load(options.config, { optional: true });
+      const client = await ControlClient.connect(options.socket || config.socketPath || DEFAULT_SOCKET_PATH);
+
+      try {
+        await client.subscribe(MONITORED_EVENTS);
+        const { runId } = await client.call<{ runId: string }>('getStatus');
+        const dashboard = new Dashboard(Dashboard.remote(client), `Orchestrator ${runId}`);
+
+        // Closing the dashboard leaves the orchestrator running
+        const disconnected = await new Promise<boolean>(resolve => {
+          client.once('disconnected', () => resolve(true));
+          dashboard.start(() => resolve(false));
+        });
+        dashboard.stop();
+
+        if (disconnected) {
+          console.log(chalk.yellow('The orchestrator stopped'));
+        }
+      } finally {
+        client.close();
+      }
+    } catch (error) {
+      console.error(chalk.red('Error:'), ErrorHandler.sanitizeError(error));
+      process.exitCode = 1;
+    }
+  }
+}
@@ -0,0 +1,305 @@
+/**
+ * HTTP API for Gemini Code Flow
+ * REST endpoints and a Server-Sent Events stream on top of a running Orchestrator
+ */
+
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Orchestrator } from './orchestrator';
+import { TaskDependencyError } from './task-queue';
+import { WorkflowLoader } from './workflow';
+import { Task } from '../types';
+import { Logger } from '../utils/logger';
+import { ErrorHandler } from '../utils/error-handler';
+import { Validator, ValidationError } from '../utils/validation';
+
+export const DEFAULT_API_HOST = '127.0.0.1';
+export const DEFAULT_API_PORT = 7420;
+
+/**
+ * Orchestrator events relayed on GET /events
+ */
+export const STREAMED_EVENTS = ['agentSpawned', 'agentCompleted', 'agentFailed', 'taskCompleted'];
+
+const TERMINAL_STATUSES: Array<Task['status']> = ['completed', 'failed', 'skipped', 'cancelled', 'timed_out'];
+const MAX_BODY_BYTES = 1024 * 1024;
+const HEARTBEAT_MS = 15000;
+
+export class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+export interface ApiServerOptions {
+  token: string;
+  host?: string;
+  port?: number;
+}
+
+export class ApiServer {
+  private orchestrator: Orchestrator;
+  private options: Required<ApiServerOptions>;
+  private server: http.Server;
+  private streams: Set<http.ServerResponse> = new Set();
+  private logger: Logger = new Logger('ApiServer');
+  private nextWorkflowNumber: number = 1;
+
+  constructor(orchestrator: Orchestrator, options: ApiServerOptions) {
+    if (!options.token || options.token.length < 16) {
+      throw new ValidationError('API token must be at least 16 characters', 'token');
+    }
+
+    this.orchestrator = orchestrator;
+    this.options = {
+      token: options.token,
+      host: options.host || DEFAULT_API_HOST,
+      port: options.port ?? DEFAULT_API_PORT,
+    };
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => this.sendError(res, error));
+    });
+  }
+
+  /**
+   * Start listening. Port 0 picks a free port; see getAddress().
+   */
+  async listen(): Promise<AddressInfo> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(this.options.port, this.options.host, () => {
+        this.server.off('error', reject);
+        resolve();
+      });
+    });
+
+    const address = this.getAddress();
+    this.logger.info(`HTTP API listening on http://${address.address}:${address.port}`);
+    return address;
+  }
+
+  /**
+   * End open event streams and stop accepting requests
+   */
+  async close(): Promise<void> {
+    if (!this.server.listening) return;
+
+    for (const stream of this.streams) {
+      stream.end();
+    }
+    this.server.closeAllConnections();
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  getAddress(): AddressInfo {
+    return this.server.address() as AddressInfo;
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const [resource, id, detail, ...rest] = url.pathname.split('/').filter(Boolean);
+    const method = req.method || 'GET';
+
+    if (method === 'GET' && resource === 'health' && !id) {
+      this.send(res, 200, { status: 'ok' });
+      return;
+    }
+
+    this.authenticate(req);
+
+    if (rest.length > 0) {
+      throw new HttpError(404, `No route for ${method} ${url.pathname}`);
+    }
+
+    switch (`${method} ${resource}${id ? '/:id' : ''}${detail ? `/${detail}` : ''}`) {
+      case 'GET status':
+        this.send(res, 200, { runId: this.orchestrator.getRunId(), ...this.orchestrator.getStatus() });
+        return;
+      case 'GET tasks':
+        this.send(res, 200, this.orchestrator.getTasks());
+        return;
+      case 'POST tasks':
+        this.send(res, 201, await this.addTask(await this.readJson(req)));
+        return;
+      case 'GET tasks/:id':
+        this.send(res, 200, this.requireTask(id));
+        return;
+      case 'GET tasks/:id/result':
+        this.send(res, 200, this.getResult(this.requireTask(id)));
+        return;
+      case 'DELETE tasks/:id': {
+        const task = this.requireTask(id);
+        const cancelled = await this.orchestrator.cancelTask(task.id);
+        this.send(res, 200, { id: task.id, cancelled, status: task.status });
+        return;
+      }
+      case 'GET agents':
+        this.send(res, 200, this.orchestrator.getActiveAgents());
+        return;
+      case 'POST workflows':
+        this.send(res, 201, await this.addWorkflow(req));
+        return;
+      case 'GET events':
+        this.streamEvents(req, res);
+        return;
+      default:
+        throw new HttpError(404, `No route for ${method} ${url.pathname}`);
+    }
+  }
+
+  /**
+   * Require `Authorization: Bearer <token>`, compared in constant time
+   */
+  private authenticate(req: http.IncomingMessage): void {
+    const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || '');
+    const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+
+    if (!match || !crypto.timingSafeEqual(digest(match[1].trim()), digest(this.options.token))) {
+      throw new HttpError(401, 'Missing or invalid bearer token');
+    }
+  }
+
+  private async addTask(body: unknown): Promise<Task> {
+    const request = Validator.validateTaskRequest(body, this.orchestrator.getCustomModes());
+    if (request.id && this.orchestrator.getTask(request.id)) {
+      throw new HttpError(409, `Task ${request.id} already exists`);
+    }
+    return this.orchestrator.submitTask(request);
+  }
+
+  /**
+   * Queue every step of a workflow sent as JSON or YAML
+   */
+  private async addWorkflow(req: http.IncomingMessage): Promise<{ workflowId: string; name: string; tasks: Task[] }> {
+    const customModes = this.orchestrator.getCustomModes();
+    const isYaml = /yaml/i.test(req.headers['content-type'] || '');
+    const workflow = isYaml
+      ? WorkflowLoader.parse(await this.readBody(req), 'yaml', 'workflow', customModes)
+      : WorkflowLoader.validate(await this.readJson(req), 'workflow', customModes);
+
+    let workflowId = `wf-${this.nextWorkflowNumber++}`;
+    while (this.orchestrator.getTasks().some(task => task.id.startsWith(`${workflowId}-`))) {
+      workflowId = `wf-${this.nextWorkflowNumber++}`;
+    }
+    const tasks = WorkflowLoader.toTasks(workflow, workflowId);
+    for (const task of tasks) {
+      await this.orchestrator.addTask(task);
+    }
+
+    return {
+      workflowId,
+      name: workflow.name,
+      tasks: tasks.map(task => this.orchestrator.getTask(task.id) || task),
+    };
+  }
+
+  private getResult(task: Task): Pick<Task, 'id' | 'status' | 'result' | 'output' | 'statusReason'> {
+    if (!TERMINAL_STATUSES.includes(task.status)) {
+      throw new HttpError(409, `Task ${task.id} has not finished (${task.status})`);
+    }
+    return { id: task.id, status: task.status, result: task.result, output: task.output, statusReason: task.statusReason };
+  }
+
+  private streamEvents(req: http.IncomingMessage, res: http.ServerResponse): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    res.write(': connected\n\n');
+
+    let eventId = 0;
+    const listeners = STREAMED_EVENTS.map(event => {
+      const listener = (payload: unknown) => {
+        res.write(`id: ${++eventId}\nevent: ${event}\ndata: ${this.serialize(payload)}\n\n`);
+      };
+      this.orchestrator.on(event, listener);
+      return { event, listener };
+    });
+    const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), HEARTBEAT_MS);
+
+    this.streams.add(res);
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      listeners.forEach(({ event, listener }) => this.orchestrator.off(event, listener));
+      this.streams.delete(res);
+    });
+  }
+
+  private async readBody(req: http.IncomingMessage): Promise<string> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of req) {
+      size += (chunk as Buffer).length;
+      if (size > MAX_BODY_BYTES) {
+        throw new HttpError(413, 'Request body is too large');
+      }
+      chunks.push(chunk as Buffer);
+    }
+
+    return Buffer.concat(chunks).toString('utf8');
+  }
+
+  private async readJson(req: http.IncomingMessage): Promise<unknown> {
+    const body = await this.readBody(req);
+    try {
+      return JSON.parse(body);
+    } catch {
+      throw new HttpError(400, 'Request body must be valid JSON');
+    }
+  }
+
+  private requireTask(id: string): Task {
+    let taskId: string;
+    try {
+      taskId = decodeURIComponent(id);
+    } catch {
+      throw new HttpError(400, `Malformed task id: ${id}`);
+    }
+
+    const task = this.orchestrator.getTask(taskId);
+    if (!task) {
+      throw new HttpError(404, `Unknown task: ${id}`);
+    }
+    return task;
+  }
+
+  private send(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(this.serialize(body));
+  }
+
+  private sendError(res: http.ServerResponse, error: unknown): void {
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+
+    if (error instanceof HttpError) {
+      if (error.status === 401) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+      }
+      this.send(res, error.status, { error: { message: error.message } });
+    } else if (error instanceof ValidationError) {
+      const field = (error as ValidationError & { field?: string }).field;
+      this.send(res, 400, { error: { message: error.message, field } });
+    } else if (error instanceof TaskDependencyError) {
+      this.send(res, 400, { error: { message: error.message, kind: error.kind, chain: error.chain } });
+    } else {
+      this.logger.error('API request failed:', ErrorHandler.formatError(error));
+      this.send(res, 500, { error: { message: ErrorHandler.sanitizeError(error) } });
+    }
+  }
+
+  private serialize(value: unknown): string {
+    return JSON.stringify(value, (_key, item) =>
+      item instanceof Error ? { name: item.name, message: item.message } : item
+    );
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Context Builder for Gemini Code Flow
+ * Fits step outputs, attached files and memory into a prompt's token budget
+ */
+
+import fs from 'fs-extra';
+import { ContextItemReport, ContextReport, ContextSource } from '../types';
+import { estimateTokens } from '../providers/provider-utils';
+import { PathSecurity } from '../utils/path-security';
+
+export const DEFAULT_CONTEXT_TOKENS = 8000;
+
+const MAX_CONTEXT_FILE_BYTES = 1024 * 1024;
+
+// Below this, an excerpt says too little to be worth including
+const MIN_EXCERPT_TOKENS = 50;
+
+export interface ContextCandidate {
+  source: ContextSource;
+  /** Input name, file path or memory entry id */
+  id: string;
+  /** Heading shown above the content in the prompt */
+  title: string;
+  content: string;
+  /** Higher goes first; ties keep candidate order */
+  priority: number;
+}
+
+export interface ContextItem extends ContextCandidate {
+  truncated: boolean;
+}
+
+export interface BuiltContext {
+  items: ContextItem[];
+  report: ContextReport;
+}
+
+export class ContextBuilder {
+  /**
+   * Pick candidates in priority order while they fit in `budgetTokens`.
+   * The first one that does not fit is cut down to an excerpt when enough
+   * budget is left for one; the rest are dropped.
+   */
+  static build(candidates: ContextCandidate[], budgetTokens: number): BuiltContext {
+    const ranked = candidates
+      .map((candidate, index) => ({ candidate, index }))
+      .sort((a, b) => b.candidate.priority - a.candidate.priority || a.index - b.index)
+      .map(({ candidate }) => candidate);
+
+    const items: ContextItem[] = [];
+    const report: ContextReport = { budgetTokens: Math.max(0, budgetTokens), usedTokens: 0, included: [], dropped: [] };
+
+    for (const candidate of ranked) {
+      const remaining = report.budgetTokens - report.usedTokens;
+      const headingTokens = estimateTokens(`### ${candidate.title}\n`);
+      const tokens = headingTokens + estimateTokens(candidate.content);
+      const entry: ContextItemReport = { source: candidate.source, id: candidate.id, tokens };
+
+      if (tokens <= remaining) {
+        items.push({ ...candidate, truncated: false });
+      } else if (remaining - headingTokens >= MIN_EXCERPT_TOKENS) {
+        const content = this.excerpt(candidate.content, remaining - headingTokens);
+        items.push({ ...candidate, content, truncated: true });
+        entry.originalTokens = tokens;
+        entry.tokens = headingTokens + estimateTokens(content);
+      } else {
+        report.dropped.push({ ...entry, reason: 'budget' });
+        continue;
+      }
+
+      report.included.push(entry);
+      report.usedTokens += entry.tokens;
+    }
+
+    return { items, report };
+  }
+
+  /**
+   * Shorten text to about `maxTokens`, keeping its beginning and end
+   */
+  static excerpt(text: string, maxTokens: number): string {
+    const maxChars = maxTokens * 4;
+    if (text.length <= maxChars) {
+      return text;
+    }
+
+    const marker = `\n[... ${text.length} characters, shortened to fit ...]\n`;
+    const keep = Math.max(0, maxChars - marker.length);
+    const head = Math.ceil(keep * 2 / 3);
+    return text.slice(0, head) + marker + text.slice(text.length - (keep - head));
+  }
+
+  /**
+   * Read a text file to attach to a prompt. Files outside `baseDir`,
+   * larger than 1MB or binary are rejected.
+   */
+  static async readFile(file: string, baseDir: string = process.cwd()): Promise<string> {
+    const resolved = await PathSecurity.resolveSafePath(file, baseDir, {
+      mustExist: true,
+      maxSize: MAX_CONTEXT_FILE_BYTES,
+      requireReadable: true,
+    });
+
+    const content = await fs.readFile(resolved, 'utf8');
+    if (content.includes('\0')) {
+      throw new Error(`Not a text file: ${file}`);
+    }
+    return content;
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * Control Client for Gemini Code Flow
+ * Talks to a running orchestrator over its control socket
+ */
+
+import { EventEmitter } from 'events';
+import net from 'net';
+import path from 'path';
+import {
+  ControlError,
+  ControlProtocol,
+  DEFAULT_SOCKET_PATH,
+  RpcEventNotification,
+  RpcResponse,
+} from './control-protocol';
+
+interface PendingCall {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Subscribed orchestrator events are re-emitted under their own names,
+ * so a client can stand in for the orchestrator (e.g. with RunMonitor.attach)
+ */
+export class ControlClient extends EventEmitter {
+  private socket: net.Socket;
+  private pending: Map<number, PendingCall> = new Map();
+  private nextId: number = 1;
+  private buffer: string = '';
+
+  private constructor(socket: net.Socket) {
+    super();
+    this.socket = socket;
+    this.socket.setEncoding('utf8');
+    this.socket.on('data', (data: string) => this.handleData(data));
+    this.socket.on('error', () => undefined);
+    this.socket.on('close', () => {
+      const error = new ControlError('Connection to the orchestrator closed');
+      this.pending.forEach(call => call.reject(error));
+      this.pending.clear();
+      this.emit('disconnected');
+    });
+  }
+
+  /**
+   * Connect to the orchestrator listening on `socketPath`
+   */
+  static connect(socketPath: string = DEFAULT_SOCKET_PATH, timeoutMs: number = 2000): Promise<ControlClient> {
+    const resolved = path.resolve(socketPath);
+
+    return new Promise((resolve, reject) => {
+      const socket = net.createConnection(resolved);
+      const timer = setTimeout(() => {
+        socket.destroy();
+        reject(new ControlError(`Timed out connecting to the orchestrator on ${resolved}`));
+      }, timeoutMs);
+
+      socket.once('connect', () => {
+        clearTimeout(timer);
+        resolve(new ControlClient(socket));
+      });
+      socket.once('error', (error: NodeJS.ErrnoException) => {
+        clearTimeout(timer);
+        if (error.code === 'ENOENT' || error.code === 'ECONNREFUSED') {
+          reject(new ControlError(`No orchestrator is listening on ${resolved}. Start one with "gemini-flow start".`));
+        } else {
+          reject(new ControlError(`Could not connect to the orchestrator on ${resolved}: ${error.message}`));
+        }
+      });
+    });
+  }
+
+  /**
+   * Whether an orchestrator is accepting connections on `socketPath`
+   */
+  static async isListening(socketPath: string = DEFAULT_SOCKET_PATH): Promise<boolean> {
+    try {
+      const client = await this.connect(socketPath, 500);
+      client.close();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Call a method and wait for its result. Failures reject with a ControlError.
+   */
+  call<T = unknown>(method: string, params?: Record<string, unknown>): Promise<T> {
+    if (this.socket.destroyed) {
+      return Promise.reject(new ControlError('Connection to the orchestrator closed'));
+    }
+
+    const id = this.nextId++;
+    return new Promise<T>((resolve, reject) => {
+      this.pending.set(id, { resolve: result => resolve(result as T), reject });
+      this.socket.write(ControlProtocol.encode({ jsonrpc: '2.0', id, method, params }));
+    });
+  }
+
+  /**
+   * Start receiving orchestrator events (all of them when `events` is omitted)
+   */
+  async subscribe(events?: string[]): Promise<string[]> {
+    const result = await this.call<{ events: string[] }>('subscribe', events ? { events } : {});
+    return result.events;
+  }
+
+  close(): void {
+    this.socket.end();
+    this.socket.destroy();
+  }
+
+  private handleData(data: string): void {
+    this.buffer += data;
+
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, newline).trim();
+      this.buffer = this.buffer.slice(newline + 1);
+      if (line) {
+        this.handleMessage(ControlProtocol.decode(line) as RpcResponse | RpcEventNotification);
+      }
+    }
+  }
+
+  private handleMessage(message: RpcResponse | RpcEventNotification): void {
+    if ('method' in message) {
+      if (message.method === 'event') {
+        this.emit(message.params.event, message.params.payload);
+      }
+      return;
+    }
+
+    const call = typeof message.id === 'number' ? this.pending.get(message.id) : undefined;
+    if (!call) return;
+
+    this.pending.delete(message.id as number);
+    if (message.error) {
+      call.reject(new ControlError(message.error.message, message.error.code, message.error.data));
+    } else {
+      call.resolve(message.result);
+    }
+  }
+}
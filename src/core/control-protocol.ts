@@ -0,0 +1,87 @@
+/**
+ * Control Protocol for Gemini Code Flow
+ * Newline-delimited JSON-RPC 2.0 spoken over a running orchestrator's Unix socket
+ */
+
+export const DEFAULT_SOCKET_PATH = '.gemini-flow/control.sock';
+
+/**
+ * JSON-RPC error codes
+ */
+export const RPC_ERRORS = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  SERVER_ERROR: -32000,
+} as const;
+
+export type RpcId = string | number | null;
+
+export interface RpcRequest {
+  jsonrpc: '2.0';
+  id?: RpcId;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface RpcErrorBody {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+export interface RpcResponse {
+  jsonrpc: '2.0';
+  id: RpcId;
+  result?: unknown;
+  error?: RpcErrorBody;
+}
+
+/**
+ * Pushed to subscribed clients for every orchestrator event they asked for
+ */
+export interface RpcEventNotification {
+  jsonrpc: '2.0';
+  method: 'event';
+  params: { event: string; payload: unknown };
+}
+
+export class ControlError extends Error {
+  readonly code: number;
+  readonly data?: unknown;
+
+  constructor(message: string, code: number = RPC_ERRORS.SERVER_ERROR, data?: unknown) {
+    super(message);
+    this.name = 'ControlError';
+    this.code = code;
+    this.data = data;
+  }
+}
+
+// Fields that hold dates on tasks, agents, attempts and memory entries
+const DATE_FIELDS = new Set(['createdAt', 'updatedAt', 'startTime', 'endTime', 'startedAt', 'endedAt', 'timestamp']);
+
+export class ControlProtocol {
+  /**
+   * Serialize one message as a line. Errors become `{ name, message }`.
+   */
+  static encode(message: RpcRequest | RpcResponse | RpcEventNotification): string {
+    return JSON.stringify(message, (_key, value) =>
+      value instanceof Error ? { name: value.name, message: value.message } : value
+    ) + '\n';
+  }
+
+  /**
+   * Parse one line, turning the known date fields back into Dates
+   */
+  static decode(line: string): unknown {
+    return JSON.parse(line, (key, value) => {
+      if (DATE_FIELDS.has(key) && typeof value === 'string') {
+        const date = new Date(value);
+        return isNaN(date.getTime()) ? value : date;
+      }
+      return value;
+    });
+  }
+}
@@ -0,0 +1,303 @@
+/**
+ * Control Server for Gemini Code Flow
+ * Exposes a running Orchestrator over a Unix-domain socket so other CLI invocations can drive it
+ */
+
+import fs from 'fs-extra';
+import net from 'net';
+import path from 'path';
+import { Orchestrator } from './orchestrator';
+import { TaskDependencyError } from './task-queue';
+import {
+  ControlError,
+  ControlProtocol,
+  RPC_ERRORS,
+  RpcEventNotification,
+  RpcId,
+  RpcRequest,
+  RpcResponse,
+} from './control-protocol';
+import { ControlClient } from './control-client';
+import { Task } from '../types';
+import { Logger } from '../utils/logger';
+import { ErrorHandler } from '../utils/error-handler';
+import { Validator, ValidationError } from '../utils/validation';
+
+/**
+ * Orchestrator events clients may subscribe to
+ */
+export const SUBSCRIBABLE_EVENTS = [
+  'taskAdded',
+  'taskCompleted',
+  'taskRetrying',
+  'taskSkipped',
+  'taskQuarantined',
+  'agentSpawned',
+  'agentOutput',
+  'agentCompleted',
+  'agentFailed',
+  'agentCancelled',
+  'agentTimedOut',
+  'paused',
+  'unpaused',
+  'authError',
+];
+
+const MAX_LINE_LENGTH = 1024 * 1024;
+
+type Params = Record<string, unknown>;
+
+interface Subscription {
+  event: string;
+  listener: (payload: unknown) => void;
+}
+
+export class ControlServer {
+  private orchestrator: Orchestrator;
+  private socketPath: string;
+  private server: net.Server;
+  private connections: Set<net.Socket> = new Set();
+  private logger: Logger = new Logger('ControlServer');
+
+  constructor(orchestrator: Orchestrator, socketPath: string) {
+    this.orchestrator = orchestrator;
+    this.socketPath = path.resolve(socketPath);
+    this.server = net.createServer(socket => this.handleConnection(socket));
+  }
+
+  /**
+   * Start listening, replacing a socket file left behind by an orchestrator that exited
+   */
+  async listen(): Promise<void> {
+    await fs.ensureDir(path.dirname(this.socketPath));
+
+    if (await fs.pathExists(this.socketPath)) {
+      if (await ControlClient.isListening(this.socketPath)) {
+        throw new ControlError(`Another orchestrator is already listening on ${this.socketPath}`);
+      }
+      await fs.remove(this.socketPath);
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(this.socketPath, () => {
+        this.server.off('error', reject);
+        resolve();
+      });
+    });
+
+    // Only the user running the orchestrator may submit work to it
+    await fs.chmod(this.socketPath, 0o600);
+    this.logger.info(`Control socket listening on ${this.socketPath}`);
+  }
+
+  /**
+   * Disconnect every client and remove the socket file
+   */
+  async close(): Promise<void> {
+    if (!this.server.listening) return;
+
+    for (const socket of this.connections) {
+      socket.destroy();
+    }
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+    await fs.remove(this.socketPath).catch(() => undefined);
+  }
+
+  getSocketPath(): string {
+    return this.socketPath;
+  }
+
+  private handleConnection(socket: net.Socket): void {
+    const subscriptions: Subscription[] = [];
+    let buffer = '';
+
+    this.connections.add(socket);
+    socket.setEncoding('utf8');
+
+    socket.on('data', (data: string) => {
+      buffer += data;
+      if (buffer.length > MAX_LINE_LENGTH && !buffer.includes('\n')) {
+        this.send(socket, this.errorResponse(null, RPC_ERRORS.INVALID_REQUEST, 'Request too large'));
+        socket.destroy();
+        return;
+      }
+
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        if (line) {
+          this.handleLine(socket, line, subscriptions);
+        }
+      }
+    });
+
+    socket.on('error', error => this.logger.debug(`Control connection error: ${error.message}`));
+    socket.on('close', () => {
+      subscriptions.forEach(({ event, listener }) => this.orchestrator.off(event, listener));
+      this.connections.delete(socket);
+    });
+  }
+
+  private async handleLine(
+    socket: net.Socket,
+    line: string,
+    subscriptions: Subscription[]
+  ): Promise<void> {
+    let request: RpcRequest;
+    try {
+      request = ControlProtocol.decode(line) as RpcRequest;
+    } catch {
+      this.send(socket, this.errorResponse(null, RPC_ERRORS.PARSE_ERROR, 'Parse error'));
+      return;
+    }
+
+    if (
+      !request || typeof request !== 'object' || request.jsonrpc !== '2.0' || typeof request.method !== 'string' ||
+      (request.params !== undefined && (typeof request.params !== 'object' || request.params === null || Array.isArray(request.params)))
+    ) {
+      this.send(socket, this.errorResponse(request?.id ?? null, RPC_ERRORS.INVALID_REQUEST, 'Invalid request'));
+      return;
+    }
+
+    let response: RpcResponse;
+    try {
+      const result = request.method === 'subscribe'
+        ? this.subscribe(socket, request.params || {}, subscriptions)
+        : await this.dispatch(request.method, request.params || {});
+      response = { jsonrpc: '2.0', id: request.id ?? null, result: result ?? null };
+    } catch (error) {
+      response = this.toErrorResponse(request.id ?? null, error);
+    }
+
+    // Requests without an id are notifications and get no reply
+    if (request.id !== undefined && !socket.destroyed) {
+      this.send(socket, response);
+    }
+  }
+
+  private async dispatch(method: string, params: Params): Promise<unknown> {
+    switch (method) {
+      case 'addTask':
+        return this.addTask(params);
+      case 'getStatus':
+        return {
+          runId: this.orchestrator.getRunId(),
+          ...this.orchestrator.getStatus(),
+          tasks: this.orchestrator.getTasks(),
+        };
+      case 'getAgents':
+        return this.orchestrator.getActiveAgents();
+      case 'getRateLimits':
+        return this.orchestrator.getRateLimitStatus();
+      case 'getTask':
+        return this.orchestrator.getTask(this.requireString(params, 'taskId')) ?? null;
+      case 'cancel': {
+        const task = this.requireTask(params);
+        return { cancelled: await this.orchestrator.cancelTask(task.id) };
+      }
+      case 'wait': {
+        const taskIds = this.optionalStringArray(params, 'taskIds');
+        taskIds?.forEach(taskId => this.requireTask({ taskId }));
+        return this.orchestrator.waitForCompletion(taskIds);
+      }
+      case 'memory.search':
+        return this.orchestrator.searchMemory(
+          this.requireString(params, 'query'),
+          this.optionalStringArray(params, 'tags')
+        );
+      case 'memory.context':
+        return this.orchestrator.getMemoryContext(
+          this.requireString(params, 'mode'),
+          params.query === undefined ? undefined : this.requireString(params, 'query')
+        );
+      default:
+        throw new ControlError(`Method not found: ${method}`, RPC_ERRORS.METHOD_NOT_FOUND);
+    }
+  }
+
+  private async addTask(params: Params): Promise<Task> {
+    const request = Validator.validateTaskRequest(params, this.orchestrator.getCustomModes());
+    return this.orchestrator.submitTask(request);
+  }
+
+  private subscribe(
+    socket: net.Socket,
+    params: Params,
+    subscriptions: Subscription[]
+  ): { events: string[] } {
+    const events = this.optionalStringArray(params, 'events') || SUBSCRIBABLE_EVENTS;
+    const unknown = events.filter(event => !SUBSCRIBABLE_EVENTS.includes(event));
+    if (unknown.length > 0) {
+      throw new ValidationError(
+        `Unknown event(s): ${unknown.join(', ')}. Available events: ${SUBSCRIBABLE_EVENTS.join(', ')}`,
+        'events'
+      );
+    }
+
+    for (const event of events) {
+      if (subscriptions.some(subscription => subscription.event === event)) continue;
+
+      const listener = (payload: unknown) => {
+        if (!socket.destroyed) {
+          this.send(socket, { jsonrpc: '2.0', method: 'event', params: { event, payload } });
+        }
+      };
+      this.orchestrator.on(event, listener);
+      subscriptions.push({ event, listener });
+    }
+
+    return { events: subscriptions.map(subscription => subscription.event) };
+  }
+
+  private send(socket: net.Socket, message: RpcResponse | RpcEventNotification): void {
+    socket.write(ControlProtocol.encode(message));
+  }
+
+  private toErrorResponse(id: RpcId, error: unknown): RpcResponse {
+    if (error instanceof ControlError) {
+      return this.errorResponse(id, error.code, error.message);
+    }
+    if (error instanceof ValidationError) {
+      const field = (error as ValidationError & { field?: string }).field;
+      return this.errorResponse(id, RPC_ERRORS.INVALID_PARAMS, error.message, field ? { field } : undefined);
+    }
+    if (error instanceof TaskDependencyError) {
+      return this.errorResponse(id, RPC_ERRORS.INVALID_PARAMS, error.message, { kind: error.kind, chain: error.chain });
+    }
+
+    this.logger.error('Control request failed:', ErrorHandler.formatError(error));
+    return this.errorResponse(id, RPC_ERRORS.SERVER_ERROR, ErrorHandler.sanitizeError(error));
+  }
+
+  private errorResponse(id: RpcId, code: number, message: string, data?: unknown): RpcResponse {
+    return { jsonrpc: '2.0', id, error: data === undefined ? { code, message } : { code, message, data } };
+  }
+
+  private requireString(params: Params, name: string): string {
+    const value = params[name];
+    if (typeof value !== 'string' || value.trim().length === 0) {
+      throw new ValidationError(`"${name}" must be a non-empty string`, name);
+    }
+    return value.trim();
+  }
+
+  private optionalStringArray(params: Params, name: string): string[] | undefined {
+    const value = params[name];
+    if (value === undefined) return undefined;
+    if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) {
+      throw new ValidationError(`"${name}" must be an array of strings`, name);
+    }
+    return value;
+  }
+
+  private requireTask(params: Params): Task {
+    const taskId = this.requireString(params, 'taskId');
+    const task = this.orchestrator.getTask(taskId);
+    if (!task) {
+      throw new ValidationError(`Unknown task: ${taskId}`, 'taskId');
+    }
+    return task;
+  }
+}
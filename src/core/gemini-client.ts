@@ -3,9 +3,10 @@
  * Adapted from Claude Code Flow by ruvnet
  */
 
-import { GoogleGenerativeAI, GenerativeModel, Part } from '@google/generative-ai';
-import { AgentMode } from '../types';
+import { GenerationConfig, GoogleGenerativeAI, GenerativeModel, Part, ResponseSchema } from '@google/generative-ai';
+import { AgentMode, ExecuteOptions, FileUpload, LLMProvider, RateLimitStatus } from '../types';
 import { RateLimiter, GEMINI_RATE_LIMITS } from '../utils/rate-limiter';
+import { getModeTemperature } from './mode-catalog';
 
 export interface GeminiConfig {
   apiKey?: string;
@@ -15,9 +16,11 @@ export interface GeminiConfig {
   maxOutputTokens?: number;
 }
 
-export class GeminiClient {
+export class GeminiClient implements LLMProvider {
+  readonly name: string = 'gemini';
   private genAI: GoogleGenerativeAI;
   private model: GenerativeModel;
+  private modelOverrides: Map<string, GenerativeModel> = new Map();
   private config: GeminiConfig;
   private rateLimiter: RateLimiter;
   private dailyRateLimiter: RateLimiter;
@@ -61,19 +64,18 @@ export class GeminiClient {
   /**
    * Execute a prompt with the Gemini model
    */
-  async execute(prompt: string, mode: AgentMode): Promise<string> {
+  async execute(prompt: string, mode: AgentMode, options: ExecuteOptions = {}): Promise<string> {
     return this.rateLimiter.execute(async () => {
       return this.dailyRateLimiter.execute(async () => {
         try {
-          const generationConfig = {
-            temperature: this.getModeTemperature(mode),
-            maxOutputTokens: this.config.maxOutputTokens || 8192,
-          };
+          this.throwIfAborted(options.signal);
 
-          const result = await this.model.generateContent({
+          const generationConfig = this.getGenerationConfig(mode, options);
+
+          const result = await this.getModel(options.model).generateContent({
             contents: [{ role: 'user', parts: [{ text: prompt }] }],
             generationConfig,
-          });
+          }, { signal: options.signal });
 
           const response = await result.response;
           return response.text();
@@ -89,12 +91,15 @@ export class GeminiClient {
    */
   async executeMultimodal(
     prompt: string,
-    files: Array<{ mimeType: string; data: Buffer }>,
-    mode: AgentMode
+    files: FileUpload[],
+    mode: AgentMode,
+    options: ExecuteOptions = {}
   ): Promise<string> {
     return this.rateLimiter.execute(async () => {
       return this.dailyRateLimiter.execute(async () => {
         try {
+          this.throwIfAborted(options.signal);
+
           const parts: Part[] = [{ text: prompt }];
           
           // Add file parts
@@ -107,15 +112,12 @@ export class GeminiClient {
             });
           }
 
-          const generationConfig = {
-            temperature: this.getModeTemperature(mode),
-            maxOutputTokens: this.config.maxOutputTokens || 8192,
-          };
+          const generationConfig = this.getGenerationConfig(mode, options);
 
-          const result = await this.model.generateContent({
+          const result = await this.getModel(options.model).generateContent({
             contents: [{ role: 'user', parts }],
             generationConfig,
-          });
+          }, { signal: options.signal });
 
           const response = await result.response;
           return response.text();
@@ -129,23 +131,23 @@ export class GeminiClient {
   /**
    * Stream response for real-time output
    */
-  async *streamExecute(prompt: string, mode: AgentMode): AsyncGenerator<string> {
+  async *streamExecute(prompt: string, mode: AgentMode, options: ExecuteOptions = {}): AsyncGenerator<string> {
     // Rate limit the initial request
     await this.rateLimiter.checkLimit();
     await this.dailyRateLimiter.checkLimit();
     
     try {
-      const generationConfig = {
-        temperature: this.getModeTemperature(mode),
-        maxOutputTokens: this.config.maxOutputTokens || 8192,
-      };
+      this.throwIfAborted(options.signal);
 
-      const result = await this.model.generateContentStream({
+      const generationConfig = this.getGenerationConfig(mode, options);
+
+      const result = await this.getModel(options.model).generateContentStream({
         contents: [{ role: 'user', parts: [{ text: prompt }] }],
         generationConfig,
-      });
+      }, { signal: options.signal });
 
       for await (const chunk of result.stream) {
+        this.throwIfAborted(options.signal);
         const chunkText = chunk.text();
         if (chunkText) {
           yield chunkText;
@@ -156,43 +158,74 @@ export class GeminiClient {
     }
   }
 
+  /**
+   * Fail fast when the caller has already given up on the request
+   */
+  private throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw new Error('Request aborted');
+    }
+  }
+
   /**
    * Get temperature setting for specific mode
    */
   private getModeTemperature(mode: AgentMode): number {
-    const modeTemperatures: Partial<Record<AgentMode, number>> = {
-      architect: 0.7,
-      coder: 0.3,
-      tester: 0.2,
-      debugger: 0.1,
-      security: 0.2,
-      documentation: 0.5,
-      integrator: 0.4,
-      monitor: 0.2,
-      optimizer: 0.3,
-      ask: 0.8,
-      devops: 0.3,
-      tutorial: 0.6,
-      database: 0.2,
-      specification: 0.4,
-      mcp: 0.3,
-      orchestrator: 0.5,
-      designer: 0.8,
+    return getModeTemperature(mode, this.config.temperature ?? 0.5);
+  }
+
+  /**
+   * Build generation settings, letting per-call options win over mode defaults
+   */
+  private getGenerationConfig(mode: AgentMode, options: ExecuteOptions): GenerationConfig {
+    const config: GenerationConfig = {
+      temperature: options.temperature ?? this.getModeTemperature(mode),
+      maxOutputTokens: options.maxOutputTokens || this.config.maxOutputTokens || 8192,
     };
 
-    return modeTemperatures[mode] ?? this.config.temperature ?? 0.5;
+    // Gemini's schema types use the same lowercase names as JSON Schema
+    if (options.responseSchema) {
+      config.responseMimeType = 'application/json';
+      config.responseSchema = options.responseSchema as ResponseSchema;
+    }
+
+    return config;
+  }
+
+  /**
+   * Get the model for a call, reusing a model per name
+   */
+  private getModel(name?: string): GenerativeModel {
+    if (!name || name === (this.config.model || 'gemini-1.5-pro')) {
+      return this.model;
+    }
+
+    let model = this.modelOverrides.get(name);
+    if (!model) {
+      model = this.genAI.getGenerativeModel({ model: name });
+      this.modelOverrides.set(name, model);
+    }
+    return model;
   }
 
   /**
    * Get current rate limit status
    */
-  getRateLimitStatus(): { minute: ReturnType<RateLimiter['getStats']>; daily: ReturnType<RateLimiter['getStats']> } {
+  getRateLimitStatus(): RateLimitStatus {
     return {
       minute: this.rateLimiter.getStats(),
       daily: this.dailyRateLimiter.getStats(),
     };
   }
 
+  /**
+   * Count the tokens a prompt uses with the current model
+   */
+  async countTokens(text: string): Promise<number> {
+    const result = await this.model.countTokens(text);
+    return result.totalTokens;
+  }
+
   /**
    * Check model availability and quota
    */
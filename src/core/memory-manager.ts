@@ -3,19 +3,172 @@
  * Adapted from Claude Code Flow by ruvnet
  */
 
-import fs from 'fs-extra';
 import path from 'path';
-import { MemoryEntry, AgentMode } from '../types';
+import { JsonMemoryStore } from '../memory/json-memory-store';
+import { SqliteMemoryStore } from '../memory/sqlite-memory-store';
+import { LocalEmbedder, cosineSimilarity } from '../memory/embeddings';
+import { MemoryMigration, MigrationResult } from '../memory/memory-migration';
+import { CONSOLIDATED_TAG, MemoryConsolidator, MemoryGroup } from '../memory/memory-consolidator';
+import { StructuredOutput } from './structured-output';
+import {
+  ConfigFile,
+  MemoryEntry,
+  AgentMode,
+  MemoryBackend,
+  MemoryBackendOptions,
+  MemoryBackendStats,
+  MemoryBackendType,
+  MemoryContextItem,
+  MemoryEmbedding,
+  MemoryQuery,
+  MemoryRetention,
+  MemoryScope,
+  EmbeddingProvider,
+} from '../types';
+
+export const DEFAULT_MEMORY_PATH = './gemini-memory.json';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SQLITE_EXTENSIONS = ['.db', '.sqlite', '.sqlite3'];
+const DEFAULT_CANDIDATE_LIMIT = 2000;
+// Ranking bonus for entries from the same mode as the task, on the 0-1 similarity scale
+const SAME_MODE_BOOST = 0.05;
+// Share of a retention limit at which automatic consolidation starts
+const DEFAULT_CONSOLIDATION_THRESHOLD = 0.8;
+// Automatic runs are spaced out so a failing model is not asked on every store
+const AUTO_CONSOLIDATION_INTERVAL_MS = 10 * 60 * 1000;
+// How often storing checks whether the bank is nearing its retention limits
+const CONSOLIDATION_CHECK_INTERVAL_MS = 60 * 1000;
+// Unpinned entries that have not been condensed yet, nor are the result of condensing
+const PENDING_CONSOLIDATION: MemoryQuery = { pinned: false, sources: false, excludeTags: [CONSOLIDATED_TAG] };
+const CONSOLIDATION_AGENT_ID = 'memory-consolidator';
+
+/**
+ * The JSON store holds everything in memory, so it keeps its historical limits.
+ * SQLite keeps entries until retention is configured.
+ */
+const DEFAULT_RETENTION: Record<MemoryBackendType, MemoryRetention> = {
+  json: { maxEntries: 1000, maxAgeMs: 7 * DAY_MS },
+  sqlite: {},
+};
+
+export interface MemoryManagerOptions {
+  /** Backend instance or type; inferred from the file extension when omitted */
+  backend?: MemoryBackend | MemoryBackendType;
+  retention?: MemoryRetention;
+  /** Embeds entries for semantic search; defaults to the local embedder */
+  embedder?: EmbeddingProvider;
+  /** How many of the newest entries semantic search considers */
+  candidateLimit?: number;
+  /** Condenses entries automatically when the bank nears its retention limits */
+  consolidator?: MemoryConsolidator;
+  /** Share of a retention limit (0-1) at which automatic consolidation starts */
+  consolidationThreshold?: number;
+  /** Open the memory bank to look at it: nothing is pruned, consolidated or written */
+  readOnly?: boolean;
+}
+
+export interface ScoredMemoryEntry {
+  entry: MemoryEntry;
+  score: number;
+}
+
+export interface MemoryStats extends MemoryBackendStats {
+  backend: MemoryBackendType;
+}
+
+export interface ConsolidationOptions {
+  scope?: MemoryScope;
+  /** Only work out the groups, without asking the model */
+  dryRun?: boolean;
+}
+
+export interface ConsolidationResult {
+  groups: MemoryGroup[];
+  /** The knowledge and decision entries that were stored */
+  created: MemoryEntry[];
+  /** How many entries were condensed */
+  consolidated: number;
+  failed: Array<{ key: string; error: string }>;
+}
 
 export class MemoryManager {
-  private memoryPath: string;
-  private cache: Map<string, MemoryEntry[]> = new Map();
+  private backend: MemoryBackend;
+  private retention: MemoryRetention;
+  private embedder: EmbeddingProvider;
+  private fallbackEmbedder: EmbeddingProvider = new LocalEmbedder();
+  private candidateLimit: number;
   private initialized: boolean = false;
-  private readonly maxEntries: number = 1000; // Limit total entries
-  private readonly maxAge: number = 7 * 24 * 60 * 60 * 1000; // 7 days
+  private warnedFallback: boolean = false;
+  private consolidator?: MemoryConsolidator;
+  private consolidationThreshold: number;
+  private autoConsolidation?: Promise<void>;
+  private lastAutoConsolidation: number = 0;
+  private lastConsolidationCheck: number = 0;
+  private readOnly: boolean;
 
-  constructor(memoryPath: string) {
-    this.memoryPath = memoryPath;
+  constructor(memoryPath: string, options: MemoryManagerOptions = {}) {
+    this.backend = typeof options.backend === 'object'
+      ? options.backend
+      : MemoryManager.createBackend(memoryPath, options.backend || MemoryManager.inferBackendType(memoryPath), {
+        readOnly: options.readOnly,
+      });
+    this.retention = options.retention || DEFAULT_RETENTION[this.backend.type];
+    this.embedder = options.embedder || this.fallbackEmbedder;
+    this.candidateLimit = options.candidateLimit || DEFAULT_CANDIDATE_LIMIT;
+    this.consolidator = options.consolidator;
+    this.consolidationThreshold = options.consolidationThreshold ?? DEFAULT_CONSOLIDATION_THRESHOLD;
+    this.readOnly = options.readOnly ?? false;
+  }
+
+  /**
+   * Backend type implied by a memory file name
+   */
+  static inferBackendType(memoryPath: string): MemoryBackendType {
+    return SQLITE_EXTENSIONS.includes(path.extname(memoryPath).toLowerCase()) ? 'sqlite' : 'json';
+  }
+
+  /**
+   * Memory manager for the memory settings of a configuration file
+   */
+  static fromConfig(
+    config: ConfigFile,
+    options: Pick<MemoryManagerOptions, 'embedder' | 'consolidator' | 'readOnly'> = {}
+  ): MemoryManager {
+    return new MemoryManager(config.memoryPath || DEFAULT_MEMORY_PATH, {
+      backend: config.memoryBackend,
+      retention: config.memoryRetention && MemoryManager.toRetention(config.memoryRetention),
+      embedder: options.embedder,
+      consolidator: options.consolidator,
+      consolidationThreshold: config.memoryConsolidation?.threshold,
+      readOnly: options.readOnly,
+    });
+  }
+
+  static createBackend(memoryPath: string, type: MemoryBackendType, options: MemoryBackendOptions = {}): MemoryBackend {
+    return type === 'sqlite' ? new SqliteMemoryStore(memoryPath, options) : new JsonMemoryStore(memoryPath, options);
+  }
+
+  /**
+   * Convert retention limits from the config file (days) to milliseconds
+   */
+  static toRetention(config: { maxEntries?: number; maxAgeDays?: number }): MemoryRetention {
+    return {
+      maxEntries: config.maxEntries,
+      maxAgeMs: config.maxAgeDays !== undefined ? config.maxAgeDays * DAY_MS : undefined,
+    };
+  }
+
+  /**
+   * An entry's content as text, with agent results rendered as Markdown
+   */
+  static entryText(entry: MemoryEntry): string {
+    if (typeof entry.content === 'string') {
+      return entry.content;
+    }
+    return StructuredOutput.isAgentResult(entry.content)
+      ? StructuredOutput.toMarkdown(entry.content)
+      : JSON.stringify(entry.content);
   }
 
   /**
@@ -24,31 +177,17 @@ export class MemoryManager {
   async initialize(): Promise<void> {
     if (this.initialized) return;
 
-    // Ensure directory exists
-    await fs.ensureDir(path.dirname(this.memoryPath));
+    await this.backend.initialize();
+    this.initialized = true;
+    if (this.readOnly) return;
 
-    // Load existing memory (eliminate TOCTOU race condition)
-    try {
-      const data = await fs.readJson(this.memoryPath);
-      Object.entries(data).forEach(([key, entries]) => {
-        // Properly deserialize dates from JSON
-        const deserializedEntries = (entries as MemoryEntry[]).map(entry => ({
-          ...entry,
-          timestamp: entry.timestamp ? new Date(entry.timestamp) : new Date()
-        }));
-        this.cache.set(key, deserializedEntries as MemoryEntry[]);
-      });
-    } catch (error) {
-      // File doesn't exist or is corrupted - start with empty cache
-      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
-        console.warn('Failed to load memory:', error instanceof Error ? error.message : 'Unknown error');
-      }
-    }
+    // Condense what the retention pass below is about to drop, then clean up old entries
+    await this.autoConsolidate();
+    await this.backend.prune(this.retention);
+  }
 
-    this.initialized = true;
-    
-    // Clean up old entries after initialization
-    this.cleanup();
+  getBackendType(): MemoryBackendType {
+    return this.backend.type;
   }
 
   /**
@@ -56,141 +195,324 @@ export class MemoryManager {
    */
   async store(entry: Omit<MemoryEntry, 'id' | 'timestamp'>): Promise<void> {
     const memoryEntry: MemoryEntry = {
-      id: `mem-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
+      id: MemoryManager.newId(),
       timestamp: new Date(),
       ...entry,
     };
+    [memoryEntry.embedding] = await this.embed([MemoryManager.entryText(memoryEntry)], 'document');
+
+    await this.backend.insert(memoryEntry);
 
-    const key = entry.agentId || 'global';
-    const entries = this.cache.get(key) || [];
-    entries.push(memoryEntry);
-    this.cache.set(key, entries);
+    // Consolidate in the background when nearing the limits, so storing does not wait on the model
+    if (this.consolidator && !this.autoConsolidation &&
+        Date.now() - this.lastConsolidationCheck >= CONSOLIDATION_CHECK_INTERVAL_MS) {
+      this.autoConsolidation = this.autoConsolidate().finally(() => {
+        this.autoConsolidation = undefined;
+      });
+    }
 
     // Clean up old entries if we're over the limit
-    this.cleanup();
+    await this.backend.prune(this.retention);
+  }
+
+  /**
+   * Get context for a specific mode, optionally limited to a namespace scope
+   */
+  async getContext(mode: AgentMode, scope?: MemoryScope): Promise<MemoryContextItem[]> {
+    const entries = await this.backend.query({ tags: [mode], scope, order: 'desc', limit: 10 }); // Last 10 relevant entries
 
-    // Auto-save periodically
-    this.scheduleSave();
+    return entries.map(entry => MemoryManager.summarize(entry));
   }
 
   /**
-   * Get context for a specific mode
+   * Get the entries most similar to a task, from any mode. Entries from the
+   * task's own mode rank slightly higher.
    */
-  async getContext(mode: AgentMode): Promise<Array<{ type: string; summary: string; timestamp: Date }>> {
-    const allEntries = Array.from(this.cache.values()).flat();
-    
-    return allEntries
-      .filter(entry => entry.tags.includes(mode))
-      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
-      .slice(0, 10) // Last 10 relevant entries
-      .map(entry => ({
-        type: entry.type,
-        summary: typeof entry.content === 'string' 
-          ? entry.content.substring(0, 200) + '...'
-          : JSON.stringify(entry.content).substring(0, 200) + '...',
-        timestamp: entry.timestamp,
-      }));
+  async getRelevantContext(
+    description: string,
+    mode: AgentMode,
+    options: { limit?: number; scope?: MemoryScope } = {}
+  ): Promise<MemoryContextItem[]> {
+    const results = await this.searchSimilar(description, { limit: options.limit, scope: options.scope, boostTags: [mode] });
+
+    return results.map(({ entry, score }) => ({ ...MemoryManager.summarize(entry), score }));
   }
 
   /**
    * Search memory entries
    */
-  async search(query: string, tags?: string[]): Promise<MemoryEntry[]> {
-    const allEntries = Array.from(this.cache.values()).flat();
-    
-    return allEntries.filter(entry => {
-      const contentMatch = JSON.stringify(entry.content).toLowerCase().includes(query.toLowerCase());
-      const tagsMatch = !tags || tags.some(tag => entry.tags.includes(tag));
-      return contentMatch && tagsMatch;
+  async search(query: string, tags?: string[], scope?: MemoryScope): Promise<MemoryEntry[]> {
+    const entries = await this.backend.query({ text: query, tags, scope });
+    return entries.map(entry => MemoryManager.withoutEmbedding(entry));
+  }
+
+  /**
+   * List entries matching every given filter, newest first unless `order` says otherwise
+   */
+  async list(filters: MemoryQuery = {}): Promise<MemoryEntry[]> {
+    const entries = await this.backend.query({ order: 'desc', ...filters });
+    return entries.map(entry => MemoryManager.withoutEmbedding(entry));
+  }
+
+  /**
+   * Get one entry by id, including its embedding
+   */
+  async get(id: string): Promise<MemoryEntry | undefined> {
+    return this.backend.get(id);
+  }
+
+  /**
+   * Delete entries by id; returns how many existed
+   */
+  async delete(ids: string[]): Promise<number> {
+    return this.backend.delete(ids);
+  }
+
+  /**
+   * Pin or unpin entries. Pinned entries are kept regardless of retention.
+   * Returns the ids that exist.
+   */
+  async pin(ids: string[], pinned: boolean = true): Promise<string[]> {
+    const found: string[] = [];
+    for (const id of ids) {
+      if (await this.backend.update(id, { pinned })) {
+        found.push(id);
+      }
+    }
+    return found;
+  }
+
+  /**
+   * Add and remove tags on an entry; returns the updated entry, or undefined if it does not exist
+   */
+  async tag(id: string, changes: { add?: string[]; remove?: string[] }): Promise<MemoryEntry | undefined> {
+    const entry = await this.backend.get(id);
+    if (!entry) return undefined;
+
+    const removed = new Set(changes.remove || []);
+    const tags = [...entry.tags, ...(changes.add || [])].filter(tag => !removed.has(tag));
+    const updated = await this.backend.update(id, { tags });
+    return updated && MemoryManager.withoutEmbedding(updated);
+  }
+
+  /**
+   * Entries matching the filters with their embeddings, oldest first, for writing to a memory file
+   */
+  async export(filters: MemoryQuery = {}): Promise<MemoryEntry[]> {
+    return this.backend.query({ order: 'asc', ...filters });
+  }
+
+  /**
+   * Add the entries of a JSON memory file. Entries already stored are skipped.
+   */
+  async importJson(filePath: string): Promise<MigrationResult> {
+    return MemoryMigration.importJson(filePath, this.backend);
+  }
+
+  /**
+   * Summarize what the memory bank holds
+   */
+  async stats(): Promise<MemoryStats> {
+    return { backend: this.backend.type, ...await this.backend.stats() };
+  }
+
+  /**
+   * Condense groups of related entries into knowledge and decision entries
+   * that link to their sources and, like pinned entries, are kept past the
+   * retention limits. The sources are tagged "consolidated" so they are not
+   * condensed again, and are otherwise left to retention.
+   * A group the model fails on is reported and left as it was.
+   */
+  async consolidate(consolidator: MemoryConsolidator, options: ConsolidationOptions = {}): Promise<ConsolidationResult> {
+    const candidates = await this.pendingConsolidation(options.scope);
+    const result: ConsolidationResult = { groups: consolidator.group(candidates), created: [], consolidated: 0, failed: [] };
+    if (options.dryRun) return result;
+
+    for (const group of result.groups) {
+      try {
+        const condensed = await consolidator.condense(group);
+        const timestamp = new Date();
+        const entries: MemoryEntry[] = condensed.map(item => ({
+          id: MemoryManager.newId(),
+          agentId: CONSOLIDATION_AGENT_ID,
+          timestamp,
+          type: item.type,
+          content: item.content,
+          tags: item.tags,
+          namespace: group.namespace,
+          sources: item.sources,
+        }));
+        const embeddings = await this.embed(entries.map(entry => MemoryManager.entryText(entry)), 'document');
+        entries.forEach((entry, i) => {
+          entry.embedding = embeddings[i];
+        });
+
+        await this.backend.insertMany(entries);
+        for (const source of group.entries) {
+          await this.backend.update(source.id, { tags: [...source.tags, CONSOLIDATED_TAG] });
+        }
+
+        result.created.push(...entries.map(entry => MemoryManager.withoutEmbedding(entry)));
+        result.consolidated += group.entries.length;
+      } catch (error) {
+        result.failed.push({ key: group.key, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Rank entries by embedding similarity to `text`. Only the newest entries
+   * (see candidateLimit) are considered; those embedded by another model are
+   * re-embedded first.
+   */
+  async searchSimilar(
+    text: string,
+    options: { tags?: string[]; scope?: MemoryScope; limit?: number; boostTags?: string[] } = {}
+  ): Promise<ScoredMemoryEntry[]> {
+    const [query] = await this.embed([text], 'query');
+    const candidates = await this.backend.query({
+      tags: options.tags,
+      scope: options.scope,
+      order: 'desc',
+      limit: this.candidateLimit,
     });
+    await this.backfillEmbeddings(candidates, query.model);
+
+    const boostTags = options.boostTags || [];
+    return candidates
+      .filter(entry => entry.embedding?.model === query.model)
+      .map(entry => {
+        const score = cosineSimilarity(query.vector, entry.embedding!.vector);
+        const boost = entry.tags.some(tag => boostTags.includes(tag)) ? SAME_MODE_BOOST : 0;
+        return { entry: MemoryManager.withoutEmbedding(entry), score, rank: score + boost };
+      })
+      .filter(result => result.score > 0)
+      .sort((a, b) => b.rank - a.rank)
+      .slice(0, options.limit ?? 10)
+      .map(({ entry, score }) => ({ entry, score }));
   }
 
   /**
    * Flush memory to disk
    */
   async flush(): Promise<void> {
-    const data = Object.fromEntries(this.cache.entries());
-    await fs.writeJson(this.memoryPath, data, { spaces: 2 });
+    await this.backend.flush();
   }
 
   /**
-   * Schedule periodic saves
+   * Flush and release the backend. initialize() may be called again afterwards.
    */
-  private scheduleSave(): void {
-    if (this.saveTimeout) return;
-    
-    this.saveTimeout = setTimeout(async () => {
-      await this.flush();
-      this.saveTimeout = null;
-    }, 5000); // Save every 5 seconds
+  async close(): Promise<void> {
+    await this.autoConsolidation;
+    await this.backend.close();
+    this.initialized = false;
   }
 
-  private saveTimeout: NodeJS.Timeout | null = null;
+  /**
+   * Unpinned entries that have not been condensed yet, oldest first
+   */
+  private async pendingConsolidation(scope?: MemoryScope): Promise<MemoryEntry[]> {
+    return this.backend.query({ ...PENDING_CONSOLIDATION, scope, order: 'asc' });
+  }
 
   /**
-   * Clean up old entries to prevent memory growth
+   * Run the configured consolidator when entries awaiting it come close to a
+   * retention limit: too many of them, or the oldest close to expiring
    */
-  private cleanup(): void {
-    const now = Date.now();
-    let totalEntries = 0;
-    
-    // Remove old entries
-    for (const [key, entries] of this.cache.entries()) {
-      const validEntries = entries.filter(entry => {
-        const age = now - entry.timestamp.getTime();
-        return age < this.maxAge;
-      });
-      
-      if (validEntries.length === 0) {
-        this.cache.delete(key);
-      } else {
-        this.cache.set(key, validEntries);
+  private async autoConsolidate(): Promise<void> {
+    const { maxEntries, maxAgeMs } = this.retention;
+    if (!this.consolidator || (maxEntries === undefined && maxAgeMs === undefined) ||
+        Date.now() - this.lastAutoConsolidation < AUTO_CONSOLIDATION_INTERVAL_MS) {
+      return;
+    }
+
+    this.lastConsolidationCheck = Date.now();
+    const nearCount = maxEntries !== undefined &&
+      await this.backend.count(PENDING_CONSOLIDATION) >= maxEntries * this.consolidationThreshold;
+    const [oldest] = nearCount || maxAgeMs === undefined
+      ? []
+      : await this.backend.query({ ...PENDING_CONSOLIDATION, order: 'asc', limit: 1 });
+    const nearAge = maxAgeMs !== undefined && oldest !== undefined &&
+      Date.now() - oldest.timestamp.getTime() >= maxAgeMs * this.consolidationThreshold;
+    if (!nearCount && !nearAge) return;
+
+    this.lastAutoConsolidation = Date.now();
+    try {
+      const result = await this.consolidate(this.consolidator);
+      for (const failure of result.failed) {
+        console.warn(`Failed to consolidate memory for ${failure.key}:`, failure.error);
       }
-      
-      totalEntries += validEntries.length;
+    } catch (error) {
+      console.warn('Failed to consolidate memory:', error instanceof Error ? error.message : 'Unknown error');
     }
-    
-    // If still over limit, remove oldest entries
-    if (totalEntries > this.maxEntries) {
-      const allEntries: Array<{ key: string; entry: MemoryEntry; index: number }> = [];
-      
-      for (const [key, entries] of this.cache.entries()) {
-        entries.forEach((entry, index) => {
-          allEntries.push({ key, entry, index });
-        });
+  }
+
+  /**
+   * Embed with the configured embedder, falling back to the local one when it fails
+   */
+  private async embed(texts: string[], purpose: 'document' | 'query'): Promise<MemoryEmbedding[]> {
+    try {
+      return await this.embedWith(this.embedder, texts, purpose);
+    } catch (error) {
+      if (this.embedder === this.fallbackEmbedder) throw error;
+
+      if (!this.warnedFallback) {
+        console.warn(
+          `Embedding with ${this.embedder.model} failed, using local embeddings instead:`,
+          error instanceof Error ? error.message : 'Unknown error'
+        );
+        this.warnedFallback = true;
       }
-      
-      // Sort by timestamp (oldest first)
-      allEntries.sort((a, b) => a.entry.timestamp.getTime() - b.entry.timestamp.getTime());
-      
-      // Remove oldest entries by collecting them first, then removing in reverse order
-      const toRemove = Math.min(allEntries.length, totalEntries - this.maxEntries);
-      const entriesToRemove = allEntries.slice(0, toRemove);
-      
-      // Group by key to handle removals efficiently
-      const removalsByKey = new Map<string, number[]>();
-      entriesToRemove.forEach(({ key, index }) => {
-        const indices = removalsByKey.get(key) || [];
-        indices.push(index);
-        removalsByKey.set(key, indices);
+      return this.embedWith(this.fallbackEmbedder, texts, purpose);
+    }
+  }
+
+  private async embedWith(
+    embedder: EmbeddingProvider,
+    texts: string[],
+    purpose: 'document' | 'query'
+  ): Promise<MemoryEmbedding[]> {
+    const vectors = await embedder.embed(texts, purpose);
+    return vectors.map(vector => ({ model: embedder.model, vector }));
+  }
+
+  /**
+   * Give entries lacking an embedding from `model` one, and save it.
+   * Entries that cannot be embedded are left out of this search.
+   */
+  private async backfillEmbeddings(entries: MemoryEntry[], model: string): Promise<void> {
+    const stale = entries.filter(entry => entry.embedding?.model !== model);
+    if (stale.length === 0) return;
+
+    const embedder = model === this.embedder.model ? this.embedder : this.fallbackEmbedder;
+    try {
+      const embeddings = await this.embedWith(embedder, stale.map(entry => MemoryManager.entryText(entry)), 'document');
+      stale.forEach((entry, i) => {
+        entry.embedding = embeddings[i];
       });
-      
-      // Remove entries in reverse order to maintain correct indices
-      for (const [key, indices] of removalsByKey.entries()) {
-        const entries = this.cache.get(key);
-        if (entries) {
-          // Sort indices in descending order and remove
-          indices.sort((a, b) => b - a).forEach(index => {
-            if (index < entries.length) {
-              entries.splice(index, 1);
-            }
-          });
-          
-          if (entries.length === 0) {
-            this.cache.delete(key);
-          }
-        }
-      }
+      await this.backend.updateEmbeddings(stale.map(entry => ({ id: entry.id, embedding: entry.embedding! })));
+    } catch (error) {
+      console.warn('Failed to embed memory entries:', error instanceof Error ? error.message : 'Unknown error');
     }
   }
-}
\ No newline at end of file
+
+  private static newId(): string {
+    return `mem-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
+  }
+
+  private static summarize(entry: MemoryEntry): MemoryContextItem {
+    return {
+      type: entry.type,
+      summary: MemoryManager.entryText(entry).substring(0, 200) + '...',
+      timestamp: entry.timestamp,
+    };
+  }
+
+  private static withoutEmbedding(entry: MemoryEntry): MemoryEntry {
+    const copy = { ...entry };
+    delete copy.embedding;
+    return copy;
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * Mode Catalog for Gemini Code Flow
+ * The single source of truth for built-in SPARC mode metadata: names,
+ * icons, descriptions, system prompts, sampling temperatures, result sections
+ * and which modes edit files
+ */
+
+import { AgentMode, BuiltInMode, ResultSection, SparcMode } from '../types';
+
+export const DEFAULT_SYSTEM_PROMPT = 'You are an AI assistant following the SPARC methodology for systematic development.';
+export const DEFAULT_MODE_ICON = '🤖';
+
+/**
+ * A built-in mode always has a temperature and result sections
+ */
+export interface ModeDefinition extends SparcMode {
+  temperature: number;
+  output: ResultSection[];
+}
+
+/**
+ * Built-in settings for every SPARC mode
+ */
+export const MODE_CATALOG: Record<BuiltInMode, ModeDefinition> = {
+  architect: {
+    name: 'Architect',
+    icon: '🏗️',
+    description: 'System design and architecture',
+    temperature: 0.7,
+    systemPrompt: 'You are an expert system architect. Design scalable, maintainable solutions using best practices and design patterns.',
+    output: ['specification', 'architecture', 'openQuestions', 'followUpTasks'],
+  },
+  coder: {
+    name: 'Auto-Coder',
+    icon: '🧠',
+    description: 'Clean, modular implementation',
+    temperature: 0.3,
+    systemPrompt: 'You are an expert programmer. Write clean, efficient, and well-documented code following best practices.',
+    output: ['pseudocode', 'code', 'openQuestions', 'followUpTasks'],
+    editsFiles: true,
+  },
+  tester: {
+    name: 'Tester (TDD)',
+    icon: '🧪',
+    description: 'Test-driven development',
+    temperature: 0.2,
+    systemPrompt: 'You are a testing specialist. Create comprehensive test cases and implement test-driven development practices.',
+    output: ['testPlan', 'code', 'openQuestions', 'followUpTasks'],
+    editsFiles: true,
+  },
+  debugger: {
+    name: 'Debugger',
+    icon: '🪲',
+    description: 'Troubleshooting and bug fixes',
+    temperature: 0.1,
+    systemPrompt: 'You are a debugging expert. Identify and fix issues systematically, considering root causes and edge cases.',
+    output: ['specification', 'code', 'testPlan', 'followUpTasks'],
+    editsFiles: true,
+  },
+  security: {
+    name: 'Security Reviewer',
+    icon: '🛡️',
+    description: 'Security audits and reviews',
+    temperature: 0.2,
+    systemPrompt: 'You are a security specialist. Identify vulnerabilities and implement secure coding practices.',
+    output: ['specification', 'refinement', 'code', 'openQuestions', 'followUpTasks'],
+  },
+  documentation: {
+    name: 'Documentation Writer',
+    icon: '📚',
+    description: 'Comprehensive documentation',
+    temperature: 0.5,
+    systemPrompt: 'You are a technical writer. Create clear, comprehensive documentation for developers and users.',
+    output: ['completion', 'openQuestions', 'followUpTasks'],
+  },
+  integrator: {
+    name: 'System Integrator',
+    icon: '🔗',
+    description: 'Component integration',
+    temperature: 0.4,
+    systemPrompt: 'You are a system integration expert. Connect components and ensure seamless interoperability.',
+    output: ['architecture', 'code', 'followUpTasks'],
+  },
+  monitor: {
+    name: 'Deployment Monitor',
+    icon: '📈',
+    description: 'Performance monitoring',
+    temperature: 0.2,
+    systemPrompt: 'You are a monitoring specialist. Implement observability and performance tracking solutions.',
+    output: ['architecture', 'code', 'followUpTasks'],
+  },
+  optimizer: {
+    name: 'Optimizer',
+    icon: '🧹',
+    description: 'Code optimization',
+    temperature: 0.3,
+    systemPrompt: 'You are a performance optimization expert. Improve efficiency and resource utilization.',
+    output: ['refinement', 'code', 'testPlan', 'followUpTasks'],
+  },
+  ask: {
+    name: 'Ask',
+    icon: '❓',
+    description: 'Task formulation guide',
+    temperature: 0.8,
+    systemPrompt: 'You are a task formulation expert. Help clarify requirements and break down complex problems.',
+    output: ['specification', 'openQuestions', 'followUpTasks'],
+  },
+  devops: {
+    name: 'DevOps',
+    icon: '🚀',
+    description: 'Deployment and infrastructure',
+    temperature: 0.3,
+    systemPrompt: 'You are a DevOps engineer. Implement deployment, infrastructure, and automation solutions.',
+    output: ['architecture', 'code', 'followUpTasks'],
+  },
+  tutorial: {
+    name: 'SPARC Tutorial',
+    icon: '📘',
+    description: 'Interactive learning',
+    temperature: 0.6,
+    systemPrompt: 'You are an educational expert. Create step-by-step learning materials and tutorials.',
+    output: ['completion', 'code', 'followUpTasks'],
+  },
+  database: {
+    name: 'Database Admin',
+    icon: '🔐',
+    description: 'Database management',
+    temperature: 0.2,
+    systemPrompt: 'You are a database administrator. Design and optimize data storage and retrieval systems.',
+    output: ['architecture', 'code', 'followUpTasks'],
+  },
+  specification: {
+    name: 'Specification Writer',
+    icon: '📋',
+    description: 'Requirements and pseudocode',
+    temperature: 0.4,
+    systemPrompt: 'You are a requirements analyst. Write clear specifications and pseudocode.',
+    output: ['specification', 'pseudocode', 'openQuestions', 'followUpTasks'],
+  },
+  mcp: {
+    name: 'MCP Integration',
+    icon: '♾️',
+    description: 'External service integration',
+    temperature: 0.3,
+    systemPrompt: 'You are an integration specialist. Connect external services and APIs using MCP protocols.',
+    output: ['architecture', 'code', 'followUpTasks'],
+  },
+  orchestrator: {
+    name: 'SPARC Orchestrator',
+    icon: '⚡',
+    description: 'Complex workflows',
+    temperature: 0.5,
+    systemPrompt: 'You are a workflow orchestrator. Coordinate complex multi-step processes.',
+    output: ['specification', 'openQuestions', 'followUpTasks'],
+  },
+  designer: {
+    name: 'Designer',
+    icon: '🎨',
+    description: 'UI/UX with multimodal',
+    temperature: 0.8,
+    systemPrompt: 'You are a UI/UX designer. Create intuitive and visually appealing user interfaces.',
+    output: ['specification', 'architecture', 'code', 'openQuestions', 'followUpTasks'],
+  },
+};
+
+export const BUILT_IN_MODE_NAMES = Object.keys(MODE_CATALOG) as BuiltInMode[];
+
+/**
+ * Check whether a mode is one of the built-in SPARC modes
+ */
+export function isBuiltInMode(mode: string): mode is BuiltInMode {
+  return Object.prototype.hasOwnProperty.call(MODE_CATALOG, mode);
+}
+
+/**
+ * Get the catalog temperature for a mode, falling back for custom modes
+ */
+export function getModeTemperature(mode: AgentMode, fallback: number = 0.5): number {
+  return isBuiltInMode(mode) ? MODE_CATALOG[mode].temperature : fallback;
+}
@@ -0,0 +1,100 @@
+/**
+ * Mode File Loader for Gemini Code Flow
+ * Reads custom modes from Markdown files with YAML frontmatter
+ */
+
+import fs from 'fs-extra';
+import path from 'path';
+import YAML from 'yaml';
+import { AgentMode, SparcMode } from '../types';
+import { Validator, ValidationError } from '../utils/validation';
+import { isBuiltInMode } from './mode-catalog';
+
+export const DEFAULT_MODES_DIR = '.gemini-flow/modes';
+
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)([\s\S]*)$/;
+const FRONTMATTER_FIELDS = ['name', 'icon', 'description', 'temperature', 'maxTokens', 'contextTokens', 'model', 'tools', 'output', 'editsFiles'];
+
+export interface ModeFile {
+  mode: AgentMode;
+  settings: Partial<SparcMode>;
+}
+
+export class ModeLoader {
+  /**
+   * List the mode files in a directory, sorted by name
+   */
+  static async listModeFiles(dir: string): Promise<string[]> {
+    if (!(await fs.pathExists(dir))) {
+      return [];
+    }
+
+    const entries = await fs.readdir(dir);
+    return entries
+      .filter(entry => path.extname(entry).toLowerCase() === '.md')
+      .sort()
+      .map(entry => path.join(dir, entry));
+  }
+
+  /**
+   * The mode a file defines: migration-planner.md defines "migration-planner"
+   */
+  static modeName(filePath: string): string {
+    return path.basename(filePath, path.extname(filePath));
+  }
+
+  /**
+   * Load a mode file. The file name is the mode name.
+   */
+  static async load(filePath: string): Promise<ModeFile> {
+    const content = await fs.readFile(filePath, 'utf8');
+    const mode = this.modeName(filePath);
+
+    return { mode, settings: this.parse(content, mode) };
+  }
+
+  /**
+   * Parse mode file content. Frontmatter holds the settings and the
+   * body becomes the system prompt.
+   */
+  static parse(content: string, mode: string): Partial<SparcMode> {
+    if (!isBuiltInMode(mode)) {
+      Validator.validateModeName(mode);
+    }
+
+    const match = content.match(FRONTMATTER_PATTERN);
+    let frontmatter: unknown = {};
+    if (match) {
+      try {
+        frontmatter = YAML.parse(match[1]) ?? {};
+      } catch (error) {
+        throw new ValidationError(
+          `Mode "${mode}" frontmatter is not valid YAML: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          `modes.${mode}`
+        );
+      }
+    }
+
+    if (!frontmatter || typeof frontmatter !== 'object' || Array.isArray(frontmatter)) {
+      throw new ValidationError(`Mode "${mode}" frontmatter must be a set of key: value settings`, `modes.${mode}`);
+    }
+
+    const unknownFields = Object.keys(frontmatter).filter(key => !FRONTMATTER_FIELDS.includes(key));
+    if (unknownFields.length > 0) {
+      throw new ValidationError(
+        `Mode "${mode}" has unknown settings: ${unknownFields.join(', ')}. Supported: ${FRONTMATTER_FIELDS.join(', ')}`,
+        `modes.${mode}`
+      );
+    }
+
+    const body = (match ? match[2] : content).trim();
+    if (!body) {
+      throw new ValidationError(`Mode "${mode}" needs a prompt below its frontmatter`, `modes.${mode}`);
+    }
+
+    return Validator.validateModeOverrides(mode, {
+      ...(frontmatter as Record<string, unknown>),
+      systemPrompt: body,
+    }) as Partial<SparcMode>;
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * Mode Registry for Gemini Code Flow
+ * Merges built-in SPARC mode defaults with overrides from .gemini-flow.json
+ */
+
+import { AgentMode, ExecuteOptions, ResultSection, SparcMode } from '../types';
+import { DEFAULT_CONTEXT_TOKENS } from './context-builder';
+import { DEFAULT_RESULT_SECTIONS } from './structured-output';
+import {
+  MODE_CATALOG,
+  BUILT_IN_MODE_NAMES,
+  DEFAULT_MODE_ICON,
+  DEFAULT_SYSTEM_PROMPT,
+  getModeTemperature,
+  isBuiltInMode,
+} from './mode-catalog';
+
+/**
+ * Effective settings for a mode after applying config overrides
+ */
+export interface ResolvedMode extends SparcMode {
+  mode: AgentMode;
+  temperature: number;
+  overridden: Array<keyof SparcMode>;
+  custom: boolean;
+}
+
+export class ModeRegistry {
+  private overrides: Partial<Record<AgentMode, Partial<SparcMode>>>;
+
+  constructor(overrides: Partial<Record<AgentMode, Partial<SparcMode>>> = {}) {
+    this.overrides = overrides;
+  }
+
+  /**
+   * Get the effective settings for a mode. Custom modes are defined
+   * entirely by their config entry or mode file.
+   */
+  get(mode: AgentMode): ResolvedMode {
+    const custom = !isBuiltInMode(mode);
+    const defaults: SparcMode = isBuiltInMode(mode) ? MODE_CATALOG[mode] : {
+      name: mode,
+      icon: DEFAULT_MODE_ICON,
+      description: '',
+      systemPrompt: DEFAULT_SYSTEM_PROMPT,
+    };
+    const override = this.overrides[mode] || {};
+    const overridden = custom ? [] : (Object.keys(override) as Array<keyof SparcMode>)
+      .filter(key => override[key] !== undefined);
+
+    return {
+      ...defaults,
+      ...Object.fromEntries(Object.entries(override).filter(([, value]) => value !== undefined)),
+      mode,
+      temperature: override.temperature ?? defaults.temperature ?? getModeTemperature(mode),
+      overridden,
+      custom,
+    };
+  }
+
+  /**
+   * Get the effective settings for every built-in mode, then every custom mode
+   */
+  list(): ResolvedMode[] {
+    return [...BUILT_IN_MODE_NAMES, ...this.getCustomModes()].map(mode => this.get(mode));
+  }
+
+  /**
+   * Names of the custom modes declared in config or mode files
+   */
+  getCustomModes(): string[] {
+    return Object.keys(this.overrides).filter(mode => !isBuiltInMode(mode));
+  }
+
+  /**
+   * Get the system prompt for a mode, listing the tools it may use
+   */
+  getSystemPrompt(mode: AgentMode): string {
+    const { systemPrompt, tools } = this.get(mode);
+    if (!tools || tools.length === 0) {
+      return systemPrompt;
+    }
+    return `${systemPrompt}\n\nTools available in this mode: ${tools.join(', ')}.`;
+  }
+
+  /**
+   * Token budget for a mode's prompts
+   */
+  getContextBudget(mode: AgentMode): number {
+    return this.get(mode).contextTokens ?? DEFAULT_CONTEXT_TOKENS;
+  }
+
+  /**
+   * Sections a mode's results are made of
+   */
+  getOutputSections(mode: AgentMode): ResultSection[] {
+    return this.get(mode).output ?? DEFAULT_RESULT_SECTIONS;
+  }
+
+  /**
+   * Whether code in a mode's results is meant as edits to the project
+   */
+  editsFiles(mode: AgentMode): boolean {
+    return this.get(mode).editsFiles ?? false;
+  }
+
+  /**
+   * Generation settings the config overrides for a mode. Settings that are
+   * not overridden are left to the provider's own defaults.
+   */
+  getGenerationOptions(mode: AgentMode): Pick<ExecuteOptions, 'temperature' | 'maxOutputTokens' | 'model'> {
+    const override = this.overrides[mode] || {};
+    const options: Pick<ExecuteOptions, 'temperature' | 'maxOutputTokens' | 'model'> = {};
+
+    if (override.temperature !== undefined) options.temperature = override.temperature;
+    if (override.maxTokens !== undefined) options.maxOutputTokens = override.maxTokens;
+    if (override.model !== undefined) options.model = override.model;
+
+    return options;
+  }
+}
@@ -4,17 +4,53 @@
  */
 
 import { EventEmitter } from 'events';
-import { Agent, Task, OrchestratorConfig, ConfigFile } from '../types';
-import { GeminiClient } from './gemini-client';
-import { MemoryManager } from './memory-manager';
-import { TaskQueue } from './task-queue';
+import path from 'path';
+import {
+  Agent,
+  AgentMode,
+  AgentOutput,
+  AgentResult,
+  Task,
+  OrchestratorConfig,
+  ConfigFile,
+  ContextItemReport,
+  ContextSource,
+  ErrorClass,
+  EmbeddingProvider,
+  ExecuteOptions,
+  LLMProvider,
+  MemoryContextItem,
+  MemoryEntry,
+  MemoryNamespace,
+  MemoryScope,
+  RateLimitStatus,
+  RetryPolicy,
+  TaskRequest,
+} from '../types';
+import { ProviderRegistry, DEFAULT_PROVIDER } from '../providers/provider-registry';
+import { estimateTokens } from '../providers/provider-utils';
+import { MemoryManager, DEFAULT_MEMORY_PATH } from './memory-manager';
+import { ContextBuilder, ContextCandidate, ContextItem } from './context-builder';
+import { WorkspaceScanner } from './workspace-scanner';
+import { GeminiEmbedder } from '../memory/embeddings';
+import { MemoryConsolidator } from '../memory/memory-consolidator';
+import { TaskQueue, TaskDependencyError } from './task-queue';
+import { WorkflowLoader } from './workflow';
+import { ModeRegistry } from './mode-registry';
+import { StructuredOutput } from './structured-output';
+import { RunJournal } from './run-journal';
+import { ControlServer } from './control-server';
 import { Logger } from '../utils/logger';
 import { ErrorHandler } from '../utils/error-handler';
 import { Validator, ValidationError } from '../utils/validation';
 
+// Memory entries considered for each prompt, before the token budget is applied
+const MEMORY_CONTEXT_CANDIDATES = 20;
+
 export class Orchestrator extends EventEmitter {
   private agents: Map<string, Agent> = new Map();
-  private geminiClient: GeminiClient;
+  private providers: ProviderRegistry;
+  private modes: ModeRegistry;
   private memoryManager: MemoryManager;
   private taskQueue: TaskQueue;
   private config: OrchestratorConfig;
@@ -22,28 +58,60 @@ export class Orchestrator extends EventEmitter {
   private isRunning: boolean = false;
   private maxConcurrentAgents: number;
   private processingTasks: boolean = false;
+  private paused: boolean = false;
+  private runningTasks: Map<string, AbortController> = new Map();
+  private journal?: RunJournal;
+  private controlServer?: ControlServer;
+  private nextTaskNumber: number = 1;
 
   constructor(config: ConfigFile = {}) {
     super();
     // Convert config to full OrchestratorConfig with defaults
     this.config = {
       maxAgents: config.maxAgents || 10,
-      memoryPath: config.memoryPath || './gemini-memory.json',
+      memoryPath: config.memoryPath || DEFAULT_MEMORY_PATH,
+      memoryBackend: config.memoryBackend,
+      memoryRetention: config.memoryRetention,
+      memoryEmbeddings: config.memoryEmbeddings,
+      memoryScope: config.memoryScope || 'project',
+      memoryConsolidation: config.memoryConsolidation,
+      project: config.project || Orchestrator.defaultProject(),
       apiKey: config.apiKey,
       authMethod: config.authMethod || 'google-account',
-      modes: config.modes || {}
+      modes: config.modes || {},
+      runId: config.runId || `run-${Date.now()}`,
+      runLabel: config.runLabel,
+      statePath: config.statePath,
+      retryPolicy: config.retryPolicy,
+      provider: config.provider,
+      providers: config.providers,
+      recordPath: config.recordPath,
+      socketPath: config.socketPath
     };
     this.maxConcurrentAgents = this.config.maxAgents;
     this.logger = new Logger('Orchestrator');
     
     // Initialize components
-    this.geminiClient = new GeminiClient({
+    this.providers = new ProviderRegistry({
+      ...this.config,
       apiKey: this.config.apiKey || process.env.GEMINI_API_KEY,
       authMethod: this.config.authMethod || 'google-account',
     });
     
-    this.memoryManager = new MemoryManager(this.config.memoryPath);
+    this.modes = new ModeRegistry(this.config.modes);
+    this.memoryManager = MemoryManager.fromConfig(this.config, {
+      embedder: this.createEmbedder(),
+      consolidator: this.createConsolidator(),
+    });
     this.taskQueue = new TaskQueue();
+
+    if (this.config.statePath) {
+      this.journal = new RunJournal(this.config.runId, this.config.statePath);
+    }
+
+    if (this.config.socketPath) {
+      this.controlServer = new ControlServer(this, this.config.socketPath);
+    }
   }
 
   /**
@@ -58,7 +126,9 @@ export class Orchestrator extends EventEmitter {
     
     // Initialize components
     await this.memoryManager.initialize();
-    await this.checkGeminiHealth();
+    await this.journal?.initialize(this.config.runLabel);
+    await this.checkProviderHealth();
+    await this.controlServer?.listen();
     
     this.isRunning = true;
     this.emit('started');
@@ -80,11 +150,33 @@ export class Orchestrator extends EventEmitter {
     await this.waitForAgentsToComplete();
     
     // Save state
-    await this.memoryManager.flush();
+    await this.memoryManager.close();
+    await this.journal?.flush();
+    await this.controlServer?.close();
     
     this.emit('stopped');
   }
 
+  /**
+   * Stop handing queued tasks to agents. Tasks already running finish normally.
+   */
+  pause(): void {
+    if (this.paused) return;
+    this.paused = true;
+    this.logger.info('Task processing paused');
+    this.emit('paused');
+  }
+
+  /**
+   * Continue handing queued tasks to agents after a pause
+   */
+  resume(): void {
+    if (!this.paused) return;
+    this.paused = false;
+    this.logger.info('Task processing resumed');
+    this.emit('unpaused');
+  }
+
   /**
    * Add a task to the queue
    */
@@ -101,7 +193,7 @@ export class Orchestrator extends EventEmitter {
       
       // Validate task description and mode
       const validatedDescription = Validator.validateTaskDescription(task.description);
-      const validatedMode = Validator.validateAgentMode(task.mode);
+      const validatedMode = Validator.validateAgentMode(task.mode, this.modes.getCustomModes());
       
       // Create validated task
       const validatedTask: Task = {
@@ -114,19 +206,63 @@ export class Orchestrator extends EventEmitter {
       };
       
       this.taskQueue.add(validatedTask);
+      this.journal?.recordTask(validatedTask);
       this.emit('taskAdded', validatedTask);
+
+      const quarantined = this.taskQueue.getQuarantined().find(q => q.task.id === validatedTask.id);
+      if (quarantined) {
+        this.logger.warn(`Task ${validatedTask.id} quarantined: ${quarantined.error.message}`);
+        this.emit('taskQuarantined', quarantined);
+      }
       
       // Wake up the processor if idle
       if (this.isRunning && !this.processingTasks) {
         this.processTaskQueue();
       }
     } catch (error) {
-      const wrappedError = ErrorHandler.wrapError(error, 'Failed to add task to queue', 'addTask');
       this.logger.error('Task validation failed:', ErrorHandler.formatError(error));
-      throw wrappedError;
+      // Validation and dependency errors already name the problem, so surface them as-is
+      if (error instanceof ValidationError || error instanceof TaskDependencyError) {
+        throw error;
+      }
+      throw ErrorHandler.wrapError(error, 'Failed to add task to queue', 'addTask');
     }
   }
 
+  /**
+   * Queue a task submitted from the REPL, control socket or HTTP API, with a
+   * generated id unless the request names one. Returns the queued task.
+   * Unlike workflow steps, a submitted task may only depend on tasks already
+   * queued: quarantined, it could not be listed or waited on.
+   */
+  async submitTask(request: TaskRequest): Promise<Task> {
+    const id = request.id || this.generateTaskId();
+    if (this.getTask(id)) {
+      throw new ValidationError(`Task ${id} already exists`, 'id');
+    }
+    const unknown = request.dependencies.find(depId => !this.getTask(depId));
+    if (unknown) {
+      throw new TaskDependencyError(`Task ${id} depends on unknown task: ${id} -> ${unknown}`, 'unknown-dependency', [id, unknown]);
+    }
+
+    const now = new Date();
+    const task: Task = {
+      id,
+      description: request.description,
+      mode: request.mode,
+      priority: request.priority,
+      dependencies: request.dependencies,
+      files: request.files,
+      workspace: request.workspace,
+      status: 'pending',
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.addTask(task);
+    return this.getTask(id) || task;
+  }
+
   /**
    * Process tasks from the queue
    */
@@ -147,6 +283,12 @@ export class Orchestrator extends EventEmitter {
           continue;
         }
 
+        if (this.paused) {
+          await new Promise(resolve => setTimeout(resolve, 250));
+          continue;
+        }
+
+        // Only tasks whose dependencies have completed are handed out
         const task = await this.taskQueue.getNext();
         if (!task) {
           // No tasks available, wait
@@ -154,25 +296,6 @@ export class Orchestrator extends EventEmitter {
           continue;
         }
 
-        // Check dependencies
-        if (!(await this.areDependenciesMet(task))) {
-          // Re-queue the task with retry limit to prevent infinite loops
-          const retryCount = (task.retryCount || 0) + 1;
-          const maxRetries = 50; // Prevent infinite retries
-          
-          if (retryCount > maxRetries) {
-            this.logger.warn(`Task ${task.id} exceeded maximum retries for dependency resolution`);
-            task.status = 'failed';
-            this.emit('taskCompleted', task);
-            continue;
-          }
-          
-          task.retryCount = retryCount;
-          task.updatedAt = new Date();
-          this.taskQueue.add(task);
-          continue;
-        }
-
         // Spawn agent for the task
         await this.spawnAgent(task);
       } catch (error) {
@@ -214,117 +337,405 @@ export class Orchestrator extends EventEmitter {
     };
 
     this.agents.set(agent.id, agent);
+    task.assignedAgent = agent.id;
+    task.attempts = (task.attempts || 0) + 1;
+    task.nextAttemptAt = undefined;
+    task.updatedAt = new Date();
+    this.journal?.recordTask(task);
     this.emit('agentSpawned', agent);
 
+    // Abort on cancelTask() or when the task's deadline passes
+    const controller = new AbortController();
+    this.runningTasks.set(task.id, controller);
+    const timeout = task.timeoutMs
+      ? setTimeout(() => controller.abort('timed_out'), task.timeoutMs)
+      : undefined;
+    let errorClass: ErrorClass | undefined;
+
     try {
-      // Get context from memory
-      const context = await this.memoryManager.getContext(task.mode);
-      
-      // Build prompt with SPARC methodology
-      const prompt = this.buildSparcPrompt(task, context);
+      // Build prompt with SPARC methodology and as much relevant context as the mode's budget allows
+      const prompt = await this.buildSparcPrompt(task);
       
-      // Execute with Gemini
-      const result = await this.geminiClient.execute(prompt, task.mode);
+      // Execute with the mode's provider, releasing the agent slot as soon as the task is aborted
+      const provider = this.providers.forMode(task.mode);
+      const sections = this.modes.getOutputSections(task.mode);
+      const options = {
+        ...this.modes.getGenerationOptions(task.mode),
+        ...(this.providers.supportsStructuredOutput(task.mode) ? { responseSchema: StructuredOutput.schemaFor(sections) } : {}),
+        signal: controller.signal,
+      };
+      const reply = await this.withAbort(
+        this.listenerCount('agentOutput') > 0
+          ? this.streamOutput(provider, prompt, task, agent, options)
+          : provider.execute(prompt, task.mode, options),
+        controller.signal
+      );
+      const output = await StructuredOutput.parseWithRepair(
+        reply,
+        sections,
+        repairPrompt => this.withAbort(provider.execute(repairPrompt, task.mode, options), controller.signal),
+        problem => this.logger.warn(`Result of ${task.id} ${problem}`)
+      );
       
       // Store result in memory
       await this.memoryManager.store({
         agentId: agent.id,
         type: 'result',
-        content: result,
+        content: output,
         tags: [task.mode, 'completed'],
+        namespace: this.getMemoryNamespace(task),
       });
 
       // Update agent status
       agent.status = 'completed';
-      agent.result = result;
+      agent.result = output;
       agent.endTime = new Date();
+      task.output = output;
+      task.result = StructuredOutput.toMarkdown(output);
       
       this.emit('agentCompleted', agent);
     } catch (error) {
-      this.logger.error(`Agent ${agent.id} failed:`, error);
+      if (controller.signal.aborted) {
+        await this.recordAbortedAgent(agent, task, controller.signal.reason);
+        errorClass = agent.status === 'timed_out' ? 'timeout' : undefined;
+      } else {
+        this.logger.error(`Agent ${agent.id} failed:`, error);
+        errorClass = ErrorHandler.classifyError(error);
       
-      agent.status = 'failed';
-      agent.error = error instanceof Error ? error.message : 'Unknown error';
-      agent.endTime = new Date();
+        agent.status = 'failed';
+        agent.error = error instanceof Error ? error.message : 'Unknown error';
+        agent.endTime = new Date();
       
-      // Store error in memory
-      await this.memoryManager.store({
-        agentId: agent.id,
-        type: 'error',
-        content: error instanceof Error ? error.message : 'Unknown error',
-        tags: [task.mode, 'failed'],
-      });
+        // Store error in memory
+        await this.memoryManager.store({
+          agentId: agent.id,
+          type: 'error',
+          content: error instanceof Error ? error.message : 'Unknown error',
+          tags: [task.mode, 'failed'],
+          namespace: this.getMemoryNamespace(task),
+        });
       
-      this.emit('agentFailed', agent);
+        this.emit('agentFailed', agent);
+      }
+    } finally {
+      clearTimeout(timeout);
+      this.runningTasks.delete(task.id);
+    }
+
+    // Schedule agent cleanup after 5 minutes to prevent memory leak.
+    // Unref'd so a finished run can exit without waiting for it.
+    setTimeout(() => {
+      this.cleanupAgent(agent.id);
+    }, 5 * 60 * 1000).unref();
+
+    this.recordAttempt(task, agent, errorClass);
+
+    if (errorClass && this.scheduleRetry(task, agent, errorClass)) {
+      return;
     }
 
     // Mark task as complete
     task.status = agent.status;
+    task.statusReason = agent.error;
+    task.updatedAt = new Date();
+    this.journal?.recordTask(task);
     this.emit('taskCompleted', task);
-    
-    // Schedule agent cleanup after 5 minutes to prevent memory leak
-    setTimeout(() => {
-      this.cleanupAgent(agent.id);
-    }, 5 * 60 * 1000);
+
+    if (task.status === 'cancelled') {
+      this.emit('taskCancelled', task);
+    }
+
+    if (task.status !== 'completed') {
+      this.handleTaskFailure(task);
+    }
+  }
+
+  /**
+   * Add the outcome of an agent's attempt to the task history
+   */
+  private recordAttempt(task: Task, agent: Agent, errorClass?: ErrorClass): void {
+    task.history = [
+      ...(task.history || []),
+      {
+        attempt: task.attempts || 1,
+        agentId: agent.id,
+        status: agent.status,
+        startedAt: agent.startTime,
+        endedAt: agent.endTime || new Date(),
+        error: agent.error,
+        errorClass,
+      },
+    ];
+  }
+
+  /**
+   * Re-queue a failed task after its backoff if the retry policy allows it.
+   * Returns false when the failure is final.
+   */
+  private scheduleRetry(task: Task, agent: Agent, errorClass: ErrorClass): boolean {
+    const policy = this.getRetryPolicy(task);
+    const attempt = task.attempts || 1;
+
+    if (!ErrorHandler.shouldRetry(policy, errorClass, attempt)) {
+      return false;
+    }
+
+    const delayMs = ErrorHandler.getRetryDelay(policy, attempt);
+    task.status = 'pending';
+    task.statusReason = `Retrying after ${errorClass} error (attempt ${attempt + 1} of ${policy.maxAttempts}): ${agent.error}`;
+    task.nextAttemptAt = new Date(Date.now() + delayMs);
+    task.updatedAt = new Date();
+
+    this.taskQueue.add(task);
+    this.journal?.recordTask(task);
+    this.logger.warn(`Task ${task.id} will retry in ${delayMs}ms after ${errorClass} error`);
+    this.emit('taskRetrying', { task, attempt, delayMs, errorClass, error: agent.error });
+    return true;
+  }
+
+  /**
+   * Resolve a task's retry policy: defaults, then config, then mode, then task
+   */
+  private getRetryPolicy(task: Task): RetryPolicy {
+    return ErrorHandler.resolveRetryPolicy(
+      this.config.retryPolicy,
+      this.config.modes[task.mode]?.retryPolicy,
+      task.retryPolicy
+    );
+  }
+
+  /**
+   * Execute a prompt as a stream, emitting each chunk as `agentOutput`.
+   * Only used while something listens, so plain runs keep using execute().
+   */
+  private async streamOutput(
+    provider: LLMProvider,
+    prompt: string,
+    task: Task,
+    agent: Agent,
+    options: ExecuteOptions
+  ): Promise<string> {
+    let result = '';
+    for await (const chunk of provider.streamExecute(prompt, task.mode, options)) {
+      result += chunk;
+      const output: AgentOutput = { agentId: agent.id, taskId: task.id, chunk };
+      this.emit('agentOutput', output);
+    }
+    return result;
+  }
+
+  /**
+   * Reject as soon as the signal aborts, even if the underlying request
+   * does not honour it
+   */
+  private withAbort<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => reject(new Error(`Task ${signal.reason}`));
+      if (signal.aborted) {
+        onAbort();
+        return;
+      }
+
+      signal.addEventListener('abort', onAbort, { once: true });
+      promise.then(
+        value => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(value);
+        },
+        error => {
+          signal.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  /**
+   * Mark an agent as cancelled or timed out and record the outcome in memory
+   */
+  private async recordAbortedAgent(agent: Agent, task: Task, reason: unknown): Promise<void> {
+    const timedOut = reason === 'timed_out';
+
+    agent.status = timedOut ? 'timed_out' : 'cancelled';
+    agent.error = timedOut ? `Timed out after ${task.timeoutMs}ms` : 'Cancelled while running';
+    agent.endTime = new Date();
+    this.logger.warn(`Agent ${agent.id} ${timedOut ? 'timed out' : 'was cancelled'}`);
+
+    await this.memoryManager.store({
+      agentId: agent.id,
+      type: 'result',
+      content: { status: agent.status, reason: agent.error, task: task.description },
+      tags: [task.mode, agent.status],
+      namespace: this.getMemoryNamespace(task),
+    });
+
+    this.emit(timedOut ? 'agentTimedOut' : 'agentCancelled', agent);
+  }
+
+  /**
+   * Cancel a queued or running task. Returns false if the task is unknown
+   * or already finished.
+   */
+  async cancelTask(taskId: string): Promise<boolean> {
+    const running = this.runningTasks.get(taskId);
+    if (running) {
+      running.abort('cancelled');
+      return true;
+    }
+
+    const task = this.taskQueue.cancel(taskId, 'Cancelled before it started');
+    if (!task) {
+      return false;
+    }
+
+    await this.memoryManager.store({
+      agentId: 'orchestrator',
+      type: 'result',
+      content: { status: 'cancelled', reason: task.statusReason, task: task.description },
+      tags: [task.mode, 'cancelled'],
+      namespace: this.getMemoryNamespace(task),
+    });
+
+    this.journal?.recordTask(task);
+    this.emit('taskCancelled', task);
+    this.emit('taskCompleted', task);
+    this.handleTaskFailure(task);
+    return true;
+  }
+
+  /**
+   * Apply a failed task's failure policy to the rest of the queue
+   */
+  private handleTaskFailure(task: Task): void {
+    const skipped = this.taskQueue.propagateFailure(task.id);
+
+    for (const skippedTask of skipped) {
+      this.logger.warn(`Task ${skippedTask.id} skipped: ${skippedTask.statusReason}`);
+      this.journal?.recordTask(skippedTask);
+      this.emit('taskSkipped', skippedTask);
+    }
   }
 
   /**
    * Build SPARC-compliant prompt
    */
-  private buildSparcPrompt(task: Task, context: Array<{ type: string; summary: string; timestamp: Date }>): string {
-    const modePrompts = this.getSparcModePrompts();
-    const basePrompt = modePrompts[task.mode] || modePrompts.default;
+  private async buildSparcPrompt(task: Task): Promise<string> {
+    const basePrompt = this.modes.getSystemPrompt(task.mode);
 
-    return `
-${basePrompt}
+    const outputs = this.getInputOutputs(task);
+    const inlined = new Set(WorkflowLoader.getReferencedSteps(task.description));
+    const description = WorkflowLoader.renderTemplate(task.description, outputs);
 
-## Task Description
-${task.description}
+    const render = (context: ContextItem[]) => {
+      const section = (source: ContextSource, heading: string) => {
+        const items = context.filter(item => item.source === source);
+        return items.length > 0
+          ? `\n## ${heading}\n${items.map(item => `### ${item.title}\n${item.content}`).join('\n\n')}\n`
+          : '';
+      };
 
-## Context from Previous Agents
-${context.map(c => `- ${c.type}: ${c.summary}`).join('\n')}
+      return `
+${basePrompt}
 
+## Task Description
+${description}
+${section('input', 'Outputs from Previous Steps')}${section('file', 'Attached Files')}${section('workspace', 'Workspace')}${section('memory', 'Context from Previous Agents')}
 ## Expected Deliverables
-Please provide your response following the SPARC methodology:
-1. Specification: Define what needs to be done
-2. Pseudocode: Outline the approach
-3. Architecture: Design the solution
-4. Refinement: Iterate and improve
-5. Completion: Deliver the final result
-
-Remember to be thorough, systematic, and consider edge cases.
+Work through the task following the SPARC methodology, and be thorough, systematic and mindful of edge cases.
+
+${StructuredOutput.instructions(this.modes.getOutputSections(task.mode))}
 `;
+    };
+
+    const { candidates, unreadable } = await this.collectContext(task, description, outputs, inlined);
+    const budget = this.modes.getContextBudget(task.mode) - estimateTokens(render([]));
+    const { items, report } = ContextBuilder.build(candidates, budget);
+    report.dropped.push(...unreadable);
+
+    task.context = report;
+    this.logger.debug(
+      `Context for ${task.id}: ${report.included.length} included, ${report.dropped.length} dropped ` +
+      `(${report.usedTokens}/${report.budgetTokens} tokens)`
+    );
+
+    return render(items);
   }
 
   /**
-   * Get SPARC mode-specific prompts
+   * Gather what could go into a task's prompt. Step outputs rank first,
+   * then attached files, then the workspace tree and files, then memory
+   * entries by relevance to the task.
    */
-  private getSparcModePrompts(): Record<string, string> {
-    return {
-      architect: `You are an expert system architect. Design scalable, maintainable solutions using best practices and design patterns.`,
-      coder: `You are an expert programmer. Write clean, efficient, and well-documented code following best practices.`,
-      tester: `You are a testing specialist. Create comprehensive test cases and implement test-driven development practices.`,
-      debugger: `You are a debugging expert. Identify and fix issues systematically, considering root causes and edge cases.`,
-      security: `You are a security specialist. Identify vulnerabilities and implement secure coding practices.`,
-      documentation: `You are a technical writer. Create clear, comprehensive documentation for developers and users.`,
-      default: `You are an AI assistant following the SPARC methodology for systematic development.`,
-    };
+  private async collectContext(
+    task: Task,
+    description: string,
+    outputs: Record<string, AgentResult | string | undefined>,
+    inlined: Set<string>
+  ): Promise<{ candidates: ContextCandidate[]; unreadable: ContextItemReport[] }> {
+    const candidates: ContextCandidate[] = [];
+    const unreadable: ContextItemReport[] = [];
+
+    for (const [name, output] of Object.entries(outputs)) {
+      if (!inlined.has(name) && output !== undefined) {
+        const content = typeof output === 'string' ? output : StructuredOutput.toMarkdown(output);
+        candidates.push({ source: 'input', id: name, title: name, content, priority: 3 });
+      }
+    }
+
+    for (const file of task.files || []) {
+      try {
+        const content = await ContextBuilder.readFile(file);
+        candidates.push({ source: 'file', id: file, title: file, content, priority: 2 });
+      } catch (error) {
+        this.logger.warn(`Cannot attach ${file} to ${task.id}: ${ErrorHandler.sanitizeError(error)}`);
+        unreadable.push({ source: 'file', id: file, tokens: 0, reason: 'unreadable' });
+      }
+    }
+
+    if (task.workspace) {
+      try {
+        const workspace = await WorkspaceScanner.candidates(task.workspace, description);
+        candidates.push(...workspace.candidates);
+        unreadable.push(...workspace.unreadable);
+      } catch (error) {
+        const dir = task.workspace.dir || '.';
+        this.logger.warn(`Cannot scan workspace ${dir} for ${task.id}: ${ErrorHandler.sanitizeError(error)}`);
+        unreadable.push({ source: 'workspace', id: dir, tokens: 0, reason: 'unreadable' });
+      }
+    }
+
+    const memories = await this.memoryManager.searchSimilar(description, {
+      scope: this.getMemoryScope(),
+      limit: MEMORY_CONTEXT_CANDIDATES,
+      boostTags: [task.mode],
+    });
+    for (const { entry, score } of memories) {
+      candidates.push({
+        source: 'memory',
+        id: entry.id,
+        title: `${entry.type} from ${entry.timestamp.toISOString().slice(0, 10)}`,
+        content: MemoryManager.entryText(entry),
+        priority: score,
+      });
+    }
+
+    return { candidates, unreadable };
   }
 
   /**
-   * Check if task dependencies are met
+   * Collect results of the tasks a task takes as inputs, keyed by input name
    */
-  private async areDependenciesMet(task: Task): Promise<boolean> {
-    // Handle null/undefined dependencies array
-    const dependencies = task.dependencies || [];
-    
-    for (const depId of dependencies) {
-      const depTask = this.taskQueue.getById(depId);
-      if (!depTask || depTask.status !== 'completed') {
-        return false;
-      }
+  private getInputOutputs(task: Task): Record<string, AgentResult | string | undefined> {
+    const outputs: Record<string, AgentResult | string | undefined> = {};
+
+    for (const [name, taskId] of Object.entries(task.inputs || {})) {
+      const input = this.taskQueue.getById(taskId);
+      outputs[name] = input?.status === 'failed'
+        ? `(Not available: step ${name} failed${input.statusReason ? ` - ${input.statusReason}` : ''})`
+        : input?.output ?? input?.result;
     }
-    return true;
+
+    return outputs;
   }
 
   /**
@@ -375,13 +786,200 @@ Remember to be thorough, systematic, and consider edge cases.
   }
 
   /**
-   * Check Gemini API health
+   * Embed memory with Gemini when agents run on Gemini with an API key,
+   * unless memoryEmbeddings says otherwise. MemoryManager falls back to
+   * local embeddings when Gemini is unavailable.
+   */
+  private createEmbedder(): EmbeddingProvider | undefined {
+    const apiKey = this.config.apiKey || process.env.GEMINI_API_KEY;
+    const type = this.config.memoryEmbeddings ||
+      (apiKey && this.providers.getProviderName() === DEFAULT_PROVIDER ? 'gemini' : 'local');
+
+    return type === 'gemini' ? new GeminiEmbedder(apiKey || '') : undefined;
+  }
+
+  /**
+   * Consolidator for automatic memory consolidation, when memoryConsolidation.auto is set
+   */
+  private createConsolidator(): MemoryConsolidator | undefined {
+    const settings = this.config.memoryConsolidation;
+    if (!settings?.auto) return undefined;
+
+    return new MemoryConsolidator(this.providers.get(settings.provider || this.providers.getProviderName()), settings);
+  }
+
+  /**
+   * Check the health of every provider the configuration routes to
    */
-  private async checkGeminiHealth(): Promise<void> {
-    const isHealthy = await this.geminiClient.checkHealth();
-    if (!isHealthy) {
-      throw new Error('Gemini API is not accessible. Please check your API key.');
+  private async checkProviderHealth(): Promise<void> {
+    for (const name of this.providers.getActiveProviderNames()) {
+      const isHealthy = await this.providers.get(name).checkHealth();
+      if (!isHealthy) {
+        throw new Error(name === DEFAULT_PROVIDER
+          ? 'Gemini API is not accessible. Please check your API key.'
+          : `Provider "${name}" is not accessible. Please check its configuration.`);
+      }
+    }
+  }
+
+  /**
+   * Rebuild the queue from a journaled run. Completed work is kept as-is,
+   * and tasks that were interrupted while running are queued again.
+   */
+  async restore(tasks: Task[]): Promise<Task[]> {
+    const requeued: Task[] = [];
+
+    for (const saved of tasks) {
+      const task: Task = { ...saved };
+
+      if (task.status === 'running') {
+        task.status = 'pending';
+        task.statusReason = undefined;
+        task.assignedAgent = undefined;
+        task.updatedAt = new Date();
+        requeued.push(task);
+      }
+
+      await this.addTask(task);
     }
+
+    this.emit('resumed', { runId: this.config.runId, requeued });
+    return requeued;
+  }
+
+  /**
+   * Get the ID of the run this orchestrator is executing
+   */
+  getRunId(): string {
+    return this.config.runId;
+  }
+
+  /**
+   * Get the agents that are currently running
+   */
+  getActiveAgents(): Agent[] {
+    return Array.from(this.agents.values()).filter(agent => agent.status === 'running');
+  }
+
+  /**
+   * Rate limiter usage for each provider in use that tracks it
+   */
+  getRateLimitStatus(): Record<string, RateLimitStatus> {
+    return this.providers.getRateLimitStatus();
+  }
+
+  /**
+   * Names of the custom modes this orchestrator accepts
+   */
+  getCustomModes(): string[] {
+    return this.modes.getCustomModes();
+  }
+
+  /**
+   * Path of the control socket, when the orchestrator exposes one
+   */
+  getSocketPath(): string | undefined {
+    return this.controlServer?.getSocketPath();
+  }
+
+  /**
+   * Search the memory bank
+   */
+  async searchMemory(query: string, tags?: string[]): Promise<MemoryEntry[]> {
+    return this.memoryManager.search(query, tags, this.getMemoryScope());
+  }
+
+  /**
+   * Memory entries an agent in a mode would see as context: the most relevant
+   * to `query` when given, otherwise the most recent
+   */
+  async getMemoryContext(mode: AgentMode, query?: string): Promise<MemoryContextItem[]> {
+    const scope = this.getMemoryScope();
+    return query
+      ? this.memoryManager.getRelevantContext(query, mode, { scope })
+      : this.memoryManager.getContext(mode, scope);
+  }
+
+  /**
+   * Namespaces this run's agents read memory from, per the memoryScope setting
+   */
+  getMemoryScope(): MemoryScope {
+    return this.config.memoryScope === 'project'
+      ? { project: this.config.project }
+      : { project: this.config.project, runs: [this.getMemoryRun()] };
+  }
+
+  /**
+   * Namespace that memory stored for a task is tagged with
+   */
+  private getMemoryNamespace(task: Task): MemoryNamespace {
+    return { project: this.config.project!, run: this.getMemoryRun(), task: task.id };
+  }
+
+  /**
+   * Run namespace this run writes to: the shared run named by `run:<name>`, or its own ID
+   */
+  private getMemoryRun(): string {
+    const scope = this.config.memoryScope;
+    return scope?.startsWith('run:') ? scope.slice('run:'.length) : this.config.runId;
+  }
+
+  /**
+   * Project namespace when none is configured: the working directory's name
+   */
+  private static defaultProject(): string {
+    return path.basename(process.cwd()).replace(/[^a-zA-Z0-9._-]/g, '-').slice(0, 100) || 'default';
+  }
+
+  private generateTaskId(): string {
+    let id = `task-${this.nextTaskNumber++}`;
+    while (this.getTask(id)) {
+      id = `task-${this.nextTaskNumber++}`;
+    }
+    return id;
+  }
+
+  /**
+   * Get a task by ID
+   */
+  getTask(id: string): Task | undefined {
+    return this.taskQueue.getById(id);
+  }
+
+  /**
+   * Get all known tasks
+   */
+  getTasks(): Task[] {
+    return this.taskQueue.getAllTasks();
+  }
+
+  /**
+   * Get pending tasks in the order their dependencies allow them to run
+   */
+  getExecutionPlan(): Task[] {
+    return this.taskQueue.getTopologicalOrder();
+  }
+
+  /**
+   * Wait until the given tasks (or all tasks) reach a terminal status
+   */
+  async waitForCompletion(taskIds?: string[]): Promise<Task[]> {
+    const terminal = ['completed', 'failed', 'skipped', 'cancelled', 'timed_out'];
+
+    return new Promise(resolve => {
+      const check = () => {
+        const tasks = taskIds
+          ? taskIds.map(id => this.taskQueue.getById(id)).filter((t): t is Task => t !== undefined)
+          : this.taskQueue.getAllTasks();
+
+        if (tasks.every(task => terminal.includes(task.status))) {
+          resolve(tasks);
+        } else {
+          setTimeout(check, 100);
+        }
+      };
+      check();
+    });
   }
 
   /**
@@ -389,19 +987,30 @@ Remember to be thorough, systematic, and consider edge cases.
    */
   getStatus(): {
     isRunning: boolean;
+    isPaused: boolean;
     activeAgents: number;
     completedAgents: number;
     failedAgents: number;
     pendingTasks: number;
+    skippedTasks: number;
+    cancelledTasks: number;
+    timedOutTasks: number;
+    quarantinedTasks: number;
   } {
     const agents = Array.from(this.agents.values());
+    const tasks = this.taskQueue.getAllTasks();
     
     return {
       isRunning: this.isRunning,
+      isPaused: this.paused,
       activeAgents: agents.filter(a => a.status === 'running').length,
       completedAgents: agents.filter(a => a.status === 'completed').length,
       failedAgents: agents.filter(a => a.status === 'failed').length,
       pendingTasks: this.taskQueue.size(),
+      skippedTasks: tasks.filter(t => t.status === 'skipped').length,
+      cancelledTasks: tasks.filter(t => t.status === 'cancelled').length,
+      timedOutTasks: tasks.filter(t => t.status === 'timed_out').length,
+      quarantinedTasks: this.taskQueue.getQuarantined().length,
     };
   }
 
@@ -410,7 +1019,7 @@ Remember to be thorough, systematic, and consider edge cases.
    */
   private cleanupAgent(agentId: string): void {
     const agent = this.agents.get(agentId);
-    if (agent && (agent.status === 'completed' || agent.status === 'failed')) {
+    if (agent && agent.status !== 'running' && agent.status !== 'pending') {
       this.agents.delete(agentId);
       this.logger.debug(`Cleaned up agent ${agentId}`);
     }
@@ -0,0 +1,393 @@
+/**
+ * Patches for Gemini Code Flow
+ * Turns code in agent results into reviewable file edits, from whole files or unified diffs
+ */
+
+import fs from 'fs-extra';
+import path from 'path';
+import { AgentResult } from '../types';
+import { FileLock } from '../utils/file-lock';
+import { PathSecurity } from '../utils/path-security';
+
+const CONTEXT_LINES = 3;
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+// Beyond this many changed lines a diff replaces the whole file; the trace
+// editScript keeps grows with the square of the edit distance
+const MAX_EDIT_DISTANCE = 2000;
+
+/**
+ * A run of changed lines with the unchanged lines around them. Lines start
+ * with ' ' (unchanged), '-' (removed) or '+' (added), as in a unified diff.
+ */
+export interface PatchHunk {
+  /** First line of the hunk in the original file (the line before it when oldLines is 0) */
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: string[];
+}
+
+/**
+ * The changes to one file
+ */
+export interface FilePatch {
+  /** Path relative to the project root, as given by the agent */
+  path: string;
+  /** Where the file is written, inside the project root */
+  absolutePath: string;
+  /** Current content, or undefined when the file does not exist yet */
+  original?: string;
+  hunks: PatchHunk[];
+}
+
+/**
+ * An edit from an agent result: a whole file, or the hunks of a unified diff
+ */
+type FileEdit = { path: string; content: string } | { path: string; hunks: PatchHunk[] };
+
+type LineOp = { type: ' ' | '-' | '+'; line: string };
+
+/**
+ * A patch that cannot be read or no longer fits the file it changes
+ */
+export class PatchError extends Error {
+  readonly filePath?: string;
+
+  constructor(message: string, filePath?: string) {
+    super(message);
+    this.name = 'PatchError';
+    this.filePath = filePath;
+  }
+}
+
+export class Patch {
+  /**
+   * Work out the changes an agent result makes to the project. Every path is
+   * checked with PathSecurity, so edits outside rootDir are rejected. Several
+   * edits to one file are applied in order and shown as a single patch.
+   */
+  static async plan(result: AgentResult, rootDir: string = process.cwd()): Promise<FilePatch[]> {
+    const planned = new Map<string, FilePatch & { updated: string[] }>();
+
+    for (const edit of this.editsFrom(result)) {
+      const absolutePath = await PathSecurity.resolveSafePath(edit.path, rootDir, { mustExist: false });
+
+      let patch = planned.get(absolutePath);
+      if (!patch) {
+        const original = await this.readExisting(edit.path, absolutePath, rootDir);
+        patch = { path: edit.path, absolutePath, original, hunks: [], updated: this.splitLines(original) };
+        planned.set(absolutePath, patch);
+      }
+
+      patch.updated = 'hunks' in edit
+        ? this.applyToLines(patch.updated, edit.hunks, edit.path)
+        : this.splitLines(edit.content);
+    }
+
+    return Array.from(planned.values())
+      .map(({ updated, ...patch }) => ({ ...patch, hunks: this.diff(this.splitLines(patch.original), updated) }))
+      .filter(patch => patch.hunks.length > 0);
+  }
+
+  /**
+   * Read the file edits in a result's code blocks. Blocks holding a unified
+   * diff are read as diffs; other blocks with a path replace the whole file,
+   * and blocks without one are snippets, not edits.
+   */
+  static editsFrom(result: AgentResult): FileEdit[] {
+    const edits: FileEdit[] = [];
+
+    for (const block of result.code || []) {
+      if (this.isUnifiedDiff(block.content, block.language)) {
+        edits.push(...this.parseUnifiedDiff(block.content, block.path));
+      } else if (block.path) {
+        edits.push({ path: block.path, content: block.content });
+      }
+    }
+
+    return edits;
+  }
+
+  /**
+   * Parse a unified diff into the hunks for each file. Line counts in hunk
+   * headers are recounted, since models often get them wrong.
+   */
+  static parseUnifiedDiff(text: string, defaultPath?: string): Array<{ path: string; hunks: PatchHunk[] }> {
+    const files: Array<{ path: string; hunks: PatchHunk[] }> = [];
+    const lines = text.replace(/\r\n/g, '\n').split('\n');
+    let file: { path: string; hunks: PatchHunk[] } | undefined;
+    let hunk: PatchHunk | undefined;
+    let headerCounts = { old: 0, new: 0 };
+
+    const startFile = (filePath: string) => {
+      file = { path: filePath, hunks: [] };
+      files.push(file);
+      hunk = undefined;
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+
+      if (line.startsWith('diff --git ')) {
+        hunk = undefined;
+      } else if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+        const oldPath = this.diffPath(line.slice(4));
+        const newPath = this.diffPath(lines[i + 1].slice(4));
+        if (!newPath) {
+          throw new PatchError(`Deleting files is not supported (${oldPath})`, oldPath);
+        }
+        startFile(newPath);
+        i++;
+      } else if (line.startsWith('@@')) {
+        const match = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/.exec(line);
+        if (!match) {
+          throw new PatchError(`Invalid hunk header: ${line}`);
+        }
+        if (!file) {
+          if (!defaultPath) {
+            throw new PatchError('Diff does not name the file it changes');
+          }
+          startFile(defaultPath);
+        }
+        hunk = { oldStart: Number(match[1]), oldLines: 0, newStart: Number(match[3]), newLines: 0, lines: [] };
+        headerCounts = { old: Number(match[2] ?? 1), new: Number(match[4] ?? 1) };
+        file!.hunks.push(hunk);
+      } else if (hunk && /^[ +-]/.test(line)) {
+        this.addHunkLine(hunk, line);
+      } else if (hunk && line === '' && (hunk.oldLines < headerCounts.old || hunk.newLines < headerCounts.new)) {
+        // Blank context lines often lose their leading space
+        this.addHunkLine(hunk, ' ');
+      }
+    }
+
+    return files.filter(parsed => parsed.hunks.length > 0);
+  }
+
+  /**
+   * Apply hunks to a file's content. Each hunk is looked for at its line
+   * number first, then at the nearest place its unchanged and removed lines match.
+   */
+  static apply(original: string | undefined, hunks: PatchHunk[], filePath?: string): string {
+    return this.joinLines(this.applyToLines(this.splitLines(original), hunks, filePath));
+  }
+
+  /**
+   * Line-based diff between two versions of a file
+   */
+  static diff(before: string[], after: string[]): PatchHunk[] {
+    const ops = this.editScript(before, after);
+    const hunks: PatchHunk[] = [];
+
+    // Line numbers before each op
+    const oldAt: number[] = [];
+    const newAt: number[] = [];
+    let oldLine = 0;
+    let newLine = 0;
+    for (const op of ops) {
+      oldAt.push(oldLine);
+      newAt.push(newLine);
+      if (op.type !== '+') oldLine++;
+      if (op.type !== '-') newLine++;
+    }
+
+    const changes = ops.flatMap((op, i) => (op.type === ' ' ? [] : [i]));
+    let first = 0;
+    while (first < changes.length) {
+      let last = first;
+      while (last + 1 < changes.length && changes[last + 1] - changes[last] <= CONTEXT_LINES * 2) {
+        last++;
+      }
+
+      const start = Math.max(0, changes[first] - CONTEXT_LINES);
+      const end = Math.min(ops.length, changes[last] + CONTEXT_LINES + 1);
+      const slice = ops.slice(start, end);
+      const oldLines = slice.filter(op => op.type !== '+').length;
+      const newLines = slice.filter(op => op.type !== '-').length;
+
+      hunks.push({
+        oldStart: oldLines > 0 ? oldAt[start] + 1 : oldAt[start],
+        oldLines,
+        newStart: newLines > 0 ? newAt[start] + 1 : newAt[start],
+        newLines,
+        lines: slice.map(op => op.type + op.line),
+      });
+      first = last + 1;
+    }
+
+    return hunks;
+  }
+
+  /**
+   * Render a patch as a unified diff
+   */
+  static format(patch: FilePatch, hunks: PatchHunk[] = patch.hunks): string {
+    const header = [
+      `--- ${patch.original === undefined ? '/dev/null' : `a/${patch.path}`}`,
+      `+++ b/${patch.path}`,
+    ];
+    const body = hunks.flatMap(hunk => [this.formatHunkHeader(hunk), ...hunk.lines]);
+    return [...header, ...body].join('\n');
+  }
+
+  static formatHunkHeader(hunk: PatchHunk): string {
+    return `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
+  }
+
+  /**
+   * Write the chosen hunks of a patch. Fails without writing when the file
+   * has changed since the patch was planned.
+   */
+  static async write(patch: FilePatch, hunks: PatchHunk[] = patch.hunks): Promise<void> {
+    const current = await fs.pathExists(patch.absolutePath)
+      ? await fs.readFile(patch.absolutePath, 'utf8')
+      : undefined;
+    if (current !== patch.original) {
+      throw new PatchError(`${patch.path} has changed since the patch was previewed`, patch.path);
+    }
+
+    await fs.ensureDir(path.dirname(patch.absolutePath));
+    await FileLock.writeAtomic(patch.absolutePath, this.apply(patch.original, hunks, patch.path));
+  }
+
+  private static async readExisting(filePath: string, absolutePath: string, rootDir: string): Promise<string | undefined> {
+    if (!(await fs.pathExists(absolutePath))) {
+      return undefined;
+    }
+
+    // Checks again as an existing file: regular, readable, writable and not too large
+    await PathSecurity.resolveSafePath(filePath, rootDir, { maxSize: MAX_FILE_SIZE, requireWritable: true });
+    return fs.readFile(absolutePath, 'utf8');
+  }
+
+  private static applyToLines(lines: string[], hunks: PatchHunk[], filePath?: string): string[] {
+    const result: string[] = [];
+    let cursor = 0;
+
+    for (const hunk of [...hunks].sort((a, b) => a.oldStart - b.oldStart)) {
+      const expected = hunk.lines.filter(line => line[0] !== '+').map(line => line.slice(1));
+      const preferred = Math.max(cursor, expected.length > 0 ? hunk.oldStart - 1 : hunk.oldStart);
+      const at = this.findLines(lines, expected, preferred, cursor);
+      if (at === undefined) {
+        throw new PatchError(
+          `Hunk ${this.formatHunkHeader(hunk)} does not match ${filePath || 'the file'}`,
+          filePath
+        );
+      }
+
+      result.push(...lines.slice(cursor, at));
+      result.push(...hunk.lines.filter(line => line[0] !== '-').map(line => line.slice(1)));
+      cursor = at + expected.length;
+    }
+
+    result.push(...lines.slice(cursor));
+    return result;
+  }
+
+  /**
+   * Index where `expected` occurs in `lines` at or after `from`, closest to `preferred`
+   */
+  private static findLines(lines: string[], expected: string[], preferred: number, from: number): number | undefined {
+    const matches = (at: number) => expected.every((line, i) => lines[at + i] === line);
+    const last = lines.length - expected.length;
+    const start = Math.min(Math.max(preferred, from), Math.max(last, from));
+
+    for (let offset = 0; start - offset >= from || start + offset <= last; offset++) {
+      if (start + offset <= last && matches(start + offset)) return start + offset;
+      if (offset > 0 && start - offset >= from && matches(start - offset)) return start - offset;
+    }
+    return undefined;
+  }
+
+  /**
+   * Shortest edit script between two lists of lines (Myers' algorithm). Each
+   * step keeps only the diagonals it reads, -d - 1 to d + 1. Scripts longer than
+   * MAX_EDIT_DISTANCE remove every old line and add every new one instead.
+   */
+  private static editScript(a: string[], b: string[]): LineOp[] {
+    const max = a.length + b.length;
+    const v = new Int32Array(2 * max + 3);
+    const trace: Int32Array[] = [];
+    const at = (k: number) => k + max + 1;
+
+    search: for (let d = 0; d <= max; d++) {
+      if (d > MAX_EDIT_DISTANCE) {
+        return [
+          ...a.map(line => ({ type: '-' as const, line })),
+          ...b.map(line => ({ type: '+' as const, line })),
+        ];
+      }
+
+      trace.push(v.slice(at(-d - 1), at(d + 1) + 1));
+      for (let k = -d; k <= d; k += 2) {
+        let x = k === -d || (k !== d && v[at(k - 1)] < v[at(k + 1)]) ? v[at(k + 1)] : v[at(k - 1)] + 1;
+        let y = x - k;
+        while (x < a.length && y < b.length && a[x] === b[y]) {
+          x++;
+          y++;
+        }
+        v[at(k)] = x;
+        if (x >= a.length && y >= b.length) break search;
+      }
+    }
+
+    const ops: LineOp[] = [];
+    let x = a.length;
+    let y = b.length;
+    for (let d = trace.length - 1; d >= 0; d--) {
+      // Step d keeps diagonals -d - 1 to d + 1, so diagonal k is at index k + d + 1
+      const previous = (diagonal: number) => trace[d][diagonal + d + 1];
+      const k = x - y;
+      const prevK = k === -d || (k !== d && previous(k - 1) < previous(k + 1)) ? k + 1 : k - 1;
+      const prevX = previous(prevK);
+      const prevY = prevX - prevK;
+
+      while (x > prevX && y > prevY) {
+        ops.push({ type: ' ', line: a[--x] });
+        y--;
+      }
+      if (d > 0) {
+        if (x === prevX) {
+          ops.push({ type: '+', line: b[--y] });
+        } else {
+          ops.push({ type: '-', line: a[--x] });
+        }
+      }
+    }
+
+    return ops.reverse();
+  }
+
+  private static addHunkLine(hunk: PatchHunk, line: string): void {
+    hunk.lines.push(line);
+    if (line[0] !== '+') hunk.oldLines++;
+    if (line[0] !== '-') hunk.newLines++;
+  }
+
+  private static isUnifiedDiff(content: string, language?: string): boolean {
+    return language === 'diff' || language === 'patch' || /^@@ -\d+(?:,\d+)? \+\d+(?:,\d+)? @@/m.test(content);
+  }
+
+  /**
+   * File path from a ---/+++ line, without the a/ or b/ prefix and any timestamp
+   */
+  private static diffPath(text: string): string | undefined {
+    const name = text.split('\t')[0].trim();
+    if (name === '/dev/null') return undefined;
+    return name.replace(/^[ab]\//, '');
+  }
+
+  /**
+   * Split content into lines. Files are written back with a final newline.
+   */
+  private static splitLines(content: string | undefined): string[] {
+    if (!content) return [];
+    const lines = content.replace(/\r\n/g, '\n').split('\n');
+    if (lines[lines.length - 1] === '') lines.pop();
+    return lines;
+  }
+
+  private static joinLines(lines: string[]): string {
+    return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+  }
+}
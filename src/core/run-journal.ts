@@ -0,0 +1,158 @@
+/**
+ * Run Journal for Gemini Code Flow
+ * Append-only record of task state so interrupted runs can be resumed
+ */
+
+import fs from 'fs-extra';
+import path from 'path';
+import { Task } from '../types';
+
+export const DEFAULT_RUNS_DIR = '.gemini-flow/runs';
+
+export interface RunInfo {
+  runId: string;
+  startedAt: Date;
+  label?: string;
+}
+
+export interface RunState extends RunInfo {
+  tasks: Task[];
+}
+
+type JournalRecord =
+  | { type: 'run'; runId: string; startedAt: string; label?: string }
+  | { type: 'task'; at: string; task: Task };
+
+export class RunJournal {
+  private journalPath: string;
+  private writes: Promise<void> = Promise.resolve();
+  private initialized: boolean = false;
+
+  constructor(private runId: string, private runsDir: string = DEFAULT_RUNS_DIR) {
+    this.journalPath = RunJournal.getJournalPath(runId, runsDir);
+  }
+
+  /**
+   * Create the journal file and record run metadata if it is new
+   */
+  async initialize(label?: string): Promise<void> {
+    if (this.initialized) return;
+
+    if (!(await fs.pathExists(this.journalPath))) {
+      this.append({ type: 'run', runId: this.runId, startedAt: new Date().toISOString(), label });
+    }
+
+    this.initialized = true;
+  }
+
+  /**
+   * Record the current state of a task
+   */
+  recordTask(task: Task): void {
+    this.append({ type: 'task', at: new Date().toISOString(), task });
+  }
+
+  /**
+   * Wait for all pending writes to reach disk
+   */
+  async flush(): Promise<void> {
+    await this.writes;
+  }
+
+  getPath(): string {
+    return this.journalPath;
+  }
+
+  private append(record: JournalRecord): void {
+    // Serialize now so later mutations of the task don't leak into this entry
+    const line = JSON.stringify(record) + '\n';
+
+    // Chain writes so records land in the order they were made
+    this.writes = this.writes
+      .then(async () => {
+        await fs.ensureDir(this.runsDir);
+        await fs.appendFile(this.journalPath, line);
+      })
+      .catch(error => {
+        console.warn('Failed to write run journal:', error instanceof Error ? error.message : 'Unknown error');
+      });
+  }
+
+  /**
+   * Replay a journal into the latest known state of each task
+   */
+  static async load(runId: string, runsDir: string = DEFAULT_RUNS_DIR): Promise<RunState> {
+    const journalPath = this.getJournalPath(runId, runsDir);
+    const content = await fs.readFile(journalPath, 'utf8');
+
+    const state: RunState = { runId, startedAt: new Date(0), tasks: [] };
+    const tasks = new Map<string, Task>();
+
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+
+      let record: JournalRecord;
+      try {
+        record = JSON.parse(line);
+      } catch (error) {
+        // A crash mid-write can leave a partial last line
+        continue;
+      }
+
+      if (record.type === 'run') {
+        state.startedAt = new Date(record.startedAt);
+        state.label = record.label;
+      } else if (record.type === 'task' && record.task?.id) {
+        tasks.set(record.task.id, {
+          ...record.task,
+          createdAt: new Date(record.task.createdAt),
+          updatedAt: new Date(record.task.updatedAt),
+          nextAttemptAt: record.task.nextAttemptAt ? new Date(record.task.nextAttemptAt) : undefined,
+          history: record.task.history?.map(attempt => ({
+            ...attempt,
+            startedAt: new Date(attempt.startedAt),
+            endedAt: new Date(attempt.endedAt),
+          })),
+        });
+      }
+    }
+
+    state.tasks = Array.from(tasks.values());
+    return state;
+  }
+
+  /**
+   * List journaled runs, most recent first
+   */
+  static async listRuns(runsDir: string = DEFAULT_RUNS_DIR): Promise<RunInfo[]> {
+    if (!(await fs.pathExists(runsDir))) {
+      return [];
+    }
+
+    const files = (await fs.readdir(runsDir)).filter(file => file.endsWith('.jsonl'));
+    const runs = await Promise.all(files.map(async file => {
+      const runId = path.basename(file, '.jsonl');
+      const stats = await fs.stat(path.join(runsDir, file));
+      const firstLine = (await fs.readFile(path.join(runsDir, file), 'utf8')).split('\n')[0];
+
+      try {
+        const record = JSON.parse(firstLine) as JournalRecord;
+        if (record.type === 'run') {
+          return { runId, startedAt: new Date(record.startedAt), label: record.label };
+        }
+      } catch (error) {
+        // Fall back to file metadata
+      }
+      return { runId, startedAt: stats.mtime };
+    }));
+
+    return runs.sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+  }
+
+  static getJournalPath(runId: string, runsDir: string = DEFAULT_RUNS_DIR): string {
+    if (!/^[a-zA-Z0-9_.-]+$/.test(runId) || runId.includes('..')) {
+      throw new Error(`Invalid run ID: ${runId}`);
+    }
+    return path.join(runsDir, `${runId}.jsonl`);
+  }
+}
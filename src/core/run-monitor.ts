@@ -0,0 +1,216 @@
+/**
+ * Run Monitor for Gemini Code Flow
+ * Follows Orchestrator events to track live agents, their output and recent errors
+ */
+
+import { EventEmitter } from 'events';
+import { Agent, AgentOutput, Task } from '../types';
+import { StructuredOutput } from './structured-output';
+
+export interface MonitorError {
+  at: Date;
+  message: string;
+}
+
+export interface DagNode {
+  task: Task;
+  depth: number;
+}
+
+/**
+ * Orchestrator events the monitor follows
+ */
+export const MONITORED_EVENTS = [
+  'agentSpawned',
+  'agentOutput',
+  'agentCompleted',
+  'agentFailed',
+  'agentCancelled',
+  'agentTimedOut',
+  'taskCompleted',
+  'taskRetrying',
+  'taskSkipped',
+  'taskQuarantined',
+  'authError',
+];
+
+const MAX_OUTPUT_LENGTH = 20000;
+
+export class RunMonitor extends EventEmitter {
+  private agents: Map<string, Agent> = new Map();
+  private outputs: Map<string, string> = new Map();
+  private errors: MonitorError[] = [];
+  private selectedAgentId?: string;
+  private maxErrors: number;
+
+  constructor(maxErrors: number = 5) {
+    super();
+    this.maxErrors = maxErrors;
+  }
+
+  /**
+   * Follow an orchestrator's events. Returns a function that stops following.
+   */
+  attach(source: EventEmitter): () => void {
+    const listeners = MONITORED_EVENTS.map(event => {
+      const listener = (payload: unknown) => this.handle(event, payload);
+      source.on(event, listener);
+      return { event, listener };
+    });
+
+    return () => listeners.forEach(({ event, listener }) => source.off(event, listener));
+  }
+
+  /**
+   * Apply one orchestrator event
+   */
+  handle(event: string, payload: unknown): void {
+    switch (event) {
+      case 'agentSpawned': {
+        const agent = payload as Agent;
+        this.agents.set(agent.id, agent);
+        this.outputs.set(agent.id, '');
+        if (!this.getSelectedAgent() || this.getSelectedAgent()?.status !== 'running') {
+          this.selectedAgentId = agent.id;
+        }
+        break;
+      }
+      case 'agentOutput': {
+        const { agentId, chunk } = payload as AgentOutput;
+        this.outputs.set(agentId, ((this.outputs.get(agentId) || '') + chunk).slice(-MAX_OUTPUT_LENGTH));
+        break;
+      }
+      case 'agentCompleted':
+      case 'agentCancelled': {
+        const agent = payload as Agent;
+        this.agents.set(agent.id, agent);
+        if (agent.status === 'completed' && !this.outputs.get(agent.id) && agent.result) {
+          this.outputs.set(agent.id, StructuredOutput.toMarkdown(agent.result).slice(-MAX_OUTPUT_LENGTH));
+        }
+        break;
+      }
+      case 'agentFailed':
+      case 'agentTimedOut': {
+        const agent = payload as Agent;
+        this.agents.set(agent.id, agent);
+        this.addError(`${agent.mode} agent ${agent.status === 'timed_out' ? 'timed out' : 'failed'}: ${agent.error || 'Unknown error'}`);
+        break;
+      }
+      case 'taskRetrying': {
+        const { task, attempt, delayMs, error } = payload as { task: Task; attempt: number; delayMs: number; error?: string };
+        this.addError(`${task.id} retrying after attempt ${attempt} in ${Math.round(delayMs / 1000)}s: ${error || 'Unknown error'}`);
+        break;
+      }
+      case 'taskSkipped': {
+        const task = payload as Task;
+        this.addError(`${task.id} skipped: ${task.statusReason || 'a dependency failed'}`);
+        break;
+      }
+      case 'taskQuarantined': {
+        const { task, error } = payload as { task: Task; error: Error };
+        this.addError(`${task.id} quarantined: ${error.message}`);
+        break;
+      }
+      case 'authError':
+        // Errors arrive as { name, message } over the control socket
+        this.addError(`Authentication failed: ${(payload as Error | undefined)?.message ?? String(payload)}`);
+        break;
+    }
+
+    this.emit('update', event);
+  }
+
+  /**
+   * Add agents that were already running when the monitor started following events
+   */
+  track(agents: Agent[]): void {
+    const added = agents.filter(agent => !this.agents.has(agent.id));
+    for (const agent of added) {
+      this.agents.set(agent.id, agent);
+      this.outputs.set(agent.id, this.outputs.get(agent.id) || '');
+    }
+    if (added.length > 0 && this.getSelectedAgent()?.status !== 'running') {
+      this.selectedAgentId = added[0].id;
+    }
+  }
+
+  /**
+   * Agents that are still running, oldest first
+   */
+  getActiveAgents(): Agent[] {
+    return Array.from(this.agents.values()).filter(agent => agent.status === 'running');
+  }
+
+  /**
+   * The agent whose output is being followed
+   */
+  getSelectedAgent(): Agent | undefined {
+    return this.selectedAgentId ? this.agents.get(this.selectedAgentId) : undefined;
+  }
+
+  /**
+   * Move the selection through the running agents, wrapping around
+   */
+  selectNext(offset: number = 1): void {
+    const active = this.getActiveAgents();
+    if (active.length === 0) return;
+
+    const current = active.findIndex(agent => agent.id === this.selectedAgentId);
+    const next = current === -1 ? 0 : (current + offset + active.length) % active.length;
+    this.selectedAgentId = active[next].id;
+    this.emit('update', 'select');
+  }
+
+  /**
+   * Output streamed so far by an agent
+   */
+  getOutput(agentId: string): string {
+    return this.outputs.get(agentId) || '';
+  }
+
+  /**
+   * Most recent errors, oldest first
+   */
+  getErrors(): MonitorError[] {
+    return [...this.errors];
+  }
+
+  /**
+   * Record an error to show, keeping only the most recent ones
+   */
+  addError(message: string): void {
+    this.errors.push({ at: new Date(), message });
+    if (this.errors.length > this.maxErrors) {
+      this.errors.splice(0, this.errors.length - this.maxErrors);
+    }
+  }
+
+  /**
+   * Order tasks so each appears after its dependencies, with its depth in the DAG
+   */
+  static layoutDag(tasks: Task[]): DagNode[] {
+    const byId = new Map(tasks.map(task => [task.id, task]));
+    const depths = new Map<string, number>();
+
+    const depthOf = (task: Task, visiting: Set<string>): number => {
+      const known = depths.get(task.id);
+      if (known !== undefined) return known;
+      if (visiting.has(task.id)) return 0;
+
+      visiting.add(task.id);
+      const parents = task.dependencies
+        .map(id => byId.get(id))
+        .filter((parent): parent is Task => parent !== undefined);
+      const depth = parents.length === 0 ? 0 : 1 + Math.max(...parents.map(parent => depthOf(parent, visiting)));
+      visiting.delete(task.id);
+
+      depths.set(task.id, depth);
+      return depth;
+    };
+
+    return tasks
+      .map((task, index) => ({ task, depth: depthOf(task, new Set()), index }))
+      .sort((a, b) => a.depth - b.depth || a.index - b.index)
+      .map(({ task, depth }) => ({ task, depth }));
+  }
+}
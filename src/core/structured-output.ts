@@ -0,0 +1,294 @@
+/**
+ * Structured Output for Gemini Code Flow
+ * Schemas, prompt instructions, validation and rendering for typed agent results
+ */
+
+import { AgentResult, JsonSchema, ResultSection } from '../types';
+
+export const RESULT_SECTIONS: ResultSection[] = [
+  'specification',
+  'pseudocode',
+  'architecture',
+  'refinement',
+  'completion',
+  'code',
+  'testPlan',
+  'openQuestions',
+  'followUpTasks',
+];
+
+/**
+ * Sections for modes that do not declare their own: the SPARC steps plus what to do next
+ */
+export const DEFAULT_RESULT_SECTIONS: ResultSection[] = [
+  'specification',
+  'pseudocode',
+  'architecture',
+  'refinement',
+  'completion',
+  'openQuestions',
+  'followUpTasks',
+];
+
+const SUMMARY_SCHEMA: JsonSchema = {
+  type: 'string',
+  description: 'The outcome in a few sentences',
+};
+
+const SECTION_SCHEMAS: Record<ResultSection, JsonSchema> = {
+  specification: { type: 'string', description: 'Specification: what needs to be done, requirements and constraints' },
+  pseudocode: { type: 'string', description: 'Pseudocode: an outline of the approach' },
+  architecture: { type: 'string', description: 'Architecture: the design of the solution and its components' },
+  refinement: { type: 'string', description: 'Refinement: improvements, edge cases and trade-offs considered' },
+  completion: { type: 'string', description: 'Completion: the final deliverable and how to verify it' },
+  code: {
+    type: 'array',
+    description: 'Code written, one item per file',
+    items: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'File path relative to the project root, when the code belongs in a file' },
+        language: { type: 'string', description: 'Language of the code, such as typescript, or diff for a unified diff' },
+        content: { type: 'string', description: 'The complete file, or a unified diff of the changes to an existing file' },
+      },
+      required: ['content'],
+    },
+  },
+  testPlan: { type: 'array', description: 'Test cases to run, one per item', items: { type: 'string' } },
+  openQuestions: {
+    type: 'array',
+    description: 'Questions a person has to answer before the work can go further',
+    items: { type: 'string' },
+  },
+  followUpTasks: {
+    type: 'array',
+    description: 'Tasks to do next',
+    items: {
+      type: 'object',
+      properties: {
+        description: { type: 'string', description: 'What to do' },
+        mode: { type: 'string', description: 'SPARC mode best suited to the task, such as coder or tester' },
+      },
+      required: ['description'],
+    },
+  },
+};
+
+const SECTION_TITLES: Record<ResultSection, string> = {
+  specification: 'Specification',
+  pseudocode: 'Pseudocode',
+  architecture: 'Architecture',
+  refinement: 'Refinement',
+  completion: 'Completion',
+  code: 'Code',
+  testPlan: 'Test Plan',
+  openQuestions: 'Open Questions',
+  followUpTasks: 'Follow-up Tasks',
+};
+
+/**
+ * A reply that does not match the requested schema
+ */
+export class StructuredOutputError extends Error {
+  readonly problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Result does not match the expected format: ${problems.join('; ')}`);
+    this.name = 'StructuredOutputError';
+    this.problems = problems;
+  }
+}
+
+export class StructuredOutput {
+  /**
+   * Schema for a result with the given sections
+   */
+  static schemaFor(sections: ResultSection[]): JsonSchema {
+    return {
+      type: 'object',
+      properties: {
+        summary: SUMMARY_SCHEMA,
+        ...Object.fromEntries(sections.map(section => [section, SECTION_SCHEMAS[section]])),
+      },
+      required: ['summary'],
+    };
+  }
+
+  /**
+   * Prompt text describing the reply format, for providers that cannot enforce a schema
+   */
+  static instructions(sections: ResultSection[]): string {
+    const fields = ['summary', ...sections].map(name => {
+      const schema = name === 'summary' ? SUMMARY_SCHEMA : SECTION_SCHEMAS[name as ResultSection];
+      const type = schema.type === 'array' && schema.items?.type === 'object'
+        ? `list of {${Object.keys(schema.items.properties || {}).join(', ')}}`
+        : schema.type === 'array' ? 'list of strings' : 'string';
+      return `- "${name}" (${type}): ${schema.description}`;
+    });
+
+    return `Reply with only a JSON object with these fields; leave out the ones that do not apply:
+${fields.join('\n')}`;
+  }
+
+  /**
+   * Parse and validate a reply. Code fences and text around the JSON object are
+   * ignored, and fields outside the requested sections are dropped.
+   */
+  static parse(text: string, sections: ResultSection[]): AgentResult {
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    let data: unknown;
+    try {
+      data = start >= 0 && end > start ? JSON.parse(text.slice(start, end + 1)) : undefined;
+    } catch (error) {
+      throw new StructuredOutputError([`not valid JSON (${error instanceof Error ? error.message : 'Unknown error'})`]);
+    }
+    if (data === undefined) {
+      throw new StructuredOutputError(['no JSON object found']);
+    }
+
+    const problems: string[] = [];
+    const result = this.validate(data, this.schemaFor(sections), 'result', problems);
+    if (problems.length > 0) {
+      throw new StructuredOutputError(problems);
+    }
+    return result as AgentResult;
+  }
+
+  /**
+   * Prompt asking the model to fix a reply that failed validation
+   */
+  static repairPrompt(reply: string, error: StructuredOutputError, sections: ResultSection[]): string {
+    return `Your previous reply could not be used: ${error.problems.join('; ')}.
+
+${this.instructions(sections)}
+
+Rewrite this reply in that format, keeping its content:
+
+${reply}`;
+  }
+
+  /**
+   * Parse a reply, asking once for a repair when it is malformed. If the
+   * repair is malformed too, the original reply is kept as the summary so
+   * the work is not lost.
+   */
+  static async parseWithRepair(
+    reply: string,
+    sections: ResultSection[],
+    repair: (prompt: string) => Promise<string>,
+    warn: (message: string) => void
+  ): Promise<AgentResult> {
+    try {
+      return this.parse(reply, sections);
+    } catch (error) {
+      if (!(error instanceof StructuredOutputError)) throw error;
+      warn(`is malformed, asking for a repair: ${error.problems.join('; ')}`);
+
+      const repaired = await repair(this.repairPrompt(reply, error, sections));
+      try {
+        return this.parse(repaired, sections);
+      } catch (repairError) {
+        if (!(repairError instanceof StructuredOutputError)) throw repairError;
+        warn(`is still malformed after the repair, keeping it as text: ${repairError.problems.join('; ')}`);
+        return { summary: reply };
+      }
+    }
+  }
+
+  /**
+   * Whether a value (such as stored memory content) is an agent result
+   */
+  static isAgentResult(value: unknown): value is AgentResult {
+    return !!value && typeof value === 'object' && !Array.isArray(value) &&
+      typeof (value as Partial<AgentResult>).summary === 'string';
+  }
+
+  /**
+   * Render one section as text, or undefined when the result does not have it
+   */
+  static renderSection(result: AgentResult, section: ResultSection): string | undefined {
+    const value = result[section];
+    if (value === undefined || (Array.isArray(value) && value.length === 0)) {
+      return undefined;
+    }
+
+    switch (section) {
+      case 'code':
+        return result.code!.map(block => {
+          const fence = '```' + (block.language || '');
+          return `${block.path ? `${block.path}\n` : ''}${fence}\n${block.content}\n\`\`\``;
+        }).join('\n\n');
+      case 'testPlan':
+      case 'openQuestions':
+        return (value as string[]).map(item => `- ${item}`).join('\n');
+      case 'followUpTasks':
+        return result.followUpTasks!.map(task => `- ${task.mode ? `[${task.mode}] ` : ''}${task.description}`).join('\n');
+      default:
+        return value as string;
+    }
+  }
+
+  /**
+   * Render a result as Markdown, section by section
+   */
+  static toMarkdown(result: AgentResult): string {
+    const parts = [result.summary];
+    for (const section of RESULT_SECTIONS) {
+      const text = this.renderSection(result, section);
+      if (text !== undefined) {
+        parts.push(`## ${SECTION_TITLES[section]}\n${text}`);
+      }
+    }
+    return parts.join('\n\n');
+  }
+
+  /**
+   * Check a value against a schema, returning it with unknown properties removed
+   */
+  private static validate(value: unknown, schema: JsonSchema, path: string, problems: string[]): unknown {
+    switch (schema.type) {
+      case 'object': {
+        if (!value || typeof value !== 'object' || Array.isArray(value)) {
+          problems.push(`${path} must be an object`);
+          return undefined;
+        }
+        const data = value as Record<string, unknown>;
+        const validated: Record<string, unknown> = {};
+        for (const key of schema.required || []) {
+          if (data[key] === undefined || data[key] === null) {
+            problems.push(`${path}.${key} is missing`);
+          }
+        }
+        for (const [key, property] of Object.entries(schema.properties || {})) {
+          if (data[key] !== undefined && data[key] !== null) {
+            validated[key] = this.validate(data[key], property, `${path}.${key}`, problems);
+          }
+        }
+        return validated;
+      }
+      case 'array':
+        if (!Array.isArray(value)) {
+          problems.push(`${path} must be a list`);
+          return undefined;
+        }
+        return value.map((item, i) => this.validate(item, schema.items!, `${path}[${i}]`, problems));
+      case 'string':
+        if (typeof value !== 'string') {
+          problems.push(`${path} must be a string`);
+        } else if (schema.enum && !schema.enum.includes(value)) {
+          problems.push(`${path} must be one of ${schema.enum.join(', ')}`);
+        }
+        return value;
+      case 'integer':
+        if (!Number.isInteger(value)) problems.push(`${path} must be an integer`);
+        return value;
+      case 'number':
+        if (typeof value !== 'number') problems.push(`${path} must be a number`);
+        return value;
+      case 'boolean':
+        if (typeof value !== 'boolean') problems.push(`${path} must be true or false`);
+        return value;
+    }
+  }
+}
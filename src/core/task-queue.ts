@@ -5,17 +5,95 @@
 
 import { Task, AgentStatus } from '../types';
 
+export type TaskDependencyErrorKind = 'unknown-dependency' | 'self-reference' | 'cycle';
+
+export class TaskDependencyError extends Error {
+  readonly kind: TaskDependencyErrorKind;
+  readonly chain: string[];
+
+  constructor(message: string, kind: TaskDependencyErrorKind, chain: string[]) {
+    super(message);
+    this.name = 'TaskDependencyError';
+    this.kind = kind;
+    this.chain = chain;
+  }
+}
+
+export interface QuarantinedTask {
+  task: Task;
+  error: TaskDependencyError;
+}
+
 export class TaskQueue {
   private tasks: Map<string, Task> = new Map();
   private priorityQueue: Task[] = [];
+  private quarantine: Map<string, QuarantinedTask> = new Map();
 
   /**
-   * Add a task to the queue
+   * Add a task to the queue.
+   * Throws a TaskDependencyError for self-references and cycles. Tasks that
+   * depend on unknown (or still quarantined) tasks are quarantined until
+   * those dependencies are added.
    */
   add(task: Task): void {
-    this.tasks.set(task.id, task);
-    this.priorityQueue.push(task);
-    this.sortByPriority();
+    this.validateDependencies(task);
+
+    const missing = this.findMissingDependencyChain(task);
+    if (missing) {
+      this.removeFromQueue(task.id);
+      this.tasks.delete(task.id);
+      this.quarantine.set(task.id, {
+        task,
+        error: new TaskDependencyError(
+          `Task ${task.id} depends on unknown task: ${missing.join(' -> ')}`,
+          'unknown-dependency',
+          missing
+        ),
+      });
+      return;
+    }
+
+    this.quarantine.delete(task.id);
+    this.admit(task);
+    this.releaseQuarantined();
+  }
+
+  /**
+   * Get tasks held back because of unknown dependencies
+   */
+  getQuarantined(): QuarantinedTask[] {
+    return Array.from(this.quarantine.values());
+  }
+
+  /**
+   * Get pending tasks in dependency order, highest priority first among
+   * tasks that are ready at the same time
+   */
+  getTopologicalOrder(): Task[] {
+    const pending = Array.from(new Map(
+      this.priorityQueue.filter(t => t.status === 'pending').map(t => [t.id, t])
+    ).values());
+    const pendingIds = new Set(pending.map(t => t.id));
+    const remaining = new Map(pending.map(t => [
+      t.id,
+      (t.dependencies || []).filter(depId => pendingIds.has(depId)).length,
+    ]));
+    const ordered: Task[] = [];
+
+    // priorityQueue is already sorted by priority
+    const findReady = () => pending.find(t => remaining.get(t.id) === 0);
+    for (let next = findReady(); next; next = findReady()) {
+      const readyId = next.id;
+      remaining.delete(readyId);
+      ordered.push(next);
+      for (const task of pending) {
+        if (remaining.has(task.id) && task.dependencies.includes(readyId)) {
+          remaining.set(task.id, remaining.get(task.id)! - 1);
+        }
+      }
+    }
+
+    return ordered;
   }
 
   /**
@@ -26,7 +104,7 @@ export class TaskQueue {
     for (let i = 0; i < this.priorityQueue.length; i++) {
       const task = this.priorityQueue[i];
       
-      if (task.status === 'pending' && this.areDependenciesMet(task)) {
+      if (task.status === 'pending' && this.isDue(task) && this.areDependenciesMet(task)) {
         // Remove from queue and return
         this.priorityQueue.splice(i, 1);
         task.status = 'running' as AgentStatus;
@@ -37,6 +115,13 @@ export class TaskQueue {
     return null;
   }
 
+  /**
+   * Check whether a task waiting out a retry backoff may run again
+   */
+  private isDue(task: Task): boolean {
+    return !task.nextAttemptAt || task.nextAttemptAt.getTime() <= Date.now();
+  }
+
   /**
    * Get task by ID
    */
@@ -52,19 +137,209 @@ export class TaskQueue {
   }
 
   /**
-   * Check if dependencies are met
+   * Cancel a pending task so it is never handed out
    */
-  private areDependenciesMet(task: Task): boolean {
+  cancel(taskId: string, reason: string): Task | undefined {
+    const task = this.tasks.get(taskId);
+    if (!task || task.status !== 'pending') return undefined;
+
+    task.status = 'cancelled';
+    task.statusReason = reason;
+    task.updatedAt = new Date();
+    this.removeFromQueue(taskId);
+
+    return task;
+  }
+
+  /**
+   * Check if dependencies are met. A failed or timed out dependency counts
+   * as met when its failure policy is continue-with-partial.
+   */
+  areDependenciesMet(task: Task): boolean {
     if (!task.dependencies || !Array.isArray(task.dependencies)) {
       return true; // No dependencies means all are met
     }
     
     return task.dependencies.every(depId => {
       const depTask = this.tasks.get(depId);
-      return depTask && depTask.status === 'completed';
+      if (!depTask) return false;
+      return depTask.status === 'completed' ||
+        ((depTask.status === 'failed' || depTask.status === 'timed_out') &&
+          depTask.failurePolicy === 'continue-with-partial');
     });
   }
 
+  /**
+   * Apply the failure policy of a failed, timed out or cancelled task and
+   * return the tasks that were skipped as a result. Dependents of a
+   * cancelled task are always skipped. Fail-fast halts the task's workflow
+   * run, or for a task outside a workflow, the tasks connected to it by
+   * dependencies; other work on the queue carries on.
+   */
+  propagateFailure(taskId: string): Task[] {
+    const failed = this.tasks.get(taskId);
+    if (!failed) return [];
+
+    const policy = failed.failurePolicy || 'skip-dependents';
+    if (policy === 'continue-with-partial' && failed.status !== 'cancelled') return [];
+
+    const outcome = failed.status.replace('_', ' ');
+
+    let toSkip: Task[];
+    let reason: string;
+
+    if (policy === 'fail-fast') {
+      toSkip = this.getRelated(failed).filter(t => t.status === 'pending');
+      reason = `Run halted after task ${taskId} ${outcome} (fail-fast)`;
+    } else {
+      toSkip = this.getDependents(taskId).filter(t => t.status === 'pending');
+      reason = `Dependency ${taskId} ${outcome}`;
+    }
+
+    for (const task of toSkip) {
+      task.status = 'skipped';
+      task.statusReason = reason;
+      task.updatedAt = new Date();
+      this.removeFromQueue(task.id);
+    }
+
+    return toSkip;
+  }
+
+  /**
+   * Get all tasks that directly or transitively depend on a task
+   */
+  getDependents(taskId: string): Task[] {
+    const dependents = new Map<string, Task>();
+    const visit = (id: string) => {
+      for (const task of this.tasks.values()) {
+        if (!dependents.has(task.id) && (task.dependencies || []).includes(id)) {
+          dependents.set(task.id, task);
+          visit(task.id);
+        }
+      }
+    };
+
+    visit(taskId);
+    return Array.from(dependents.values());
+  }
+
+  /**
+   * Tasks of the same workflow run as a task or, outside a workflow, every
+   * task it is connected to through dependencies in either direction
+   */
+  private getRelated(task: Task): Task[] {
+    if (task.workflowId) {
+      return Array.from(this.tasks.values()).filter(t => t.id !== task.id && t.workflowId === task.workflowId);
+    }
+
+    const related = new Map<string, Task>([[task.id, task]]);
+    const pending = [task];
+    while (pending.length > 0) {
+      const current = pending.pop()!;
+      for (const other of this.tasks.values()) {
+        const linked = (current.dependencies || []).includes(other.id) || (other.dependencies || []).includes(current.id);
+        if (linked && !related.has(other.id)) {
+          related.set(other.id, other);
+          pending.push(other);
+        }
+      }
+    }
+
+    related.delete(task.id);
+    return Array.from(related.values());
+  }
+
+  /**
+   * Reject self-references and dependency cycles
+   */
+  private validateDependencies(task: Task): void {
+    const dependencies = task.dependencies || [];
+
+    if (dependencies.includes(task.id)) {
+      throw new TaskDependencyError(
+        `Task ${task.id} cannot depend on itself`,
+        'self-reference',
+        [task.id, task.id]
+      );
+    }
+
+    // The existing graph is acyclic, so any new cycle must pass through this task
+    const visited = new Set<string>();
+    const findPathBack = (id: string, trail: string[]): string[] | null => {
+      if (id === task.id) return [...trail, id];
+      if (visited.has(id)) return null;
+      visited.add(id);
+
+      for (const depId of this.getKnownTask(id)?.dependencies || []) {
+        const path = findPathBack(depId, [...trail, id]);
+        if (path) return path;
+      }
+      return null;
+    };
+
+    for (const depId of dependencies) {
+      const cycle = findPathBack(depId, [task.id]);
+      if (cycle) {
+        throw new TaskDependencyError(
+          `Dependency cycle detected: ${cycle.join(' -> ')}`,
+          'cycle',
+          cycle
+        );
+      }
+    }
+  }
+
+  /**
+   * Find the chain leading to a dependency that is unknown or quarantined
+   */
+  private findMissingDependencyChain(task: Task, trail: string[] = []): string[] | null {
+    for (const depId of task.dependencies || []) {
+      if (this.tasks.has(depId)) continue;
+
+      const held = this.quarantine.get(depId);
+      if (!held || trail.includes(depId)) {
+        return [...trail, task.id, depId];
+      }
+      return this.findMissingDependencyChain(held.task, [...trail, task.id]) || [...trail, task.id, depId];
+    }
+    return null;
+  }
+
+  /**
+   * Admit quarantined tasks whose dependencies are now all known
+   */
+  private releaseQuarantined(): void {
+    let released = true;
+    while (released) {
+      released = false;
+      for (const [id, { task }] of this.quarantine.entries()) {
+        if ((task.dependencies || []).every(depId => this.tasks.has(depId))) {
+          this.quarantine.delete(id);
+          this.admit(task);
+          released = true;
+        }
+      }
+    }
+  }
+
+  private admit(task: Task): void {
+    this.tasks.set(task.id, task);
+    this.priorityQueue.push(task);
+    this.sortByPriority();
+  }
+
+  private removeFromQueue(id: string): void {
+    const index = this.priorityQueue.findIndex(t => t.id === id);
+    if (index !== -1) {
+      this.priorityQueue.splice(index, 1);
+    }
+  }
+
+  private getKnownTask(id: string): Task | undefined {
+    return this.tasks.get(id) || this.quarantine.get(id)?.task;
+  }
+
   /**
    * Sort queue by priority
    */
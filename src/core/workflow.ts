@@ -0,0 +1,286 @@
+/**
+ * Workflow loader for Gemini Code Flow
+ * Turns declarative multi-step SPARC workflow files into orchestrator tasks
+ */
+
+import fs from 'fs-extra';
+import path from 'path';
+import YAML from 'yaml';
+import { AgentResult, FailurePolicy, ResultSection, Task, Workflow, WorkflowStep } from '../types';
+import { Validator, ValidationError } from '../utils/validation';
+import { RESULT_SECTIONS, StructuredOutput } from './structured-output';
+
+const STEP_ID_PATTERN = /^[a-zA-Z0-9_-]+$/;
+const STEP_REFERENCE_PATTERN = /\{\{\s*steps\.([a-zA-Z0-9_-]+)\.output(?:\.([a-zA-Z]+))?\s*\}\}/g;
+const FAILURE_POLICIES: FailurePolicy[] = ['fail-fast', 'skip-dependents', 'continue-with-partial'];
+
+export class WorkflowLoader {
+  /**
+   * Load and validate a workflow file (.yml, .yaml or .json)
+   */
+  static async load(filePath: string, customModes: string[] = []): Promise<Workflow> {
+    const content = await fs.readFile(filePath, 'utf8');
+    const ext = path.extname(filePath).toLowerCase();
+    const format = ext === '.json' ? 'json' : 'yaml';
+    const fallbackName = path.basename(filePath, ext);
+
+    return this.parse(content, format, fallbackName, customModes);
+  }
+
+  /**
+   * Parse workflow content in the given format
+   */
+  static parse(
+    content: string,
+    format: 'json' | 'yaml',
+    fallbackName: string = 'workflow',
+    customModes: string[] = []
+  ): Workflow {
+    let raw: unknown;
+    try {
+      raw = format === 'json' ? JSON.parse(content) : YAML.parse(content);
+    } catch (error) {
+      throw new ValidationError(
+        `Workflow file is not valid ${format.toUpperCase()}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'workflow'
+      );
+    }
+
+    return this.validate(raw, fallbackName, customModes);
+  }
+
+  /**
+   * Validate a raw workflow object and return steps in dependency order
+   */
+  static validate(raw: unknown, fallbackName: string = 'workflow', customModes: string[] = []): Workflow {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      throw new ValidationError('Workflow must be an object', 'workflow');
+    }
+
+    const data = raw as Record<string, unknown>;
+    if (!Array.isArray(data.steps) || data.steps.length === 0) {
+      throw new ValidationError('Workflow must define at least one step', 'steps');
+    }
+
+    const steps: WorkflowStep[] = data.steps.map((step, index) => this.validateStep(step, index, customModes));
+
+    const ids = new Set<string>();
+    for (const step of steps) {
+      if (ids.has(step.id)) {
+        throw new ValidationError(`Duplicate step id: ${step.id}`, 'steps');
+      }
+      ids.add(step.id);
+    }
+
+    for (const step of steps) {
+      for (const dep of step.dependsOn || []) {
+        if (!ids.has(dep)) {
+          throw new ValidationError(`Step "${step.id}" depends on unknown step "${dep}"`, 'dependsOn');
+        }
+        if (dep === step.id) {
+          throw new ValidationError(`Step "${step.id}" cannot depend on itself`, 'dependsOn');
+        }
+      }
+    }
+
+    const ordered = this.sortSteps(steps);
+    const ancestors = this.collectAncestors(ordered);
+
+    for (const step of ordered) {
+      const referenced = this.getReferencedSteps(step.task);
+      for (const input of [...(step.inputs || []), ...referenced]) {
+        if (!ancestors.get(step.id)?.has(input)) {
+          throw new ValidationError(
+            `Step "${step.id}" uses output of "${input}", which is not one of its dependencies`,
+            'inputs'
+          );
+        }
+      }
+    }
+
+    return {
+      name: typeof data.name === 'string' && data.name.trim() ? data.name.trim() : fallbackName,
+      description: typeof data.description === 'string' ? data.description : undefined,
+      onFailure: this.validateFailurePolicy(data.onFailure, 'workflow'),
+      steps: ordered,
+    };
+  }
+
+  /**
+   * Convert a workflow into orchestrator tasks, keyed by a run ID
+   */
+  static toTasks(workflow: Workflow, runId: string): Task[] {
+    const taskId = (stepId: string) => `${runId}-${stepId}`;
+    const now = new Date();
+
+    return workflow.steps.map(step => {
+      const inputNames = new Set([...(step.inputs || step.dependsOn || []), ...this.getReferencedSteps(step.task)]);
+      const inputs: Record<string, string> = {};
+      inputNames.forEach(name => {
+        inputs[name] = taskId(name);
+      });
+
+      return {
+        id: taskId(step.id),
+        description: step.task,
+        mode: step.mode,
+        priority: step.priority || 'medium',
+        dependencies: (step.dependsOn || []).map(taskId),
+        status: 'pending',
+        inputs,
+        failurePolicy: step.onFailure || workflow.onFailure,
+        workflowId: runId,
+        timeoutMs: step.timeoutMs,
+        retryPolicy: step.retry,
+        files: step.files,
+        createdAt: now,
+        updatedAt: now,
+      };
+    });
+  }
+
+  /**
+   * Get the step IDs referenced through {{steps.<id>.output}} and
+   * {{steps.<id>.output.<section>}} placeholders
+   */
+  static getReferencedSteps(text: string): string[] {
+    return Array.from(text.matchAll(STEP_REFERENCE_PATTERN), match => match[1]);
+  }
+
+  /**
+   * Replace {{steps.<id>.output}} placeholders with step outputs, and
+   * {{steps.<id>.output.<section>}} with one section of a step's result.
+   * Outputs that are plain text (such as a failure note) are used whole.
+   */
+  static renderTemplate(text: string, outputs: Record<string, AgentResult | string | undefined>): string {
+    return text.replace(STEP_REFERENCE_PATTERN, (placeholder, stepId: string, section?: ResultSection) => {
+      const output = outputs[stepId];
+      if (output === undefined) {
+        return placeholder;
+      }
+      if (typeof output === 'string') {
+        return output;
+      }
+      if (!section) {
+        return StructuredOutput.toMarkdown(output);
+      }
+      return StructuredOutput.renderSection(output, section) ?? `(Step ${stepId} gave no ${section})`;
+    });
+  }
+
+  private static validateStep(step: unknown, index: number, customModes: string[]): WorkflowStep {
+    if (!step || typeof step !== 'object') {
+      throw new ValidationError(`Step ${index + 1} must be an object`, 'steps');
+    }
+
+    const data = step as Record<string, unknown>;
+    const id = data.id;
+    if (typeof id !== 'string' || !STEP_ID_PATTERN.test(id)) {
+      throw new ValidationError(
+        `Step ${index + 1} must have an id made of letters, numbers, "-" or "_"`,
+        'id'
+      );
+    }
+
+    const mode = Validator.validateAgentMode(String(data.mode), customModes);
+    const task = Validator.validateTaskDescription(data.task as string);
+    for (const [, stepId, section] of task.matchAll(STEP_REFERENCE_PATTERN)) {
+      if (section && !RESULT_SECTIONS.includes(section as ResultSection)) {
+        throw new ValidationError(
+          `Step "${id}" uses unknown section "${section}" of "${stepId}". Sections: ${RESULT_SECTIONS.join(', ')}`,
+          'task'
+        );
+      }
+    }
+
+    const priority = data.priority ?? 'medium';
+    if (!['low', 'medium', 'high'].includes(priority as string)) {
+      throw new ValidationError(`Step "${id}" has invalid priority: ${priority}`, 'priority');
+    }
+
+    const timeoutMs = data.timeoutMs;
+    if (timeoutMs !== undefined && (!Number.isInteger(timeoutMs) || (timeoutMs as number) <= 0)) {
+      throw new ValidationError(`Step "${id}" timeoutMs must be a positive integer`, 'timeoutMs');
+    }
+
+    return {
+      id,
+      mode,
+      task,
+      priority: priority as WorkflowStep['priority'],
+      dependsOn: this.validateStringList(data.dependsOn, id, 'dependsOn'),
+      inputs: data.inputs === undefined ? undefined : this.validateStringList(data.inputs, id, 'inputs'),
+      onFailure: this.validateFailurePolicy(data.onFailure, `step "${id}"`),
+      timeoutMs: timeoutMs as number | undefined,
+      retry: data.retry === undefined ? undefined : Validator.validateRetryPolicy(data.retry, `steps.${id}.retry`),
+      files: data.files === undefined ? undefined : Validator.validateContextFiles(data.files, `steps.${id}.files`),
+    };
+  }
+
+  private static validateFailurePolicy(value: unknown, owner: string): FailurePolicy | undefined {
+    if (value === undefined) return undefined;
+
+    if (!FAILURE_POLICIES.includes(value as FailurePolicy)) {
+      throw new ValidationError(
+        `Invalid onFailure policy for ${owner}: ${value}. Valid policies: ${FAILURE_POLICIES.join(', ')}`,
+        'onFailure'
+      );
+    }
+
+    return value as FailurePolicy;
+  }
+
+  private static validateStringList(value: unknown, stepId: string, field: string): string[] {
+    if (value === undefined) return [];
+    const list = typeof value === 'string' ? [value] : value;
+
+    if (!Array.isArray(list) || !list.every(item => typeof item === 'string')) {
+      throw new ValidationError(`Step "${stepId}" ${field} must be a list of step ids`, field);
+    }
+
+    return list;
+  }
+
+  /**
+   * Topologically sort steps, keeping file order where possible
+   */
+  private static sortSteps(steps: WorkflowStep[]): WorkflowStep[] {
+    const byId = new Map(steps.map(step => [step.id, step]));
+    const ordered: WorkflowStep[] = [];
+    const state = new Map<string, 'visiting' | 'done'>();
+
+    const visit = (step: WorkflowStep, trail: string[]) => {
+      const current = state.get(step.id);
+      if (current === 'done') return;
+      if (current === 'visiting') {
+        const cycle = [...trail.slice(trail.indexOf(step.id)), step.id];
+        throw new ValidationError(`Workflow has a dependency cycle: ${cycle.join(' -> ')}`, 'dependsOn');
+      }
+
+      state.set(step.id, 'visiting');
+      for (const dep of step.dependsOn || []) {
+        visit(byId.get(dep)!, [...trail, step.id]);
+      }
+      state.set(step.id, 'done');
+      ordered.push(step);
+    };
+
+    steps.forEach(step => visit(step, []));
+    return ordered;
+  }
+
+  private static collectAncestors(ordered: WorkflowStep[]): Map<string, Set<string>> {
+    const ancestors = new Map<string, Set<string>>();
+
+    for (const step of ordered) {
+      const set = new Set<string>();
+      for (const dep of step.dependsOn || []) {
+        set.add(dep);
+        ancestors.get(dep)?.forEach(id => set.add(id));
+      }
+      ancestors.set(step.id, set);
+    }
+
+    return ancestors;
+  }
+}
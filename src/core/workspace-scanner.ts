@@ -0,0 +1,306 @@
+/**
+ * Workspace Scanner for Gemini Code Flow
+ * Lists a project's files, honouring .gitignore and .gemini-flowignore, and turns them into prompt context
+ */
+
+import fs from 'fs-extra';
+import path from 'path';
+import { ContextItemReport, ContextReport, WorkspaceContext } from '../types';
+import { ContextBuilder, ContextCandidate } from './context-builder';
+import { PathSecurity, PathSecurityError } from '../utils/path-security';
+
+/**
+ * Ignore files read in every scanned directory, with .gitignore syntax
+ */
+export const IGNORE_FILES = ['.gitignore', '.gemini-flowignore'];
+
+/**
+ * Text and source file types agents are shown
+ */
+export const WORKSPACE_FILE_TYPES = [
+  '.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.json', '.md', '.txt', '.yml', '.yaml', '.toml', '.ini',
+  '.xml', '.html', '.css', '.scss', '.vue', '.svelte', '.py', '.rb', '.go', '.rs', '.java', '.kt', '.c', '.h',
+  '.cpp', '.hpp', '.cs', '.php', '.swift', '.sh', '.sql', '.graphql', '.proto',
+];
+
+// Never scanned: version control, dependencies and this tool's own state
+const ALWAYS_IGNORED = ['.git', 'node_modules', '.gemini-flow'];
+
+const MAX_WORKSPACE_FILE_BYTES = 256 * 1024;
+const MAX_WORKSPACE_FILES = 5000;
+
+// Below attached files (2) and above memory entries (0-1)
+const TREE_PRIORITY = 1.5;
+const MENTIONED_FILE_PRIORITY = 1.3;
+const FILE_PRIORITY = 1.2;
+
+export interface WorkspaceFile {
+  /** Path relative to the scanned directory, with / separators */
+  path: string;
+  size: number;
+}
+
+export interface WorkspaceScan {
+  /** The scanned directory, resolved */
+  root: string;
+  /** The scanned directory relative to the working directory, '.' when they are the same */
+  dir: string;
+  files: WorkspaceFile[];
+  /** Files left out for their type or size */
+  skipped: number;
+  /** Whether the scan stopped at the file limit */
+  truncated: boolean;
+}
+
+interface IgnoreRule {
+  /** Directory of the ignore file, relative to the working directory ('' for the working directory) */
+  base: string;
+  pattern: RegExp;
+  negated: boolean;
+  dirOnly: boolean;
+}
+
+export class WorkspaceScanner {
+  /**
+   * List the text and source files under `dir`, leaving out ignored files,
+   * other file types and files over 256KB. Symlinks are not followed.
+   */
+  static async scan(dir: string = '.', baseDir: string = process.cwd()): Promise<WorkspaceScan> {
+    const root = await PathSecurity.resolveSafePath(dir, baseDir, { mustExist: false });
+    const stats = await fs.stat(root).catch(() => undefined);
+    if (!stats?.isDirectory()) {
+      throw new PathSecurityError(`Not a directory: ${dir}`, dir);
+    }
+
+    const realBase = await fs.realpath(baseDir);
+    const prefix = path.relative(realBase, root).split(path.sep).join('/');
+
+    // Ignore files between the working directory and the scanned one apply too
+    const rules: IgnoreRule[] = [];
+    const parts = prefix ? prefix.split('/') : [];
+    for (let depth = 0; depth < parts.length; depth++) {
+      const base = parts.slice(0, depth).join('/');
+      rules.push(...await this.readIgnoreRules(path.join(realBase, base), base));
+    }
+
+    const scan: WorkspaceScan = { root, dir: prefix || '.', files: [], skipped: 0, truncated: false };
+    await this.walk(scan, prefix, '', rules);
+    return scan;
+  }
+
+  /**
+   * Prompt context for a workspace: its file tree, and the contents of the
+   * files matching `include`, the ones named in the task first
+   */
+  static async candidates(
+    workspace: WorkspaceContext,
+    task: string,
+    baseDir: string = process.cwd()
+  ): Promise<{ candidates: ContextCandidate[]; unreadable: ContextItemReport[] }> {
+    const scan = await this.scan(workspace.dir, baseDir);
+    const candidates: ContextCandidate[] = [{
+      source: 'workspace',
+      id: scan.dir,
+      title: scan.dir === '.' ? 'Project files' : `Files in ${scan.dir}`,
+      content: this.tree(scan),
+      priority: TREE_PRIORITY,
+    }];
+    const unreadable: ContextItemReport[] = [];
+
+    const included = scan.files.filter(file => (workspace.include || []).some(glob => this.matches(file.path, glob)));
+    for (const file of included) {
+      const id = scan.dir === '.' ? file.path : `${scan.dir}/${file.path}`;
+      try {
+        const content = await ContextBuilder.readFile(id, baseDir);
+        const mentioned = task.includes(id) || task.includes(path.posix.basename(id));
+        candidates.push({ source: 'workspace', id, title: id, content, priority: mentioned ? MENTIONED_FILE_PRIORITY : FILE_PRIORITY });
+      } catch {
+        unreadable.push({ source: 'workspace', id, tokens: 0, reason: 'unreadable' });
+      }
+    }
+
+    return { candidates, unreadable };
+  }
+
+  /**
+   * A workspace as a "## Workspace" prompt section fitted into `budgetTokens`,
+   * for prompts built outside the orchestrator
+   */
+  static async section(
+    workspace: WorkspaceContext,
+    task: string,
+    budgetTokens: number,
+    baseDir: string = process.cwd()
+  ): Promise<{ text: string; report: ContextReport }> {
+    const { candidates, unreadable } = await this.candidates(workspace, task, baseDir);
+    const { items, report } = ContextBuilder.build(candidates, budgetTokens);
+    report.dropped.push(...unreadable);
+
+    const text = items.length > 0
+      ? `## Workspace\n${items.map(item => `### ${item.title}\n${item.content}`).join('\n\n')}\n`
+      : '';
+    return { text, report };
+  }
+
+  /**
+   * Render scanned files as an indented tree
+   */
+  static tree(scan: WorkspaceScan): string {
+    const lines: string[] = [];
+    const shown = new Set<string>();
+
+    // The walk lists each directory's entries together, so paths arrive in tree order
+    for (const file of scan.files) {
+      const parts = file.path.split('/');
+      for (let depth = 0; depth < parts.length - 1; depth++) {
+        const dir = parts.slice(0, depth + 1).join('/');
+        if (!shown.has(dir)) {
+          shown.add(dir);
+          lines.push(`${'  '.repeat(depth)}${parts[depth]}/`);
+        }
+      }
+      lines.push(`${'  '.repeat(parts.length - 1)}${parts[parts.length - 1]}`);
+    }
+
+    if (lines.length === 0) {
+      lines.push('(no files)');
+    }
+    if (scan.truncated) {
+      lines.push(`(stopped after ${MAX_WORKSPACE_FILES} files)`);
+    }
+    if (scan.skipped > 0) {
+      lines.push(`(${scan.skipped} other file${scan.skipped === 1 ? '' : 's'} left out for their type or size)`);
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * Whether a path relative to the workspace matches a glob. Globs without a
+   * slash match file names at any depth, and a glob matching a directory
+   * matches everything in it.
+   */
+  static matches(filePath: string, glob: string): boolean {
+    const pattern = this.globToRegExp(glob.replace(/\/+$/, ''));
+    const parts = filePath.split('/');
+    return parts.some((_, i) => pattern.test(parts.slice(0, i + 1).join('/')));
+  }
+
+  private static async walk(scan: WorkspaceScan, prefix: string, relDir: string, parentRules: IgnoreRule[]): Promise<void> {
+    const dirPath = path.join(scan.root, relDir);
+    const rules = [...parentRules, ...(await this.readIgnoreRules(dirPath, [prefix, relDir].filter(Boolean).join('/')))];
+    const entries = await fs.readdir(dirPath, { withFileTypes: true }).catch(() => []);
+    entries.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+
+    for (const entry of entries) {
+      if (scan.truncated) return;
+
+      const relPath = relDir ? `${relDir}/${entry.name}` : entry.name;
+      const ignorePath = prefix ? `${prefix}/${relPath}` : relPath;
+
+      if (entry.isDirectory()) {
+        if (!ALWAYS_IGNORED.includes(entry.name) && !this.isIgnored(ignorePath, true, rules)) {
+          await this.walk(scan, prefix, relPath, rules);
+        }
+      } else if (entry.isFile() && !this.isIgnored(ignorePath, false, rules)) {
+        const stats = await fs.stat(path.join(dirPath, entry.name)).catch(() => undefined);
+        if (!stats || stats.size > MAX_WORKSPACE_FILE_BYTES || !PathSecurity.isAllowedFileType(entry.name, WORKSPACE_FILE_TYPES)) {
+          scan.skipped++;
+        } else if (scan.files.length >= MAX_WORKSPACE_FILES) {
+          scan.truncated = true;
+        } else {
+          scan.files.push({ path: relPath, size: stats.size });
+        }
+      }
+    }
+  }
+
+  /**
+   * Later rules override earlier ones, and files in an ignored directory
+   * cannot be brought back, as in git
+   */
+  private static isIgnored(relPath: string, isDir: boolean, rules: IgnoreRule[]): boolean {
+    let ignored = false;
+    for (const rule of rules) {
+      const prefix = rule.base ? `${rule.base}/` : '';
+      if ((rule.dirOnly && !isDir) || !relPath.startsWith(prefix)) continue;
+      if (rule.pattern.test(relPath.slice(prefix.length))) {
+        ignored = !rule.negated;
+      }
+    }
+    return ignored;
+  }
+
+  private static async readIgnoreRules(dirPath: string, base: string): Promise<IgnoreRule[]> {
+    const rules: IgnoreRule[] = [];
+
+    for (const name of IGNORE_FILES) {
+      const text = await fs.readFile(path.join(dirPath, name), 'utf8').catch(() => '');
+      for (const line of text.split(/\r?\n/)) {
+        let pattern = line.replace(/(?<!\\)\s+$/, '');
+        if (!pattern || pattern.startsWith('#')) continue;
+
+        const negated = pattern.startsWith('!');
+        if (negated) pattern = pattern.slice(1);
+        const dirOnly = pattern.endsWith('/');
+        pattern = pattern.replace(/\/+$/, '');
+
+        if (pattern) {
+          rules.push({ base, pattern: this.globToRegExp(pattern), negated, dirOnly });
+        }
+      }
+    }
+
+    return rules;
+  }
+
+  /**
+   * Convert a glob to a regular expression for paths with / separators.
+   * Supports *, **, ?, [abc], {a,b} and backslash escapes.
+   */
+  private static globToRegExp(glob: string): RegExp {
+    // As in .gitignore, a glob with a slash is anchored to its directory
+    const anchored = glob.includes('/');
+    return new RegExp(`^${anchored ? '' : '(?:.*/)?'}${this.globSource(glob.replace(/^\//, ''))}$`);
+  }
+
+  private static globSource(glob: string): string {
+    let source = '';
+
+    for (let i = 0; i < glob.length; i++) {
+      const char = glob[i];
+
+      if (char === '*' && glob[i + 1] === '*') {
+        if (glob[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else if (char === '*') {
+        source += '[^/]*';
+      } else if (char === '?') {
+        source += '[^/]';
+      } else if (char === '[' && glob.indexOf(']', i + 2) > 0) {
+        const end = glob.indexOf(']', i + 2);
+        const set = glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+        source += `[${set}]`;
+        i = end;
+      } else if (char === '{' && glob.indexOf('}', i) > 0) {
+        const end = glob.indexOf('}', i);
+        source += `(?:${glob.slice(i + 1, end).split(',').map(part => this.globSource(part)).join('|')})`;
+        i = end;
+      } else if (char === '\\' && i + 1 < glob.length) {
+        source += this.escape(glob[++i]);
+      } else {
+        source += this.escape(char);
+      }
+    }
+
+    return source;
+  }
+
+  private static escape(char: string): string {
+    return char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+  }
+}
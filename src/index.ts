@@ -6,17 +6,47 @@
 export { Orchestrator } from './core/orchestrator';
 export { GeminiClient } from './core/gemini-client';
 export { MemoryManager } from './core/memory-manager';
-export { TaskQueue } from './core/task-queue';
+export { TaskQueue, TaskDependencyError } from './core/task-queue';
+export { WorkflowLoader } from './core/workflow';
+export { RunJournal } from './core/run-journal';
+export { ModeRegistry } from './core/mode-registry';
+export { MODE_CATALOG, BUILT_IN_MODE_NAMES, isBuiltInMode } from './core/mode-catalog';
+export { ModeLoader } from './core/mode-loader';
+export { ContextBuilder, DEFAULT_CONTEXT_TOKENS } from './core/context-builder';
+export { RunMonitor } from './core/run-monitor';
+export { ControlServer } from './core/control-server';
+export { ControlClient } from './core/control-client';
+export { ControlError, DEFAULT_SOCKET_PATH } from './core/control-protocol';
+export { ApiServer, HttpError } from './core/api-server';
+
+export { JsonMemoryStore } from './memory/json-memory-store';
+export { SqliteMemoryStore } from './memory/sqlite-memory-store';
+export { MemoryMigration } from './memory/memory-migration';
+export { LocalEmbedder, GeminiEmbedder, cosineSimilarity } from './memory/embeddings';
+
+export { ProviderRegistry } from './providers/provider-registry';
+export { OpenAICompatibleProvider } from './providers/openai-provider';
+export { OllamaProvider } from './providers/ollama-provider';
 
 export { SparcCommand } from './commands/sparc';
 export { InitCommand } from './commands/init';
 export { AgentCommand } from './commands/agent';
 export { StatusCommand } from './commands/status';
+export { RunCommand } from './commands/run';
+export { ResumeCommand } from './commands/resume';
+export { ListCommand } from './commands/list';
+export { StartCommand } from './commands/start';
+export { ServeCommand } from './commands/serve';
+export { MemoryCommand } from './commands/memory';
+export { Repl } from './commands/repl';
+export { Dashboard } from './commands/dashboard';
 
 export { Logger } from './utils/logger';
 export { ErrorHandler } from './utils/error-handler';
 export { Validator, ValidationError } from './utils/validation';
 export { PathSecurity, PathSecurityError } from './utils/path-security';
+export { ConfigLoader } from './utils/config-loader';
+export { ReplParser } from './utils/repl-parser';
 
 export * from './types';
 
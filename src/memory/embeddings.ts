@@ -0,0 +1,111 @@
+/**
+ * Embedding Providers for Gemini Code Flow
+ * Vectors for semantic memory search, from Gemini or computed locally
+ */
+
+import crypto from 'crypto';
+import { GoogleGenerativeAI, GenerativeModel, TaskType } from '@google/generative-ai';
+import { EmbeddingProvider } from '../types';
+
+export const DEFAULT_GEMINI_EMBEDDING_MODEL = 'text-embedding-004';
+
+// Gemini accepts at most 100 texts per batch request
+const GEMINI_BATCH_SIZE = 100;
+const MAX_EMBEDDED_CHARS = 8000;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'into', 'is', 'it', 'of',
+  'on', 'or', 'that', 'the', 'this', 'to', 'was', 'with', 'use', 'using',
+]);
+
+/**
+ * Feature-hashing embedder that needs no network access.
+ * Texts sharing words (and word pairs) score as similar; it has no notion of synonyms.
+ */
+export class LocalEmbedder implements EmbeddingProvider {
+  readonly model: string;
+  private dimensions: number;
+
+  constructor(dimensions: number = 256) {
+    this.dimensions = dimensions;
+    this.model = `local-hash-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words = (text.slice(0, MAX_EMBEDDED_CHARS).toLowerCase().match(/[a-z0-9]+/g) || [])
+      .filter(word => word.length > 1 && !STOP_WORDS.has(word));
+
+    const add = (feature: string, weight: number) => {
+      const hash = crypto.createHash('md5').update(feature).digest();
+      const index = hash.readUInt32LE(0) % this.dimensions;
+      vector[index] += (hash[4] & 1 ? 1 : -1) * weight;
+    };
+
+    words.forEach((word, i) => {
+      add(word, 1);
+      if (i > 0) {
+        add(`${words[i - 1]} ${word}`, 0.5);
+      }
+    });
+
+    return normalize(vector);
+  }
+}
+
+/**
+ * Embeddings from the Gemini API
+ */
+export class GeminiEmbedder implements EmbeddingProvider {
+  readonly model: string;
+  private client: GenerativeModel;
+
+  constructor(apiKey: string, model: string = DEFAULT_GEMINI_EMBEDDING_MODEL) {
+    this.model = `gemini:${model}`;
+    this.client = new GoogleGenerativeAI(apiKey).getGenerativeModel({ model });
+  }
+
+  async embed(texts: string[], purpose: 'document' | 'query'): Promise<number[][]> {
+    const taskType = purpose === 'query' ? TaskType.RETRIEVAL_QUERY : TaskType.RETRIEVAL_DOCUMENT;
+    const vectors: number[][] = [];
+
+    for (let start = 0; start < texts.length; start += GEMINI_BATCH_SIZE) {
+      const response = await this.client.batchEmbedContents({
+        requests: texts.slice(start, start + GEMINI_BATCH_SIZE).map(text => ({
+          content: { role: 'user', parts: [{ text: text.slice(0, MAX_EMBEDDED_CHARS) }] },
+          taskType,
+        })),
+      });
+      vectors.push(...response.embeddings.map(embedding => normalize(embedding.values)));
+    }
+
+    return vectors;
+  }
+}
+
+/**
+ * Cosine similarity of two vectors; 0 when either is empty or their sizes differ
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map(value => value / norm);
+}
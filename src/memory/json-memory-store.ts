@@ -0,0 +1,411 @@
+/**
+ * JSON Memory Store for Gemini Code Flow
+ * Keeps every entry in memory and writes the whole file, grouped by agent, on flush.
+ * Several processes may share the file: writes happen under a lock file, merge
+ * in what other processes saved, and replace the file atomically, so a
+ * read-only store can read it without the lock.
+ */
+
+import fs from 'fs-extra';
+import path from 'path';
+import {
+  MemoryBackend,
+  MemoryBackendOptions,
+  MemoryBackendStats,
+  MemoryEmbedding,
+  MemoryEntry,
+  MemoryEntryUpdate,
+  MemoryNamespace,
+  MemoryQuery,
+  MemoryRetention,
+  MemoryScope,
+} from '../types';
+import { FileLock } from '../utils/file-lock';
+
+const SAVE_DELAY_MS = 5000;
+
+export class JsonMemoryStore implements MemoryBackend {
+  readonly type = 'json' as const;
+  private filePath: string;
+  private readOnly: boolean;
+  private cache: Map<string, MemoryEntry[]> = new Map();
+  private saveTimeout: NodeJS.Timeout | null = null;
+  // Changes since the last flush, merged into the file as it is on disk then
+  private inserted: Set<string> = new Set();
+  private updated: Set<string> = new Set();
+  private removed: Set<string> = new Set();
+
+  constructor(filePath: string, options: MemoryBackendOptions = {}) {
+    this.filePath = filePath;
+    this.readOnly = options.readOnly ?? false;
+  }
+
+  /**
+   * Load the file if it exists. A corrupted file is moved aside, and the
+   * backup written by the last successful flush is loaded in its place.
+   * A read-only store leaves a corrupted file where it is.
+   */
+  async initialize(): Promise<void> {
+    this.clearChanges();
+
+    if (this.readOnly) {
+      const current = await this.readFile(this.filePath);
+      const backup = current === 'corrupt' ? await this.readFile(this.backupPath()) : undefined;
+      this.setEntries(Array.isArray(current) ? current : Array.isArray(backup) ? backup : []);
+      return;
+    }
+
+    await fs.ensureDir(path.dirname(this.filePath));
+    const entries = await FileLock.withLock(this.filePath, async () => {
+      const current = await this.readFile(this.filePath);
+      if (current !== 'corrupt') {
+        return current || [];
+      }
+
+      const backup = await this.readFile(this.backupPath());
+      if (Array.isArray(backup)) {
+        console.warn(`Restored ${backup.length} memory entries from ${this.backupPath()}`);
+        // Nothing is on disk any more, so the restored entries are written by the next flush
+        backup.forEach(entry => this.inserted.add(entry.id));
+        return backup;
+      }
+      console.warn('No usable memory backup found; starting with an empty memory bank');
+      return [];
+    });
+
+    this.setEntries(entries);
+  }
+
+  async insert(entry: MemoryEntry): Promise<void> {
+    this.assertWritable();
+    this.add(entry);
+    this.scheduleSave();
+  }
+
+  async insertMany(entries: MemoryEntry[]): Promise<number> {
+    this.assertWritable();
+    const known = new Set(this.all().map(entry => entry.id));
+    const added = entries.filter(entry => !known.has(entry.id));
+    added.forEach(entry => this.add(entry));
+    this.scheduleSave();
+    return added.length;
+  }
+
+  async query(query: MemoryQuery = {}): Promise<MemoryEntry[]> {
+    const text = query.text?.toLowerCase();
+    const matches = this.all().filter(entry =>
+      (!text || JSON.stringify(entry.content).toLowerCase().includes(text)) &&
+      (!query.tags || query.tags.some(tag => entry.tags.includes(tag))) &&
+      (!query.types || query.types.includes(entry.type)) &&
+      (!query.agentId || entry.agentId === query.agentId) &&
+      (!query.since || entry.timestamp >= query.since) &&
+      (!query.until || entry.timestamp <= query.until) &&
+      (!query.scope || JsonMemoryStore.inScope(entry.namespace, query.scope)) &&
+      (query.pinned === undefined || !!entry.pinned === query.pinned) &&
+      (query.sources === undefined || !!entry.sources === query.sources) &&
+      (!query.excludeTags || !query.excludeTags.some(tag => entry.tags.includes(tag)))
+    );
+
+    if (query.order) {
+      const direction = query.order === 'desc' ? -1 : 1;
+      matches.sort((a, b) => direction * (a.timestamp.getTime() - b.timestamp.getTime()));
+    }
+
+    return query.limit !== undefined ? matches.slice(0, query.limit) : matches;
+  }
+
+  async get(id: string): Promise<MemoryEntry | undefined> {
+    return this.all().find(entry => entry.id === id);
+  }
+
+  async update(id: string, changes: MemoryEntryUpdate): Promise<MemoryEntry | undefined> {
+    this.assertWritable();
+    const entry = await this.get(id);
+    if (!entry) return undefined;
+
+    if (changes.tags !== undefined) {
+      entry.tags = [...new Set(changes.tags)];
+    }
+    if (changes.pinned !== undefined) {
+      if (changes.pinned) {
+        entry.pinned = true;
+      } else {
+        delete entry.pinned;
+      }
+    }
+    this.updated.add(id);
+    this.scheduleSave();
+    return entry;
+  }
+
+  async delete(ids: string[]): Promise<number> {
+    this.assertWritable();
+    const doomed = new Set(ids);
+    const removed = this.removeWhere(entry => doomed.has(entry.id));
+    if (removed > 0) {
+      this.scheduleSave();
+    }
+    return removed;
+  }
+
+  async updateEmbeddings(updates: Array<{ id: string; embedding: MemoryEmbedding }>): Promise<void> {
+    this.assertWritable();
+    const embeddings = new Map(updates.map(update => [update.id, update.embedding]));
+    this.all()
+      .filter(entry => embeddings.has(entry.id))
+      .forEach(entry => {
+        entry.embedding = embeddings.get(entry.id);
+        this.updated.add(entry.id);
+      });
+    this.scheduleSave();
+  }
+
+  async count(query?: MemoryQuery): Promise<number> {
+    return query ? (await this.query({ ...query, order: undefined, limit: undefined })).length : this.all().length;
+  }
+
+  async stats(): Promise<MemoryBackendStats> {
+    const stats: MemoryBackendStats = { total: 0, pinned: 0, byType: {}, byTag: {}, byEmbeddingModel: {} };
+
+    for (const entry of this.all()) {
+      stats.total++;
+      if (entry.pinned) stats.pinned++;
+      stats.byType[entry.type] = (stats.byType[entry.type] || 0) + 1;
+      entry.tags.forEach(tag => {
+        stats.byTag[tag] = (stats.byTag[tag] || 0) + 1;
+      });
+      const model = entry.embedding?.model || 'none';
+      stats.byEmbeddingModel[model] = (stats.byEmbeddingModel[model] || 0) + 1;
+      if (!stats.oldest || entry.timestamp < stats.oldest) stats.oldest = entry.timestamp;
+      if (!stats.newest || entry.timestamp > stats.newest) stats.newest = entry.timestamp;
+    }
+
+    return stats;
+  }
+
+  async prune(retention: MemoryRetention): Promise<number> {
+    this.assertWritable();
+    let removed = 0;
+
+    const prunable = (entry: MemoryEntry) => !entry.pinned && !entry.sources;
+
+    if (retention.maxAgeMs !== undefined) {
+      const cutoff = Date.now() - retention.maxAgeMs;
+      removed += this.removeWhere(entry => prunable(entry) && entry.timestamp.getTime() < cutoff);
+    }
+
+    if (retention.maxEntries !== undefined) {
+      const candidates = this.all().filter(prunable);
+      const excess = candidates.length - retention.maxEntries;
+      if (excess > 0) {
+        const oldest = new Set(
+          candidates
+            .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+            .slice(0, excess)
+        );
+        removed += this.removeWhere(entry => oldest.has(entry));
+      }
+    }
+
+    if (removed > 0) {
+      this.scheduleSave();
+    }
+    return removed;
+  }
+
+  /**
+   * Write to disk now. Under the file lock, entries other processes saved since
+   * this store last read the file are merged with this store's changes, and the
+   * result replaces the file atomically. The previous file is kept as a backup.
+   */
+  async flush(): Promise<void> {
+    if (this.readOnly) return;
+
+    // A pending scheduled save is superseded by this one
+    if (this.saveTimeout) {
+      clearTimeout(this.saveTimeout);
+      this.saveTimeout = null;
+    }
+
+    await FileLock.withLock(this.filePath, async () => {
+      const onDisk = await this.readFile(this.filePath);
+      const changes = { inserted: this.inserted, updated: this.updated, removed: this.removed };
+
+      // Without a readable file this store's entries are the best copy there is
+      this.setEntries(Array.isArray(onDisk) ? this.merge(onDisk) : this.all());
+      this.clearChanges();
+
+      try {
+        if (Array.isArray(onDisk)) {
+          await fs.copy(this.filePath, this.backupPath());
+        }
+        await FileLock.writeAtomic(this.filePath, JSON.stringify(JsonMemoryStore.serialize(this.all()), null, 2));
+      } catch (error) {
+        // Keep the changes so the next flush writes them
+        changes.inserted.forEach(id => this.inserted.add(id));
+        changes.updated.forEach(id => this.updated.add(id));
+        changes.removed.forEach(id => this.removed.add(id));
+        throw error;
+      }
+    });
+  }
+
+  async close(): Promise<void> {
+    if (!this.readOnly) {
+      await this.flush();
+    }
+  }
+
+  /**
+   * Read entries as stored in a JSON memory file, restoring their dates
+   */
+  static deserialize(entries: MemoryEntry[]): MemoryEntry[] {
+    return entries.map(entry => ({
+      ...entry,
+      timestamp: entry.timestamp ? new Date(entry.timestamp) : new Date(),
+    }));
+  }
+
+  /**
+   * Whether an entry written in `namespace` is visible in `scope`
+   */
+  static inScope(namespace: MemoryNamespace | undefined, scope: MemoryScope): boolean {
+    return (!scope.project || namespace?.project === scope.project) &&
+      (!scope.runs || (namespace?.run !== undefined && scope.runs.includes(namespace.run))) &&
+      (!scope.task || namespace?.task === scope.task);
+  }
+
+  /**
+   * Group entries by agent, as they are written to a JSON memory file
+   */
+  static serialize(entries: MemoryEntry[]): Record<string, MemoryEntry[]> {
+    const grouped: Record<string, MemoryEntry[]> = {};
+    for (const entry of entries) {
+      (grouped[entry.agentId || 'global'] ||= []).push(entry);
+    }
+    return grouped;
+  }
+
+  private add(entry: MemoryEntry): void {
+    const key = entry.agentId || 'global';
+    const entries = this.cache.get(key) || [];
+    entries.push(entry);
+    this.cache.set(key, entries);
+    this.inserted.add(entry.id);
+    this.removed.delete(entry.id);
+  }
+
+  /**
+   * Drop matching entries; returns how many were dropped
+   */
+  private removeWhere(predicate: (entry: MemoryEntry) => boolean): number {
+    let removed = 0;
+    for (const [key, entries] of this.cache.entries()) {
+      const kept: MemoryEntry[] = [];
+      for (const entry of entries) {
+        if (predicate(entry)) {
+          this.removed.add(entry.id);
+          this.inserted.delete(entry.id);
+          this.updated.delete(entry.id);
+          removed++;
+        } else {
+          kept.push(entry);
+        }
+      }
+
+      if (kept.length === 0) {
+        this.cache.delete(key);
+      } else {
+        this.cache.set(key, kept);
+      }
+    }
+    return removed;
+  }
+
+  private all(): MemoryEntry[] {
+    return Array.from(this.cache.values()).flat();
+  }
+
+  private setEntries(entries: MemoryEntry[]): void {
+    this.cache = new Map(Object.entries(JsonMemoryStore.serialize(entries)));
+  }
+
+  private clearChanges(): void {
+    this.inserted = new Set();
+    this.updated = new Set();
+    this.removed = new Set();
+  }
+
+  /**
+   * Apply this store's changes to the entries on disk. Entries another process
+   * added are kept, and ones it removed stay removed unless changed here.
+   */
+  private merge(onDisk: MemoryEntry[]): MemoryEntry[] {
+    const local = new Map(this.all().map(entry => [entry.id, entry]));
+    const merged = onDisk
+      .filter(entry => !this.removed.has(entry.id))
+      .map(entry => (this.inserted.has(entry.id) || this.updated.has(entry.id) ? local.get(entry.id) ?? entry : entry));
+
+    const present = new Set(merged.map(entry => entry.id));
+    for (const id of this.inserted) {
+      const entry = local.get(id);
+      if (entry && !present.has(id)) {
+        merged.push(entry);
+      }
+    }
+    return merged;
+  }
+
+  /**
+   * Entries in a memory file; undefined when there is no file, or 'corrupt'
+   * when it cannot be read, in which case it is moved aside unless the store is read-only
+   */
+  private async readFile(filePath: string): Promise<MemoryEntry[] | undefined | 'corrupt'> {
+    let data: unknown;
+    try {
+      data = JSON.parse(await fs.readFile(filePath, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      await this.reportCorrupt(filePath, error instanceof Error ? error.message : 'Unknown error');
+      return 'corrupt';
+    }
+
+    if (!data || typeof data !== 'object' || Array.isArray(data) || !Object.values(data).every(Array.isArray)) {
+      await this.reportCorrupt(filePath, 'expected entries grouped by agent');
+      return 'corrupt';
+    }
+    return JsonMemoryStore.deserialize(Object.values(data as Record<string, MemoryEntry[]>).flat());
+  }
+
+  private async reportCorrupt(filePath: string, reason: string): Promise<void> {
+    if (this.readOnly) {
+      console.warn(`Memory file ${filePath} is corrupt (${reason})`);
+      return;
+    }
+
+    const target = `${filePath}.corrupt-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+    await fs.move(filePath, target, { overwrite: true });
+    console.warn(`Memory file ${filePath} is corrupt (${reason}); moved it to ${target}`);
+  }
+
+  private assertWritable(): void {
+    if (this.readOnly) {
+      throw new Error(`Memory file ${this.filePath} was opened read-only`);
+    }
+  }
+
+  private backupPath(): string {
+    return `${this.filePath}.bak`;
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimeout) return;
+
+    this.saveTimeout = setTimeout(async () => {
+      this.saveTimeout = null;
+      await this.flush().catch(error => {
+        console.warn('Failed to save memory:', error instanceof Error ? error.message : 'Unknown error');
+      });
+    }, SAVE_DELAY_MS);
+  }
+}
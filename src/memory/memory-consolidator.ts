@@ -0,0 +1,171 @@
+/**
+ * Memory Consolidator for Gemini Code Flow
+ * Asks a model to condense groups of related memory entries into durable knowledge and decisions
+ */
+
+import { AgentMode, LLMProvider, MemoryEntry, MemoryGroupBy, MemoryNamespace } from '../types';
+
+/**
+ * Tag given to entries once they have been condensed, so they are not condensed again
+ */
+export const CONSOLIDATED_TAG = 'consolidated';
+
+export const DEFAULT_MIN_GROUP_SIZE = 3;
+
+// The mode only picks generation defaults; consolidation is orchestrator housekeeping
+const CONSOLIDATION_MODE: AgentMode = 'orchestrator';
+const CONSOLIDATION_TEMPERATURE = 0.2;
+const MAX_GROUP_SIZE = 40;
+const MAX_ENTRY_CHARS = 1500;
+
+export interface MemoryGroup {
+  /** What the entries have in common, for display */
+  key: string;
+  /** Namespace shared by every entry, which the condensed entries are stored in */
+  namespace?: MemoryNamespace;
+  entries: MemoryEntry[];
+}
+
+/**
+ * An entry condensed from a group, before it is stored
+ */
+export interface CondensedEntry {
+  type: 'knowledge' | 'decision';
+  content: string;
+  tags: string[];
+  /** Ids of the group entries it was condensed from */
+  sources: string[];
+}
+
+export interface MemoryConsolidatorOptions {
+  groupBy?: MemoryGroupBy;
+  minGroupSize?: number;
+}
+
+export class MemoryConsolidator {
+  readonly groupBy: MemoryGroupBy;
+  readonly minGroupSize: number;
+  private provider: LLMProvider;
+
+  constructor(provider: LLMProvider, options: MemoryConsolidatorOptions = {}) {
+    this.provider = provider;
+    this.groupBy = options.groupBy || 'tag';
+    this.minGroupSize = options.minGroupSize || DEFAULT_MIN_GROUP_SIZE;
+  }
+
+  /**
+   * Group related entries: by project and mode tag, or by project and run.
+   * Groups smaller than minGroupSize are left out, and large ones are split
+   * so each prompt stays a manageable size.
+   */
+  group(entries: MemoryEntry[]): MemoryGroup[] {
+    const groups = new Map<string, MemoryGroup>();
+
+    for (const entry of entries) {
+      const project = entry.namespace?.project;
+      const label = this.groupBy === 'tag' ? entry.tags[0] || 'untagged' : entry.namespace?.run || 'no run';
+      const key = project ? `${project} / ${label}` : label;
+
+      const group = groups.get(key) || {
+        key,
+        namespace: project ? { project, ...(this.groupBy === 'namespace' ? { run: entry.namespace?.run } : {}) } : undefined,
+        entries: [],
+      };
+      group.entries.push(entry);
+      groups.set(key, group);
+    }
+
+    const result: MemoryGroup[] = [];
+    for (const group of groups.values()) {
+      for (let start = 0; start < group.entries.length; start += MAX_GROUP_SIZE) {
+        const entries = group.entries.slice(start, start + MAX_GROUP_SIZE);
+        if (entries.length >= this.minGroupSize) {
+          result.push({ ...group, entries });
+        }
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Ask the model to condense a group into knowledge and decision entries.
+   * An empty result means nothing in the group was worth keeping.
+   */
+  async condense(group: MemoryGroup): Promise<CondensedEntry[]> {
+    const response = await this.provider.execute(this.buildPrompt(group), CONSOLIDATION_MODE, {
+      temperature: CONSOLIDATION_TEMPERATURE,
+    });
+    return MemoryConsolidator.parse(response, group);
+  }
+
+  private buildPrompt(group: MemoryGroup): string {
+    const entries = group.entries.map((entry, i) => {
+      const text = typeof entry.content === 'string' ? entry.content : JSON.stringify(entry.content);
+      const clipped = text.length > MAX_ENTRY_CHARS ? `${text.slice(0, MAX_ENTRY_CHARS)}...` : text;
+      return `[${i + 1}] ${entry.type}, ${entry.timestamp.toISOString().slice(0, 10)}, tags: ${entry.tags.join(', ')}\n${clipped}`;
+    });
+
+    return `You maintain the long-term memory of a team of AI agents. Below are ${group.entries.length} memory entries about "${group.key}".
+
+Condense them into a few durable entries:
+- "knowledge": facts, conventions and lessons that will stay useful
+- "decision": choices that were made, with the reasons for them
+
+Drop repetition, transient details and anything not worth remembering. List the numbers of the entries each one is based on in "sources".
+
+Reply with only a JSON array, for example:
+[{"type": "decision", "content": "Use PostgreSQL for persistence because ...", "tags": ["database"], "sources": [1, 4]}]
+
+Entries:
+
+${entries.join('\n\n')}`;
+  }
+
+  /**
+   * Read the model's reply. Sources are given as entry numbers in the prompt;
+   * entries that name none are linked to the whole group. Condensed entries
+   * keep the mode tags of their sources, so agents in those modes still see them.
+   */
+  static parse(response: string, group: MemoryGroup): CondensedEntry[] {
+    const start = response.indexOf('[');
+    const end = response.lastIndexOf(']');
+    let items: unknown;
+    try {
+      items = start >= 0 && end > start ? JSON.parse(response.slice(start, end + 1)) : undefined;
+    } catch {
+      items = undefined;
+    }
+    if (!Array.isArray(items)) {
+      throw new Error(`Model did not reply with a JSON array of entries for "${group.key}"`);
+    }
+
+    const ids = group.entries.map(entry => entry.id);
+    const condensed: CondensedEntry[] = [];
+    for (const item of items as Array<Record<string, unknown>>) {
+      if (!item || (item.type !== 'knowledge' && item.type !== 'decision') ||
+          typeof item.content !== 'string' || item.content.trim().length === 0) {
+        continue;
+      }
+
+      const numbers = Array.isArray(item.sources) ? item.sources : [];
+      const named = numbers.filter((n): n is number => Number.isInteger(n) && n >= 1 && n <= ids.length);
+      const sources = named.length > 0 ? [...new Set(named.map(n => ids[n - 1]))] : ids;
+      const modeTags = group.entries
+        .filter(entry => sources.includes(entry.id) && entry.tags.length > 0)
+        .map(entry => entry.tags[0]);
+      const tags = Array.isArray(item.tags) ? item.tags.filter((tag): tag is string => typeof tag === 'string') : [];
+
+      condensed.push({
+        type: item.type,
+        content: item.content.trim(),
+        tags: [...new Set([...modeTags, ...tags])],
+        sources,
+      });
+    }
+
+    if (items.length > 0 && condensed.length === 0) {
+      throw new Error(`Model replied with no usable entries for "${group.key}"`);
+    }
+    return condensed;
+  }
+}
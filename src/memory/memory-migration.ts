@@ -0,0 +1,98 @@
+/**
+ * Memory Migration for Gemini Code Flow
+ * Imports gemini-memory.json files into another memory backend
+ */
+
+import fs from 'fs-extra';
+import { JsonMemoryStore } from './json-memory-store';
+import { MemoryBackend, MemoryEmbedding, MemoryEntry, MemoryNamespace } from '../types';
+
+const BATCH_SIZE = 1000;
+export const MEMORY_ENTRY_TYPES: Array<MemoryEntry['type']> = ['knowledge', 'decision', 'error', 'result'];
+
+export interface MigrationResult {
+  /** Entries written to the target */
+  imported: number;
+  /** Entries whose id was already in the target */
+  skipped: number;
+  /** Entries that were not valid memory entries */
+  invalid: number;
+}
+
+export class MemoryMigration {
+  /**
+   * Copy every entry of a JSON memory file into `target`. The target must be initialized.
+   * Running the import twice is safe: entries already present are skipped.
+   */
+  static async importJson(jsonPath: string, target: MemoryBackend): Promise<MigrationResult> {
+    let data: unknown;
+    try {
+      data = await fs.readJson(jsonPath);
+    } catch (error) {
+      throw new Error(
+        `Could not read memory file ${jsonPath}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      throw new Error(`${jsonPath} is not a memory file: expected entries grouped by agent`);
+    }
+
+    const entries: MemoryEntry[] = [];
+    let invalid = 0;
+    for (const [key, group] of Object.entries(data as Record<string, unknown>)) {
+      if (!Array.isArray(group)) {
+        throw new Error(`${jsonPath} is not a memory file: "${key}" is not a list of entries`);
+      }
+      for (const entry of group) {
+        if (this.isEntry(entry)) {
+          entries.push({
+            ...entry,
+            agentId: entry.agentId || key,
+            tags: entry.tags || [],
+            // A malformed embedding is dropped; the entry is re-embedded when searched
+            embedding: this.isEmbedding(entry.embedding) ? entry.embedding : undefined,
+            namespace: this.isNamespace(entry.namespace) ? entry.namespace : undefined,
+            pinned: entry.pinned === true ? true : undefined,
+            sources: Array.isArray(entry.sources) && entry.sources.every(id => typeof id === 'string')
+              ? entry.sources
+              : undefined,
+          });
+        } else {
+          invalid++;
+        }
+      }
+    }
+
+    let imported = 0;
+    const restored = JsonMemoryStore.deserialize(entries);
+    for (let start = 0; start < restored.length; start += BATCH_SIZE) {
+      imported += await target.insertMany(restored.slice(start, start + BATCH_SIZE));
+    }
+    await target.flush();
+
+    return { imported, skipped: restored.length - imported, invalid };
+  }
+
+  private static isEmbedding(value: unknown): value is MemoryEmbedding {
+    const embedding = value as Partial<MemoryEmbedding> | undefined;
+    return typeof embedding?.model === 'string' &&
+      Array.isArray(embedding.vector) && embedding.vector.every(item => typeof item === 'number');
+  }
+
+  private static isNamespace(value: unknown): value is MemoryNamespace {
+    const namespace = value as Partial<MemoryNamespace> | undefined;
+    return typeof namespace?.project === 'string' &&
+      (namespace.run === undefined || typeof namespace.run === 'string') &&
+      (namespace.task === undefined || typeof namespace.task === 'string');
+  }
+
+  private static isEntry(value: unknown): value is MemoryEntry {
+    if (!value || typeof value !== 'object') return false;
+    const entry = value as Partial<MemoryEntry>;
+    return typeof entry.id === 'string' &&
+      MEMORY_ENTRY_TYPES.includes(entry.type as MemoryEntry['type']) &&
+      (entry.tags === undefined || (Array.isArray(entry.tags) && entry.tags.every(tag => typeof tag === 'string'))) &&
+      (entry.timestamp === undefined || !isNaN(new Date(entry.timestamp).getTime()));
+  }
+}
@@ -0,0 +1,430 @@
+/**
+ * SQLite Memory Store for Gemini Code Flow
+ * Embedded database with indexed lookups by tag, type, agent and time
+ */
+
+import fs from 'fs-extra';
+import path from 'path';
+import type Database from 'better-sqlite3';
+import {
+  MemoryBackend,
+  MemoryBackendOptions,
+  MemoryBackendStats,
+  MemoryEmbedding,
+  MemoryEntry,
+  MemoryEntryUpdate,
+  MemoryQuery,
+  MemoryRetention,
+} from '../types';
+
+const SCHEMA_VERSION = 5;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS memory_entries (
+    id TEXT PRIMARY KEY,
+    agent_id TEXT NOT NULL,
+    type TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    content TEXT NOT NULL,
+    tags TEXT NOT NULL,
+    embedding_model TEXT,
+    embedding BLOB,
+    ns_project TEXT,
+    ns_run TEXT,
+    ns_task TEXT,
+    pinned INTEGER NOT NULL DEFAULT 0,
+    sources TEXT
+  );
+  CREATE TABLE IF NOT EXISTS memory_tags (
+    entry_id TEXT NOT NULL REFERENCES memory_entries(id) ON DELETE CASCADE,
+    tag TEXT NOT NULL,
+    PRIMARY KEY (tag, entry_id)
+  );
+  CREATE INDEX IF NOT EXISTS idx_memory_entries_timestamp ON memory_entries(timestamp);
+  CREATE INDEX IF NOT EXISTS idx_memory_entries_agent ON memory_entries(agent_id, timestamp);
+  CREATE INDEX IF NOT EXISTS idx_memory_entries_type ON memory_entries(type, timestamp);
+  CREATE INDEX IF NOT EXISTS idx_memory_tags_entry ON memory_tags(entry_id);
+  CREATE INDEX IF NOT EXISTS idx_memory_entries_namespace ON memory_entries(ns_project, ns_run, timestamp);
+`;
+
+/**
+ * Statements that bring a database from the keyed schema version to the next one
+ */
+const MIGRATIONS: Record<number, string> = {
+  1: `
+    ALTER TABLE memory_entries ADD COLUMN embedding_model TEXT;
+    ALTER TABLE memory_entries ADD COLUMN embedding BLOB;
+  `,
+  2: `
+    ALTER TABLE memory_entries ADD COLUMN ns_project TEXT;
+    ALTER TABLE memory_entries ADD COLUMN ns_run TEXT;
+    ALTER TABLE memory_entries ADD COLUMN ns_task TEXT;
+    CREATE INDEX IF NOT EXISTS idx_memory_entries_namespace ON memory_entries(ns_project, ns_run, timestamp);
+  `,
+  3: `
+    ALTER TABLE memory_entries ADD COLUMN pinned INTEGER NOT NULL DEFAULT 0;
+  `,
+  4: `
+    ALTER TABLE memory_entries ADD COLUMN sources TEXT;
+  `,
+};
+
+interface EntryRow {
+  id: string;
+  agent_id: string;
+  type: MemoryEntry['type'];
+  timestamp: number;
+  content: string;
+  tags: string;
+  embedding_model: string | null;
+  embedding: Buffer | null;
+  ns_project: string | null;
+  ns_run: string | null;
+  ns_task: string | null;
+  pinned: number;
+  sources: string | null;
+}
+
+export class SqliteMemoryStore implements MemoryBackend {
+  readonly type = 'sqlite' as const;
+  private filePath: string;
+  private readOnly: boolean;
+  private db?: Database.Database;
+
+  constructor(filePath: string, options: MemoryBackendOptions = {}) {
+    this.filePath = filePath;
+    this.readOnly = options.readOnly ?? false;
+  }
+
+  /**
+   * Open (or create) the database and bring its schema up to date. A
+   * read-only store opens an existing database with the current schema,
+   * and the driver refuses writes.
+   */
+  async initialize(): Promise<void> {
+    if (this.db) return;
+
+    const SqliteDatabase = await SqliteMemoryStore.loadDriver();
+    if (this.readOnly) {
+      const db = new SqliteDatabase(this.filePath, { readonly: true, fileMustExist: true });
+      const version = db.pragma('user_version', { simple: true }) as number;
+      if (version !== SCHEMA_VERSION) {
+        db.close();
+        throw new Error(`Memory database ${this.filePath} has schema ${version}; open it for writing to upgrade it to ${SCHEMA_VERSION}`);
+      }
+      this.db = db;
+      return;
+    }
+
+    await fs.ensureDir(path.dirname(this.filePath));
+
+    const db = new SqliteDatabase(this.filePath);
+    db.pragma('journal_mode = WAL');
+    db.pragma('foreign_keys = ON');
+
+    const version = db.pragma('user_version', { simple: true }) as number;
+    if (version > SCHEMA_VERSION) {
+      db.close();
+      throw new Error(`Memory database ${this.filePath} was created by a newer version (schema ${version})`);
+    }
+    db.transaction(() => {
+      if (version === 0) {
+        db.exec(SCHEMA);
+      } else {
+        for (let from = version; from < SCHEMA_VERSION; from++) {
+          db.exec(MIGRATIONS[from]);
+        }
+      }
+      db.pragma(`user_version = ${SCHEMA_VERSION}`);
+    })();
+
+    this.db = db;
+  }
+
+  async insert(entry: MemoryEntry): Promise<void> {
+    await this.insertMany([entry]);
+  }
+
+  /**
+   * Insert entries in one transaction. Entries whose id is already stored are skipped.
+   */
+  async insertMany(entries: MemoryEntry[]): Promise<number> {
+    const db = this.getDb();
+    const insertEntry = db.prepare(
+      'INSERT OR IGNORE INTO memory_entries ' +
+      '(id, agent_id, type, timestamp, content, tags, embedding_model, embedding, ns_project, ns_run, ns_task, pinned, sources) ' +
+      'VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
+    );
+    const insertTag = db.prepare('INSERT OR IGNORE INTO memory_tags (entry_id, tag) VALUES (?, ?)');
+
+    const insertAll = db.transaction((batch: MemoryEntry[]) => {
+      let inserted = 0;
+      for (const entry of batch) {
+        const tags = [...new Set(entry.tags || [])];
+        const result = insertEntry.run(
+          entry.id,
+          entry.agentId || 'global',
+          entry.type,
+          entry.timestamp.getTime(),
+          JSON.stringify(entry.content ?? null),
+          JSON.stringify(tags),
+          entry.embedding?.model ?? null,
+          entry.embedding ? SqliteMemoryStore.toBlob(entry.embedding.vector) : null,
+          entry.namespace?.project ?? null,
+          entry.namespace?.run ?? null,
+          entry.namespace?.task ?? null,
+          entry.pinned ? 1 : 0,
+          entry.sources ? JSON.stringify(entry.sources) : null
+        );
+        if (result.changes > 0) {
+          tags.forEach(tag => insertTag.run(entry.id, tag));
+          inserted++;
+        }
+      }
+      return inserted;
+    });
+
+    return insertAll(entries);
+  }
+
+  async query(query: MemoryQuery = {}): Promise<MemoryEntry[]> {
+    const filter = SqliteMemoryStore.toWhere(query);
+    if (!filter) return [];
+
+    const { where, params } = filter;
+    const order = `ORDER BY timestamp ${query.order === 'desc' ? 'DESC' : 'ASC'}, rowid ${query.order === 'desc' ? 'DESC' : 'ASC'}`;
+    const limit = query.limit !== undefined ? 'LIMIT ?' : '';
+    if (query.limit !== undefined) {
+      params.push(query.limit);
+    }
+
+    const rows = this.getDb()
+      .prepare(`SELECT * FROM memory_entries ${where} ${order} ${limit}`)
+      .all(...params) as EntryRow[];
+
+    return rows.map(row => SqliteMemoryStore.toEntry(row));
+  }
+
+  async get(id: string): Promise<MemoryEntry | undefined> {
+    const row = this.getDb().prepare('SELECT * FROM memory_entries WHERE id = ?').get(id) as EntryRow | undefined;
+    return row ? SqliteMemoryStore.toEntry(row) : undefined;
+  }
+
+  async update(id: string, changes: MemoryEntryUpdate): Promise<MemoryEntry | undefined> {
+    const db = this.getDb();
+
+    const found = db.transaction(() => {
+      if (!db.prepare('SELECT 1 FROM memory_entries WHERE id = ?').get(id)) {
+        return false;
+      }
+      if (changes.tags !== undefined) {
+        const tags = [...new Set(changes.tags)];
+        db.prepare('UPDATE memory_entries SET tags = ? WHERE id = ?').run(JSON.stringify(tags), id);
+        db.prepare('DELETE FROM memory_tags WHERE entry_id = ?').run(id);
+        const insertTag = db.prepare('INSERT INTO memory_tags (entry_id, tag) VALUES (?, ?)');
+        tags.forEach(tag => insertTag.run(id, tag));
+      }
+      if (changes.pinned !== undefined) {
+        db.prepare('UPDATE memory_entries SET pinned = ? WHERE id = ?').run(changes.pinned ? 1 : 0, id);
+      }
+      return true;
+    })();
+
+    return found ? this.get(id) : undefined;
+  }
+
+  async delete(ids: string[]): Promise<number> {
+    const db = this.getDb();
+    const remove = db.prepare('DELETE FROM memory_entries WHERE id = ?');
+
+    return db.transaction(() => ids.reduce((removed, id) => removed + remove.run(id).changes, 0))();
+  }
+
+  async updateEmbeddings(updates: Array<{ id: string; embedding: MemoryEmbedding }>): Promise<void> {
+    const db = this.getDb();
+    const update = db.prepare('UPDATE memory_entries SET embedding_model = ?, embedding = ? WHERE id = ?');
+
+    db.transaction(() => {
+      updates.forEach(({ id, embedding }) => update.run(embedding.model, SqliteMemoryStore.toBlob(embedding.vector), id));
+    })();
+  }
+
+  async count(query: MemoryQuery = {}): Promise<number> {
+    const filter = SqliteMemoryStore.toWhere(query);
+    if (!filter) return 0;
+
+    const row = this.getDb()
+      .prepare(`SELECT COUNT(*) AS total FROM memory_entries ${filter.where}`)
+      .get(...filter.params) as { total: number };
+    return row.total;
+  }
+
+  async stats(): Promise<MemoryBackendStats> {
+    const db = this.getDb();
+    const totals = db.prepare(
+      'SELECT COUNT(*) AS total, COALESCE(SUM(pinned), 0) AS pinned, MIN(timestamp) AS oldest, MAX(timestamp) AS newest ' +
+      'FROM memory_entries'
+    ).get() as { total: number; pinned: number; oldest: number | null; newest: number | null };
+    const counts = (sql: string): Record<string, number> => Object.fromEntries(
+      (db.prepare(sql).all() as Array<{ name: string; count: number }>).map(row => [row.name, row.count])
+    );
+
+    return {
+      total: totals.total,
+      pinned: totals.pinned,
+      byType: counts('SELECT type AS name, COUNT(*) AS count FROM memory_entries GROUP BY type'),
+      byTag: counts('SELECT tag AS name, COUNT(*) AS count FROM memory_tags GROUP BY tag'),
+      byEmbeddingModel: counts(
+        "SELECT COALESCE(embedding_model, 'none') AS name, COUNT(*) AS count FROM memory_entries GROUP BY name"
+      ),
+      ...(totals.oldest !== null ? { oldest: new Date(totals.oldest) } : {}),
+      ...(totals.newest !== null ? { newest: new Date(totals.newest) } : {}),
+    };
+  }
+
+  async prune(retention: MemoryRetention): Promise<number> {
+    const db = this.getDb();
+    let removed = 0;
+
+    if (retention.maxAgeMs !== undefined) {
+      removed += db.prepare('DELETE FROM memory_entries WHERE pinned = 0 AND sources IS NULL AND timestamp < ?')
+        .run(Date.now() - retention.maxAgeMs).changes;
+    }
+    if (retention.maxEntries !== undefined) {
+      removed += db.prepare(
+        'DELETE FROM memory_entries WHERE id IN (' +
+        'SELECT id FROM memory_entries WHERE pinned = 0 AND sources IS NULL ORDER BY timestamp DESC, rowid DESC LIMIT -1 OFFSET ?)'
+      ).run(retention.maxEntries).changes;
+    }
+
+    return removed;
+  }
+
+  /**
+   * Writes are committed as they happen; fold the write-ahead log back into the database
+   */
+  async flush(): Promise<void> {
+    if (this.readOnly) return;
+    this.db?.pragma('wal_checkpoint(PASSIVE)');
+  }
+
+  async close(): Promise<void> {
+    this.db?.close();
+    this.db = undefined;
+  }
+
+  /**
+   * better-sqlite3 is an optional native dependency, so load it only when this store is used
+   */
+  private static async loadDriver(): Promise<typeof Database> {
+    try {
+      return (await import('better-sqlite3')).default;
+    } catch (error) {
+      throw new Error(
+        'The SQLite memory backend needs the optional "better-sqlite3" package (npm install better-sqlite3): ' +
+        (error instanceof Error ? error.message : 'Unknown error')
+      );
+    }
+  }
+
+  /**
+   * WHERE clause for a query's filters, or undefined when nothing can match
+   */
+  private static toWhere(query: MemoryQuery): { where: string; params: unknown[] } | undefined {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (query.text) {
+      conditions.push('instr(lower(content), ?) > 0');
+      params.push(query.text.toLowerCase());
+    }
+    if (query.tags) {
+      if (query.tags.length === 0) return undefined;
+      conditions.push(`id IN (SELECT entry_id FROM memory_tags WHERE tag IN (${query.tags.map(() => '?').join(', ')}))`);
+      params.push(...query.tags);
+    }
+    if (query.types) {
+      if (query.types.length === 0) return undefined;
+      conditions.push(`type IN (${query.types.map(() => '?').join(', ')})`);
+      params.push(...query.types);
+    }
+    if (query.agentId) {
+      conditions.push('agent_id = ?');
+      params.push(query.agentId);
+    }
+    if (query.since) {
+      conditions.push('timestamp >= ?');
+      params.push(query.since.getTime());
+    }
+    if (query.until) {
+      conditions.push('timestamp <= ?');
+      params.push(query.until.getTime());
+    }
+    if (query.scope?.project) {
+      conditions.push('ns_project = ?');
+      params.push(query.scope.project);
+    }
+    if (query.scope?.runs) {
+      if (query.scope.runs.length === 0) return undefined;
+      conditions.push(`ns_run IN (${query.scope.runs.map(() => '?').join(', ')})`);
+      params.push(...query.scope.runs);
+    }
+    if (query.scope?.task) {
+      conditions.push('ns_task = ?');
+      params.push(query.scope.task);
+    }
+    if (query.pinned !== undefined) {
+      conditions.push('pinned = ?');
+      params.push(query.pinned ? 1 : 0);
+    }
+    if (query.sources !== undefined) {
+      conditions.push(query.sources ? 'sources IS NOT NULL' : 'sources IS NULL');
+    }
+    if (query.excludeTags && query.excludeTags.length > 0) {
+      conditions.push(
+        `id NOT IN (SELECT entry_id FROM memory_tags WHERE tag IN (${query.excludeTags.map(() => '?').join(', ')}))`
+      );
+      params.push(...query.excludeTags);
+    }
+
+    return { where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '', params };
+  }
+
+  private static toEntry(row: EntryRow): MemoryEntry {
+    return {
+      id: row.id,
+      agentId: row.agent_id,
+      type: row.type,
+      timestamp: new Date(row.timestamp),
+      content: JSON.parse(row.content),
+      tags: JSON.parse(row.tags),
+      ...(row.embedding_model && row.embedding
+        ? { embedding: { model: row.embedding_model, vector: SqliteMemoryStore.fromBlob(row.embedding) } }
+        : {}),
+      ...(row.ns_project !== null
+        ? { namespace: { project: row.ns_project, run: row.ns_run ?? undefined, task: row.ns_task ?? undefined } }
+        : {}),
+      ...(row.pinned ? { pinned: true } : {}),
+      ...(row.sources !== null ? { sources: JSON.parse(row.sources) } : {}),
+    };
+  }
+
+  /**
+   * Vectors are stored as packed 32-bit floats
+   */
+  private static toBlob(vector: number[]): Buffer {
+    return Buffer.from(new Float32Array(vector).buffer);
+  }
+
+  private static fromBlob(blob: Buffer): number[] {
+    // Copy first: the blob's offset in its buffer need not be 4-byte aligned
+    return Array.from(new Float32Array(new Uint8Array(blob).buffer));
+  }
+
+  private getDb(): Database.Database {
+    if (!this.db) {
+      throw new Error('SQLite memory store used before initialize()');
+    }
+    return this.db;
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * Mock provider for Gemini Code Flow
+ * Returns scripted or recorded responses so flows can run offline and deterministically
+ */
+
+import fs from 'fs-extra';
+import { AgentMode, ExecuteOptions, FileUpload, LLMProvider } from '../types';
+import { estimateTokens, hashPrompt } from './provider-utils';
+
+/**
+ * A scripted response. Entries with a promptHash only answer that exact
+ * prompt; entries without one answer any prompt for their mode (or any
+ * mode when mode is omitted too).
+ */
+export interface MockFixtureEntry {
+  mode?: AgentMode;
+  promptHash?: string;
+  prompt?: string;
+  response: string;
+}
+
+export interface MockFixture {
+  responses: MockFixtureEntry[];
+}
+
+export interface MockProviderConfig {
+  name?: string;
+  fixture?: string;
+  responses?: MockFixtureEntry[];
+}
+
+export class MockProvider implements LLMProvider {
+  readonly name: string;
+  private config: MockProviderConfig;
+  private responses?: MockFixtureEntry[];
+
+  constructor(config: MockProviderConfig = {}) {
+    this.config = config;
+    this.name = config.name || 'mock';
+    this.responses = config.fixture ? undefined : config.responses || [];
+  }
+
+  /**
+   * Return the scripted response for a prompt
+   */
+  async execute(prompt: string, mode: AgentMode, options: ExecuteOptions = {}): Promise<string> {
+    this.throwIfAborted(options.signal);
+    return this.respond(mode, hashPrompt(prompt), options);
+  }
+
+  /**
+   * Return the scripted response for a prompt with attachments
+   */
+  async executeMultimodal(
+    prompt: string,
+    files: FileUpload[],
+    mode: AgentMode,
+    options: ExecuteOptions = {}
+  ): Promise<string> {
+    this.throwIfAborted(options.signal);
+    return this.respond(mode, hashPrompt(prompt, files), options);
+  }
+
+  /**
+   * Stream the scripted response a word at a time
+   */
+  async *streamExecute(prompt: string, mode: AgentMode, options: ExecuteOptions = {}): AsyncGenerator<string> {
+    const response = await this.execute(prompt, mode, options);
+
+    for (const chunk of response.match(/\S+\s*|\s+/g) || []) {
+      this.throwIfAborted(options.signal);
+      yield chunk;
+    }
+  }
+
+  async checkHealth(): Promise<boolean> {
+    return true;
+  }
+
+  async countTokens(text: string): Promise<number> {
+    return estimateTokens(text);
+  }
+
+  private async respond(mode: AgentMode, promptHash: string, options: ExecuteOptions): Promise<string> {
+    const responses = await this.getResponses();
+
+    const entry =
+      responses.find(r => r.promptHash === promptHash && (!r.mode || r.mode === mode)) ||
+      responses.find(r => !r.promptHash && r.mode === mode) ||
+      responses.find(r => !r.promptHash && !r.mode);
+
+    if (entry) {
+      return entry.response;
+    }
+
+    // A replayed session whose prompts changed should fail, not pass on placeholders
+    if (this.config.fixture) {
+      throw new Error(`No response in mock fixture ${this.config.fixture} for ${mode} prompt ${promptHash}`);
+    }
+
+    // Unscripted prompts that ask for a structured result get the smallest valid one
+    const text = `Mock ${mode} response (prompt ${promptHash})`;
+    return options.responseSchema ? JSON.stringify({ summary: text }) : text;
+  }
+
+  private async getResponses(): Promise<MockFixtureEntry[]> {
+    if (!this.responses) {
+      this.responses = await MockProvider.loadFixture(this.config.fixture as string);
+    }
+    return this.responses;
+  }
+
+  private throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw new Error('Request aborted');
+    }
+  }
+
+  /**
+   * Load and check a fixture file
+   */
+  static async loadFixture(fixturePath: string): Promise<MockFixtureEntry[]> {
+    let fixture: MockFixture;
+    try {
+      fixture = await fs.readJson(fixturePath);
+    } catch (error) {
+      throw new Error(`Could not read mock fixture ${fixturePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    if (!fixture || !Array.isArray(fixture.responses) ||
+        !fixture.responses.every(entry => entry && typeof entry.response === 'string')) {
+      throw new Error(`Invalid mock fixture ${fixturePath}: expected { "responses": [{ "response": "..." }] }`);
+    }
+
+    return fixture.responses;
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Ollama provider for Gemini Code Flow
+ * Runs agents on local models served by Ollama
+ */
+
+import { AgentMode, ExecuteOptions, FileUpload, LLMProvider } from '../types';
+import { estimateTokens, readLines, throwForStatus } from './provider-utils';
+import { getModeTemperature } from '../core/mode-catalog';
+
+export interface OllamaProviderConfig {
+  name?: string;
+  baseUrl?: string;
+  model?: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+}
+
+interface OllamaMessage {
+  role: 'user';
+  content: string;
+  images?: string[];
+}
+
+export class OllamaProvider implements LLMProvider {
+  readonly name: string;
+  private baseUrl: string;
+  private config: OllamaProviderConfig;
+
+  constructor(config: OllamaProviderConfig = {}) {
+    this.config = config;
+    this.name = config.name || 'ollama';
+    this.baseUrl = (config.baseUrl || 'http://localhost:11434').replace(/\/+$/, '');
+  }
+
+  /**
+   * Execute a prompt with the local model
+   */
+  async execute(prompt: string, mode: AgentMode, options: ExecuteOptions = {}): Promise<string> {
+    return this.chat({ role: 'user', content: prompt }, mode, options);
+  }
+
+  /**
+   * Execute with image input, for vision models such as llava
+   */
+  async executeMultimodal(
+    prompt: string,
+    files: FileUpload[],
+    mode: AgentMode,
+    options: ExecuteOptions = {}
+  ): Promise<string> {
+    const unsupported = files.find(file => !file.mimeType.startsWith('image/'));
+    if (unsupported) {
+      throw new Error(`${this.name} provider does not support ${unsupported.mimeType} input`);
+    }
+
+    return this.chat(
+      { role: 'user', content: prompt, images: files.map(file => file.data.toString('base64')) },
+      mode,
+      options
+    );
+  }
+
+  /**
+   * Stream a response; Ollama sends one JSON object per line
+   */
+  async *streamExecute(prompt: string, mode: AgentMode, options: ExecuteOptions = {}): AsyncGenerator<string> {
+    const response = await this.request({ role: 'user', content: prompt }, mode, true, options);
+
+    for await (const line of readLines(response)) {
+      const chunk = JSON.parse(line) as { message?: { content?: string }; done?: boolean };
+      if (chunk.message?.content) {
+        yield chunk.message.content;
+      }
+      if (chunk.done) break;
+    }
+  }
+
+  /**
+   * Check that the Ollama server is reachable
+   */
+  async checkHealth(): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.baseUrl}/api/tags`);
+      return response.ok;
+    } catch (error) {
+      console.error(`${this.name} health check failed:`, error instanceof Error ? error.message : error);
+      return false;
+    }
+  }
+
+  /**
+   * Estimate tokens; Ollama has no tokenizer endpoint
+   */
+  async countTokens(text: string): Promise<number> {
+    return estimateTokens(text);
+  }
+
+  private async chat(message: OllamaMessage, mode: AgentMode, options: ExecuteOptions): Promise<string> {
+    const response = await this.request(message, mode, false, options);
+    const body = await response.json() as { message?: { content?: string } };
+    return body.message?.content ?? '';
+  }
+
+  private async request(
+    message: OllamaMessage,
+    mode: AgentMode,
+    stream: boolean,
+    options: ExecuteOptions
+  ): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      signal: options.signal,
+      body: JSON.stringify({
+        model: options.model || this.config.model || 'llama3.1',
+        messages: [message],
+        stream,
+        ...(options.responseSchema ? { format: options.responseSchema } : {}),
+        options: {
+          temperature: options.temperature ?? getModeTemperature(mode, this.config.temperature ?? 0.5),
+          num_predict: options.maxOutputTokens || this.config.maxOutputTokens || 8192,
+        },
+      }),
+    });
+
+    await throwForStatus(response, this.name);
+    return response;
+  }
+}
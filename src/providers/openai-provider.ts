@@ -0,0 +1,144 @@
+/**
+ * OpenAI-compatible provider for Gemini Code Flow
+ * Works with any server exposing /v1/chat/completions (OpenAI, llama.cpp, vLLM, LM Studio)
+ */
+
+import { AgentMode, ExecuteOptions, FileUpload, LLMProvider } from '../types';
+import { estimateTokens, readLines, throwForStatus } from './provider-utils';
+import { getModeTemperature } from '../core/mode-catalog';
+
+export interface OpenAIProviderConfig {
+  name?: string;
+  baseUrl?: string;
+  model?: string;
+  apiKey?: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+}
+
+type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string;
+  private baseUrl: string;
+  private config: OpenAIProviderConfig;
+
+  constructor(config: OpenAIProviderConfig = {}) {
+    this.config = config;
+    this.name = config.name || 'openai';
+    this.baseUrl = (config.baseUrl || 'https://api.openai.com/v1').replace(/\/+$/, '');
+  }
+
+  /**
+   * Execute a prompt through the chat completions endpoint
+   */
+  async execute(prompt: string, mode: AgentMode, options: ExecuteOptions = {}): Promise<string> {
+    return this.complete(prompt, mode, options);
+  }
+
+  /**
+   * Execute with image input. Other file types are not part of the
+   * OpenAI chat format, so they are rejected.
+   */
+  async executeMultimodal(
+    prompt: string,
+    files: FileUpload[],
+    mode: AgentMode,
+    options: ExecuteOptions = {}
+  ): Promise<string> {
+    const parts: ContentPart[] = [{ type: 'text', text: prompt }];
+
+    for (const file of files) {
+      if (!file.mimeType.startsWith('image/')) {
+        throw new Error(`${this.name} provider does not support ${file.mimeType} input`);
+      }
+      parts.push({
+        type: 'image_url',
+        image_url: { url: `data:${file.mimeType};base64,${file.data.toString('base64')}` },
+      });
+    }
+
+    return this.complete(parts, mode, options);
+  }
+
+  /**
+   * Stream a response using server-sent events
+   */
+  async *streamExecute(prompt: string, mode: AgentMode, options: ExecuteOptions = {}): AsyncGenerator<string> {
+    const response = await this.request(prompt, mode, true, options);
+
+    for await (const line of readLines(response)) {
+      if (!line.startsWith('data:')) continue;
+
+      const data = line.slice('data:'.length).trim();
+      if (data === '[DONE]') break;
+
+      const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+      if (delta) {
+        yield delta;
+      }
+    }
+  }
+
+  /**
+   * Check that the server answers and knows the configured model
+   */
+  async checkHealth(): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.baseUrl}/models`, { headers: this.getHeaders() });
+      return response.ok;
+    } catch (error) {
+      console.error(`${this.name} health check failed:`, error instanceof Error ? error.message : error);
+      return false;
+    }
+  }
+
+  /**
+   * Estimate tokens; the chat completions API has no counting endpoint
+   */
+  async countTokens(text: string): Promise<number> {
+    return estimateTokens(text);
+  }
+
+  private async complete(content: string | ContentPart[], mode: AgentMode, options: ExecuteOptions): Promise<string> {
+    const response = await this.request(content, mode, false, options);
+    const body = await response.json() as { choices?: Array<{ message?: { content?: string } }> };
+    return body.choices?.[0]?.message?.content ?? '';
+  }
+
+  private async request(
+    content: string | ContentPart[],
+    mode: AgentMode,
+    stream: boolean,
+    options: ExecuteOptions
+  ): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: this.getHeaders(),
+      signal: options.signal,
+      body: JSON.stringify({
+        model: options.model || this.config.model || 'gpt-4o-mini',
+        messages: [{ role: 'user', content }],
+        temperature: options.temperature ?? getModeTemperature(mode, this.config.temperature ?? 0.5),
+        max_tokens: options.maxOutputTokens || this.config.maxOutputTokens || 8192,
+        stream,
+        ...(options.responseSchema ? {
+          response_format: { type: 'json_schema', json_schema: { name: 'agent_result', schema: options.responseSchema } },
+        } : {}),
+      }),
+    });
+
+    await throwForStatus(response, this.name);
+    return response;
+  }
+
+  private getHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.apiKey) {
+      headers.Authorization = `Bearer ${this.config.apiKey}`;
+    }
+    return headers;
+  }
+}
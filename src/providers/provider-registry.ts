@@ -0,0 +1,145 @@
+/**
+ * Provider registry for Gemini Code Flow
+ * Creates LLM providers from configuration and picks one for each mode
+ */
+
+import { AgentMode, ConfigFile, LLMProvider, ProviderConfig, ProviderType, RateLimitStatus } from '../types';
+import { GeminiClient } from '../core/gemini-client';
+import { OpenAICompatibleProvider } from './openai-provider';
+import { OllamaProvider } from './ollama-provider';
+import { MockProvider } from './mock-provider';
+import { RecordingProvider } from './recording-provider';
+
+export const DEFAULT_PROVIDER = 'gemini';
+
+/**
+ * Providers that can be used by name without being defined in the config
+ */
+export const BUILT_IN_PROVIDERS: Record<string, ProviderConfig> = {
+  gemini: { type: 'gemini' },
+  mock: { type: 'mock' },
+};
+
+/**
+ * Provider types whose APIs enforce a response schema, so it is sent unless
+ * the provider config turns structuredOutput off
+ */
+export const STRUCTURED_OUTPUT_TYPES: ProviderType[] = ['gemini', 'mock'];
+
+export type ProviderRegistryConfig = Pick<
+  ConfigFile,
+  'apiKey' | 'authMethod' | 'provider' | 'providers' | 'modes' | 'recordPath'
+>;
+
+export class ProviderRegistry {
+  private instances: Map<string, LLMProvider> = new Map();
+  private config: ProviderRegistryConfig;
+
+  constructor(config: ProviderRegistryConfig = {}) {
+    this.config = config;
+  }
+
+  /**
+   * Get a provider by name, creating it on first use
+   */
+  get(name: string): LLMProvider {
+    const existing = this.instances.get(name);
+    if (existing) {
+      return existing;
+    }
+
+    const providerConfig = this.getConfig(name);
+    let provider = ProviderRegistry.createProvider(name, providerConfig, this.config);
+    if (this.config.recordPath && providerConfig.type !== 'mock') {
+      provider = new RecordingProvider(provider, this.config.recordPath);
+    }
+    this.instances.set(name, provider);
+    return provider;
+  }
+
+  /**
+   * Get the provider configured for a mode
+   */
+  forMode(mode: AgentMode): LLMProvider {
+    return this.get(this.getProviderName(mode));
+  }
+
+  /**
+   * Whether the mode's provider should be sent the result schema. Otherwise
+   * the prompt's format instructions and the repair request have to do.
+   */
+  supportsStructuredOutput(mode: AgentMode): boolean {
+    const config = this.getConfig(this.getProviderName(mode));
+    return config.structuredOutput ?? STRUCTURED_OUTPUT_TYPES.includes(config.type);
+  }
+
+  /**
+   * Get the provider name for a mode, or the default provider
+   */
+  getProviderName(mode?: AgentMode): string {
+    return (mode && this.config.modes?.[mode]?.provider) || this.config.provider || DEFAULT_PROVIDER;
+  }
+
+  /**
+   * Names of the providers the configuration actually routes to
+   */
+  getActiveProviderNames(): string[] {
+    const names = new Set([this.getProviderName()]);
+    for (const settings of Object.values(this.config.modes || {})) {
+      if (settings?.provider) {
+        names.add(settings.provider);
+      }
+    }
+    return Array.from(names);
+  }
+
+  /**
+   * Rate limiter usage of the providers created so far, for those that track it
+   */
+  getRateLimitStatus(): Record<string, RateLimitStatus> {
+    const status: Record<string, RateLimitStatus> = {};
+    for (const [name, provider] of this.instances) {
+      const usage = provider.getRateLimitStatus?.();
+      if (usage) {
+        status[name] = usage;
+      }
+    }
+    return status;
+  }
+
+  private getConfig(name: string): ProviderConfig {
+    const providerConfig = this.config.providers?.[name] || BUILT_IN_PROVIDERS[name];
+    if (!providerConfig) {
+      throw new Error(`Unknown provider: ${name}`);
+    }
+    return providerConfig;
+  }
+
+  /**
+   * Create a provider instance from its configuration
+   */
+  static createProvider(name: string, config: ProviderConfig, defaults: ProviderRegistryConfig = {}): LLMProvider {
+    const apiKey = config.apiKey || (config.apiKeyEnv ? process.env[config.apiKeyEnv] : undefined);
+
+    switch (config.type) {
+      case 'gemini': {
+        const geminiKey = apiKey || defaults.apiKey || process.env.GEMINI_API_KEY;
+        return new GeminiClient({
+          apiKey: geminiKey,
+          authMethod: config.apiKey || config.apiKeyEnv ? 'api-key' : defaults.authMethod || 'google-account',
+          model: config.model,
+          temperature: config.temperature,
+          maxOutputTokens: config.maxOutputTokens,
+        });
+      }
+      case 'openai':
+        return new OpenAICompatibleProvider({ ...config, name, apiKey });
+      case 'ollama':
+        return new OllamaProvider({ ...config, name });
+      case 'mock':
+        return new MockProvider({ name, fixture: config.fixture });
+      default:
+        throw new Error(`Unsupported provider type: ${(config as ProviderConfig).type}`);
+    }
+  }
+}
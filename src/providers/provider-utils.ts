@@ -0,0 +1,73 @@
+/**
+ * Shared helpers for LLM providers
+ */
+
+import crypto from 'crypto';
+import { FileUpload } from '../types';
+
+/**
+ * Rough token estimate for backends without a tokenizer endpoint
+ * (about four characters per token for English text and code)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Stable short hash of a prompt (and any attached files), used to key
+ * mock and recorded responses
+ */
+export function hashPrompt(prompt: string, files: FileUpload[] = []): string {
+  const hash = crypto.createHash('sha256').update(prompt);
+  for (const file of files) {
+    hash.update(file.mimeType).update(file.data);
+  }
+  return hash.digest('hex').substring(0, 16);
+}
+
+/**
+ * Read a streamed HTTP response body line by line
+ */
+export async function* readLines(response: Response): AsyncGenerator<string> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        if (line.trim()) yield line.trim();
+      }
+    }
+
+    if (buffer.trim()) yield buffer.trim();
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Throw an error that keeps the HTTP status in the message, so
+ * ErrorHandler can classify rate limit and auth failures
+ */
+export async function throwForStatus(response: Response, provider: string): Promise<void> {
+  if (response.ok) return;
+
+  let detail = '';
+  try {
+    detail = (await response.text()).slice(0, 500);
+  } catch (error) {
+    // Body is only used for the message
+  }
+
+  throw new Error(`${provider} request failed with status ${response.status} ${response.statusText}${detail ? `: ${detail}` : ''}`);
+}
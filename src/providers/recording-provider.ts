@@ -0,0 +1,92 @@
+/**
+ * Recording provider for Gemini Code Flow
+ * Wraps a real provider and saves its traffic as a mock fixture for later replay
+ */
+
+import fs from 'fs-extra';
+import path from 'path';
+import { AgentMode, ExecuteOptions, FileUpload, LLMProvider, RateLimitStatus } from '../types';
+import { MockFixtureEntry } from './mock-provider';
+import { hashPrompt } from './provider-utils';
+import { Logger } from '../utils/logger';
+import { ErrorHandler } from '../utils/error-handler';
+
+export class RecordingProvider implements LLMProvider {
+  readonly name: string;
+  private entries?: MockFixtureEntry[];
+  private writes: Promise<void> = Promise.resolve();
+  private logger = new Logger('RecordingProvider');
+
+  constructor(private inner: LLMProvider, private fixturePath: string) {
+    this.name = inner.name;
+  }
+
+  async execute(prompt: string, mode: AgentMode, options: ExecuteOptions = {}): Promise<string> {
+    const response = await this.inner.execute(prompt, mode, options);
+    await this.record(mode, prompt, hashPrompt(prompt), response);
+    return response;
+  }
+
+  async executeMultimodal(
+    prompt: string,
+    files: FileUpload[],
+    mode: AgentMode,
+    options: ExecuteOptions = {}
+  ): Promise<string> {
+    const response = await this.inner.executeMultimodal(prompt, files, mode, options);
+    await this.record(mode, prompt, hashPrompt(prompt, files), response);
+    return response;
+  }
+
+  async *streamExecute(prompt: string, mode: AgentMode, options: ExecuteOptions = {}): AsyncGenerator<string> {
+    const chunks: string[] = [];
+    for await (const chunk of this.inner.streamExecute(prompt, mode, options)) {
+      chunks.push(chunk);
+      yield chunk;
+    }
+    await this.record(mode, prompt, hashPrompt(prompt), chunks.join(''));
+  }
+
+  checkHealth(): Promise<boolean> {
+    return this.inner.checkHealth();
+  }
+
+  countTokens(text: string): Promise<number> {
+    return this.inner.countTokens(text);
+  }
+
+  getRateLimitStatus(): RateLimitStatus | undefined {
+    return this.inner.getRateLimitStatus?.();
+  }
+
+  /**
+   * Add a response to the fixture, replacing any earlier one for the same prompt.
+   * Write failures are logged rather than thrown, so the call that produced
+   * the response still succeeds and later responses are still recorded.
+   */
+  private record(mode: AgentMode, prompt: string, promptHash: string, response: string): Promise<void> {
+    this.writes = this.writes.then(async () => {
+      if (!this.entries) {
+        this.entries = (await fs.pathExists(this.fixturePath))
+          ? ((await fs.readJson(this.fixturePath)).responses || [])
+          : [];
+      }
+
+      const entries = this.entries as MockFixtureEntry[];
+      const existing = entries.findIndex(e => e.mode === mode && e.promptHash === promptHash);
+      const entry: MockFixtureEntry = { mode, promptHash, prompt, response };
+      if (existing >= 0) {
+        entries[existing] = entry;
+      } else {
+        entries.push(entry);
+      }
+
+      await fs.ensureDir(path.dirname(this.fixturePath));
+      await fs.writeJson(this.fixturePath, { responses: entries }, { spaces: 2 });
+    }).catch(error => {
+      this.logger.warn(`Cannot record response to ${this.fixturePath}: ${ErrorHandler.sanitizeError(error)}`);
+    });
+
+    return this.writes;
+  }
+}
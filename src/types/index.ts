@@ -8,13 +8,13 @@ export interface Agent {
   mode: AgentMode;
   status: AgentStatus;
   task: string;
-  result?: unknown;
+  result?: AgentResult;
   error?: string;
   startTime: Date;
   endTime?: Date;
 }
 
-export type AgentMode = 
+export type BuiltInMode =
   | 'architect'
   | 'coder'
   | 'tester'
@@ -33,7 +33,40 @@ export type AgentMode =
   | 'orchestrator'
   | 'designer';
 
-export type AgentStatus = 'pending' | 'running' | 'completed' | 'failed';
+/**
+ * A built-in SPARC mode, or a custom mode declared in config or .gemini-flow/modes
+ */
+export type AgentMode = BuiltInMode | string;
+
+export type AgentStatus =
+  | 'pending'
+  | 'running'
+  | 'completed'
+  | 'failed'
+  | 'skipped'
+  | 'cancelled'
+  | 'timed_out';
+
+export type FailurePolicy = 'fail-fast' | 'skip-dependents' | 'continue-with-partial';
+
+export type ErrorClass = 'network' | 'rate-limit' | 'auth' | 'timeout' | 'unknown';
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  backoffMs: number;
+  maxBackoffMs: number;
+  retryOn: ErrorClass[];
+}
+
+export interface TaskAttempt {
+  attempt: number;
+  agentId: string;
+  status: AgentStatus;
+  startedAt: Date;
+  endedAt: Date;
+  error?: string;
+  errorClass?: ErrorClass;
+}
 
 export interface SparcMode {
   name: string;
@@ -41,7 +74,78 @@ export interface SparcMode {
   description: string;
   temperature?: number;
   maxTokens?: number;
+  /** Token budget for the prompt, including the context assembled for it */
+  contextTokens?: number;
+  model?: string;
   systemPrompt: string;
+  tools?: string[];
+  /** Sections of the structured result the mode produces, besides the summary */
+  output?: ResultSection[];
+  /** Whether the code in the mode's results is previewed as edits to the project */
+  editsFiles?: boolean;
+  retryPolicy?: Partial<RetryPolicy>;
+  provider?: string;
+}
+
+/**
+ * Parts of a structured agent result that a mode can ask for
+ */
+export type ResultSection =
+  | 'specification'
+  | 'pseudocode'
+  | 'architecture'
+  | 'refinement'
+  | 'completion'
+  | 'code'
+  | 'testPlan'
+  | 'openQuestions'
+  | 'followUpTasks';
+
+/**
+ * Code an agent wrote: the contents of a file, or a snippet when it has no path
+ */
+export interface CodeBlock {
+  path?: string;
+  language?: string;
+  content: string;
+}
+
+/**
+ * Work an agent suggests doing next
+ */
+export interface FollowUpTask {
+  description: string;
+  mode?: AgentMode;
+}
+
+/**
+ * What an agent returns, parsed from the model's structured output.
+ * Only the summary is always present; the other parts depend on the mode.
+ */
+export interface AgentResult {
+  summary: string;
+  specification?: string;
+  pseudocode?: string;
+  architecture?: string;
+  refinement?: string;
+  completion?: string;
+  code?: CodeBlock[];
+  testPlan?: string[];
+  openQuestions?: string[];
+  followUpTasks?: FollowUpTask[];
+}
+
+/**
+ * The subset of JSON Schema used to request structured output
+ * (the OpenAPI subset Gemini accepts)
+ */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: string[];
 }
 
 export interface MemoryEntry {
@@ -51,6 +155,169 @@ export interface MemoryEntry {
   type: 'knowledge' | 'decision' | 'error' | 'result';
   content: unknown;
   tags: string[];
+  embedding?: MemoryEmbedding;
+  namespace?: MemoryNamespace;
+  /** Pinned entries are never removed by retention limits */
+  pinned?: boolean;
+  /** Ids of the entries a consolidated entry was condensed from; such entries outlive retention too */
+  sources?: string[];
+}
+
+/**
+ * Changes that can be made to a stored memory entry
+ */
+export type MemoryEntryUpdate = Partial<Pick<MemoryEntry, 'tags' | 'pinned'>>;
+
+/**
+ * Where a memory entry was written: project → run → task.
+ * Entries stored before namespaces existed have none.
+ */
+export interface MemoryNamespace {
+  project: string;
+  run?: string;
+  task?: string;
+}
+
+/**
+ * Which namespaces a read sees. Omitted levels are not filtered on;
+ * `runs` lists every run whose entries are visible.
+ */
+export interface MemoryScope {
+  project?: string;
+  runs?: string[];
+  task?: string;
+}
+
+/**
+ * What a run's agents remember: only this run (`clean`), every run of the
+ * project (`project`), or a named run it reads and writes (`run:<name>`)
+ */
+export type MemoryScopeSetting = 'clean' | 'project' | `run:${string}`;
+
+/**
+ * Vector for a memory entry, tagged with the model that produced it.
+ * Vectors from different models are never compared.
+ */
+export interface MemoryEmbedding {
+  model: string;
+  vector: number[];
+}
+
+export interface MemoryContextItem {
+  type: string;
+  summary: string;
+  timestamp: Date;
+  /** Similarity to the task the context was selected for (0-1) */
+  score?: number;
+}
+
+export type EmbeddingProviderType = 'gemini' | 'local';
+
+/**
+ * Turns text into vectors for semantic memory search.
+ * `purpose` lets providers embed stored entries and search queries differently.
+ */
+export interface EmbeddingProvider {
+  readonly model: string;
+  embed(texts: string[], purpose: 'document' | 'query'): Promise<number[][]>;
+}
+
+export type MemoryBackendType = 'json' | 'sqlite';
+
+/**
+ * Filters for reading memory entries. Every given filter must match;
+ * `tags` matches entries with any of the listed tags.
+ */
+export interface MemoryQuery {
+  text?: string;
+  tags?: string[];
+  types?: Array<MemoryEntry['type']>;
+  agentId?: string;
+  since?: Date;
+  until?: Date;
+  scope?: MemoryScope;
+  pinned?: boolean;
+  /** Only consolidated entries, which list their sources (true), or only the others (false) */
+  sources?: boolean;
+  /** Leave out entries with any of these tags */
+  excludeTags?: string[];
+  order?: 'asc' | 'desc';
+  limit?: number;
+}
+
+export interface MemoryRetention {
+  maxEntries?: number;
+  maxAgeMs?: number;
+}
+
+/**
+ * Retention limits as written in .gemini-flow.json
+ */
+export interface MemoryRetentionConfig {
+  maxEntries?: number;
+  maxAgeDays?: number;
+}
+
+/**
+ * Memory consolidation settings as written in .gemini-flow.json
+ */
+export interface MemoryConsolidationConfig {
+  /** Consolidate automatically when the memory bank nears its retention limits */
+  auto?: boolean;
+  /** Share of a retention limit (0-1) at which automatic consolidation starts */
+  threshold?: number;
+  /** Group entries by their mode tag or by the run that wrote them */
+  groupBy?: MemoryGroupBy;
+  /** Smallest group worth condensing */
+  minGroupSize?: number;
+  /** Provider that condenses entries; defaults to the default provider */
+  provider?: string;
+}
+
+export type MemoryGroupBy = 'tag' | 'namespace';
+
+/**
+ * Counts over every entry in a memory backend
+ */
+export interface MemoryBackendStats {
+  total: number;
+  pinned: number;
+  byType: Record<string, number>;
+  byTag: Record<string, number>;
+  /** Entries per embedding model; entries without one are counted under "none" */
+  byEmbeddingModel: Record<string, number>;
+  oldest?: Date;
+  newest?: Date;
+}
+
+export interface MemoryBackendOptions {
+  /** Read the store without changing it; writes are refused */
+  readOnly?: boolean;
+}
+
+/**
+ * Storage engine behind MemoryManager
+ */
+export interface MemoryBackend {
+  readonly type: MemoryBackendType;
+  initialize(): Promise<void>;
+  insert(entry: MemoryEntry): Promise<void>;
+  insertMany(entries: MemoryEntry[]): Promise<number>;
+  query(query?: MemoryQuery): Promise<MemoryEntry[]>;
+  get(id: string): Promise<MemoryEntry | undefined>;
+  /** Change an entry's tags or pin; returns the updated entry, or undefined if it does not exist */
+  update(id: string, changes: MemoryEntryUpdate): Promise<MemoryEntry | undefined>;
+  /** Remove entries by id; returns how many existed */
+  delete(ids: string[]): Promise<number>;
+  /** Count the entries matching a query, or all of them; order and limit are ignored */
+  count(query?: MemoryQuery): Promise<number>;
+  stats(): Promise<MemoryBackendStats>;
+  /** Replace the embeddings of stored entries */
+  updateEmbeddings(updates: Array<{ id: string; embedding: MemoryEmbedding }>): Promise<void>;
+  /** Remove entries outside the retention limits, except pinned and consolidated ones; returns how many were removed */
+  prune(retention: MemoryRetention): Promise<number>;
+  flush(): Promise<void>;
+  close(): Promise<void>;
 }
 
 export interface TaskQueue {
@@ -70,14 +337,113 @@ export interface Task {
   createdAt: Date;
   updatedAt: Date;
   retryCount?: number;
+  inputs?: Record<string, string>;
+  /** The agent's result as Markdown */
+  result?: string;
+  /** The agent's structured result */
+  output?: AgentResult;
+  failurePolicy?: FailurePolicy;
+  /** Run id of the workflow the task is a step of */
+  workflowId?: string;
+  statusReason?: string;
+  timeoutMs?: number;
+  attempts?: number;
+  retryPolicy?: Partial<RetryPolicy>;
+  history?: TaskAttempt[];
+  nextAttemptAt?: Date;
+  /** Files to include in the prompt as context, relative to the working directory */
+  files?: string[];
+  /** Project files to show the agent */
+  workspace?: WorkspaceContext;
+  /** What context went into the prompt of the latest attempt */
+  context?: ContextReport;
+}
+
+/**
+ * Project files for a prompt: a tree of the directory, plus the contents of the files matching `include`
+ */
+export interface WorkspaceContext {
+  /** Directory to scan, relative to the working directory (default: the working directory) */
+  dir?: string;
+  /** Globs, relative to `dir`, for the files whose contents go into the prompt */
+  include?: string[];
+}
+
+export type ContextSource = 'input' | 'file' | 'memory' | 'workspace';
+
+export interface ContextItemReport {
+  source: ContextSource;
+  /** Input name, file path, memory entry id or workspace directory */
+  id: string;
+  /** Tokens the item took up in the prompt (estimated) */
+  tokens: number;
+  /** Size before truncation, for items that were cut to fit */
+  originalTokens?: number;
+  /** Why a dropped item was left out */
+  reason?: 'budget' | 'unreadable';
+}
+
+export interface ContextReport {
+  budgetTokens: number;
+  usedTokens: number;
+  included: ContextItemReport[];
+  dropped: ContextItemReport[];
+}
+
+export interface WorkflowStep {
+  id: string;
+  mode: AgentMode;
+  task: string;
+  priority?: 'low' | 'medium' | 'high';
+  dependsOn?: string[];
+  inputs?: string[];
+  onFailure?: FailurePolicy;
+  timeoutMs?: number;
+  retry?: Partial<RetryPolicy>;
+  files?: string[];
+}
+
+export interface Workflow {
+  name: string;
+  description?: string;
+  onFailure?: FailurePolicy;
+  steps: WorkflowStep[];
 }
 
 export interface OrchestratorConfig {
   maxAgents: number;
   memoryPath: string;
+  memoryBackend?: MemoryBackendType;
+  memoryRetention?: MemoryRetentionConfig;
+  memoryEmbeddings?: EmbeddingProviderType;
+  memoryScope?: MemoryScopeSetting;
+  memoryConsolidation?: MemoryConsolidationConfig;
+  /** Project namespace for memory; defaults to the working directory's name */
+  project?: string;
   apiKey?: string;
   authMethod?: 'google-account' | 'api-key';
   modes: Partial<Record<AgentMode, Partial<SparcMode>>>;
+  runId: string;
+  runLabel?: string;
+  statePath?: string;
+  retryPolicy?: Partial<RetryPolicy>;
+  provider?: string;
+  providers?: Record<string, ProviderConfig>;
+  recordPath?: string;
+  socketPath?: string;
+}
+
+/**
+ * A task submitted from outside the process (REPL, control socket or HTTP API)
+ */
+export interface TaskRequest {
+  id?: string;
+  mode: AgentMode;
+  description: string;
+  dependencies: string[];
+  priority: Task['priority'];
+  files?: string[];
+  workspace?: WorkspaceContext;
 }
 
 export interface FileUpload {
@@ -85,10 +451,86 @@ export interface FileUpload {
   data: Buffer;
 }
 
+export interface ExecuteOptions {
+  signal?: AbortSignal;
+  temperature?: number;
+  maxOutputTokens?: number;
+  model?: string;
+  /** Ask for JSON matching this schema instead of free text */
+  responseSchema?: JsonSchema;
+}
+
+export type ProviderType = 'gemini' | 'openai' | 'ollama' | 'mock';
+
+export interface ProviderConfig {
+  type: ProviderType;
+  baseUrl?: string;
+  model?: string;
+  apiKey?: string;
+  apiKeyEnv?: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+  fixture?: string;
+  /**
+   * Send the result schema for the server to enforce. Defaults to on for
+   * gemini and mock providers; many OpenAI-compatible servers reject it.
+   */
+  structuredOutput?: boolean;
+}
+
+export interface RateLimitStats {
+  currentRequests: number;
+  maxRequests: number;
+  windowMs: number;
+}
+
+export interface RateLimitStatus {
+  minute: RateLimitStats;
+  daily: RateLimitStats;
+}
+
+/**
+ * A chunk of output streamed by a running agent
+ */
+export interface AgentOutput {
+  agentId: string;
+  taskId: string;
+  chunk: string;
+}
+
+/**
+ * A language model backend that agents can run on
+ */
+export interface LLMProvider {
+  readonly name: string;
+  execute(prompt: string, mode: AgentMode, options?: ExecuteOptions): Promise<string>;
+  executeMultimodal(prompt: string, files: FileUpload[], mode: AgentMode, options?: ExecuteOptions): Promise<string>;
+  streamExecute(prompt: string, mode: AgentMode, options?: ExecuteOptions): AsyncGenerator<string>;
+  checkHealth(): Promise<boolean>;
+  countTokens(text: string): Promise<number>;
+  getRateLimitStatus?(): RateLimitStatus | undefined;
+}
+
 export interface ConfigFile {
   maxAgents?: number;
   memoryPath?: string;
+  memoryBackend?: MemoryBackendType;
+  memoryRetention?: MemoryRetentionConfig;
+  memoryEmbeddings?: EmbeddingProviderType;
+  memoryScope?: MemoryScopeSetting;
+  memoryConsolidation?: MemoryConsolidationConfig;
+  /** Project namespace for memory; defaults to the working directory's name */
+  project?: string;
   authMethod?: 'google-account' | 'api-key';
   apiKey?: string;
   modes?: Partial<Record<AgentMode, Partial<SparcMode>>>;
+  runId?: string;
+  runLabel?: string;
+  statePath?: string;
+  retryPolicy?: Partial<RetryPolicy>;
+  provider?: string;
+  providers?: Record<string, ProviderConfig>;
+  recordPath?: string;
+  modesPath?: string;
+  socketPath?: string;
 }
\ No newline at end of file
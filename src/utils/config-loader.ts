@@ -0,0 +1,175 @@
+/**
+ * Configuration loading for Gemini Code Flow
+ */
+
+import chalk from 'chalk';
+import fs from 'fs-extra';
+import { ConfigFile, WorkspaceContext } from '../types';
+import { Validator, ValidationError } from './validation';
+import { PathSecurity, PathSecurityError } from './path-security';
+import { ErrorHandler } from './error-handler';
+import { ModeLoader, DEFAULT_MODES_DIR } from '../core/mode-loader';
+import { isBuiltInMode } from '../core/mode-catalog';
+
+export interface ProviderOptions {
+  provider?: string;
+  fixture?: string;
+  record?: string;
+}
+
+export interface MemoryOptions {
+  memoryScope?: string;
+  project?: string;
+}
+
+export interface WorkspaceOptions {
+  include?: string[];
+  contextDir?: string;
+}
+
+export class ConfigLoader {
+  /**
+   * Safely load and validate a configuration file, falling back to defaults.
+   * With `optional`, a missing file silently yields the defaults.
+   */
+  static async load(configPath?: string, options: { optional?: boolean } = {}): Promise<ConfigFile> {
+    const config = await this.loadConfigFile(configPath, options);
+    return this.loadModeFiles(config);
+  }
+
+  /**
+   * Add custom modes from Markdown files in modesPath (default .gemini-flow/modes).
+   * Settings in the config file win over a mode file's frontmatter, and
+   * invalid mode files are skipped with a warning.
+   */
+  private static async loadModeFiles(config: ConfigFile): Promise<ConfigFile> {
+    const files = await ModeLoader.listModeFiles(config.modesPath || DEFAULT_MODES_DIR);
+    if (files.length === 0) {
+      return config;
+    }
+
+    const modes: NonNullable<ConfigFile['modes']> = {};
+    for (const file of files) {
+      try {
+        const { mode, settings } = await ModeLoader.load(file);
+        modes[mode] = settings;
+      } catch (error) {
+        console.warn(chalk.yellow(`⚠ Skipping mode file ${file}: ${ErrorHandler.formatError(error)}`));
+      }
+    }
+
+    for (const [mode, settings] of Object.entries(config.modes || {})) {
+      if (!isBuiltInMode(mode) && !modes[mode] && !settings?.systemPrompt) {
+        // Overrides for a mode whose file was skipped above
+        console.warn(chalk.yellow(`⚠ Skipping mode ${mode}: it has no systemPrompt`));
+        continue;
+      }
+      modes[mode] = { ...modes[mode], ...settings };
+    }
+
+    return { ...config, modes };
+  }
+
+  private static async loadConfigFile(configPath: string | undefined, options: { optional?: boolean }): Promise<ConfigFile> {
+    if (!configPath) {
+      return {};
+    }
+
+    if (options.optional && !(await fs.pathExists(configPath))) {
+      return {};
+    }
+
+    try {
+      // Use secure path validation
+      const resolvedConfigPath = await PathSecurity.resolveSafePath(
+        configPath,
+        process.cwd(),
+        {
+          mustExist: true,
+          allowedExtensions: ['.json'],
+          requireReadable: true
+        }
+      );
+
+      const configContent = await fs.readFile(resolvedConfigPath, 'utf8');
+      const rawConfig = JSON.parse(configContent);
+
+      // Modes from mode files can be tuned here without repeating their systemPrompt
+      const modesPath = typeof rawConfig?.modesPath === 'string' ? rawConfig.modesPath : DEFAULT_MODES_DIR;
+      const modeFiles = await ModeLoader.listModeFiles(modesPath);
+
+      // Validate configuration
+      return Validator.validateConfig(rawConfig, modeFiles.map(file => ModeLoader.modeName(file))) as ConfigFile;
+    } catch (configError) {
+      if (configError instanceof PathSecurityError) {
+        console.warn(chalk.yellow(`⚠ Config path security error: ${configError.message}, using defaults`));
+      } else if (configError instanceof ValidationError) {
+        console.warn(chalk.yellow(`⚠ Config validation error: ${configError.message}, using defaults`));
+      } else if (configError instanceof SyntaxError) {
+        console.warn(chalk.yellow(`⚠ Config file invalid JSON: ${configPath}, using defaults`));
+      } else {
+        console.warn(chalk.yellow(`⚠ Error loading config: ${ErrorHandler.formatError(configError)}, using defaults`));
+      }
+      return {};
+    }
+  }
+
+  /**
+   * Apply --provider, --fixture and --record command line overrides.
+   * --provider routes every mode to one provider, so a run can be forced
+   * onto the mock provider regardless of the config file.
+   */
+  static applyProviderOptions(config: ConfigFile, options: ProviderOptions): ConfigFile {
+    const result: ConfigFile = { ...config };
+
+    if (options.provider) {
+      const known = ['gemini', 'mock', ...Object.keys(config.providers || {})];
+      if (!known.includes(options.provider)) {
+        throw new ValidationError(
+          `Unknown provider "${options.provider}". Use one of: ${known.join(', ')}`,
+          'provider'
+        );
+      }
+      result.provider = options.provider;
+      result.modes = Object.fromEntries(
+        Object.entries(config.modes || {}).map(([mode, settings]) => [mode, { ...settings, provider: undefined }])
+      );
+    }
+
+    if (options.fixture) {
+      result.providers = {
+        ...config.providers,
+        mock: { ...config.providers?.mock, type: 'mock', fixture: options.fixture },
+      };
+    }
+
+    if (options.record) {
+      result.recordPath = options.record;
+    }
+
+    return result;
+  }
+
+  /**
+   * Apply --memory-scope and --project command line overrides
+   */
+  static applyMemoryOptions(config: ConfigFile, options: MemoryOptions): ConfigFile {
+    return {
+      ...config,
+      ...(options.memoryScope !== undefined ? { memoryScope: Validator.validateMemoryScope(options.memoryScope) } : {}),
+      ...(options.project !== undefined ? { project: Validator.validateProjectName(options.project) } : {}),
+    };
+  }
+
+  /**
+   * The workspace to show agents from --include and --context-dir, if either is given
+   */
+  static workspaceFromOptions(options: WorkspaceOptions): WorkspaceContext | undefined {
+    if (options.include === undefined && options.contextDir === undefined) {
+      return undefined;
+    }
+    return Validator.validateWorkspaceContext({ dir: options.contextDir, include: options.include });
+  }
+}
+
+export default ConfigLoader;
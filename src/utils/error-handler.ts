@@ -2,6 +2,15 @@
  * Error handling utilities for Gemini Code Flow
  */
 
+import { ErrorClass, RetryPolicy } from '../types';
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  backoffMs: 1000,
+  maxBackoffMs: 30000,
+  retryOn: ['network', 'rate-limit'],
+};
+
 export class ErrorHandler {
   /**
    * Format error message safely, preserving context
@@ -80,6 +89,48 @@ export class ErrorHandler {
     );
   }
 
+  /**
+   * Classify an error so retry policies can decide what to do with it.
+   * Auth is checked first so a rejected key is never treated as transient.
+   */
+  static classifyError(error: unknown): ErrorClass {
+    if (this.isAuthError(error)) return 'auth';
+    if (this.isRateLimitError(error)) return 'rate-limit';
+    if (this.isNetworkError(error)) return 'network';
+    return 'unknown';
+  }
+
+  /**
+   * Merge retry policies, later ones taking precedence over earlier ones
+   */
+  static resolveRetryPolicy(...policies: Array<Partial<RetryPolicy> | undefined>): RetryPolicy {
+    return policies.reduce<RetryPolicy>(
+      (resolved, policy) => ({ ...resolved, ...this.definedOnly(policy) }),
+      { ...DEFAULT_RETRY_POLICY }
+    );
+  }
+
+  /**
+   * Check whether a failed attempt should be retried. Auth errors never are,
+   * since retrying them cannot succeed.
+   */
+  static shouldRetry(policy: RetryPolicy, errorClass: ErrorClass, attempt: number): boolean {
+    return errorClass !== 'auth' && attempt < policy.maxAttempts && policy.retryOn.includes(errorClass);
+  }
+
+  /**
+   * Delay before the attempt after `attempt`, doubling each time up to the cap
+   */
+  static getRetryDelay(policy: RetryPolicy, attempt: number): number {
+    return Math.min(policy.backoffMs * Math.pow(2, Math.max(attempt - 1, 0)), policy.maxBackoffMs);
+  }
+
+  private static definedOnly(policy: Partial<RetryPolicy> | undefined): Partial<RetryPolicy> {
+    return Object.fromEntries(
+      Object.entries(policy || {}).filter(([, value]) => value !== undefined)
+    ) as Partial<RetryPolicy>;
+  }
+
   /**
    * Sanitize error message to prevent credential leakage
    */
@@ -0,0 +1,152 @@
+/**
+ * File locking for Gemini Code Flow
+ * Advisory lock files and atomic writes for files shared between processes
+ */
+
+import fs from 'fs-extra';
+import os from 'os';
+
+export class FileLockError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FileLockError';
+  }
+}
+
+export interface FileLockOptions {
+  /** How long to wait for another process to release the lock */
+  timeoutMs?: number;
+  /** Locks older than this are assumed to be left behind by a crashed process */
+  staleMs?: number;
+}
+
+interface LockOwner {
+  pid: number;
+  hostname: string;
+  token: string;
+  acquiredAt: string;
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_STALE_MS = 30000;
+const MIN_RETRY_MS = 20;
+const MAX_RETRY_MS = 250;
+
+export class FileLock {
+  /**
+   * Run `action` while holding the lock for `filePath`
+   */
+  static async withLock<T>(filePath: string, action: () => Promise<T>, options: FileLockOptions = {}): Promise<T> {
+    const release = await this.acquire(filePath, options);
+    try {
+      return await action();
+    } finally {
+      await release();
+    }
+  }
+
+  /**
+   * Take the lock for `filePath` by creating `<filePath>.lock`, waiting while
+   * another live process holds it. Returns a function that releases it.
+   */
+  static async acquire(filePath: string, options: FileLockOptions = {}): Promise<() => Promise<void>> {
+    const lockPath = `${filePath}.lock`;
+    const deadline = Date.now() + (options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+    const owner: LockOwner = {
+      pid: process.pid,
+      hostname: os.hostname(),
+      token: `${process.pid}-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
+      acquiredAt: new Date().toISOString(),
+    };
+    let delay = MIN_RETRY_MS;
+
+    for (;;) {
+      try {
+        await fs.writeFile(lockPath, JSON.stringify(owner), { flag: 'wx' });
+        return () => this.release(lockPath, owner.token);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      }
+
+      const holder = await this.readOwner(lockPath);
+      if (await this.isStale(lockPath, holder, options.staleMs ?? DEFAULT_STALE_MS)) {
+        await fs.remove(lockPath);
+        continue;
+      }
+
+      if (Date.now() >= deadline) {
+        throw new FileLockError(
+          `Timed out waiting for ${lockPath}` + (holder ? ` (held by process ${holder.pid} on ${holder.hostname})` : '')
+        );
+      }
+      await new Promise(resolve => setTimeout(resolve, delay));
+      delay = Math.min(delay * 2, MAX_RETRY_MS);
+    }
+  }
+
+  /**
+   * Replace `filePath` with `data` so that readers see either the old or the
+   * new content, never a partial write
+   */
+  static async writeAtomic(filePath: string, data: string): Promise<void> {
+    const tempPath = `${filePath}.${process.pid}-${Math.random().toString(36).substring(2, 11)}.tmp`;
+
+    try {
+      const fd = await fs.open(tempPath, 'w');
+      try {
+        await fs.writeFile(fd, data);
+        await fs.fsync(fd);
+      } finally {
+        await fs.close(fd);
+      }
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.remove(tempPath).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  private static async release(lockPath: string, token: string): Promise<void> {
+    // Leave the lock alone if it was taken over as stale in the meantime
+    const holder = await this.readOwner(lockPath);
+    if (holder?.token === token) {
+      await fs.remove(lockPath);
+    }
+  }
+
+  private static async readOwner(lockPath: string): Promise<LockOwner | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(lockPath, 'utf8')) as LockOwner;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * A lock is stale when its process is gone or it has been held too long.
+   * Whether a process on another host is alive cannot be checked, so only age counts there.
+   */
+  private static async isStale(lockPath: string, holder: LockOwner | undefined, staleMs: number): Promise<boolean> {
+    if (holder && holder.hostname === os.hostname() && holder.pid !== process.pid && !this.isAlive(holder.pid)) {
+      return true;
+    }
+
+    try {
+      const stats = await fs.stat(lockPath);
+      return Date.now() - stats.mtimeMs > staleMs;
+    } catch {
+      // Released while we were looking; try again
+      return false;
+    }
+  }
+
+  private static isAlive(pid: number): boolean {
+    try {
+      process.kill(pid, 0);
+      return true;
+    } catch (error) {
+      // EPERM means the process exists but belongs to someone else
+      return (error as NodeJS.ErrnoException).code === 'EPERM';
+    }
+  }
+}
@@ -12,7 +12,10 @@ export enum LogLevel {
   ERROR = 3,
 }
 
+export type LogSink = (level: LogLevel, message: string) => void;
+
 export class Logger {
+  private static sink?: LogSink;
   private context: string;
   private level: LogLevel = LogLevel.INFO;
 
@@ -26,27 +29,38 @@ export class Logger {
     }
   }
 
+  /**
+   * Send every logger's output to `sink` instead of the console, or back to
+   * the console when called without one. Used while a full-screen view is shown.
+   */
+  static redirect(sink?: LogSink): void {
+    Logger.sink = sink;
+  }
+
   debug(message: string, ...args: unknown[]): void {
-    if (this.level <= LogLevel.DEBUG) {
-      console.log(chalk.gray(`[DEBUG] [${this.context}] ${message}`), ...args);
-    }
+    this.write(LogLevel.DEBUG, message, args, line => console.log(chalk.gray(`[DEBUG] ${line}`), ...args));
   }
 
   info(message: string, ...args: unknown[]): void {
-    if (this.level <= LogLevel.INFO) {
-      console.log(chalk.blue(`[INFO] [${this.context}] ${message}`), ...args);
-    }
+    this.write(LogLevel.INFO, message, args, line => console.log(chalk.blue(`[INFO] ${line}`), ...args));
   }
 
   warn(message: string, ...args: unknown[]): void {
-    if (this.level <= LogLevel.WARN) {
-      console.warn(chalk.yellow(`[WARN] [${this.context}] ${message}`), ...args);
-    }
+    this.write(LogLevel.WARN, message, args, line => console.warn(chalk.yellow(`[WARN] ${line}`), ...args));
   }
 
   error(message: string, ...args: unknown[]): void {
-    if (this.level <= LogLevel.ERROR) {
-      console.error(chalk.red(`[ERROR] [${this.context}] ${message}`), ...args);
+    this.write(LogLevel.ERROR, message, args, line => console.error(chalk.red(`[ERROR] ${line}`), ...args));
+  }
+
+  private write(level: LogLevel, message: string, args: unknown[], print: (line: string) => void): void {
+    if (this.level > level) return;
+
+    const line = `[${this.context}] ${message}`;
+    if (Logger.sink) {
+      Logger.sink(level, [line, ...args.map(arg => (arg instanceof Error ? arg.message : String(arg)))].join(' '));
+    } else {
+      print(line);
     }
   }
-}
\ No newline at end of file
+}
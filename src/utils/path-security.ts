@@ -52,13 +52,12 @@ export class PathSecurity {
     
     try {
       realBaseDir = await fs.realpath(baseDir);
-      realPath = mustExist ? await fs.realpath(resolvedPath) : resolvedPath;
+      realPath = mustExist ? await fs.realpath(resolvedPath) : await this.realpathOfExisting(resolvedPath);
     } catch (error) {
       if (mustExist) {
         throw new PathSecurityError(`Path does not exist: ${inputPath}`, inputPath);
       }
-      realPath = resolvedPath;
-      realBaseDir = await fs.realpath(baseDir);
+      throw new PathSecurityError(`Cannot resolve path: ${inputPath}`, inputPath);
     }
 
     // Security check: ensure path is within base directory
@@ -243,6 +242,25 @@ export class PathSecurity {
       type.startsWith('.') ? type === ext : `.${type}` === ext
     );
   }
+
+  /**
+   * Resolve symlinks in the part of a path that exists, so a path that does
+   * not exist yet cannot escape through a linked parent directory
+   */
+  private static async realpathOfExisting(resolvedPath: string): Promise<string> {
+    const missing: string[] = [];
+    let existing = resolvedPath;
+
+    // lstat, so a dangling symlink counts as existing and fails in realpath
+    while (!(await fs.lstat(existing).then(() => true, () => false))) {
+      const parent = path.dirname(existing);
+      if (parent === existing) break;
+      missing.unshift(path.basename(existing));
+      existing = parent;
+    }
+
+    return path.join(await fs.realpath(existing), ...missing);
+  }
 }
 
 export default PathSecurity;
\ No newline at end of file
@@ -0,0 +1,123 @@
+/**
+ * REPL command parsing for Gemini Code Flow
+ */
+
+import { AgentMode, Task } from '../types';
+import { Validator, ValidationError } from './validation';
+
+export interface ParsedArgs {
+  positionals: string[];
+  flags: Record<string, string[]>;
+}
+
+export interface AddTaskRequest {
+  id?: string;
+  mode: AgentMode;
+  description: string;
+  dependencies: string[];
+  priority: Task['priority'];
+}
+
+export class ReplParser {
+  /**
+   * Split a command line into words, honouring single and double quotes
+   */
+  static tokenize(line: string): string[] {
+    const tokens: string[] = [];
+    let current = '';
+    let inToken = false;
+    let quote: '"' | "'" | null = null;
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+
+      if (quote) {
+        if (char === quote) {
+          quote = null;
+        } else if (char === '\\' && quote === '"' && i + 1 < line.length) {
+          current += line[++i];
+        } else {
+          current += char;
+        }
+      } else if (char === '"' || char === "'") {
+        quote = char;
+        inToken = true;
+      } else if (/\s/.test(char)) {
+        if (inToken) {
+          tokens.push(current);
+          current = '';
+          inToken = false;
+        }
+      } else {
+        current += char;
+        inToken = true;
+      }
+    }
+
+    if (quote) {
+      throw new ValidationError(`Unterminated ${quote} quote`, 'command');
+    }
+    if (inToken) {
+      tokens.push(current);
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Separate positional arguments from --flag value pairs
+   */
+  static parseArgs(tokens: string[], allowedFlags: string[]): ParsedArgs {
+    const parsed: ParsedArgs = { positionals: [], flags: {} };
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      if (!token.startsWith('--')) {
+        parsed.positionals.push(token);
+        continue;
+      }
+
+      const [name, inlineValue] = token.slice(2).split(/=(.*)/s, 2);
+      if (!allowedFlags.includes(name)) {
+        throw new ValidationError(`Unknown option --${name}`, 'command');
+      }
+
+      const value = inlineValue ?? tokens[++i];
+      if (value === undefined || value.startsWith('--')) {
+        throw new ValidationError(`Option --${name} needs a value`, 'command');
+      }
+      (parsed.flags[name] ||= []).push(value);
+    }
+
+    return parsed;
+  }
+
+  /**
+   * Parse the arguments of `add <mode> "<description>" [--after <id>] [--priority <level>] [--id <id>]`
+   */
+  static parseAddTask(tokens: string[]): AddTaskRequest {
+    const { positionals, flags } = this.parseArgs(tokens, ['after', 'priority', 'id']);
+    const [mode, ...words] = positionals;
+
+    if (!mode || words.length === 0) {
+      throw new ValidationError('Usage: add <mode> "<description>" [--after <id>] [--priority low|medium|high]', 'command');
+    }
+
+    const priority = Validator.validatePriority(flags.priority?.at(-1) ?? 'medium');
+
+    const dependencies = (flags.after || [])
+      .flatMap(value => value.split(','))
+      .map(id => id.trim())
+      .filter(id => id.length > 0);
+
+    return {
+      id: flags.id?.at(-1),
+      mode,
+      description: words.join(' '),
+      dependencies: [...new Set(dependencies)],
+      priority,
+    };
+  }
+}
+
+export default ReplParser;
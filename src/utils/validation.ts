@@ -4,7 +4,9 @@
 
 import path from 'path';
 import fs from 'fs-extra';
-import { AgentMode } from '../types';
+import { AgentMode, ErrorClass, MemoryConsolidationConfig, MemoryRetentionConfig, MemoryScopeSetting, ProviderConfig, ResultSection, RetryPolicy, Task, TaskRequest, WorkspaceContext } from '../types';
+import { BUILT_IN_MODE_NAMES, isBuiltInMode } from '../core/mode-catalog';
+import { RESULT_SECTIONS } from '../core/structured-output';
 
 export class ValidationError extends Error {
   constructor(message: string, field?: string) {
@@ -16,25 +18,39 @@ export class ValidationError extends Error {
   }
 }
 
+const MODE_NAME_PATTERN = /^[a-z][a-z0-9]*(-[a-z0-9]+)*$/;
+const TASK_ID_PATTERN = /^[a-zA-Z0-9_-]{1,100}$/;
+const PROJECT_NAME_PATTERN = /^[a-zA-Z0-9._-]{1,100}$/;
+const SHARED_RUN_PATTERN = /^run:[a-zA-Z0-9_-]{1,100}$/;
+const PRIORITIES: Array<Task['priority']> = ['low', 'medium', 'high'];
+
 export class Validator {
   /**
-   * Validate agent mode
+   * Validate agent mode against the built-in modes and any custom modes
    */
-  static validateAgentMode(mode: string): AgentMode {
-    const validModes: AgentMode[] = [
-      'architect', 'coder', 'tester', 'debugger', 'security',
-      'documentation', 'integrator', 'monitor', 'optimizer',
-      'ask', 'devops', 'tutorial', 'database', 'specification',
-      'mcp', 'orchestrator', 'designer'
-    ];
+  static validateAgentMode(mode: string, customModes: string[] = []): AgentMode {
+    const validModes: AgentMode[] = [...BUILT_IN_MODE_NAMES, ...customModes];
     
-    if (!validModes.includes(mode as AgentMode)) {
+    if (!validModes.includes(mode)) {
       throw new ValidationError(`Invalid agent mode: ${mode}. Valid modes: ${validModes.join(', ')}`, 'mode');
     }
     
     return mode as AgentMode;
   }
 
+  /**
+   * Validate the name of a custom mode, e.g. "migration-planner"
+   */
+  static validateModeName(name: string): string {
+    if (typeof name !== 'string' || name.length > 40 || !MODE_NAME_PATTERN.test(name)) {
+      throw new ValidationError(
+        `Invalid custom mode name: "${name}". Use lowercase letters, numbers and "-" (max 40 characters)`,
+        'mode'
+      );
+    }
+    return name;
+  }
+
   /**
    * Validate task description
    */
@@ -70,6 +86,122 @@ export class Validator {
     return trimmed;
   }
 
+  /**
+   * Validate a task id, e.g. "build-api" or "task_2"
+   */
+  static validateTaskId(id: unknown, field: string = 'id'): string {
+    if (typeof id !== 'string' || !TASK_ID_PATTERN.test(id)) {
+      throw new ValidationError(
+        'Task id must be 1-100 letters, numbers, hyphens or underscores',
+        field
+      );
+    }
+    return id;
+  }
+
+  /**
+   * Validate a task priority
+   */
+  static validatePriority(priority: unknown): Task['priority'] {
+    if (!PRIORITIES.includes(priority as Task['priority'])) {
+      throw new ValidationError(`Priority must be one of: ${PRIORITIES.join(', ')}`, 'priority');
+    }
+    return priority as Task['priority'];
+  }
+
+  /**
+   * Validate a task submitted from outside the process
+   */
+  static validateTaskRequest(raw: unknown, customModes: string[] = []): TaskRequest {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      throw new ValidationError('Task must be an object', 'task');
+    }
+
+    const data = raw as Record<string, unknown>;
+    if (typeof data.mode !== 'string') {
+      throw new ValidationError('Task mode is required and must be a string', 'mode');
+    }
+
+    const dependencies = data.dependencies ?? [];
+    if (!Array.isArray(dependencies)) {
+      throw new ValidationError('Dependencies must be an array of task ids', 'dependencies');
+    }
+
+    return {
+      id: data.id === undefined ? undefined : this.validateTaskId(data.id),
+      mode: this.validateAgentMode(data.mode, customModes),
+      description: this.validateTaskDescription(data.description as string),
+      dependencies: [...new Set(dependencies.map(id => this.validateTaskId(id, 'dependencies')))],
+      priority: this.validatePriority(data.priority ?? 'medium'),
+      files: data.files === undefined ? undefined : this.validateContextFiles(data.files),
+      workspace: data.workspace === undefined ? undefined : this.validateWorkspaceContext(data.workspace),
+    };
+  }
+
+  /**
+   * Validate a list of files to attach to a task as context.
+   * Whether they can be read is checked when the task runs.
+   */
+  static validateContextFiles(files: unknown, field: string = 'files'): string[] {
+    const list = typeof files === 'string' ? [files] : files;
+    if (!Array.isArray(list) || !list.every(file => typeof file === 'string' && file.trim().length > 0)) {
+      throw new ValidationError('Files must be a list of file paths', field);
+    }
+    if (list.length > 50) {
+      throw new ValidationError('A task can attach at most 50 files', field);
+    }
+    return [...new Set(list.map(file => (file as string).trim()))];
+  }
+
+  /**
+   * Validate the project files to show a task: a directory and globs for the
+   * files whose contents go into the prompt. The directory is checked when the
+   * task runs.
+   */
+  static validateWorkspaceContext(workspace: unknown, field: string = 'workspace'): WorkspaceContext {
+    if (!workspace || typeof workspace !== 'object' || Array.isArray(workspace)) {
+      throw new ValidationError('Workspace must be an object with dir and include', field);
+    }
+
+    const data = workspace as Record<string, unknown>;
+    if (data.dir !== undefined && (typeof data.dir !== 'string' || data.dir.trim().length === 0)) {
+      throw new ValidationError('Workspace directory must be a non-empty string', `${field}.dir`);
+    }
+
+    return {
+      dir: data.dir === undefined ? undefined : (data.dir as string).trim(),
+      include: data.include === undefined ? undefined : this.validateIncludeGlobs(data.include, `${field}.include`),
+    };
+  }
+
+  /**
+   * Validate globs selecting workspace files. Each one may hold several
+   * separated by commas (commas inside {a,b} do not separate globs).
+   */
+  static validateIncludeGlobs(globs: unknown, field: string = 'include'): string[] {
+    const list = typeof globs === 'string' ? [globs] : globs;
+    if (!Array.isArray(list) || !list.every(glob => typeof glob === 'string')) {
+      throw new ValidationError('Include must be a list of globs', field);
+    }
+
+    const trimmed = (list as string[])
+      .flatMap(glob => glob.split(/,(?![^{]*\})/))
+      .map(glob => glob.trim())
+      .filter(glob => glob.length > 0);
+    if (trimmed.length === 0) {
+      throw new ValidationError('Include needs at least one glob', field);
+    }
+    if (trimmed.length > 50) {
+      throw new ValidationError('At most 50 include globs are allowed', field);
+    }
+    for (const glob of trimmed) {
+      if (path.isAbsolute(glob) || glob.split('/').includes('..')) {
+        throw new ValidationError(`Include globs must stay inside the workspace: ${glob}`, field);
+      }
+    }
+    return [...new Set(trimmed)];
+  }
+
   /**
    * Validate and resolve file path safely
    */
@@ -140,9 +272,9 @@ export class Validator {
     const resolvedPath = path.resolve(memoryPath);
     const dir = path.dirname(resolvedPath);
     
-    // Ensure it's a JSON file
-    if (!resolvedPath.endsWith('.json')) {
-      throw new ValidationError('Memory path must be a .json file', 'memoryPath');
+    // Ensure it's a JSON file or a SQLite database
+    if (!['.json', '.db', '.sqlite', '.sqlite3'].includes(path.extname(resolvedPath).toLowerCase())) {
+      throw new ValidationError('Memory path must be a .json, .db, .sqlite or .sqlite3 file', 'memoryPath');
     }
     
     // Check directory is writable
@@ -155,6 +287,125 @@ export class Validator {
     return resolvedPath;
   }
 
+  /**
+   * Validate memory retention limits from the config file
+   */
+  static validateMemoryRetention(retention: unknown): MemoryRetentionConfig {
+    if (!retention || typeof retention !== 'object' || Array.isArray(retention)) {
+      throw new ValidationError('Memory retention must be an object', 'memoryRetention');
+    }
+
+    const data = retention as Record<string, unknown>;
+    const validated: MemoryRetentionConfig = {};
+
+    if (data.maxEntries !== undefined) {
+      if (!Number.isInteger(data.maxEntries) || (data.maxEntries as number) < 1) {
+        throw new ValidationError('Memory retention maxEntries must be a positive integer', 'memoryRetention');
+      }
+      validated.maxEntries = data.maxEntries as number;
+    }
+
+    if (data.maxAgeDays !== undefined) {
+      if (typeof data.maxAgeDays !== 'number' || !(data.maxAgeDays > 0)) {
+        throw new ValidationError('Memory retention maxAgeDays must be a positive number', 'memoryRetention');
+      }
+      validated.maxAgeDays = data.maxAgeDays;
+    }
+
+    return validated;
+  }
+
+  /**
+   * Validate memory consolidation settings. The provider name is checked
+   * against the configured providers by validateConfig.
+   */
+  static validateMemoryConsolidation(consolidation: unknown): MemoryConsolidationConfig {
+    if (!consolidation || typeof consolidation !== 'object' || Array.isArray(consolidation)) {
+      throw new ValidationError('Memory consolidation must be an object', 'memoryConsolidation');
+    }
+
+    const data = consolidation as Record<string, unknown>;
+    const validated: MemoryConsolidationConfig = {};
+
+    if (data.auto !== undefined) {
+      if (typeof data.auto !== 'boolean') {
+        throw new ValidationError('Memory consolidation auto must be true or false', 'memoryConsolidation');
+      }
+      validated.auto = data.auto;
+    }
+
+    if (data.threshold !== undefined) {
+      if (typeof data.threshold !== 'number' || !(data.threshold > 0 && data.threshold <= 1)) {
+        throw new ValidationError('Memory consolidation threshold must be a number between 0 and 1', 'memoryConsolidation');
+      }
+      validated.threshold = data.threshold;
+    }
+
+    if (data.groupBy !== undefined) {
+      if (data.groupBy !== 'tag' && data.groupBy !== 'namespace') {
+        throw new ValidationError('Memory consolidation groupBy must be "tag" or "namespace"', 'memoryConsolidation');
+      }
+      validated.groupBy = data.groupBy;
+    }
+
+    if (data.minGroupSize !== undefined) {
+      if (!Number.isInteger(data.minGroupSize) || (data.minGroupSize as number) < 2) {
+        throw new ValidationError('Memory consolidation minGroupSize must be an integer of at least 2', 'memoryConsolidation');
+      }
+      validated.minGroupSize = data.minGroupSize as number;
+    }
+
+    if (data.provider !== undefined) {
+      if (typeof data.provider !== 'string') {
+        throw new ValidationError('Memory consolidation provider must be a provider name', 'memoryConsolidation');
+      }
+      validated.provider = data.provider;
+    }
+
+    return validated;
+  }
+
+  /**
+   * Validate a memory scope: "clean", "project" or "run:<name>"
+   */
+  static validateMemoryScope(scope: unknown): MemoryScopeSetting {
+    if (typeof scope !== 'string' || !(scope === 'clean' || scope === 'project' || SHARED_RUN_PATTERN.test(scope))) {
+      throw new ValidationError(
+        'Memory scope must be "clean", "project" or "run:<name>" (letters, numbers, hyphens or underscores)',
+        'memoryScope'
+      );
+    }
+    return scope as MemoryScopeSetting;
+  }
+
+  /**
+   * Validate a project name used to namespace memory
+   */
+  static validateProjectName(project: unknown): string {
+    if (typeof project !== 'string' || !PROJECT_NAME_PATTERN.test(project)) {
+      throw new ValidationError('Project must be 1-100 letters, numbers, dots, hyphens or underscores', 'project');
+    }
+    return project;
+  }
+
+  /**
+   * Validate a date filter: an ISO date such as 2024-05-01, or an age such as
+   * 7d or 12h meaning that long ago
+   */
+  static validateDate(value: unknown, field: string): Date {
+    const relative = typeof value === 'string' ? /^(\d+)([dh])$/.exec(value.trim()) : null;
+    if (relative) {
+      const hours = Number(relative[1]) * (relative[2] === 'd' ? 24 : 1);
+      return new Date(Date.now() - hours * 60 * 60 * 1000);
+    }
+
+    const date = typeof value === 'string' ? new Date(value) : undefined;
+    if (!date || isNaN(date.getTime())) {
+      throw new ValidationError(`${field} must be a date (e.g. 2024-05-01) or an age (e.g. 7d, 12h)`, field);
+    }
+    return date;
+  }
+
   /**
    * Validate parallel agents count
    */
@@ -177,9 +428,198 @@ export class Validator {
   }
 
   /**
-   * Validate configuration object
+   * Validate a (partial) retry policy
    */
-  static validateConfig(config: Record<string, unknown>): Record<string, unknown> {
+  static validateRetryPolicy(policy: unknown, field: string = 'retryPolicy'): Partial<RetryPolicy> {
+    if (!policy || typeof policy !== 'object' || Array.isArray(policy)) {
+      throw new ValidationError('Retry policy must be an object', field);
+    }
+
+    const data = policy as Record<string, unknown>;
+    const validated: Partial<RetryPolicy> = {};
+
+    if (data.maxAttempts !== undefined) {
+      if (!Number.isInteger(data.maxAttempts) || (data.maxAttempts as number) < 1 || (data.maxAttempts as number) > 10) {
+        throw new ValidationError('Retry maxAttempts must be an integer between 1 and 10', field);
+      }
+      validated.maxAttempts = data.maxAttempts as number;
+    }
+
+    for (const key of ['backoffMs', 'maxBackoffMs'] as const) {
+      if (data[key] !== undefined) {
+        if (!Number.isInteger(data[key]) || (data[key] as number) < 0) {
+          throw new ValidationError(`Retry ${key} must be a non-negative integer`, field);
+        }
+        validated[key] = data[key] as number;
+      }
+    }
+
+    if (data.retryOn !== undefined) {
+      const retryable: ErrorClass[] = ['network', 'rate-limit', 'timeout', 'unknown'];
+      if (!Array.isArray(data.retryOn) || !data.retryOn.every(c => retryable.includes(c as ErrorClass))) {
+        throw new ValidationError(
+          `Retry retryOn must be a list of error classes: ${retryable.join(', ')}`,
+          field
+        );
+      }
+      validated.retryOn = data.retryOn as ErrorClass[];
+    }
+
+    return validated;
+  }
+
+  /**
+   * Validate an LLM provider definition
+   */
+  static validateProviderConfig(name: string, provider: unknown): ProviderConfig {
+    const field = `providers.${name}`;
+    if (!/^[a-zA-Z0-9_-]+$/.test(name)) {
+      throw new ValidationError(`Invalid provider name: ${name}`, 'providers');
+    }
+    if (!provider || typeof provider !== 'object' || Array.isArray(provider)) {
+      throw new ValidationError(`Provider "${name}" must be an object`, field);
+    }
+
+    const data = provider as Record<string, unknown>;
+    const types = ['gemini', 'openai', 'ollama', 'mock'];
+    if (!types.includes(data.type as string)) {
+      throw new ValidationError(`Provider "${name}" type must be one of: ${types.join(', ')}`, field);
+    }
+
+    const validated: ProviderConfig = { type: data.type as ProviderConfig['type'] };
+
+    if (data.baseUrl !== undefined) {
+      let url: URL;
+      try {
+        url = new URL(String(data.baseUrl));
+      } catch (error) {
+        throw new ValidationError(`Provider "${name}" baseUrl is not a valid URL`, field);
+      }
+      if (!['http:', 'https:'].includes(url.protocol)) {
+        throw new ValidationError(`Provider "${name}" baseUrl must use http or https`, field);
+      }
+      validated.baseUrl = url.toString();
+    }
+
+    for (const key of ['model', 'apiKeyEnv', 'fixture'] as const) {
+      if (data[key] !== undefined) {
+        if (typeof data[key] !== 'string' || !(data[key] as string).trim()) {
+          throw new ValidationError(`Provider "${name}" ${key} must be a non-empty string`, field);
+        }
+        validated[key] = (data[key] as string).trim();
+      }
+    }
+
+    if (data.apiKey !== undefined) {
+      validated.apiKey = this.validateApiKey(data.apiKey as string);
+    }
+
+    if (data.temperature !== undefined) {
+      if (typeof data.temperature !== 'number' || data.temperature < 0 || data.temperature > 2) {
+        throw new ValidationError(`Provider "${name}" temperature must be between 0 and 2`, field);
+      }
+      validated.temperature = data.temperature;
+    }
+
+    if (data.maxOutputTokens !== undefined) {
+      if (!Number.isInteger(data.maxOutputTokens) || (data.maxOutputTokens as number) < 1) {
+        throw new ValidationError(`Provider "${name}" maxOutputTokens must be a positive integer`, field);
+      }
+      validated.maxOutputTokens = data.maxOutputTokens as number;
+    }
+
+    if (data.structuredOutput !== undefined) {
+      if (typeof data.structuredOutput !== 'boolean') {
+        throw new ValidationError(`Provider "${name}" structuredOutput must be true or false`, field);
+      }
+      validated.structuredOutput = data.structuredOutput;
+    }
+
+    return validated;
+  }
+
+  /**
+   * Validate the prompt and generation settings a config gives a mode
+   */
+  static validateModeOverrides(mode: string, settings: Record<string, unknown>): Record<string, unknown> {
+    const field = `modes.${mode}`;
+    const validated: Record<string, unknown> = {};
+
+    for (const key of ['name', 'icon', 'description', 'model'] as const) {
+      if (settings[key] !== undefined) {
+        const value = settings[key];
+        if (typeof value !== 'string' || !value.trim() || value.length > 200) {
+          throw new ValidationError(`Mode "${mode}" ${key} must be a non-empty string of at most 200 characters`, field);
+        }
+        validated[key] = value.trim();
+      }
+    }
+
+    if (settings.systemPrompt !== undefined) {
+      if (typeof settings.systemPrompt !== 'string' || !settings.systemPrompt.trim()) {
+        throw new ValidationError(`Mode "${mode}" systemPrompt must be a non-empty string`, field);
+      }
+      if (settings.systemPrompt.length > 10000) {
+        throw new ValidationError(`Mode "${mode}" systemPrompt is too long (max 10000 characters)`, field);
+      }
+      validated.systemPrompt = settings.systemPrompt.trim();
+    }
+
+    if (settings.temperature !== undefined) {
+      if (typeof settings.temperature !== 'number' || settings.temperature < 0 || settings.temperature > 2) {
+        throw new ValidationError(`Mode "${mode}" temperature must be a number between 0 and 2`, field);
+      }
+      validated.temperature = settings.temperature;
+    }
+
+    if (settings.maxTokens !== undefined) {
+      if (!Number.isInteger(settings.maxTokens) || (settings.maxTokens as number) < 1) {
+        throw new ValidationError(`Mode "${mode}" maxTokens must be a positive integer`, field);
+      }
+      validated.maxTokens = settings.maxTokens;
+    }
+
+    if (settings.contextTokens !== undefined) {
+      if (!Number.isInteger(settings.contextTokens) || (settings.contextTokens as number) < 256) {
+        throw new ValidationError(`Mode "${mode}" contextTokens must be an integer of at least 256`, field);
+      }
+      validated.contextTokens = settings.contextTokens;
+    }
+
+    if (settings.tools !== undefined) {
+      if (!Array.isArray(settings.tools) || settings.tools.some(tool => typeof tool !== 'string' || !tool.trim())) {
+        throw new ValidationError(`Mode "${mode}" tools must be a list of tool names`, field);
+      }
+      validated.tools = settings.tools.map(tool => (tool as string).trim());
+    }
+
+    if (settings.output !== undefined) {
+      if (!Array.isArray(settings.output) || settings.output.length === 0 ||
+          settings.output.some(section => !RESULT_SECTIONS.includes(section as ResultSection))) {
+        throw new ValidationError(
+          `Mode "${mode}" output must be a list of result sections: ${RESULT_SECTIONS.join(', ')}`,
+          field
+        );
+      }
+      validated.output = [...new Set(settings.output)];
+    }
+
+    if (settings.editsFiles !== undefined) {
+      if (typeof settings.editsFiles !== 'boolean') {
+        throw new ValidationError(`Mode "${mode}" editsFiles must be true or false`, field);
+      }
+      validated.editsFiles = settings.editsFiles;
+    }
+
+    return validated;
+  }
+
+  /**
+   * Validate configuration object. Custom modes need a systemPrompt unless
+   * they are in `modeFileModes`, the modes defined by mode files, whose
+   * settings the config may override.
+   */
+  static validateConfig(config: Record<string, unknown>, modeFileModes: string[] = []): Record<string, unknown> {
     if (!config || typeof config !== 'object') {
       throw new ValidationError('Configuration must be an object', 'config');
     }
@@ -194,6 +634,32 @@ export class Validator {
       validated.memoryPath = this.validateMemoryPath(config.memoryPath as string);
     }
     
+    if (config.memoryBackend !== undefined) {
+      if (!['json', 'sqlite'].includes(config.memoryBackend as string)) {
+        throw new ValidationError('Memory backend must be "json" or "sqlite"', 'memoryBackend');
+      }
+      validated.memoryBackend = config.memoryBackend;
+    }
+    
+    if (config.memoryEmbeddings !== undefined) {
+      if (!['gemini', 'local'].includes(config.memoryEmbeddings as string)) {
+        throw new ValidationError('Memory embeddings must be "gemini" or "local"', 'memoryEmbeddings');
+      }
+      validated.memoryEmbeddings = config.memoryEmbeddings;
+    }
+    
+    if (config.memoryRetention !== undefined) {
+      validated.memoryRetention = this.validateMemoryRetention(config.memoryRetention);
+    }
+    
+    if (config.memoryScope !== undefined) {
+      validated.memoryScope = this.validateMemoryScope(config.memoryScope);
+    }
+    
+    if (config.project !== undefined) {
+      validated.project = this.validateProjectName(config.project);
+    }
+    
     if (config.apiKey !== undefined) {
       validated.apiKey = this.validateApiKey(config.apiKey as string);
     }
@@ -205,6 +671,94 @@ export class Validator {
       validated.authMethod = config.authMethod;
     }
     
+    if (config.statePath !== undefined) {
+      if (typeof config.statePath !== 'string' || config.statePath.trim().length === 0) {
+        throw new ValidationError('State path must be a non-empty string', 'statePath');
+      }
+      validated.statePath = config.statePath.trim();
+    }
+    
+    if (config.modesPath !== undefined) {
+      if (typeof config.modesPath !== 'string' || config.modesPath.trim().length === 0) {
+        throw new ValidationError('Modes path must be a non-empty string', 'modesPath');
+      }
+      validated.modesPath = config.modesPath.trim();
+    }
+    
+    if (config.socketPath !== undefined) {
+      if (typeof config.socketPath !== 'string' || config.socketPath.trim().length === 0) {
+        throw new ValidationError('Socket path must be a non-empty string', 'socketPath');
+      }
+      validated.socketPath = config.socketPath.trim();
+    }
+    
+    if (config.retryPolicy !== undefined) {
+      validated.retryPolicy = this.validateRetryPolicy(config.retryPolicy);
+    }
+    
+    if (config.providers !== undefined) {
+      if (!config.providers || typeof config.providers !== 'object' || Array.isArray(config.providers)) {
+        throw new ValidationError('Providers must be an object keyed by provider name', 'providers');
+      }
+      
+      const providers: Record<string, ProviderConfig> = {};
+      for (const [name, provider] of Object.entries(config.providers as Record<string, unknown>)) {
+        providers[name] = this.validateProviderConfig(name, provider);
+      }
+      validated.providers = providers;
+    }
+    
+    const knownProviders = ['gemini', 'mock', ...Object.keys((validated.providers as Record<string, unknown>) || {})];
+    const validateProviderName = (name: unknown, field: string): string => {
+      if (typeof name !== 'string' || !knownProviders.includes(name)) {
+        throw new ValidationError(
+          `Unknown provider "${name}". Define it under "providers" or use one of: ${knownProviders.join(', ')}`,
+          field
+        );
+      }
+      return name;
+    };
+    
+    if (config.provider !== undefined) {
+      validated.provider = validateProviderName(config.provider, 'provider');
+    }
+    
+    if (config.memoryConsolidation !== undefined) {
+      const consolidation = this.validateMemoryConsolidation(config.memoryConsolidation);
+      if (consolidation.provider !== undefined) {
+        validateProviderName(consolidation.provider, 'memoryConsolidation.provider');
+      }
+      validated.memoryConsolidation = consolidation;
+    }
+    
+    if (config.modes !== undefined) {
+      if (!config.modes || typeof config.modes !== 'object' || Array.isArray(config.modes)) {
+        throw new ValidationError('Modes must be an object keyed by mode name', 'modes');
+      }
+      
+      const modes: Record<string, Record<string, unknown>> = {};
+      for (const [mode, settings] of Object.entries(config.modes as Record<string, unknown>)) {
+        const { retryPolicy, provider, ...overrides } = (settings as Record<string, unknown> | null) || {};
+        const validatedMode = this.validateModeOverrides(mode, overrides);
+        if (!isBuiltInMode(mode)) {
+          this.validateModeName(mode);
+          if (!validatedMode.systemPrompt && !modeFileModes.includes(mode)) {
+            throw new ValidationError(`Custom mode "${mode}" must define a systemPrompt`, `modes.${mode}`);
+          }
+        }
+        if (retryPolicy !== undefined) {
+          validatedMode.retryPolicy = this.validateRetryPolicy(retryPolicy, `modes.${mode}.retryPolicy`);
+        }
+        if (provider !== undefined) {
+          validatedMode.provider = validateProviderName(provider, `modes.${mode}.provider`);
+        }
+        if (Object.keys(validatedMode).length > 0) {
+          modes[mode] = validatedMode;
+        }
+      }
+      validated.modes = modes;
+    }
+    
     return validated;
   }
 
@@ -0,0 +1,43 @@
+/**
+ * Tests for Repl
+ */
+
+import path from 'path';
+import { Repl } from '../../src/commands/repl';
+import { Orchestrator } from '../../src/core/orchestrator';
+import { createTempDir, cleanupTempDir } from '../helpers';
+
+describe('Repl', () => {
+  let tempDir: string;
+  let orchestrator: Orchestrator;
+  let lines: string[];
+  let repl: Repl;
+
+  beforeEach(async () => {
+    tempDir = await createTempDir();
+    orchestrator = new Orchestrator({ provider: 'mock', memoryPath: path.join(tempDir, 'memory.json') });
+    lines = [];
+    repl = new Repl(orchestrator, line => lines.push(line));
+  });
+
+  afterEach(async () => {
+    await orchestrator.stop();
+    await cleanupTempDir(tempDir);
+  });
+
+  it('should queue tasks with generated ids', async () => {
+    await repl.execute('add coder "Build it"');
+    await repl.execute('add tester "Test it" --after task-1');
+
+    expect(lines).toEqual(['+ task-1 coder (medium)', '+ task-2 tester (medium) after task-1']);
+    expect(orchestrator.getTask('task-2')?.dependencies).toEqual(['task-1']);
+  });
+
+  it('should refuse tasks that depend on unknown tasks', async () => {
+    await repl.execute('add tester "Test it" --after typo');
+
+    expect(lines).toEqual(['Error: Task task-1 depends on unknown task: task-1 -> typo']);
+    expect(orchestrator.getTasks()).toEqual([]);
+    expect(orchestrator.getStatus().quarantinedTasks).toBe(0);
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Tests for ApiServer
+ */
+
+import path from 'path';
+import { Orchestrator } from '../../src/core/orchestrator';
+import { ApiServer } from '../../src/core/api-server';
+import { Task } from '../../src/types';
+import { createTempDir, cleanupTempDir, waitFor } from '../helpers';
+
+const TOKEN = 'test-token-0123456789';
+
+describe('ApiServer', () => {
+  let tempDir: string;
+  let orchestrator: Orchestrator;
+  let api: ApiServer;
+  let baseUrl: string;
+
+  const request = (pathname: string, init: RequestInit = {}, token: string = TOKEN) =>
+    fetch(`${baseUrl}${pathname}`, {
+      ...init,
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json', ...init.headers },
+    });
+
+  beforeEach(async () => {
+    tempDir = await createTempDir();
+    orchestrator = new Orchestrator({
+      maxAgents: 2,
+      memoryPath: path.join(tempDir, 'memory.json'),
+      provider: 'mock',
+    });
+    api = new ApiServer(orchestrator, { token: TOKEN, port: 0 });
+    await orchestrator.start();
+    const address = await api.listen();
+    baseUrl = `http://127.0.0.1:${address.port}`;
+  });
+
+  afterEach(async () => {
+    await api.close();
+    await orchestrator.stop();
+    await cleanupTempDir(tempDir);
+  });
+
+  it('should reject requests without the bearer token', async () => {
+    const missing = await fetch(`${baseUrl}/tasks`);
+    const wrong = await request('/tasks', {}, 'not-the-token');
+    const health = await fetch(`${baseUrl}/health`);
+
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get('www-authenticate')).toBe('Bearer');
+    expect(wrong.status).toBe(401);
+    expect(health.status).toBe(200);
+  });
+
+  it('should queue a task and return its result once finished', async () => {
+    const created = await request('/tasks', {
+      method: 'POST',
+      body: JSON.stringify({ id: 'slugify', mode: 'coder', description: 'Write a slugify helper' }),
+    });
+    expect(created.status).toBe(201);
+    expect(await created.json()).toMatchObject({ id: 'slugify', mode: 'coder', status: 'pending' });
+
+    await orchestrator.waitForCompletion(['slugify']);
+    const result = await (await request('/tasks/slugify/result')).json();
+    const task = await (await request('/tasks/slugify')).json() as Task;
+
+    const finished = orchestrator.getTask('slugify');
+    expect(result).toEqual({ id: 'slugify', status: 'completed', result: finished?.result, output: finished?.output });
+    expect(task.status).toBe('completed');
+  });
+
+  it('should answer 409 for results of unfinished tasks', async () => {
+    orchestrator.pause();
+    await request('/tasks', { method: 'POST', body: JSON.stringify({ id: 'held', mode: 'coder', description: 'Wait' }) });
+
+    const response = await request('/tasks/held/result');
+
+    expect(response.status).toBe(409);
+  });
+
+  it('should validate tasks with the Validator rules', async () => {
+    const badMode = await request('/tasks', { method: 'POST', body: JSON.stringify({ mode: 'wizard', description: 'x' }) });
+    const badPriority = await request('/tasks', {
+      method: 'POST',
+      body: JSON.stringify({ mode: 'coder', description: 'x', priority: 'urgent' }),
+    });
+    const badJson = await request('/tasks', { method: 'POST', body: '{' });
+
+    expect(badMode.status).toBe(400);
+    expect(await badMode.json()).toMatchObject({ error: { field: 'mode' } });
+    expect(badPriority.status).toBe(400);
+    expect(await badPriority.json()).toMatchObject({ error: { field: 'priority' } });
+    expect(badJson.status).toBe(400);
+  });
+
+  it('should refuse tasks that depend on unknown tasks', async () => {
+    const response = await request('/tasks', {
+      method: 'POST',
+      body: JSON.stringify({ id: 'orphan', mode: 'coder', description: 'Build it', dependencies: ['typo'] }),
+    });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: { message: 'Task orphan depends on unknown task: orphan -> typo', kind: 'unknown-dependency', chain: ['orphan', 'typo'] },
+    });
+    expect(orchestrator.getStatus().quarantinedTasks).toBe(0);
+  });
+
+  it('should run a workflow sent as YAML', async () => {
+    const response = await request('/workflows', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/yaml' },
+      body: [
+        'name: api',
+        'steps:',
+        '  - id: spec',
+        '    mode: specification',
+        '    task: Write requirements',
+        '  - id: design',
+        '    mode: architect',
+        '    task: Design it',
+        '    dependsOn: [spec]',
+      ].join('\n'),
+    });
+    const body = await response.json() as { workflowId: string; tasks: Task[] };
+
+    expect(response.status).toBe(201);
+    expect(body.workflowId).toBe('wf-1');
+    expect(body.tasks.map(task => task.id)).toEqual(['wf-1-spec', 'wf-1-design']);
+
+    const settled = await orchestrator.waitForCompletion(['wf-1-spec', 'wf-1-design']);
+    expect(settled.every(task => task.status === 'completed')).toBe(true);
+  });
+
+  it('should cancel a task with DELETE', async () => {
+    orchestrator.pause();
+    await request('/tasks', { method: 'POST', body: JSON.stringify({ id: 'held', mode: 'coder', description: 'Wait' }) });
+
+    const response = await request('/tasks/held', { method: 'DELETE' });
+
+    expect(await response.json()).toEqual({ id: 'held', cancelled: true, status: 'cancelled' });
+    expect((await request('/tasks/missing', { method: 'DELETE' })).status).toBe(404);
+  });
+
+  it('should report status and running agents', async () => {
+    const status = await (await request('/status')).json();
+    const agents = await (await request('/agents')).json();
+
+    expect(status).toMatchObject({ runId: orchestrator.getRunId(), isRunning: true });
+    expect(agents).toEqual([]);
+  });
+
+  it('should stream orchestrator events', async () => {
+    const response = await request('/events');
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let received = '';
+    const readUntilCompleted = (async () => {
+      while (!received.includes('event: taskCompleted')) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        received += decoder.decode(value);
+      }
+    })();
+
+    await waitFor(() => orchestrator.listenerCount('taskCompleted') > 0);
+    await request('/tasks', { method: 'POST', body: JSON.stringify({ id: 'streamed', mode: 'coder', description: 'Go' }) });
+    await readUntilCompleted;
+    await reader.cancel();
+
+    expect(received).toContain('event: agentSpawned');
+    expect(received).toContain('event: agentCompleted');
+    expect(received).toMatch(/event: taskCompleted\ndata: \{"id":"streamed"/);
+  });
+
+  it('should answer unknown routes with 404', async () => {
+    expect((await request('/nothing')).status).toBe(404);
+    expect((await request('/tasks/a/b/c')).status).toBe(404);
+  });
+
+  it('should answer malformed task ids with 400', async () => {
+    const response = await request('/tasks/%E0%A4%A');
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: { message: 'Malformed task id: %E0%A4%A' } });
+  });
+});
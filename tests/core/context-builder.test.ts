@@ -0,0 +1,100 @@
+/**
+ * Tests for ContextBuilder
+ */
+
+import path from 'path';
+import fs from 'fs-extra';
+import { ContextBuilder, ContextCandidate } from '../../src/core/context-builder';
+import { createTempDir, cleanupTempDir } from '../helpers';
+
+const candidate = (overrides: Partial<ContextCandidate>): ContextCandidate => ({
+  source: 'memory',
+  id: 'item',
+  title: 'Item',
+  content: 'Some content',
+  priority: 0.5,
+  ...overrides,
+});
+
+describe('ContextBuilder', () => {
+  describe('build', () => {
+    it('should include everything that fits, highest priority first', () => {
+      const { items, report } = ContextBuilder.build([
+        candidate({ id: 'low', priority: 0.2 }),
+        candidate({ id: 'input', source: 'input', priority: 3 }),
+        candidate({ id: 'high', priority: 0.9 }),
+      ], 1000);
+
+      expect(items.map(item => item.id)).toEqual(['input', 'high', 'low']);
+      expect(report.dropped).toEqual([]);
+      expect(report.usedTokens).toBe(report.included.reduce((sum, item) => sum + item.tokens, 0));
+    });
+
+    it('should shorten the first item that does not fit and drop the rest', () => {
+      const { items, report } = ContextBuilder.build([
+        candidate({ id: 'big', content: 'x'.repeat(2000), priority: 2 }),
+        candidate({ id: 'next', priority: 1 }),
+      ], 200);
+
+      expect(items).toHaveLength(1);
+      expect(items[0].truncated).toBe(true);
+      expect(items[0].content).toContain('shortened to fit');
+      expect(report.included[0]).toEqual(expect.objectContaining({ id: 'big', originalTokens: 503 }));
+      expect(report.usedTokens).toBeLessThanOrEqual(200);
+      expect(report.dropped).toEqual([expect.objectContaining({ id: 'next', reason: 'budget' })]);
+    });
+
+    it('should drop items rather than keep excerpts too small to be useful', () => {
+      const { items, report } = ContextBuilder.build([
+        candidate({ id: 'big', content: 'x'.repeat(2000) }),
+      ], 20);
+
+      expect(items).toEqual([]);
+      expect(report.dropped[0].reason).toBe('budget');
+    });
+
+    it('should treat a negative budget as empty', () => {
+      const { report } = ContextBuilder.build([candidate({})], -50);
+
+      expect(report.budgetTokens).toBe(0);
+      expect(report.dropped).toHaveLength(1);
+    });
+  });
+
+  describe('excerpt', () => {
+    it('should keep the beginning and end of long text', () => {
+      const text = `START${'-'.repeat(1000)}END`;
+      const excerpt = ContextBuilder.excerpt(text, 100);
+
+      expect(excerpt.startsWith('START')).toBe(true);
+      expect(excerpt.endsWith('END')).toBe(true);
+      expect(excerpt.length).toBeLessThanOrEqual(400);
+      expect(ContextBuilder.excerpt('short', 100)).toBe('short');
+    });
+  });
+
+  describe('readFile', () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+      tempDir = await createTempDir();
+    });
+
+    afterEach(async () => {
+      await cleanupTempDir(tempDir);
+    });
+
+    it('should read text files inside the base directory', async () => {
+      await fs.writeFile(path.join(tempDir, 'notes.ts'), 'export const a = 1;');
+
+      await expect(ContextBuilder.readFile('notes.ts', tempDir)).resolves.toBe('export const a = 1;');
+    });
+
+    it('should reject binary files and paths outside the base directory', async () => {
+      await fs.writeFile(path.join(tempDir, 'image.bin'), Buffer.from([0, 1, 2]));
+
+      await expect(ContextBuilder.readFile('image.bin', tempDir)).rejects.toThrow('Not a text file');
+      await expect(ContextBuilder.readFile('../outside.txt', tempDir)).rejects.toThrow();
+    });
+  });
+});
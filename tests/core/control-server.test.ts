@@ -0,0 +1,166 @@
+/**
+ * Tests for ControlServer and ControlClient
+ */
+
+import fs from 'fs-extra';
+import net from 'net';
+import path from 'path';
+import { Orchestrator } from '../../src/core/orchestrator';
+import { ControlClient } from '../../src/core/control-client';
+import { ControlError, RPC_ERRORS } from '../../src/core/control-protocol';
+import { Task } from '../../src/types';
+import { createTempDir, cleanupTempDir } from '../helpers';
+
+describe('ControlServer', () => {
+  let tempDir: string;
+  let socketPath: string;
+  let orchestrator: Orchestrator;
+  let client: ControlClient | undefined;
+
+  beforeEach(async () => {
+    tempDir = await createTempDir();
+    socketPath = path.join(tempDir, 'control.sock');
+    orchestrator = new Orchestrator({
+      maxAgents: 2,
+      memoryPath: path.join(tempDir, 'memory.json'),
+      provider: 'mock',
+      socketPath,
+    });
+    await orchestrator.start();
+    client = await ControlClient.connect(socketPath);
+  });
+
+  afterEach(async () => {
+    client?.close();
+    await orchestrator.stop();
+    await cleanupTempDir(tempDir);
+  });
+
+  it('should run submitted tasks and report their results', async () => {
+    const added = await client!.call<Task>('addTask', { id: 'remote', mode: 'coder', description: 'Write a slugify helper' });
+    const [task] = await client!.call<Task[]>('wait', { taskIds: ['remote'] });
+
+    expect(added.status).toBe('pending');
+    expect(added.createdAt).toBeInstanceOf(Date);
+    expect(task.status).toBe('completed');
+    expect(task.result).toBe(orchestrator.getTask('remote')?.result);
+  });
+
+  it('should report status with every task', async () => {
+    await client!.call('addTask', { mode: 'coder', description: 'First task' });
+    const status = await client!.call<{ runId: string; isRunning: boolean; tasks: Task[] }>('getStatus');
+
+    expect(status.runId).toBe(orchestrator.getRunId());
+    expect(status.isRunning).toBe(true);
+    expect(status.tasks.map(task => task.id)).toEqual(['task-1']);
+  });
+
+  it('should report running agents and rate limits', async () => {
+    await expect(client!.call('getAgents')).resolves.toEqual([]);
+    await expect(client!.call('getRateLimits')).resolves.toEqual(orchestrator.getRateLimitStatus());
+  });
+
+  it('should cancel tasks', async () => {
+    orchestrator.pause();
+    await client!.call('addTask', { id: 'held', mode: 'coder', description: 'Never runs' });
+
+    await expect(client!.call('cancel', { taskId: 'held' })).resolves.toEqual({ cancelled: true });
+    expect(orchestrator.getTask('held')?.status).toBe('cancelled');
+  });
+
+  it('should push subscribed events to the client', async () => {
+    await client!.subscribe(['taskCompleted', 'agentOutput']);
+    const chunks: string[] = [];
+    client!.on('agentOutput', (output: { chunk: string }) => chunks.push(output.chunk));
+    const completed = new Promise<Task>(resolve => client!.once('taskCompleted', resolve));
+
+    await client!.call('addTask', { id: 'watched', mode: 'coder', description: 'Stream me' });
+    const task = await completed;
+
+    expect(task.id).toBe('watched');
+    expect(task.updatedAt).toBeInstanceOf(Date);
+    expect(JSON.parse(chunks.join(''))).toEqual(task.output);
+  });
+
+  it('should answer memory queries', async () => {
+    await client!.call('addTask', { id: 'remembered', mode: 'coder', description: 'Store a result' });
+    const [task] = await client!.call<Task[]>('wait', { taskIds: ['remembered'] });
+
+    const query = task.result!.split(/\s+/)[0];
+    const entries = await client!.call<Array<{ timestamp: Date }>>('memory.search', { query, tags: ['coder'] });
+    const context = await client!.call<unknown[]>('memory.context', { mode: 'coder' });
+    const relevant = await client!.call<Array<{ score: number }>>('memory.context', { mode: 'coder', query: task.result });
+
+    expect(entries.length).toBeGreaterThan(0);
+    expect(entries[0].timestamp).toBeInstanceOf(Date);
+    expect(context.length).toBeGreaterThan(0);
+    expect(relevant[0].score).toBeGreaterThan(0.9);
+  });
+
+  it('should reject invalid params with the validation message', async () => {
+    const request = client!.call('addTask', { mode: 'not-a-mode', description: 'Oops' });
+
+    await expect(request).rejects.toBeInstanceOf(ControlError);
+    await expect(request).rejects.toMatchObject({ code: RPC_ERRORS.INVALID_PARAMS });
+    await expect(request).rejects.toThrow('Invalid agent mode');
+  });
+
+  it('should refuse tasks that depend on unknown tasks', async () => {
+    const request = client!.call('addTask', { id: 'orphan', mode: 'coder', description: 'Oops', dependencies: ['typo'] });
+
+    await expect(request).rejects.toMatchObject({
+      code: RPC_ERRORS.INVALID_PARAMS,
+      message: 'Task orphan depends on unknown task: orphan -> typo',
+      data: { kind: 'unknown-dependency', chain: ['orphan', 'typo'] },
+    });
+    expect(orchestrator.getStatus().quarantinedTasks).toBe(0);
+  });
+
+  it('should reject unknown methods and events', async () => {
+    await expect(client!.call('dropDatabase')).rejects.toMatchObject({ code: RPC_ERRORS.METHOD_NOT_FOUND });
+    await expect(client!.subscribe(['everything'])).rejects.toMatchObject({ code: RPC_ERRORS.INVALID_PARAMS });
+  });
+
+  it('should answer malformed lines with a parse error', async () => {
+    const socket = net.createConnection(socketPath);
+    const reply = await new Promise<string>(resolve => {
+      socket.once('data', data => resolve(data.toString()));
+      socket.write('{not json\n');
+    });
+    socket.destroy();
+
+    expect(JSON.parse(reply)).toMatchObject({ id: null, error: { code: RPC_ERRORS.PARSE_ERROR } });
+  });
+
+  it('should refuse to start a second orchestrator on the same socket', async () => {
+    const second = new Orchestrator({
+      memoryPath: path.join(tempDir, 'memory-2.json'),
+      provider: 'mock',
+      socketPath,
+    });
+
+    await expect(second.start()).rejects.toThrow('already listening');
+  });
+
+  it('should replace a stale socket file and remove it on stop', async () => {
+    client!.close();
+    client = undefined;
+    await orchestrator.stop();
+    expect(await fs.pathExists(socketPath)).toBe(false);
+
+    await fs.writeFile(socketPath, '');
+    orchestrator = new Orchestrator({
+      memoryPath: path.join(tempDir, 'memory-3.json'),
+      provider: 'mock',
+      socketPath,
+    });
+    await orchestrator.start();
+
+    expect(await ControlClient.isListening(socketPath)).toBe(true);
+  });
+
+  it('should explain when nothing is listening', async () => {
+    await expect(ControlClient.connect(path.join(tempDir, 'missing.sock')))
+      .rejects.toThrow('No orchestrator is listening');
+  });
+});
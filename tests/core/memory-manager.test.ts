@@ -3,6 +3,9 @@
  */
 
 import { MemoryManager } from '../../src/core/memory-manager';
+import { JsonMemoryStore } from '../../src/memory/json-memory-store';
+import { MemoryConsolidator, CONSOLIDATED_TAG } from '../../src/memory/memory-consolidator';
+import { MockProvider } from '../../src/providers/mock-provider';
 import { MemoryFactory, createTempDir, cleanupTempDir } from '../helpers';
 import path from 'path';
 import fs from 'fs-extra';
@@ -19,6 +22,7 @@ describe('MemoryManager', () => {
   });
 
   afterEach(async () => {
+    await manager.close();
     await cleanupTempDir(tempDir);
   });
 
@@ -67,6 +71,7 @@ describe('MemoryManager', () => {
 
       const dirExists = await fs.pathExists(path.dirname(deepPath));
       expect(dirExists).toBe(true);
+      await deepManager.close();
     });
   });
 
@@ -372,6 +377,7 @@ describe('MemoryManager', () => {
 
       const results = await newManager.search('Persistent data');
       expect(results).toHaveLength(1);
+      await newManager.close();
     });
 
     it('should create valid JSON', async () => {
@@ -434,6 +440,7 @@ describe('MemoryManager', () => {
 
       const allResults = await newManager.search('Content');
       expect(allResults.length).toBeLessThanOrEqual(1000);
+      await newManager.close();
     });
   });
 
@@ -481,6 +488,7 @@ describe('MemoryManager', () => {
       const results = await newManager.search('Date test');
 
       expect(results[0].timestamp).toBeInstanceOf(Date);
+      await newManager.close();
     });
   });
 
@@ -523,4 +531,290 @@ describe('MemoryManager', () => {
       });
     });
   });
-});
\ No newline at end of file
+
+  describe('backends', () => {
+    it('should pick the backend from the file extension', () => {
+      expect(manager.getBackendType()).toBe('json');
+      expect(new MemoryManager(path.join(tempDir, 'memory.db')).getBackendType()).toBe('sqlite');
+      expect(new MemoryManager(path.join(tempDir, 'memory.json'), { backend: 'sqlite' }).getBackendType()).toBe('sqlite');
+    });
+
+    it('should store and search through SQLite', async () => {
+      const sqliteManager = new MemoryManager(path.join(tempDir, 'memory.db'));
+      await sqliteManager.initialize();
+
+      await sqliteManager.store({ agentId: 'agent-1', type: 'result', content: 'Stored in SQLite', tags: ['coder'] });
+
+      expect(await sqliteManager.search('sqlite', ['coder'])).toHaveLength(1);
+      expect((await sqliteManager.getContext('coder'))[0].summary).toContain('Stored in SQLite');
+
+      await sqliteManager.close();
+    });
+
+    it('should apply configured retention', async () => {
+      const limited = new MemoryManager(memoryPath, { retention: MemoryManager.toRetention({ maxEntries: 2 }) });
+      await limited.initialize();
+
+      for (let i = 0; i < 4; i++) {
+        await limited.store({ agentId: 'agent-1', type: 'knowledge', content: `Kept ${i}`, tags: [] });
+      }
+
+      expect((await limited.search('Kept')).length).toBe(2);
+      await limited.close();
+    });
+  });
+
+  describe('semantic search', () => {
+    beforeEach(async () => {
+      await manager.initialize();
+    });
+
+    it('should rank context by relevance to the task rather than recency', async () => {
+      await manager.store({ agentId: 'agent-1', type: 'result', content: 'Designed the payment gateway retry logic', tags: ['architect'] });
+      await manager.store({ agentId: 'agent-2', type: 'result', content: 'Updated the README badges', tags: ['coder'] });
+      await manager.store({ agentId: 'agent-3', type: 'result', content: 'Wrote onboarding docs', tags: ['coder'] });
+
+      const context = await manager.getRelevantContext('Implement payment gateway retry handling', 'coder');
+
+      expect(context[0].summary).toContain('payment gateway');
+      expect(context[0].score).toBeGreaterThan(0);
+      expect(context.every(item => item.score! > 0)).toBe(true);
+    });
+
+    it('should not return embeddings from searches', async () => {
+      await manager.store({ agentId: 'agent-1', type: 'knowledge', content: 'Cache invalidation notes', tags: [] });
+
+      const [similar] = await manager.searchSimilar('cache invalidation');
+      const [found] = await manager.search('Cache');
+
+      expect(similar.entry.embedding).toBeUndefined();
+      expect(found.embedding).toBeUndefined();
+    });
+
+    it('should fall back to local embeddings when the embedder fails', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const failing = new MemoryManager(path.join(tempDir, 'failing.json'), {
+        embedder: { model: 'remote', embed: jest.fn().mockRejectedValue(new Error('offline')) },
+      });
+      await failing.initialize();
+
+      await failing.store({ agentId: 'agent-1', type: 'result', content: 'Queue worker design', tags: [] });
+      const results = await failing.searchSimilar('queue worker');
+
+      expect(results).toHaveLength(1);
+      expect(warn).toHaveBeenCalledTimes(1);
+      warn.mockRestore();
+      await failing.close();
+    });
+
+    it('should re-embed entries from another embedding model', async () => {
+      await manager.store({ agentId: 'agent-1', type: 'result', content: 'Search index tuning', tags: [] });
+      await manager.flush();
+
+      const embed = jest.fn(async (texts: string[]) => texts.map(() => [1, 0]));
+      const remote = new MemoryManager(memoryPath, { embedder: { model: 'remote', embed } });
+      await remote.initialize();
+
+      const results = await remote.searchSimilar('anything');
+      await remote.flush();
+
+      expect(results).toHaveLength(1);
+      expect(embed).toHaveBeenCalledWith(['Search index tuning'], 'document');
+      const saved = await fs.readJson(memoryPath);
+      expect(saved['agent-1'][0].embedding.model).toBe('remote');
+      await remote.close();
+    });
+  });
+
+  describe('namespaces', () => {
+    beforeEach(async () => {
+      await manager.initialize();
+      await manager.store({ agentId: 'agent-1', type: 'result', content: 'Shop checkout design', tags: ['coder'], namespace: { project: 'shop', run: 'run-1' } });
+      await manager.store({ agentId: 'agent-2', type: 'result', content: 'Shop checkout tests', tags: ['coder'], namespace: { project: 'shop', run: 'run-2' } });
+      await manager.store({ agentId: 'agent-3', type: 'result', content: 'Blog checkout widget', tags: ['coder'], namespace: { project: 'blog', run: 'run-1' } });
+    });
+
+    it('should scope mode context and search', async () => {
+      const context = await manager.getContext('coder', { project: 'shop' });
+      const found = await manager.search('checkout', undefined, { project: 'shop', runs: ['run-2'] });
+
+      expect(context).toHaveLength(2);
+      expect(context.every(item => item.summary.startsWith('Shop'))).toBe(true);
+      expect(found.map(entry => entry.content)).toEqual(['Shop checkout tests']);
+    });
+
+    it('should scope relevant context', async () => {
+      const context = await manager.getRelevantContext('checkout widget', 'coder', { scope: { project: 'shop' } });
+
+      expect(context).toHaveLength(2);
+      expect(context.every(item => item.summary.startsWith('Shop'))).toBe(true);
+    });
+  });
+
+  describe('curation', () => {
+    beforeEach(async () => {
+      await manager.initialize();
+      await manager.store({ agentId: 'agent-1', type: 'decision', content: 'Use PostgreSQL', tags: ['architect'] });
+      await manager.store({ agentId: 'agent-2', type: 'error', content: 'Build failed', tags: ['coder'] });
+    });
+
+    it('should list entries by filter without embeddings', async () => {
+      const [decision] = await manager.list({ types: ['decision'] });
+
+      expect(decision.content).toBe('Use PostgreSQL');
+      expect(decision.embedding).toBeUndefined();
+      expect((await manager.get(decision.id))?.embedding).toBeDefined();
+      expect(await manager.list({ agentId: 'agent-2', tags: ['architect'] })).toHaveLength(0);
+    });
+
+    it('should pin, tag and delete entries', async () => {
+      const [decision, error] = await manager.list({ order: 'asc' });
+
+      expect(await manager.pin([decision.id, 'missing'])).toEqual([decision.id]);
+      expect((await manager.tag(decision.id, { add: ['database'], remove: ['architect'] }))?.tags).toEqual(['database']);
+      expect(await manager.tag('missing', { add: ['x'] })).toBeUndefined();
+      expect(await manager.delete([error.id])).toBe(1);
+
+      const [remaining] = await manager.list();
+      expect(remaining).toMatchObject({ id: decision.id, pinned: true, tags: ['database'] });
+    });
+
+    it('should keep pinned entries past the retention limits', async () => {
+      const limited = new MemoryManager(path.join(tempDir, 'limited.json'), { retention: { maxEntries: 1 } });
+      await limited.initialize();
+      await limited.store({ agentId: 'agent-1', type: 'decision', content: 'Keep me', tags: [] });
+      const [keep] = await limited.list();
+      await limited.pin([keep.id]);
+
+      for (let i = 0; i < 3; i++) {
+        await limited.store({ agentId: 'agent-1', type: 'result', content: `Result ${i}`, tags: [] });
+      }
+
+      expect((await limited.list()).map(entry => entry.content).sort()).toEqual(['Keep me', 'Result 2']);
+      await limited.close();
+    });
+
+    it('should not apply retention when opened read-only', async () => {
+      const memoryPath = path.join(tempDir, 'limited.json');
+      const writer = new MemoryManager(memoryPath);
+      await writer.initialize();
+      for (let i = 0; i < 3; i++) {
+        await writer.store({ agentId: 'agent-1', type: 'result', content: `Result ${i}`, tags: [] });
+      }
+      await writer.close();
+
+      const reader = new MemoryManager(memoryPath, { retention: { maxEntries: 1 }, readOnly: true });
+      await reader.initialize();
+      expect((await reader.stats()).total).toBe(3);
+      await reader.close();
+
+      expect(Object.values(await fs.readJson(memoryPath)).flat()).toHaveLength(3);
+    });
+
+    it('should export entries that import into another memory bank', async () => {
+      const exportPath = path.join(tempDir, 'export.json');
+      await manager.pin([(await manager.list({ types: ['decision'] }))[0].id]);
+      await fs.writeJson(exportPath, JsonMemoryStore.serialize(await manager.export()));
+
+      const other = new MemoryManager(path.join(tempDir, 'other.json'));
+      await other.initialize();
+      expect(await other.importJson(exportPath)).toEqual({ imported: 2, skipped: 0, invalid: 0 });
+      expect(await other.importJson(exportPath)).toMatchObject({ imported: 0, skipped: 2 });
+
+      const stats = await other.stats();
+      expect(stats).toMatchObject({ backend: 'json', total: 2, pinned: 1, byType: { decision: 1, error: 1 } });
+      expect(stats.byEmbeddingModel).toEqual({ 'local-hash-256': 2 });
+      expect(stats.oldest!.getTime()).toBeLessThanOrEqual(stats.newest!.getTime());
+      await other.close();
+    });
+  });
+
+  describe('consolidation', () => {
+    const reply = JSON.stringify([
+      { type: 'decision', content: 'Retry payment calls with backoff', tags: ['payments'], sources: [1, 2] },
+      { type: 'knowledge', content: 'The gateway rate-limits bursts' },
+    ]);
+
+    const storeResults = async (target: MemoryManager, count: number) => {
+      for (let i = 0; i < count; i++) {
+        await target.store({ agentId: 'agent-1', type: 'result', content: `Payment retry attempt ${i}`, tags: ['coder', 'completed'], namespace: { project: 'shop' } });
+      }
+    };
+
+    beforeEach(async () => {
+      await manager.initialize();
+    });
+
+    it('should condense groups into entries linked to their sources', async () => {
+      await storeResults(manager, 3);
+      await manager.store({ agentId: 'agent-2', type: 'result', content: 'Lone review', tags: ['tester'] });
+      const sources = await manager.list({ tags: ['coder'], order: 'asc' });
+
+      const result = await manager.consolidate(new MemoryConsolidator(new MockProvider({ responses: [{ response: reply }] })));
+
+      expect(result.groups.map(group => group.key)).toEqual(['shop / coder']);
+      expect(result.consolidated).toBe(3);
+      expect(result.created).toHaveLength(2);
+      expect(result.created[0]).toMatchObject({
+        type: 'decision',
+        tags: ['coder', 'payments'],
+        namespace: { project: 'shop' },
+        sources: [sources[0].id, sources[1].id],
+      });
+      expect(result.created[0].pinned).toBeUndefined();
+      expect(result.created[1].sources).toEqual(sources.map(entry => entry.id));
+      expect((await manager.get(result.created[0].id))?.embedding).toBeDefined();
+      expect((await manager.list({ tags: [CONSOLIDATED_TAG] })).length).toBe(3);
+      expect((await manager.getContext('coder'))[0].summary).toContain('backoff');
+
+      const again = await manager.consolidate(new MemoryConsolidator(new MockProvider({ responses: [{ response: reply }] })));
+      expect(again.groups).toHaveLength(0);
+    });
+
+    it('should report groups the model fails on and leave them as they were', async () => {
+      await storeResults(manager, 3);
+
+      const result = await manager.consolidate(new MemoryConsolidator(new MockProvider({ responses: [{ response: 'Sorry, no.' }] })));
+
+      expect(result.created).toHaveLength(0);
+      expect(result.failed).toEqual([{ key: 'shop / coder', error: expect.stringContaining('JSON array') }]);
+      expect(await manager.list({ tags: [CONSOLIDATED_TAG] })).toHaveLength(0);
+    });
+
+    it('should consolidate automatically when nearing the retention limit', async () => {
+      const provider = new MockProvider({ responses: [{ response: reply }] });
+      const execute = jest.spyOn(provider, 'execute');
+      const limited = new MemoryManager(path.join(tempDir, 'limited.json'), {
+        retention: { maxEntries: 5 },
+        consolidator: new MemoryConsolidator(provider),
+      });
+      await limited.initialize();
+
+      await storeResults(limited, 3);
+      expect(execute).not.toHaveBeenCalled();
+      await storeResults(limited, 1);
+      await limited.close();
+      await limited.initialize();
+
+      expect(execute).toHaveBeenCalledTimes(1);
+      expect((await limited.list({ types: ['decision', 'knowledge'] })).map(entry => entry.type).sort()).toEqual(['decision', 'knowledge']);
+      await limited.close();
+    });
+
+    it('should check the retention limits at most once a minute while storing', async () => {
+      const backend = new JsonMemoryStore(path.join(tempDir, 'checked.json'));
+      const count = jest.spyOn(backend, 'count');
+      const checked = new MemoryManager(path.join(tempDir, 'checked.json'), {
+        backend,
+        retention: { maxEntries: 100 },
+        consolidator: new MemoryConsolidator(new MockProvider()),
+      });
+      await checked.initialize();
+
+      await storeResults(checked, 5);
+
+      expect(count).toHaveBeenCalledTimes(1);
+      await checked.close();
+    });
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Tests for the mode catalog
+ */
+
+import { MODE_CATALOG, BUILT_IN_MODE_NAMES, DEFAULT_SYSTEM_PROMPT, getModeTemperature, isBuiltInMode } from '../../src/core/mode-catalog';
+import { ModeRegistry } from '../../src/core/mode-registry';
+import { Validator } from '../../src/utils/validation';
+import { BuiltInMode } from '../../src/types';
+
+const ALL_MODES: BuiltInMode[] = [
+  'architect', 'coder', 'tester', 'debugger', 'security',
+  'documentation', 'integrator', 'monitor', 'optimizer',
+  'ask', 'devops', 'tutorial', 'database', 'specification',
+  'mcp', 'orchestrator', 'designer',
+];
+
+describe('MODE_CATALOG', () => {
+  it('should cover every built-in mode', () => {
+    expect([...BUILT_IN_MODE_NAMES].sort()).toEqual([...ALL_MODES].sort());
+  });
+
+  it.each(ALL_MODES)('should define a prompt, icon, description and temperature for %s', (mode) => {
+    const definition = MODE_CATALOG[mode];
+
+    expect(definition.systemPrompt.trim()).not.toBe('');
+    expect(definition.systemPrompt).not.toBe(DEFAULT_SYSTEM_PROMPT);
+    expect(definition.icon.trim()).not.toBe('');
+    expect(definition.description.trim()).not.toBe('');
+    expect(definition.temperature).toBeGreaterThanOrEqual(0);
+    expect(definition.temperature).toBeLessThanOrEqual(2);
+  });
+
+  it.each(ALL_MODES)('should give orchestrated %s tasks their own prompt', (mode) => {
+    expect(new ModeRegistry().getSystemPrompt(mode)).toBe(MODE_CATALOG[mode].systemPrompt);
+    expect(Validator.validateAgentMode(mode)).toBe(mode);
+  });
+
+  it('should fall back for custom modes', () => {
+    expect(isBuiltInMode('migration-planner')).toBe(false);
+    expect(isBuiltInMode('toString')).toBe(false);
+    expect(getModeTemperature('migration-planner', 0.4)).toBe(0.4);
+    expect(getModeTemperature('debugger', 0.4)).toBe(MODE_CATALOG.debugger.temperature);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Tests for ModeLoader
+ */
+
+import { ModeLoader } from '../../src/core/mode-loader';
+import { ValidationError } from '../../src/utils/validation';
+import { createTempDir, cleanupTempDir } from '../helpers';
+import path from 'path';
+import fs from 'fs-extra';
+
+const MIGRATION_PLANNER = `---
+icon: 🚚
+description: Plans database migrations
+temperature: 0.3
+model: gemini-1.5-flash
+tools: [git, psql]
+---
+You are a migration planner. Break every migration into reversible steps.
+`;
+
+describe('ModeLoader', () => {
+  describe('parse', () => {
+    it('should read settings from frontmatter and the prompt from the body', () => {
+      expect(ModeLoader.parse(MIGRATION_PLANNER, 'migration-planner')).toEqual({
+        icon: '🚚',
+        description: 'Plans database migrations',
+        temperature: 0.3,
+        model: 'gemini-1.5-flash',
+        tools: ['git', 'psql'],
+        systemPrompt: 'You are a migration planner. Break every migration into reversible steps.',
+      });
+    });
+
+    it('should accept files without frontmatter', () => {
+      expect(ModeLoader.parse('Review every API change.', 'api-reviewer')).toEqual({
+        systemPrompt: 'Review every API change.',
+      });
+    });
+
+    it('should reject unknown settings and invalid values', () => {
+      expect(() => ModeLoader.parse('---\ntemprature: 0.2\n---\nPrompt', 'api-reviewer')).toThrow('unknown settings');
+      expect(() => ModeLoader.parse('---\ntemperature: 5\n---\nPrompt', 'api-reviewer')).toThrow('temperature');
+      expect(() => ModeLoader.parse('---\ntools: git\n---\nPrompt', 'api-reviewer')).toThrow('tools');
+    });
+
+    it('should reject files without a prompt body', () => {
+      expect(() => ModeLoader.parse('---\nicon: 🔍\n---\n', 'api-reviewer')).toThrow(ValidationError);
+    });
+
+    it('should reject invalid mode names', () => {
+      expect(() => ModeLoader.parse('Prompt', 'API_Reviewer')).toThrow('Invalid custom mode name');
+    });
+  });
+
+  describe('files', () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+      tempDir = await createTempDir();
+    });
+
+    afterEach(async () => {
+      await cleanupTempDir(tempDir);
+    });
+
+    it('should name modes after their files', async () => {
+      await fs.writeFile(path.join(tempDir, 'migration-planner.md'), MIGRATION_PLANNER);
+      await fs.writeFile(path.join(tempDir, 'notes.txt'), 'Not a mode');
+
+      const files = await ModeLoader.listModeFiles(tempDir);
+      expect(files).toEqual([path.join(tempDir, 'migration-planner.md')]);
+
+      const loaded = await ModeLoader.load(files[0]);
+      expect(loaded.mode).toBe('migration-planner');
+      expect(loaded.settings.icon).toBe('🚚');
+    });
+
+    it('should return no files for a missing directory', async () => {
+      expect(await ModeLoader.listModeFiles(path.join(tempDir, 'missing'))).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Tests for ModeRegistry
+ */
+
+import { ModeRegistry } from '../../src/core/mode-registry';
+import { MODE_CATALOG } from '../../src/core/mode-catalog';
+import { DEFAULT_RESULT_SECTIONS } from '../../src/core/structured-output';
+
+describe('ModeRegistry', () => {
+  it('should fall back to built-in settings without overrides', () => {
+    const registry = new ModeRegistry();
+    const architect = registry.get('architect');
+
+    expect(architect.systemPrompt).toBe(MODE_CATALOG.architect.systemPrompt);
+    expect(architect.temperature).toBe(MODE_CATALOG.architect.temperature);
+    expect(architect.overridden).toEqual([]);
+    expect(registry.getGenerationOptions('architect')).toEqual({});
+  });
+
+  it('should apply config overrides on top of the defaults', () => {
+    const registry = new ModeRegistry({
+      coder: { temperature: 0.1, maxTokens: 2048, model: 'gemini-1.5-flash', systemPrompt: 'Write Go only.' },
+    });
+    const coder = registry.get('coder');
+
+    expect(coder.systemPrompt).toBe('Write Go only.');
+    expect(coder.icon).toBe(MODE_CATALOG.coder.icon);
+    expect(coder.temperature).toBe(0.1);
+    expect(coder.overridden).toEqual(expect.arrayContaining(['temperature', 'maxTokens', 'model', 'systemPrompt']));
+    expect(registry.getGenerationOptions('coder')).toEqual({
+      temperature: 0.1,
+      maxOutputTokens: 2048,
+      model: 'gemini-1.5-flash',
+    });
+  });
+
+  it('should leave other modes untouched', () => {
+    const registry = new ModeRegistry({ coder: { temperature: 0.1 } });
+
+    expect(registry.getSystemPrompt('tester')).toBe(MODE_CATALOG.tester.systemPrompt);
+    expect(registry.getGenerationOptions('tester')).toEqual({});
+  });
+
+  it('should resolve custom modes from their own definition', () => {
+    const registry = new ModeRegistry({
+      'migration-planner': { icon: '🚚', systemPrompt: 'Plan migrations.', temperature: 0.3, tools: ['git', 'psql'] },
+    });
+    const mode = registry.get('migration-planner');
+
+    expect(mode.custom).toBe(true);
+    expect(mode.icon).toBe('🚚');
+    expect(mode.overridden).toEqual([]);
+    expect(registry.getCustomModes()).toEqual(['migration-planner']);
+    expect(registry.getSystemPrompt('migration-planner')).toBe('Plan migrations.\n\nTools available in this mode: git, psql.');
+    expect(registry.getGenerationOptions('migration-planner')).toEqual({ temperature: 0.3 });
+    expect(registry.list().map(resolved => resolved.mode)).toContain('migration-planner');
+  });
+
+  it('should resolve result sections from the mode, its override or the defaults', () => {
+    const registry = new ModeRegistry({
+      tester: { output: ['testPlan'] },
+      'migration-planner': { systemPrompt: 'Plan migrations.' },
+    });
+
+    expect(registry.getOutputSections('coder')).toEqual(MODE_CATALOG.coder.output);
+    expect(registry.getOutputSections('tester')).toEqual(['testPlan']);
+    expect(registry.getOutputSections('migration-planner')).toEqual(DEFAULT_RESULT_SECTIONS);
+  });
+
+  it('should only treat modes that declare it as editing files', () => {
+    const registry = new ModeRegistry({
+      tester: { editsFiles: false },
+      'migration-planner': { systemPrompt: 'Plan migrations.', editsFiles: true },
+    });
+
+    expect(registry.editsFiles('coder')).toBe(true);
+    expect(registry.editsFiles('architect')).toBe(false);
+    expect(registry.editsFiles('tester')).toBe(false);
+    expect(registry.editsFiles('migration-planner')).toBe(true);
+  });
+
+  it('should list every built-in mode', () => {
+    const modes = new ModeRegistry().list();
+
+    expect(modes.map(mode => mode.mode)).toEqual(Object.keys(MODE_CATALOG));
+    expect(modes.every(mode => !mode.custom)).toBe(true);
+  });
+});
@@ -3,6 +3,8 @@
  */
 
 import { Orchestrator } from '../../src/core/orchestrator';
+import { AgentOutput, OrchestratorConfig, Task } from '../../src/types';
+import { ValidationError } from '../../src/utils/validation';
 import { TaskFactory, EventCollector, waitFor, createTempDir, cleanupTempDir } from '../helpers';
 import path from 'path';
 
@@ -25,6 +27,12 @@ jest.mock('../../src/core/gemini-client', () => {
   };
 });
 
+// Embed memory locally instead of calling the Gemini API
+jest.mock('../../src/memory/embeddings', () => {
+  const actual = jest.requireActual('../../src/memory/embeddings');
+  return { ...actual, GeminiEmbedder: jest.fn().mockImplementation(() => new actual.LocalEmbedder()) };
+});
+
 describe('Orchestrator', () => {
   let tempDir: string;
   let orchestrator: Orchestrator;
@@ -182,6 +190,23 @@ describe('Orchestrator', () => {
       await orchestrator.addTask(task1);
       await expect(orchestrator.addTask(task2)).resolves.not.toThrow();
     });
+
+    it('should report validation failures as ValidationErrors', async () => {
+      await expect(orchestrator.addTask(TaskFactory.create({ description: '' }))).rejects.toBeInstanceOf(ValidationError);
+    });
+  });
+
+  describe('submitTask', () => {
+    it('should queue requests under generated ids', async () => {
+      const request = { mode: 'coder' as const, description: 'Build it', dependencies: [], priority: 'medium' as const };
+
+      await orchestrator.addTask(TaskFactory.create({ id: 'task-1' }));
+      const task = await orchestrator.submitTask(request);
+
+      expect(task).toMatchObject({ id: 'task-2', mode: 'coder', status: 'pending' });
+      expect(orchestrator.getTask('task-2')).toBe(task);
+      await expect(orchestrator.submitTask({ ...request, id: 'task-2' })).rejects.toThrow('Task task-2 already exists');
+    });
   });
 
   describe('task processing', () => {
@@ -496,8 +521,9 @@ describe('Orchestrator', () => {
 
     it('should handle adding tasks before start', async () => {
       const task = TaskFactory.create();
-      
-      await expect(orchestrator.addTask(task)).rejects.toThrow();
+
+      await expect(orchestrator.addTask(task)).resolves.toBeUndefined();
+      expect(orchestrator.getTask(task.id)?.status).toBe('pending');
     });
 
     it('should handle rapid start/stop', async () => {
@@ -507,4 +533,580 @@ describe('Orchestrator', () => {
       expect(true).toBe(true);
     });
   });
+
+  describe('workflow inputs', () => {
+    it('should inject dependency outputs into downstream prompts', async () => {
+      const { GeminiClient } = require('../../src/core/gemini-client');
+      const execute = jest.fn()
+        .mockResolvedValueOnce(JSON.stringify({ summary: 'Spec output' }))
+        .mockResolvedValueOnce(JSON.stringify({ summary: 'Design output' }));
+      GeminiClient.mockImplementation(() => ({
+        execute,
+        checkHealth: jest.fn().mockResolvedValue(true),
+      }));
+
+      const orch = new Orchestrator({
+        maxAgents: 1,
+        memoryPath: path.join(tempDir, 'memory-workflow.json'),
+        apiKey: 'test-key',
+      });
+      await orch.start();
+
+      await orch.addTask(TaskFactory.create({ id: 'run-spec', mode: 'specification' }));
+      await orch.addTask(TaskFactory.create({
+        id: 'run-design',
+        mode: 'architect',
+        description: 'Design from {{steps.spec.output}}',
+        dependencies: ['run-spec'],
+        inputs: { spec: 'run-spec' },
+      }));
+
+      const tasks = await orch.waitForCompletion(['run-spec', 'run-design']);
+      await orch.stop();
+
+      expect(tasks.map(t => t.status)).toEqual(['completed', 'completed']);
+      expect(tasks[1].result).toBe('Design output');
+      expect(execute.mock.calls[1][0]).toContain('Design from Spec output');
+    });
+
+    it('should fit context into the mode\'s token budget and report what was left out', async () => {
+      const { GeminiClient } = require('../../src/core/gemini-client');
+      const execute = jest.fn()
+        .mockResolvedValueOnce(JSON.stringify({ summary: 'Spec '.repeat(2000) }))
+        .mockResolvedValueOnce(JSON.stringify({ summary: 'Design output' }));
+      GeminiClient.mockImplementation(() => ({
+        execute,
+        checkHealth: jest.fn().mockResolvedValue(true),
+      }));
+
+      const orch = new Orchestrator({
+        maxAgents: 1,
+        memoryPath: path.join(tempDir, 'memory-budget.json'),
+        apiKey: 'test-key',
+        modes: { architect: { contextTokens: 1500 } },
+      });
+      await orch.start();
+
+      await orch.addTask(TaskFactory.create({ id: 'run-spec', mode: 'specification' }));
+      await orch.addTask(TaskFactory.create({
+        id: 'run-design',
+        mode: 'architect',
+        dependencies: ['run-spec'],
+        inputs: { spec: 'run-spec' },
+        files: ['package.json', 'missing.txt'],
+      }));
+
+      const [, design] = await orch.waitForCompletion(['run-spec', 'run-design']);
+      await orch.stop();
+
+      const report = design.context!;
+      expect(report.included).toEqual([
+        expect.objectContaining({ source: 'input', id: 'spec', originalTokens: expect.any(Number) }),
+      ]);
+      expect(report.usedTokens).toBeLessThanOrEqual(report.budgetTokens);
+      expect(report.dropped).toEqual(expect.arrayContaining([
+        expect.objectContaining({ source: 'file', id: 'package.json', reason: 'budget' }),
+        expect.objectContaining({ source: 'file', id: 'missing.txt', reason: 'unreadable' }),
+      ]));
+      expect(execute.mock.calls[1][0]).toContain('shortened to fit');
+    });
+
+    it('should show the workspace tree and included files', async () => {
+      const { GeminiClient } = require('../../src/core/gemini-client');
+      const execute = jest.fn().mockResolvedValue(JSON.stringify({ summary: 'Reviewed' }));
+      GeminiClient.mockImplementation(() => ({
+        execute,
+        checkHealth: jest.fn().mockResolvedValue(true),
+      }));
+
+      const orch = new Orchestrator({
+        maxAgents: 1,
+        memoryPath: path.join(tempDir, 'memory-workspace.json'),
+        apiKey: 'test-key',
+      });
+      await orch.start();
+
+      await orch.addTask(TaskFactory.create({
+        id: 'review',
+        mode: 'security',
+        description: 'Review rate-limiter.ts',
+        workspace: { dir: 'src/utils', include: ['rate-limiter.ts'] },
+      }));
+
+      const [review] = await orch.waitForCompletion(['review']);
+      await orch.stop();
+
+      const prompt = execute.mock.calls[0][0];
+      expect(prompt).toContain('## Workspace\n### Files in src/utils\nconfig-loader.ts\n');
+      expect(prompt).toContain('### src/utils/rate-limiter.ts\n/**');
+      expect(review.context!.included).toEqual(expect.arrayContaining([
+        expect.objectContaining({ source: 'workspace', id: 'src/utils' }),
+        expect.objectContaining({ source: 'workspace', id: 'src/utils/rate-limiter.ts' }),
+      ]));
+    });
+  });
+
+  describe('failure propagation', () => {
+    it('should skip dependents of a failed task', async () => {
+      const { GeminiClient } = require('../../src/core/gemini-client');
+      GeminiClient.mockImplementation(() => ({
+        execute: jest.fn().mockRejectedValue(new Error('API Error')),
+        checkHealth: jest.fn().mockResolvedValue(true),
+      }));
+
+      const orch = new Orchestrator({
+        maxAgents: 1,
+        memoryPath: path.join(tempDir, 'memory-skip.json'),
+        apiKey: 'test-key',
+      });
+      const events = new EventCollector(orch, ['taskSkipped']);
+      await orch.start();
+
+      await orch.addTask(TaskFactory.create({ id: 'spec' }));
+      await orch.addTask(TaskFactory.create({ id: 'design', dependencies: ['spec'] }));
+
+      const tasks = await orch.waitForCompletion(['spec', 'design']);
+      await orch.stop();
+
+      expect(tasks.map(t => t.status)).toEqual(['failed', 'skipped']);
+      expect(tasks[0].statusReason).toContain('API Error');
+      expect(events.getEvents('taskSkipped')).toHaveLength(1);
+      expect(orch.getStatus().skippedTasks).toBe(1);
+    });
+  });
+
+  describe('cancellation and timeouts', () => {
+    let orch: Orchestrator;
+    let execute: jest.Mock;
+
+    beforeEach(async () => {
+      const { GeminiClient } = require('../../src/core/gemini-client');
+      // Never resolves, so tasks only finish when aborted
+      execute = jest.fn().mockImplementation(() => new Promise(() => undefined));
+      GeminiClient.mockImplementation(() => ({
+        execute,
+        checkHealth: jest.fn().mockResolvedValue(true),
+      }));
+
+      orch = new Orchestrator({
+        maxAgents: 1,
+        memoryPath: path.join(tempDir, 'memory-cancel.json'),
+        apiKey: 'test-key',
+      });
+      await orch.start();
+    });
+
+    afterEach(async () => {
+      await orch.stop();
+    });
+
+    it('should cancel a running task and pass an abort signal', async () => {
+      const events = new EventCollector(orch, ['agentCancelled', 'taskCancelled']);
+      await orch.addTask(TaskFactory.create({ id: 'slow' }));
+      await waitFor(() => orch.getTask('slow')?.status === 'running');
+
+      expect(await orch.cancelTask('slow')).toBe(true);
+      const [task] = await orch.waitForCompletion(['slow']);
+
+      expect(task.status).toBe('cancelled');
+      expect(execute.mock.calls[0][2].signal.aborted).toBe(true);
+      expect(events.getEvents('agentCancelled')).toHaveLength(1);
+      expect(events.getEvents('taskCancelled')).toHaveLength(1);
+      expect(orch.getStatus().activeAgents).toBe(0);
+    });
+
+    it('should cancel queued tasks and skip their dependents', async () => {
+      await orch.addTask(TaskFactory.create({ id: 'blocker' }));
+      await orch.addTask(TaskFactory.create({ id: 'queued', dependencies: ['blocker'] }));
+      await orch.addTask(TaskFactory.create({ id: 'after', dependencies: ['queued'] }));
+
+      expect(await orch.cancelTask('queued')).toBe(true);
+
+      expect(orch.getTask('queued')?.status).toBe('cancelled');
+      expect(orch.getTask('after')?.status).toBe('skipped');
+      expect(await orch.cancelTask('queued')).toBe(false);
+      expect(await orch.cancelTask('unknown')).toBe(false);
+
+      await orch.cancelTask('blocker');
+    });
+
+    it('should time out tasks that exceed timeoutMs', async () => {
+      const events = new EventCollector(orch, ['agentTimedOut']);
+      await orch.addTask(TaskFactory.create({ id: 'deadline', timeoutMs: 50 }));
+
+      const [task] = await orch.waitForCompletion(['deadline']);
+
+      expect(task.status).toBe('timed_out');
+      expect(task.statusReason).toBe('Timed out after 50ms');
+      expect(events.getEvents('agentTimedOut')).toHaveLength(1);
+      expect(orch.getStatus().timedOutTasks).toBe(1);
+    });
+  });
+
+  describe('durable state', () => {
+    let orch: Orchestrator;
+    let execute: jest.Mock;
+
+    beforeEach(() => {
+      const { GeminiClient } = require('../../src/core/gemini-client');
+      execute = jest.fn().mockResolvedValue(JSON.stringify({ summary: 'Resumed output' }));
+      GeminiClient.mockImplementation(() => ({
+        execute,
+        checkHealth: jest.fn().mockResolvedValue(true),
+      }));
+
+      orch = new Orchestrator({
+        maxAgents: 1,
+        memoryPath: path.join(tempDir, 'memory-resume.json'),
+        apiKey: 'test-key',
+        runId: 'run-resume',
+        statePath: path.join(tempDir, 'runs'),
+      });
+    });
+
+    afterEach(async () => {
+      await orch.stop();
+    });
+
+    it('should journal task progress', async () => {
+      await orch.start();
+      await orch.addTask(TaskFactory.create({ id: 'spec' }));
+      await orch.waitForCompletion(['spec']);
+      await orch.stop();
+
+      const { RunJournal } = require('../../src/core/run-journal');
+      const state = await RunJournal.load('run-resume', path.join(tempDir, 'runs'));
+
+      expect(state.tasks[0]).toMatchObject({ id: 'spec', status: 'completed', attempts: 1, result: 'Resumed output' });
+    });
+
+    it('should retry interrupted tasks and keep completed work', async () => {
+      const events = new EventCollector(orch, ['resumed']);
+      await orch.start();
+
+      const requeued = await orch.restore([
+        TaskFactory.create({ id: 'spec', status: 'completed', result: 'Earlier spec', attempts: 1 }),
+        TaskFactory.create({ id: 'design', status: 'running', dependencies: ['spec'], attempts: 1 }),
+      ]);
+      const tasks = await orch.waitForCompletion(['spec', 'design']);
+
+      expect(requeued.map(t => t.id)).toEqual(['design']);
+      expect(tasks.map(t => t.status)).toEqual(['completed', 'completed']);
+      expect(tasks[0].result).toBe('Earlier spec');
+      expect(tasks[1].attempts).toBe(2);
+      expect(execute).toHaveBeenCalledTimes(1);
+      expect(events.getEvents('resumed')).toHaveLength(1);
+    });
+  });
+
+  describe('retry policy', () => {
+    let orch: Orchestrator;
+    let execute: jest.Mock;
+
+    const createOrchestrator = () => {
+      const { GeminiClient } = require('../../src/core/gemini-client');
+      GeminiClient.mockImplementation(() => ({
+        execute,
+        checkHealth: jest.fn().mockResolvedValue(true),
+      }));
+
+      orch = new Orchestrator({
+        maxAgents: 1,
+        memoryPath: path.join(tempDir, 'memory-retry.json'),
+        apiKey: 'test-key',
+        retryPolicy: { backoffMs: 10 },
+      });
+    };
+
+    afterEach(async () => {
+      await orch.stop();
+    });
+
+    it('should retry transient failures and record each attempt', async () => {
+      execute = jest.fn()
+        .mockRejectedValueOnce(new Error('network connection reset'))
+        .mockResolvedValue('Recovered');
+      createOrchestrator();
+      const events = new EventCollector(orch, ['taskRetrying']);
+      await orch.start();
+
+      await orch.addTask(TaskFactory.create({ id: 'flaky' }));
+      const [task] = await orch.waitForCompletion(['flaky']);
+
+      expect(task.status).toBe('completed');
+      expect(task.attempts).toBe(2);
+      expect(task.history?.map(a => [a.status, a.errorClass])).toEqual([
+        ['failed', 'network'],
+        ['completed', undefined],
+      ]);
+      expect(events.getEvents('taskRetrying')).toHaveLength(1);
+    });
+
+    it('should fail auth errors without retrying', async () => {
+      execute = jest.fn().mockRejectedValue(new Error('401 Unauthorized'));
+      createOrchestrator();
+      await orch.start();
+
+      await orch.addTask(TaskFactory.create({ id: 'denied', retryPolicy: { retryOn: ['network'], maxAttempts: 5 } }));
+      const [task] = await orch.waitForCompletion(['denied']);
+
+      expect(task.status).toBe('failed');
+      expect(execute).toHaveBeenCalledTimes(1);
+      expect(task.history?.[0].errorClass).toBe('auth');
+    });
+
+    it('should stop after the task policy maxAttempts', async () => {
+      execute = jest.fn().mockRejectedValue(new Error('429 rate limit'));
+      createOrchestrator();
+      await orch.start();
+
+      await orch.addTask(TaskFactory.create({ id: 'limited', retryPolicy: { maxAttempts: 2 } }));
+      const [task] = await orch.waitForCompletion(['limited']);
+
+      expect(task.status).toBe('failed');
+      expect(task.attempts).toBe(2);
+    });
+  });
+
+  describe('pause and resume', () => {
+    it('should hold queued tasks while paused', async () => {
+      const orch = new Orchestrator({
+        maxAgents: 1,
+        memoryPath: path.join(tempDir, 'memory-pause.json'),
+        provider: 'mock',
+      });
+      const events = new EventCollector(orch, ['paused', 'unpaused']);
+      await orch.start();
+
+      try {
+        orch.pause();
+        await orch.addTask(TaskFactory.create({ id: 'held' }));
+        await new Promise(resolve => setTimeout(resolve, 600));
+
+        expect(orch.getTask('held')?.status).toBe('pending');
+        expect(orch.getStatus().isPaused).toBe(true);
+
+        orch.resume();
+        const [task] = await orch.waitForCompletion(['held']);
+
+        expect(task.status).toBe('completed');
+        expect(orch.getStatus().isPaused).toBe(false);
+        expect(events.getEvents('paused')).toHaveLength(1);
+        expect(events.getEvents('unpaused')).toHaveLength(1);
+      } finally {
+        await orch.stop();
+      }
+    });
+  });
+
+  describe('live output', () => {
+    it('should stream agent output when someone is listening', async () => {
+      const orch = new Orchestrator({
+        maxAgents: 1,
+        memoryPath: path.join(tempDir, 'memory-stream.json'),
+        provider: 'mock',
+      });
+      const events = new EventCollector(orch, ['agentOutput']);
+      await orch.start();
+
+      try {
+        await orch.addTask(TaskFactory.create({ id: 'streamed', mode: 'coder' }));
+        const [task] = await orch.waitForCompletion(['streamed']);
+        const chunks = events.getEvents('agentOutput').map(event => event.data as AgentOutput);
+
+        expect(task.status).toBe('completed');
+        expect(chunks.length).toBeGreaterThan(1);
+        expect(chunks.every(chunk => chunk.taskId === 'streamed' && chunk.agentId === task.assignedAgent)).toBe(true);
+        expect(JSON.parse(chunks.map(chunk => chunk.chunk).join(''))).toEqual(task.output);
+      } finally {
+        await orch.stop();
+      }
+    });
+  });
+
+  describe('structured results', () => {
+    const runWith = async (execute: jest.Mock, tasks: Partial<Task>[], config: Partial<OrchestratorConfig> = {}) => {
+      const { GeminiClient } = require('../../src/core/gemini-client');
+      GeminiClient.mockImplementation(() => ({
+        execute,
+        checkHealth: jest.fn().mockResolvedValue(true),
+      }));
+
+      const orch = new Orchestrator({
+        maxAgents: 1,
+        memoryPath: path.join(tempDir, 'memory-structured.json'),
+        apiKey: 'test-key',
+        ...config,
+      });
+      await orch.start();
+      try {
+        for (const task of tasks) {
+          await orch.addTask(TaskFactory.create(task));
+        }
+        return await orch.waitForCompletion(tasks.map(task => task.id!));
+      } finally {
+        await orch.stop();
+      }
+    };
+
+    it('should request the mode\'s schema and pass sections to later steps', async () => {
+      const execute = jest.fn()
+        .mockResolvedValueOnce(JSON.stringify({
+          summary: 'Two services',
+          architecture: 'An API and a worker',
+          followUpTasks: [{ description: 'Build the worker', mode: 'coder' }],
+          notes: 'not a section',
+        }))
+        .mockResolvedValueOnce(JSON.stringify({ summary: 'Built' }));
+
+      const [design, build] = await runWith(execute, [
+        { id: 'design', mode: 'architect' },
+        {
+          id: 'build',
+          mode: 'coder',
+          description: 'Build {{steps.design.output.architecture}}',
+          dependencies: ['design'],
+          inputs: { design: 'design' },
+        },
+      ]);
+
+      expect(Object.keys(execute.mock.calls[0][2].responseSchema.properties)).toEqual(
+        ['summary', 'specification', 'architecture', 'openQuestions', 'followUpTasks']
+      );
+      expect(design.output).toEqual({
+        summary: 'Two services',
+        architecture: 'An API and a worker',
+        followUpTasks: [{ description: 'Build the worker', mode: 'coder' }],
+      });
+      expect(design.result).toContain('## Architecture\nAn API and a worker');
+      expect(execute.mock.calls[1][0]).toContain('Build An API and a worker');
+      expect(build.output).toEqual({ summary: 'Built' });
+    });
+
+    it('should leave the schema out for providers without structured output', async () => {
+      const execute = jest.fn().mockResolvedValue(JSON.stringify({ summary: 'Designed' }));
+
+      const [task] = await runWith(execute, [{ id: 'design', mode: 'architect' }], {
+        providers: { gemini: { type: 'gemini', structuredOutput: false } },
+      });
+
+      expect(task.output).toEqual({ summary: 'Designed' });
+      expect(execute.mock.calls[0][2].responseSchema).toBeUndefined();
+      expect(execute.mock.calls[0][0]).toContain('"summary"');
+    });
+
+    it('should ask once to repair a malformed result', async () => {
+      const execute = jest.fn()
+        .mockResolvedValueOnce('The design is done.')
+        .mockResolvedValueOnce(JSON.stringify({ summary: 'The design is done.' }));
+
+      const [task] = await runWith(execute, [{ id: 'design', mode: 'architect' }]);
+
+      expect(task.status).toBe('completed');
+      expect(task.output).toEqual({ summary: 'The design is done.' });
+      expect(execute).toHaveBeenCalledTimes(2);
+      expect(execute.mock.calls[1][0]).toContain('Your previous reply could not be used: no JSON object found');
+    });
+
+    it('should keep the reply as text when the repair is malformed too', async () => {
+      const execute = jest.fn()
+        .mockResolvedValueOnce('{"summary": 42}')
+        .mockResolvedValueOnce('Still not JSON');
+
+      const [task] = await runWith(execute, [{ id: 'design', mode: 'architect' }]);
+
+      expect(task.status).toBe('completed');
+      expect(task.output).toEqual({ summary: '{"summary": 42}' });
+      expect(execute).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('mock provider', () => {
+    it('should run a dependent flow offline from scripted responses', async () => {
+      const orch = new Orchestrator({
+        maxAgents: 1,
+        memoryPath: path.join(tempDir, 'memory-mock.json'),
+        provider: 'mock',
+      });
+      await orch.start();
+
+      try {
+        await orch.addTask(TaskFactory.create({ id: 'design', mode: 'architect' }));
+        await orch.addTask(TaskFactory.create({ id: 'build', mode: 'coder', dependencies: ['design'] }));
+        const tasks = await orch.waitForCompletion(['design', 'build']);
+
+        expect(tasks.map(t => t.status)).toEqual(['completed', 'completed']);
+        expect(tasks[1].result).toMatch(/^Mock coder response/);
+      } finally {
+        await orch.stop();
+      }
+    });
+
+    it('should run tasks in custom modes and reject unregistered ones', async () => {
+      const orch = new Orchestrator({
+        maxAgents: 1,
+        memoryPath: path.join(tempDir, 'memory-custom.json'),
+        provider: 'mock',
+        modes: { 'api-reviewer': { systemPrompt: 'Review the API.' } },
+      });
+      await orch.start();
+
+      try {
+        await orch.addTask(TaskFactory.create({ id: 'review', mode: 'api-reviewer' }));
+        await expect(orch.addTask(TaskFactory.create({ id: 'other', mode: 'wizard' }))).rejects.toThrow();
+        const [task] = await orch.waitForCompletion(['review']);
+
+        expect(task.status).toBe('completed');
+        expect(task.result).toMatch(/^Mock api-reviewer response/);
+      } finally {
+        await orch.stop();
+      }
+    });
+  });
+
+  describe('memory namespaces', () => {
+    const runTask = async (config: ConstructorParameters<typeof Orchestrator>[0]) => {
+      const orch = new Orchestrator({ maxAgents: 1, memoryPath: path.join(tempDir, 'memory-ns.json'), provider: 'mock', ...config });
+      await orch.start();
+      try {
+        await orch.addTask(TaskFactory.create({ id: 'design', mode: 'architect' }));
+        await orch.waitForCompletion(['design']);
+      } finally {
+        await orch.stop();
+      }
+    };
+
+    const visibleMemory = async (config: ConstructorParameters<typeof Orchestrator>[0]) => {
+      const orch = new Orchestrator({ memoryPath: path.join(tempDir, 'memory-ns.json'), provider: 'mock', ...config });
+      await orch.start();
+      try {
+        return await orch.searchMemory('Mock');
+      } finally {
+        await orch.stop();
+      }
+    };
+
+    it('should tag stored memory with the project, run and task', async () => {
+      await runTask({ project: 'shop', runId: 'run-a' });
+
+      const [entry] = await visibleMemory({ project: 'shop' });
+      expect(entry.namespace).toEqual({ project: 'shop', run: 'run-a', task: 'design' });
+    });
+
+    it('should only show a clean run its own memory, and other projects none', async () => {
+      await runTask({ project: 'shop', runId: 'run-a' });
+
+      expect(await visibleMemory({ project: 'shop', runId: 'run-b', memoryScope: 'clean' })).toHaveLength(0);
+      expect(await visibleMemory({ project: 'shop', runId: 'run-a', memoryScope: 'clean' })).toHaveLength(1);
+      expect(await visibleMemory({ project: 'blog' })).toHaveLength(0);
+    });
+
+    it('should share memory between runs using the same named run', async () => {
+      await runTask({ project: 'shop', runId: 'run-a', memoryScope: 'run:nightly' });
+      await runTask({ project: 'shop', runId: 'run-b' });
+
+      const shared = await visibleMemory({ project: 'shop', runId: 'run-c', memoryScope: 'run:nightly' });
+      expect(shared.map(entry => entry.namespace?.run)).toEqual(['nightly']);
+    });
+  });
 });
\ No newline at end of file
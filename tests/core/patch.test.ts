@@ -0,0 +1,151 @@
+/**
+ * Tests for Patch
+ */
+
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { Patch, PatchError } from '../../src/core/patch';
+import { PathSecurityError } from '../../src/utils/path-security';
+import { createTempDir, cleanupTempDir } from '../helpers';
+
+const lines = (count: number) => Array.from({ length: count }, (_, i) => `line ${i + 1}`);
+
+describe('Patch', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await createTempDir();
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir(tempDir);
+  });
+
+  describe('diff', () => {
+    it('should group nearby changes into hunks with three lines of context', () => {
+      const before = lines(20);
+      const after = [...before];
+      after[1] = 'changed 2';
+      after[4] = 'changed 5';
+      after.splice(17, 1);
+
+      const hunks = Patch.diff(before, after);
+
+      expect(hunks.map(Patch.formatHunkHeader)).toEqual(['@@ -1,8 +1,8 @@', '@@ -15,6 +15,5 @@']);
+      expect(hunks[0].lines.slice(0, 3)).toEqual([' line 1', '-line 2', '+changed 2']);
+      expect(hunks[1].lines).toEqual([' line 15', ' line 16', ' line 17', '-line 18', ' line 19', ' line 20']);
+    });
+
+    it('should round-trip through apply, including a subset of hunks', () => {
+      const before = lines(30).join('\n') + '\n';
+      const after = before.replace('line 3\n', 'line three\n').replace('line 25\n', 'line 25\nextra\n');
+      const hunks = Patch.diff(before.trimEnd().split('\n'), after.trimEnd().split('\n'));
+
+      expect(hunks).toHaveLength(2);
+      expect(Patch.apply(before, hunks)).toBe(after);
+      expect(Patch.apply(before, [hunks[1]])).toBe(before.replace('line 25\n', 'line 25\nextra\n'));
+    });
+
+    it('should replace the whole file when too many lines change', () => {
+      const before = lines(1500);
+      const after = before.map(line => `${line} rewritten`);
+
+      const hunks = Patch.diff(before, after);
+
+      expect(hunks.map(Patch.formatHunkHeader)).toEqual(['@@ -1,1500 +1,1500 @@']);
+      expect(hunks[0].lines[0]).toBe('-line 1');
+      expect(hunks[0].lines[1500]).toBe('+line 1 rewritten');
+    });
+  });
+
+  describe('parseUnifiedDiff', () => {
+    it('should read files and hunks, recounting wrong header counts', () => {
+      const diff = [
+        'diff --git a/src/a.ts b/src/a.ts',
+        '--- a/src/a.ts',
+        '+++ b/src/a.ts',
+        '@@ -2,9 +2,9 @@',
+        ' line 2',
+        '-line 3',
+        '+line three',
+        '',
+        '--- /dev/null',
+        '+++ b/src/new.ts',
+        '@@ -0,0 +1 @@',
+        '+export {};',
+      ].join('\n');
+
+      const files = Patch.parseUnifiedDiff(diff);
+
+      expect(files.map(file => file.path)).toEqual(['src/a.ts', 'src/new.ts']);
+      expect(files[0].hunks[0]).toMatchObject({ oldStart: 2, oldLines: 3, newLines: 3 });
+      expect(files[1].hunks[0].lines).toEqual(['+export {};']);
+    });
+
+    it('should apply hunks whose line numbers are off', () => {
+      const [file] = Patch.parseUnifiedDiff('@@ -40,2 +40,2 @@\n line 6\n-line 7\n+line seven\n', 'a.txt');
+
+      expect(Patch.apply(lines(10).join('\n'), file.hunks)).toContain('line 6\nline seven\nline 8');
+      expect(() => Patch.apply('unrelated\n', file.hunks, 'a.txt')).toThrow(PatchError);
+    });
+
+    it('should reject deletions', () => {
+      expect(() => Patch.parseUnifiedDiff('--- a/old.ts\n+++ /dev/null\n@@ -1 +0,0 @@\n-x\n')).toThrow('Deleting files');
+    });
+  });
+
+  describe('plan', () => {
+    it('should combine whole files and diffs into patches for the project', async () => {
+      await fs.writeFile(path.join(tempDir, 'a.txt'), lines(10).join('\n') + '\n');
+
+      const patches = await Patch.plan({
+        summary: 'Edits',
+        code: [
+          { content: 'const snippet = 1;' },
+          { path: 'src/new.ts', language: 'typescript', content: 'export const x = 1;' },
+          { path: 'a.txt', language: 'diff', content: '@@ -2,2 +2,2 @@\n line 2\n-line 3\n+line three' },
+          { path: 'unchanged.txt', content: '' },
+        ],
+      }, tempDir);
+
+      expect(patches.map(patch => [patch.path, patch.original === undefined])).toEqual([
+        ['src/new.ts', true],
+        ['a.txt', false],
+      ]);
+      expect(Patch.format(patches[0])).toBe('--- /dev/null\n+++ b/src/new.ts\n@@ -0,0 +1,1 @@\n+export const x = 1;');
+
+      for (const patch of patches) {
+        await Patch.write(patch);
+      }
+      expect(await fs.readFile(path.join(tempDir, 'src/new.ts'), 'utf8')).toBe('export const x = 1;\n');
+      expect(await fs.readFile(path.join(tempDir, 'a.txt'), 'utf8')).toContain('line 2\nline three\nline 4');
+    });
+
+    it('should refuse paths outside the project, including through symlinks', async () => {
+      const outside = await fs.mkdtemp(path.join(os.tmpdir(), 'patch-outside-'));
+      try {
+        await fs.symlink(outside, path.join(tempDir, 'linked'));
+
+        await expect(Patch.plan({ summary: '', code: [{ path: '../escape.txt', content: 'x' }] }, tempDir))
+          .rejects.toThrow(PathSecurityError);
+        await expect(Patch.plan({ summary: '', code: [{ path: 'linked/escape.txt', content: 'x' }] }, tempDir))
+          .rejects.toThrow(PathSecurityError);
+        expect(await fs.readdir(outside)).toEqual([]);
+      } finally {
+        await fs.remove(outside);
+      }
+    });
+
+    it('should not write over a file that changed after the preview', async () => {
+      const file = path.join(tempDir, 'a.txt');
+      await fs.writeFile(file, 'one\n');
+      const [patch] = await Patch.plan({ summary: '', code: [{ path: 'a.txt', content: 'two' }] }, tempDir);
+
+      await fs.writeFile(file, 'edited meanwhile\n');
+
+      await expect(Patch.write(patch)).rejects.toThrow('has changed since the patch was previewed');
+      expect(await fs.readFile(file, 'utf8')).toBe('edited meanwhile\n');
+    });
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Tests for RunJournal
+ */
+
+import { RunJournal } from '../../src/core/run-journal';
+import { TaskFactory, createTempDir, cleanupTempDir } from '../helpers';
+import path from 'path';
+import fs from 'fs-extra';
+
+describe('RunJournal', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await createTempDir();
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir(tempDir);
+  });
+
+  it('should replay the latest state of each task', async () => {
+    const journal = new RunJournal('run-1', tempDir);
+    await journal.initialize('build-api');
+
+    const task = TaskFactory.create({ id: 'spec' });
+    journal.recordTask(task);
+    task.status = 'completed';
+    task.result = 'The spec';
+    task.attempts = 1;
+    journal.recordTask(task);
+    journal.recordTask(TaskFactory.create({ id: 'design', dependencies: ['spec'] }));
+    await journal.flush();
+
+    const state = await RunJournal.load('run-1', tempDir);
+
+    expect(state.label).toBe('build-api');
+    expect(state.tasks.map(t => t.id)).toEqual(['spec', 'design']);
+    expect(state.tasks[0]).toMatchObject({ status: 'completed', result: 'The spec', attempts: 1 });
+    expect(state.tasks[0].createdAt).toBeInstanceOf(Date);
+  });
+
+  it('should ignore a partially written last line', async () => {
+    const journal = new RunJournal('run-1', tempDir);
+    await journal.initialize();
+    journal.recordTask(TaskFactory.create({ id: 'spec' }));
+    await journal.flush();
+
+    await fs.appendFile(journal.getPath(), '{"type":"task","at":"2025-');
+
+    const state = await RunJournal.load('run-1', tempDir);
+    expect(state.tasks).toHaveLength(1);
+  });
+
+  it('should list runs newest first', async () => {
+    await fs.writeFile(
+      path.join(tempDir, 'run-old.jsonl'),
+      JSON.stringify({ type: 'run', runId: 'run-old', startedAt: '2025-01-01T00:00:00.000Z' }) + '\n'
+    );
+    await fs.writeFile(
+      path.join(tempDir, 'run-new.jsonl'),
+      JSON.stringify({ type: 'run', runId: 'run-new', startedAt: '2025-06-01T00:00:00.000Z', label: 'docs' }) + '\n'
+    );
+
+    const runs = await RunJournal.listRuns(tempDir);
+
+    expect(runs.map(r => r.runId)).toEqual(['run-new', 'run-old']);
+    expect(runs[0].label).toBe('docs');
+  });
+
+  it('should return no runs for a missing directory', async () => {
+    expect(await RunJournal.listRuns(path.join(tempDir, 'missing'))).toEqual([]);
+  });
+
+  it('should reject run IDs that escape the runs directory', () => {
+    expect(() => RunJournal.getJournalPath('../secrets', tempDir)).toThrow('Invalid run ID');
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Tests for RunMonitor
+ */
+
+import { EventEmitter } from 'events';
+import { RunMonitor } from '../../src/core/run-monitor';
+import { Agent } from '../../src/types';
+import { TaskFactory } from '../helpers';
+
+function createAgent(id: string, overrides: Partial<Agent> = {}): Agent {
+  return { id, mode: 'coder', status: 'running', task: 'Build it', startTime: new Date(), ...overrides };
+}
+
+describe('RunMonitor', () => {
+  it('should track running agents and their streamed output', () => {
+    const source = new EventEmitter();
+    const monitor = new RunMonitor();
+    monitor.attach(source);
+
+    const agent = createAgent('agent-1');
+    source.emit('agentSpawned', agent);
+    source.emit('agentOutput', { agentId: 'agent-1', taskId: 'build', chunk: 'Hello ' });
+    source.emit('agentOutput', { agentId: 'agent-1', taskId: 'build', chunk: 'world' });
+
+    expect(monitor.getActiveAgents()).toEqual([agent]);
+    expect(monitor.getSelectedAgent()).toBe(agent);
+    expect(monitor.getOutput('agent-1')).toBe('Hello world');
+
+    agent.status = 'completed';
+    source.emit('agentCompleted', agent);
+    expect(monitor.getActiveAgents()).toEqual([]);
+  });
+
+  it('should cycle the selection through running agents', () => {
+    const monitor = new RunMonitor();
+    monitor.handle('agentSpawned', createAgent('agent-1'));
+    monitor.handle('agentSpawned', createAgent('agent-2'));
+
+    expect(monitor.getSelectedAgent()?.id).toBe('agent-1');
+    monitor.selectNext();
+    expect(monitor.getSelectedAgent()?.id).toBe('agent-2');
+    monitor.selectNext();
+    expect(monitor.getSelectedAgent()?.id).toBe('agent-1');
+    monitor.selectNext(-1);
+    expect(monitor.getSelectedAgent()?.id).toBe('agent-2');
+  });
+
+  it('should keep only the most recent errors', () => {
+    const monitor = new RunMonitor(2);
+    monitor.handle('agentFailed', createAgent('agent-1', { status: 'failed', error: 'socket hang up' }));
+    monitor.handle('taskRetrying', { task: TaskFactory.create({ id: 'build' }), attempt: 1, delayMs: 2000, error: 'ECONNRESET' });
+    monitor.handle('taskSkipped', TaskFactory.create({ id: 'docs', statusReason: 'Dependency build failed' }));
+
+    expect(monitor.getErrors().map(error => error.message)).toEqual([
+      'build retrying after attempt 1 in 2s: ECONNRESET',
+      'docs skipped: Dependency build failed',
+    ]);
+  });
+
+  it('should pick up agents that were running before it attached', () => {
+    const monitor = new RunMonitor();
+    monitor.handle('agentSpawned', createAgent('agent-1', { status: 'completed' }));
+
+    monitor.track([createAgent('agent-2'), createAgent('agent-3')]);
+    monitor.handle('agentOutput', { agentId: 'agent-2', taskId: 'build', chunk: 'Hello' });
+
+    expect(monitor.getActiveAgents().map(agent => agent.id)).toEqual(['agent-2', 'agent-3']);
+    expect(monitor.getSelectedAgent()?.id).toBe('agent-2');
+    expect(monitor.getOutput('agent-2')).toBe('Hello');
+  });
+
+  it('should stop following events once detached', () => {
+    const source = new EventEmitter();
+    const monitor = new RunMonitor();
+    const detach = monitor.attach(source);
+
+    detach();
+    source.emit('agentSpawned', createAgent('agent-1'));
+
+    expect(monitor.getActiveAgents()).toEqual([]);
+    expect(source.listenerCount('agentSpawned')).toBe(0);
+  });
+
+  describe('layoutDag', () => {
+    it('should place tasks after their dependencies with their depth', () => {
+      const tasks = [
+        TaskFactory.create({ id: 'build', dependencies: ['design'] }),
+        TaskFactory.create({ id: 'docs', dependencies: ['spec', 'build'] }),
+        TaskFactory.create({ id: 'design', dependencies: ['spec'] }),
+        TaskFactory.create({ id: 'spec' }),
+      ];
+
+      expect(RunMonitor.layoutDag(tasks).map(({ task, depth }) => `${task.id}:${depth}`))
+        .toEqual(['spec:0', 'design:1', 'build:2', 'docs:3']);
+    });
+
+    it('should ignore dependencies outside the list', () => {
+      const tasks = [TaskFactory.create({ id: 'build', dependencies: ['elsewhere'] })];
+
+      expect(RunMonitor.layoutDag(tasks)).toEqual([{ task: tasks[0], depth: 0 }]);
+    });
+  });
+});
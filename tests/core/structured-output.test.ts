@@ -0,0 +1,72 @@
+/**
+ * Tests for StructuredOutput
+ */
+
+import { StructuredOutput, StructuredOutputError } from '../../src/core/structured-output';
+import { AgentResult } from '../../src/types';
+
+describe('StructuredOutput', () => {
+  describe('schemaFor', () => {
+    it('should require a summary and describe only the requested sections', () => {
+      const schema = StructuredOutput.schemaFor(['code', 'openQuestions']);
+
+      expect(schema.required).toEqual(['summary']);
+      expect(Object.keys(schema.properties!)).toEqual(['summary', 'code', 'openQuestions']);
+      expect(schema.properties!.code.items!.required).toEqual(['content']);
+    });
+  });
+
+  describe('parse', () => {
+    it('should read JSON inside code fences and drop fields outside the sections', () => {
+      const reply = 'Here it is:\n```json\n{"summary": "Added a route", "code": [{"path": "src/api.ts", "content": "export {};"}], ' +
+        '"architecture": "Not requested", "mood": "great"}\n```';
+
+      expect(StructuredOutput.parse(reply, ['code'])).toEqual({
+        summary: 'Added a route',
+        code: [{ path: 'src/api.ts', content: 'export {};' }],
+      });
+    });
+
+    it('should list every problem with a malformed result', () => {
+      const reply = '{"followUpTasks": [{"mode": "coder"}], "openQuestions": "Which database?"}';
+
+      try {
+        StructuredOutput.parse(reply, ['openQuestions', 'followUpTasks']);
+        fail('Expected a StructuredOutputError');
+      } catch (error) {
+        expect(error).toBeInstanceOf(StructuredOutputError);
+        expect((error as StructuredOutputError).problems).toEqual([
+          'result.summary is missing',
+          'result.openQuestions must be a list',
+          'result.followUpTasks[0].description is missing',
+        ]);
+      }
+    });
+
+    it('should reject replies without a JSON object', () => {
+      expect(() => StructuredOutput.parse('All done!', ['code'])).toThrow('no JSON object found');
+      expect(() => StructuredOutput.parse('{summary: done}', ['code'])).toThrow('not valid JSON');
+    });
+  });
+
+  describe('toMarkdown', () => {
+    it('should render the summary and each section present', () => {
+      const result: AgentResult = {
+        summary: 'Added a route',
+        code: [{ path: 'src/api.ts', language: 'typescript', content: 'export {};' }],
+        testPlan: [],
+        followUpTasks: [{ description: 'Document the route', mode: 'documentation' }],
+      };
+
+      expect(StructuredOutput.toMarkdown(result)).toBe(
+        'Added a route\n\n## Code\nsrc/api.ts\n```typescript\nexport {};\n```\n\n## Follow-up Tasks\n- [documentation] Document the route'
+      );
+    });
+  });
+
+  it('should recognise stored agent results', () => {
+    expect(StructuredOutput.isAgentResult({ summary: 'Done', code: [] })).toBe(true);
+    expect(StructuredOutput.isAgentResult({ status: 'failed' })).toBe(false);
+    expect(StructuredOutput.isAgentResult('Done')).toBe(false);
+  });
+});
@@ -2,7 +2,7 @@
  * Tests for TaskQueue
  */
 
-import { TaskQueue } from '../../src/core/task-queue';
+import { TaskQueue, TaskDependencyError } from '../../src/core/task-queue';
 import { TaskFactory } from '../helpers';
 import { Task } from '../../src/types';
 
@@ -347,17 +347,15 @@ describe('TaskQueue', () => {
     });
 
     it('should handle circular dependency detection', async () => {
-      // Note: Current implementation doesn't prevent circular deps,
-      // but should handle gracefully by never returning them
       const task1 = TaskFactory.create({ id: 'task1', dependencies: ['task2'] });
       const task2 = TaskFactory.create({ id: 'task2', dependencies: ['task1'] });
 
       queue.add(task1);
-      queue.add(task2);
+
+      // Closing the cycle is rejected
+      expect(() => queue.add(task2)).toThrow(TaskDependencyError);
 
       const next = await queue.getNext();
-      
-      // Neither should be available due to circular dependency
       expect(next).toBeNull();
     });
 
@@ -390,6 +388,235 @@ describe('TaskQueue', () => {
     });
   });
 
+  describe('dependency validation', () => {
+    it('should reject self-references', () => {
+      const task = TaskFactory.create({ id: 'task1', dependencies: ['task1'] });
+
+      try {
+        queue.add(task);
+        fail('Expected add to throw');
+      } catch (error) {
+        expect(error).toBeInstanceOf(TaskDependencyError);
+        expect((error as TaskDependencyError).kind).toBe('self-reference');
+        expect((error as TaskDependencyError).chain).toEqual(['task1', 'task1']);
+      }
+
+      expect(queue.getById('task1')).toBeUndefined();
+    });
+
+    it('should name the full chain of a cycle', () => {
+      queue.add(TaskFactory.create({ id: 'a' }));
+      queue.add(TaskFactory.create({ id: 'b', dependencies: ['a'] }));
+      queue.add(TaskFactory.create({ id: 'c', dependencies: ['b'] }));
+
+      try {
+        // Re-adding "a" with a dependency on "c" closes a cycle
+        queue.add(TaskFactory.create({ id: 'a', dependencies: ['c'] }));
+        fail('Expected add to throw');
+      } catch (error) {
+        expect((error as TaskDependencyError).kind).toBe('cycle');
+        expect((error as TaskDependencyError).chain).toEqual(['a', 'c', 'b', 'a']);
+        expect((error as Error).message).toContain('a -> c -> b -> a');
+      }
+    });
+
+    it('should quarantine tasks with unknown dependencies', () => {
+      queue.add(TaskFactory.create({ id: 'task1', dependencies: ['missing'] }));
+
+      const quarantined = queue.getQuarantined();
+      expect(quarantined).toHaveLength(1);
+      expect(quarantined[0].task.id).toBe('task1');
+      expect(quarantined[0].error.kind).toBe('unknown-dependency');
+      expect(quarantined[0].error.chain).toEqual(['task1', 'missing']);
+      expect(queue.getById('task1')).toBeUndefined();
+      expect(queue.size()).toBe(0);
+    });
+
+    it('should report chains through quarantined tasks', () => {
+      queue.add(TaskFactory.create({ id: 'b', dependencies: ['missing'] }));
+      queue.add(TaskFactory.create({ id: 'c', dependencies: ['b'] }));
+
+      const held = queue.getQuarantined().find(q => q.task.id === 'c');
+      expect(held?.error.chain).toEqual(['c', 'b', 'missing']);
+    });
+
+    it('should release quarantined tasks once dependencies are added', async () => {
+      queue.add(TaskFactory.create({ id: 'c', dependencies: ['b'] }));
+      queue.add(TaskFactory.create({ id: 'b', dependencies: ['a'] }));
+      expect(queue.getQuarantined()).toHaveLength(2);
+
+      queue.add(TaskFactory.create({ id: 'a' }));
+
+      expect(queue.getQuarantined()).toHaveLength(0);
+      expect(queue.size()).toBe(3);
+      expect((await queue.getNext())?.id).toBe('a');
+    });
+
+    it('should quarantine a re-added task whose new dependency is unknown', () => {
+      queue.add(TaskFactory.create({ id: 'task1' }));
+      queue.add(TaskFactory.create({ id: 'task1', dependencies: ['missing'] }));
+
+      expect(queue.getById('task1')).toBeUndefined();
+      expect(queue.size()).toBe(0);
+      expect(queue.getQuarantined().map(q => q.task.id)).toEqual(['task1']);
+    });
+
+    it('should detect cycles through quarantined tasks', () => {
+      queue.add(TaskFactory.create({ id: 'a', dependencies: ['b'] }));
+
+      expect(() => queue.add(TaskFactory.create({ id: 'b', dependencies: ['a'] }))).toThrow('b -> a -> b');
+    });
+  });
+
+  describe('getTopologicalOrder', () => {
+    it('should return empty array for empty queue', () => {
+      expect(queue.getTopologicalOrder()).toEqual([]);
+    });
+
+    it('should order pending tasks by dependencies, then priority', () => {
+      queue.add(TaskFactory.create({ id: 'spec', priority: 'low' }));
+      queue.add(TaskFactory.create({ id: 'design', priority: 'high', dependencies: ['spec'] }));
+      queue.add(TaskFactory.create({ id: 'docs', priority: 'medium' }));
+      queue.add(TaskFactory.create({ id: 'code', priority: 'high', dependencies: ['design', 'docs'] }));
+
+      const order = queue.getTopologicalOrder().map(t => t.id);
+
+      expect(order).toEqual(['docs', 'spec', 'design', 'code']);
+    });
+
+    it('should ignore dependencies that are no longer pending', async () => {
+      queue.add(TaskFactory.create({ id: 'a' }));
+      queue.add(TaskFactory.create({ id: 'b', dependencies: ['a'] }));
+
+      await queue.getNext();
+
+      expect(queue.getTopologicalOrder().map(t => t.id)).toEqual(['b']);
+    });
+  });
+
+  describe('failure propagation', () => {
+    const fail = (task: Task | null) => {
+      if (task) task.status = 'failed';
+    };
+
+    beforeEach(() => {
+      queue.add(TaskFactory.create({ id: 'spec' }));
+      queue.add(TaskFactory.create({ id: 'design', dependencies: ['spec'] }));
+      queue.add(TaskFactory.create({ id: 'code', dependencies: ['design'] }));
+      queue.add(TaskFactory.create({ id: 'docs', priority: 'low' }));
+    });
+
+    it('should skip transitive dependents by default', async () => {
+      const spec = await queue.getNext();
+      fail(spec);
+
+      const skipped = queue.propagateFailure('spec');
+
+      expect(skipped.map(t => t.id).sort()).toEqual(['code', 'design']);
+      expect(queue.getById('code')?.status).toBe('skipped');
+      expect(queue.getById('code')?.statusReason).toBe('Dependency spec failed');
+      expect(queue.getById('docs')?.status).toBe('pending');
+      expect(queue.size()).toBe(1);
+    });
+
+    it('should skip the pending tasks connected to a fail-fast task', async () => {
+      queue.add(TaskFactory.create({ id: 'review', dependencies: ['design'] }));
+      const spec = await queue.getNext();
+      fail(spec);
+      spec!.failurePolicy = 'fail-fast';
+
+      const skipped = queue.propagateFailure('spec');
+
+      expect(skipped.map(t => t.id).sort()).toEqual(['code', 'design', 'review']);
+      expect(queue.getById('review')?.statusReason).toContain('fail-fast');
+      expect(queue.getById('docs')?.status).toBe('pending');
+      expect(queue.size()).toBe(1);
+    });
+
+    it('should halt only the workflow run of a fail-fast task', async () => {
+      queue.add(TaskFactory.create({ id: 'wf-1-lint', priority: 'high', workflowId: 'wf-1', failurePolicy: 'fail-fast' }));
+      queue.add(TaskFactory.create({ id: 'wf-1-test', workflowId: 'wf-1' }));
+      queue.add(TaskFactory.create({ id: 'wf-2-test', workflowId: 'wf-2' }));
+      fail(await queue.getNext());
+
+      const skipped = queue.propagateFailure('wf-1-lint');
+
+      expect(skipped.map(t => t.id)).toEqual(['wf-1-test']);
+      expect(queue.getById('wf-2-test')?.status).toBe('pending');
+    });
+
+    it('should let dependents run with continue-with-partial', async () => {
+      const spec = await queue.getNext();
+      fail(spec);
+      spec!.failurePolicy = 'continue-with-partial';
+
+      expect(queue.propagateFailure('spec')).toEqual([]);
+      expect(queue.areDependenciesMet(queue.getById('design')!)).toBe(true);
+      expect((await queue.getNext())?.id).toBe('design');
+    });
+
+    it('should not treat plain failures as met dependencies', async () => {
+      fail(await queue.getNext());
+
+      expect(queue.areDependenciesMet(queue.getById('design')!)).toBe(false);
+    });
+
+    it('should ignore unknown task ids', () => {
+      expect(queue.propagateFailure('unknown')).toEqual([]);
+    });
+
+    it('should always skip dependents of cancelled tasks', () => {
+      const cancelled = queue.cancel('spec', 'Cancelled by user');
+      cancelled!.failurePolicy = 'continue-with-partial';
+
+      const skipped = queue.propagateFailure('spec');
+
+      expect(skipped.map(t => t.id).sort()).toEqual(['code', 'design']);
+      expect(queue.getById('design')?.statusReason).toBe('Dependency spec cancelled');
+    });
+
+    it('should treat timed out tasks like failures', async () => {
+      const spec = await queue.getNext();
+      spec!.status = 'timed_out';
+      spec!.failurePolicy = 'continue-with-partial';
+
+      expect(queue.areDependenciesMet(queue.getById('design')!)).toBe(true);
+    });
+  });
+
+  describe('cancel', () => {
+    it('should cancel pending tasks', async () => {
+      queue.add(TaskFactory.create({ id: 'task1' }));
+
+      const cancelled = queue.cancel('task1', 'Not needed');
+
+      expect(cancelled?.status).toBe('cancelled');
+      expect(cancelled?.statusReason).toBe('Not needed');
+      expect(queue.size()).toBe(0);
+      expect(await queue.getNext()).toBeNull();
+    });
+
+    it('should not cancel running or unknown tasks', async () => {
+      queue.add(TaskFactory.create({ id: 'task1' }));
+      await queue.getNext();
+
+      expect(queue.cancel('task1', 'Too late')).toBeUndefined();
+      expect(queue.cancel('unknown', 'Missing')).toBeUndefined();
+    });
+  });
+
+  describe('getDependents', () => {
+    it('should return direct and transitive dependents', () => {
+      queue.add(TaskFactory.create({ id: 'a' }));
+      queue.add(TaskFactory.create({ id: 'b', dependencies: ['a'] }));
+      queue.add(TaskFactory.create({ id: 'c', dependencies: ['a', 'b'] }));
+      queue.add(TaskFactory.create({ id: 'd' }));
+
+      expect(queue.getDependents('a').map(t => t.id).sort()).toEqual(['b', 'c']);
+      expect(queue.getDependents('d')).toEqual([]);
+    });
+  });
+
   describe('edge cases', () => {
     it('should handle duplicate task IDs', () => {
       const task1 = TaskFactory.create({ id: 'duplicate', description: 'First' });
@@ -0,0 +1,256 @@
+/**
+ * Tests for WorkflowLoader
+ */
+
+import { WorkflowLoader } from '../../src/core/workflow';
+import { ValidationError } from '../../src/utils/validation';
+import { createTempDir, cleanupTempDir } from '../helpers';
+import path from 'path';
+import fs from 'fs-extra';
+
+describe('WorkflowLoader', () => {
+  const yamlWorkflow = `
+name: rest-api
+description: Build a REST API
+steps:
+  - id: design
+    mode: architect
+    task: Design the API based on the spec
+    dependsOn: [spec]
+  - id: spec
+    mode: specification
+    task: Write the requirements for a todo REST API
+  - id: implement
+    mode: coder
+    task: "Implement this design: {{steps.design.output}}"
+    dependsOn: [design]
+    priority: high
+`;
+
+  describe('parse', () => {
+    it('should parse YAML workflows', () => {
+      const workflow = WorkflowLoader.parse(yamlWorkflow, 'yaml');
+
+      expect(workflow.name).toBe('rest-api');
+      expect(workflow.description).toBe('Build a REST API');
+      expect(workflow.steps).toHaveLength(3);
+    });
+
+    it('should parse JSON workflows', () => {
+      const workflow = WorkflowLoader.parse(JSON.stringify({
+        steps: [{ id: 'only', mode: 'coder', task: 'Write a hello world program' }],
+      }), 'json', 'hello');
+
+      expect(workflow.name).toBe('hello');
+      expect(workflow.steps[0].priority).toBe('medium');
+    });
+
+    it('should order steps by dependencies', () => {
+      const workflow = WorkflowLoader.parse(yamlWorkflow, 'yaml');
+
+      expect(workflow.steps.map(s => s.id)).toEqual(['spec', 'design', 'implement']);
+    });
+
+    it('should reject invalid syntax', () => {
+      expect(() => WorkflowLoader.parse('{ not json', 'json')).toThrow(ValidationError);
+    });
+  });
+
+  describe('validate', () => {
+    it('should require at least one step', () => {
+      expect(() => WorkflowLoader.validate({ steps: [] })).toThrow('at least one step');
+    });
+
+    it('should reject invalid modes', () => {
+      expect(() => WorkflowLoader.validate({
+        steps: [{ id: 'a', mode: 'wizard', task: 'Do magic' }],
+      })).toThrow('Invalid agent mode');
+    });
+
+    it('should accept registered custom modes', () => {
+      const workflow = WorkflowLoader.validate(
+        { steps: [{ id: 'plan', mode: 'migration-planner', task: 'Plan the move' }] },
+        'workflow',
+        ['migration-planner']
+      );
+
+      expect(workflow.steps[0].mode).toBe('migration-planner');
+    });
+
+    it('should reject duplicate step ids', () => {
+      expect(() => WorkflowLoader.validate({
+        steps: [
+          { id: 'a', mode: 'coder', task: 'First' },
+          { id: 'a', mode: 'coder', task: 'Second' },
+        ],
+      })).toThrow('Duplicate step id');
+    });
+
+    it('should reject unknown dependencies', () => {
+      expect(() => WorkflowLoader.validate({
+        steps: [{ id: 'a', mode: 'coder', task: 'First', dependsOn: ['missing'] }],
+      })).toThrow('unknown step "missing"');
+    });
+
+    it('should reject dependency cycles', () => {
+      expect(() => WorkflowLoader.validate({
+        steps: [
+          { id: 'a', mode: 'coder', task: 'First', dependsOn: ['b'] },
+          { id: 'b', mode: 'coder', task: 'Second', dependsOn: ['a'] },
+        ],
+      })).toThrow('a -> b -> a');
+    });
+
+    it('should reject inputs that are not upstream', () => {
+      expect(() => WorkflowLoader.validate({
+        steps: [
+          { id: 'a', mode: 'coder', task: 'First' },
+          { id: 'b', mode: 'tester', task: 'Test {{steps.a.output}}' },
+        ],
+      })).toThrow('not one of its dependencies');
+    });
+
+    it('should reject invalid failure policies', () => {
+      expect(() => WorkflowLoader.validate({
+        steps: [{ id: 'a', mode: 'coder', task: 'First', onFailure: 'explode' }],
+      })).toThrow('Invalid onFailure policy');
+    });
+
+    it('should reject invalid timeouts', () => {
+      expect(() => WorkflowLoader.validate({
+        steps: [{ id: 'a', mode: 'coder', task: 'First', timeoutMs: -5 }],
+      })).toThrow('timeoutMs must be a positive integer');
+    });
+
+    it('should reject invalid retry policies', () => {
+      expect(() => WorkflowLoader.validate({
+        steps: [{ id: 'a', mode: 'coder', task: 'First', retry: { maxAttempts: 'lots' } }],
+      })).toThrow('maxAttempts');
+    });
+
+    it('should reject unknown result sections', () => {
+      expect(() => WorkflowLoader.validate({
+        steps: [
+          { id: 'a', mode: 'architect', task: 'Design' },
+          { id: 'b', mode: 'coder', task: 'Build {{steps.a.output.diagram}}', dependsOn: ['a'] },
+        ],
+      })).toThrow('unknown section "diagram"');
+    });
+
+    it('should allow inputs from transitive dependencies', () => {
+      const workflow = WorkflowLoader.validate({
+        steps: [
+          { id: 'a', mode: 'specification', task: 'Spec' },
+          { id: 'b', mode: 'architect', task: 'Design', dependsOn: ['a'] },
+          { id: 'c', mode: 'coder', task: 'Code', dependsOn: ['b'], inputs: ['a', 'b'] },
+        ],
+      });
+
+      expect(workflow.steps[2].inputs).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('toTasks', () => {
+    it('should create tasks with run-scoped ids and dependencies', () => {
+      const workflow = WorkflowLoader.parse(yamlWorkflow, 'yaml');
+      const tasks = WorkflowLoader.toTasks(workflow, 'run-1');
+
+      expect(tasks.map(t => t.id)).toEqual(['run-1-spec', 'run-1-design', 'run-1-implement']);
+      expect(tasks[1].dependencies).toEqual(['run-1-spec']);
+      expect(tasks.every(t => t.workflowId === 'run-1')).toBe(true);
+      expect(tasks[2].priority).toBe('high');
+      expect(tasks[0].timeoutMs).toBeUndefined();
+      expect(tasks.every(t => t.status === 'pending')).toBe(true);
+    });
+
+    it('should apply step and workflow failure policies', () => {
+      const workflow = WorkflowLoader.validate({
+        onFailure: 'fail-fast',
+        steps: [
+          { id: 'a', mode: 'specification', task: 'Spec' },
+          { id: 'b', mode: 'coder', task: 'Code', dependsOn: ['a'], onFailure: 'continue-with-partial' },
+        ],
+      });
+      const tasks = WorkflowLoader.toTasks(workflow, 'run-1');
+
+      expect(tasks[0].failurePolicy).toBe('fail-fast');
+      expect(tasks[1].failurePolicy).toBe('continue-with-partial');
+    });
+
+    it('should carry step retry policies onto tasks', () => {
+      const workflow = WorkflowLoader.validate({
+        steps: [{ id: 'a', mode: 'coder', task: 'Code', retry: { maxAttempts: 5, retryOn: ['timeout'] } }],
+      });
+      const [task] = WorkflowLoader.toTasks(workflow, 'run-1');
+
+      expect(task.retryPolicy).toEqual({ maxAttempts: 5, retryOn: ['timeout'] });
+    });
+
+    it('should carry attached files onto tasks', () => {
+      const workflow = WorkflowLoader.validate({
+        steps: [{ id: 'a', mode: 'coder', task: 'Code', files: ['src/api.ts', 'src/api.ts', 'README.md'] }],
+      });
+      const [task] = WorkflowLoader.toTasks(workflow, 'run-1');
+
+      expect(task.files).toEqual(['src/api.ts', 'README.md']);
+      expect(() => WorkflowLoader.validate({ steps: [{ id: 'a', mode: 'coder', task: 'Code', files: [1] }] }))
+        .toThrow('Files must be a list of file paths');
+    });
+
+    it('should map inputs to upstream task ids', () => {
+      const workflow = WorkflowLoader.parse(yamlWorkflow, 'yaml');
+      const tasks = WorkflowLoader.toTasks(workflow, 'run-1');
+
+      expect(tasks[1].inputs).toEqual({ spec: 'run-1-spec' });
+      expect(tasks[2].inputs).toEqual({ design: 'run-1-design' });
+    });
+  });
+
+  describe('renderTemplate', () => {
+    it('should substitute step outputs', () => {
+      const rendered = WorkflowLoader.renderTemplate(
+        'Implement: {{ steps.design.output }}',
+        { design: 'Use a layered architecture' }
+      );
+
+      expect(rendered).toBe('Implement: Use a layered architecture');
+    });
+
+    it('should substitute single sections of structured results', () => {
+      const rendered = WorkflowLoader.renderTemplate(
+        'Build {{steps.design.output.architecture}}. Then: {{steps.design.output.followUpTasks}} {{steps.design.output.code}}',
+        { design: { summary: 'Layers', architecture: 'A layered architecture', followUpTasks: [{ description: 'Add tests', mode: 'tester' }] } }
+      );
+
+      expect(rendered).toBe('Build A layered architecture. Then: - [tester] Add tests (Step design gave no code)');
+    });
+
+    it('should leave unknown placeholders untouched', () => {
+      const rendered = WorkflowLoader.renderTemplate('Use {{steps.x.output}}', {});
+
+      expect(rendered).toBe('Use {{steps.x.output}}');
+    });
+  });
+
+  describe('load', () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+      tempDir = await createTempDir();
+    });
+
+    afterEach(async () => {
+      await cleanupTempDir(tempDir);
+    });
+
+    it('should load workflow files from disk', async () => {
+      const filePath = path.join(tempDir, 'build-api.yml');
+      await fs.writeFile(filePath, yamlWorkflow.replace('name: rest-api\n', ''));
+
+      const workflow = await WorkflowLoader.load(filePath);
+
+      expect(workflow.name).toBe('build-api');
+      expect(workflow.steps).toHaveLength(3);
+    });
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Tests for WorkspaceScanner
+ */
+
+import path from 'path';
+import fs from 'fs-extra';
+import { WorkspaceScanner } from '../../src/core/workspace-scanner';
+import { PathSecurityError } from '../../src/utils/path-security';
+import { createTempDir, cleanupTempDir } from '../helpers';
+
+describe('WorkspaceScanner', () => {
+  let tempDir: string;
+
+  const write = async (file: string, content: string = '') => {
+    await fs.outputFile(path.join(tempDir, file), content);
+  };
+
+  beforeEach(async () => {
+    tempDir = await createTempDir();
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir(tempDir);
+  });
+
+  describe('scan', () => {
+    it('should honour .gitignore and .gemini-flowignore at every level', async () => {
+      await write('.gitignore', '# build output\ndist/\n*.md\n');
+      await write('.gemini-flowignore', 'secrets.json\n!README.md\n');
+      await write('src/index.ts');
+      await write('src/.gitignore', '/generated.ts\n');
+      await write('src/generated.ts');
+      await write('src/nested/generated.ts');
+      await write('dist/index.js');
+      await write('notes.md');
+      await write('README.md');
+      await write('secrets.json');
+      await write('node_modules/pkg/index.js');
+
+      const scan = await WorkspaceScanner.scan('.', tempDir);
+
+      expect(scan.files.map(file => file.path)).toEqual(['README.md', 'src/index.ts', 'src/nested/generated.ts']);
+    });
+
+    it('should leave out other file types and large files', async () => {
+      await write('README.md', '# Project');
+      await write('logo.png', 'png');
+      await write('big.ts', 'x'.repeat(300 * 1024));
+
+      const scan = await WorkspaceScanner.scan('.', tempDir);
+
+      expect(scan.files).toEqual([{ path: 'README.md', size: 9 }]);
+      expect(scan.skipped).toBe(2);
+      expect(WorkspaceScanner.tree(scan)).toBe('README.md\n(2 other files left out for their type or size)');
+    });
+
+    it('should apply ignore files above a scanned subdirectory', async () => {
+      await write('.gitignore', 'fixtures/\n');
+      await write('packages/app/main.ts');
+      await write('packages/app/fixtures/data.json');
+
+      const scan = await WorkspaceScanner.scan('packages/app', tempDir);
+
+      expect(scan.dir).toBe('packages/app');
+      expect(scan.files.map(file => file.path)).toEqual(['main.ts']);
+    });
+
+    it('should refuse directories outside the working directory', async () => {
+      await expect(WorkspaceScanner.scan('..', tempDir)).rejects.toThrow(PathSecurityError);
+      await write('file.ts');
+      await expect(WorkspaceScanner.scan('file.ts', tempDir)).rejects.toThrow('Not a directory');
+    });
+  });
+
+  describe('matches', () => {
+    it('should support globstars, name-only globs, braces and directories', () => {
+      expect(WorkspaceScanner.matches('src/core/patch.ts', 'src/**/*.ts')).toBe(true);
+      expect(WorkspaceScanner.matches('src/patch.ts', 'src/**/*.ts')).toBe(true);
+      expect(WorkspaceScanner.matches('src/core/patch.ts', '*.ts')).toBe(true);
+      expect(WorkspaceScanner.matches('src/core/patch.ts', 'src/*.ts')).toBe(false);
+      expect(WorkspaceScanner.matches('lib/a.tsx', '{src,lib}/*.{ts,tsx}')).toBe(true);
+      expect(WorkspaceScanner.matches('src/core/patch.ts', 'src/core')).toBe(true);
+      expect(WorkspaceScanner.matches('src/core2/patch.ts', 'src/core')).toBe(false);
+    });
+  });
+
+  describe('section', () => {
+    it('should show the tree and included files, those named in the task first', async () => {
+      await write('src/a.ts', 'export const a = 1;');
+      await write('src/b.ts', 'export const b = 2;');
+      await write('README.md', '# Project');
+
+      const { text, report } = await WorkspaceScanner.section({ include: ['src/*.ts'] }, 'Fix the bug in b.ts', 1000, tempDir);
+
+      expect(text).toBe([
+        '## Workspace',
+        '### Project files',
+        'README.md\nsrc/\n  a.ts\n  b.ts',
+        '',
+        '### src/b.ts',
+        'export const b = 2;',
+        '',
+        '### src/a.ts',
+        'export const a = 1;',
+        '',
+      ].join('\n'));
+      expect(report.included.map(item => item.id)).toEqual(['.', 'src/b.ts', 'src/a.ts']);
+    });
+
+    it('should leave out files that do not fit in the budget', async () => {
+      await write('a.ts', 'const a = 1;\n'.repeat(500));
+
+      const { text, report } = await WorkspaceScanner.section({ include: ['*.ts'] }, 'Task', 20, tempDir);
+
+      expect(text).toContain('### Project files');
+      expect(report.dropped).toEqual([expect.objectContaining({ source: 'workspace', id: 'a.ts', reason: 'budget' })]);
+    });
+  });
+});
@@ -22,7 +22,7 @@ export class AgentFactory {
   static createCompleted(overrides?: Partial<Agent>): Agent {
     return this.create({
       status: 'completed',
-      result: 'Test result',
+      result: { summary: 'Test result' },
       endTime: new Date(),
       ...overrides,
     });
@@ -193,16 +193,14 @@ export class EventCollector {
 }
 
 /**
- * Create temporary test directory
+ * Create a temporary test directory, unique even across parallel test files
  */
 export async function createTempDir(): Promise<string> {
   const fs = await import('fs-extra');
   const path = await import('path');
   const os = await import('os');
-  
-  const tempDir = path.join(os.tmpdir(), `gemini-test-${Date.now()}`);
-  await fs.ensureDir(tempDir);
-  return tempDir;
+
+  return fs.mkdtemp(path.join(os.tmpdir(), 'gemini-test-'));
 }
 
 /**
@@ -0,0 +1,83 @@
+/**
+ * Tests for the embedding providers
+ */
+
+import { GeminiEmbedder, LocalEmbedder, cosineSimilarity } from '../../src/memory/embeddings';
+
+jest.mock('@google/generative-ai', () => {
+  const batchEmbedContents = jest.fn();
+  return {
+    TaskType: { RETRIEVAL_QUERY: 'RETRIEVAL_QUERY', RETRIEVAL_DOCUMENT: 'RETRIEVAL_DOCUMENT' },
+    GoogleGenerativeAI: jest.fn().mockImplementation(() => ({
+      getGenerativeModel: jest.fn().mockReturnValue({ batchEmbedContents }),
+    })),
+    __batchEmbedContents: batchEmbedContents,
+  };
+});
+
+describe('LocalEmbedder', () => {
+  const embedder = new LocalEmbedder();
+
+  it('should produce unit vectors of the configured size', async () => {
+    const [vector] = await embedder.embed(['Design the authentication service']);
+
+    expect(vector).toHaveLength(256);
+    expect(Math.hypot(...vector)).toBeCloseTo(1);
+    expect(new LocalEmbedder(64).model).toBe('local-hash-64');
+  });
+
+  it('should score texts sharing words above unrelated texts', async () => {
+    const [query, related, unrelated] = await embedder.embed([
+      'Add rate limiting to the login endpoint',
+      'Implemented login endpoint with JWT tokens',
+      'Wrote the deployment guide for Kubernetes',
+    ]);
+
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+  });
+
+  it('should return a zero vector for text without words', async () => {
+    const [vector] = await embedder.embed(['  !! ']);
+
+    expect(vector.every(value => value === 0)).toBe(true);
+  });
+});
+
+describe('GeminiEmbedder', () => {
+  const { __batchEmbedContents: batchEmbedContents } = jest.requireMock('@google/generative-ai');
+
+  beforeEach(() => {
+    batchEmbedContents.mockReset();
+    batchEmbedContents.mockImplementation(async ({ requests }: { requests: unknown[] }) => ({
+      embeddings: requests.map(() => ({ values: [3, 4] })),
+    }));
+  });
+
+  it('should embed in batches of 100 and normalize the vectors', async () => {
+    const embedder = new GeminiEmbedder('test-key');
+    const texts = Array.from({ length: 150 }, (_, i) => `Text ${i}`);
+
+    const vectors = await embedder.embed(texts, 'document');
+
+    expect(embedder.model).toBe('gemini:text-embedding-004');
+    expect(batchEmbedContents).toHaveBeenCalledTimes(2);
+    expect(batchEmbedContents.mock.calls[1][0].requests).toHaveLength(50);
+    expect(vectors).toHaveLength(150);
+    expect(vectors[0]).toEqual([0.6, 0.8]);
+  });
+
+  it('should embed queries as retrieval queries', async () => {
+    await new GeminiEmbedder('test-key').embed(['Find the API design'], 'query');
+
+    expect(batchEmbedContents.mock.calls[0][0].requests[0].taskType).toBe('RETRIEVAL_QUERY');
+  });
+});
+
+describe('cosineSimilarity', () => {
+  it('should compare vector directions', () => {
+    expect(cosineSimilarity([1, 0], [2, 0])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+    expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0);
+    expect(cosineSimilarity([0, 0], [1, 0])).toBe(0);
+  });
+});
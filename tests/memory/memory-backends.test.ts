@@ -0,0 +1,369 @@
+/**
+ * Tests for the JSON and SQLite memory backends
+ */
+
+import path from 'path';
+import fs from 'fs-extra';
+import { JsonMemoryStore } from '../../src/memory/json-memory-store';
+import { SqliteMemoryStore } from '../../src/memory/sqlite-memory-store';
+import { MemoryBackend, MemoryBackendOptions } from '../../src/types';
+import { MemoryFactory, createTempDir, cleanupTempDir } from '../helpers';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe.each([
+  ['JsonMemoryStore', (dir: string, options?: MemoryBackendOptions) => new JsonMemoryStore(path.join(dir, 'memory.json'), options)],
+  ['SqliteMemoryStore', (dir: string, options?: MemoryBackendOptions) => new SqliteMemoryStore(path.join(dir, 'memory.db'), options)],
+])('%s', (_name, createStore: (dir: string, options?: MemoryBackendOptions) => MemoryBackend) => {
+  let tempDir: string;
+  let store: MemoryBackend;
+
+  beforeEach(async () => {
+    tempDir = await createTempDir();
+    store = createStore(tempDir);
+    await store.initialize();
+  });
+
+  afterEach(async () => {
+    await store.close();
+    await cleanupTempDir(tempDir);
+  });
+
+  const seed = async () => {
+    const now = Date.now();
+    await store.insertMany([
+      MemoryFactory.create({ id: 'a', agentId: 'agent-1', type: 'result', content: 'Built the API', tags: ['coder'], timestamp: new Date(now - 3 * HOUR_MS) }),
+      MemoryFactory.create({ id: 'b', agentId: 'agent-2', type: 'error', content: { message: 'API timeout' }, tags: ['tester'], timestamp: new Date(now - 2 * HOUR_MS) }),
+      MemoryFactory.create({ id: 'c', agentId: 'agent-1', type: 'knowledge', content: 'Schema notes', tags: ['architect', 'coder'], timestamp: new Date(now - HOUR_MS) }),
+    ]);
+    return now;
+  };
+
+  it('should filter by text, tags, type, agent and time range', async () => {
+    const now = await seed();
+
+    expect((await store.query({ text: 'api' })).map(e => e.id).sort()).toEqual(['a', 'b']);
+    expect((await store.query({ tags: ['coder'] })).map(e => e.id).sort()).toEqual(['a', 'c']);
+    expect((await store.query({ types: ['error'] })).map(e => e.id)).toEqual(['b']);
+    expect((await store.query({ agentId: 'agent-1', text: 'schema' })).map(e => e.id)).toEqual(['c']);
+    expect((await store.query({ since: new Date(now - 2.5 * HOUR_MS), until: new Date(now - 1.5 * HOUR_MS) })).map(e => e.id)).toEqual(['b']);
+  });
+
+  it('should filter and count consolidated entries and excluded tags', async () => {
+    await seed();
+    await store.insert(MemoryFactory.create({ id: 'summary', tags: ['coder'], sources: ['a', 'c'] }));
+
+    expect((await store.query({ sources: true })).map(e => e.id)).toEqual(['summary']);
+    expect((await store.query({ sources: false, excludeTags: ['tester'], order: 'asc' })).map(e => e.id)).toEqual(['a', 'c']);
+    expect(await store.count({ tags: ['coder'], sources: false, limit: 1 })).toBe(2);
+    expect(await store.count({ tags: [] })).toBe(0);
+  });
+
+  it('should order and limit results', async () => {
+    await seed();
+
+    expect((await store.query({ order: 'desc', limit: 2 })).map(e => e.id)).toEqual(['c', 'b']);
+    expect((await store.query({ order: 'asc' })).map(e => e.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should round-trip content, tags and dates', async () => {
+    await seed();
+
+    const [entry] = await store.query({ types: ['error'] });
+    expect(entry.content).toEqual({ message: 'API timeout' });
+    expect(entry.tags).toEqual(['tester']);
+    expect(entry.agentId).toBe('agent-2');
+    expect(entry.timestamp).toBeInstanceOf(Date);
+  });
+
+  it('should skip entries that are already stored', async () => {
+    await seed();
+
+    const inserted = await store.insertMany([
+      MemoryFactory.create({ id: 'a' }),
+      MemoryFactory.create({ id: 'd' }),
+    ]);
+
+    expect(inserted).toBe(1);
+    expect(await store.count()).toBe(4);
+  });
+
+  it('should prune by age and then by count, oldest first', async () => {
+    await seed();
+
+    expect(await store.prune({ maxAgeMs: 2.5 * HOUR_MS })).toBe(1);
+    expect(await store.prune({ maxEntries: 1 })).toBe(1);
+    expect((await store.query()).map(e => e.id)).toEqual(['c']);
+    expect(await store.query({ tags: ['coder'] })).toHaveLength(1);
+  });
+
+  it('should keep pinned entries when pruning by age and count', async () => {
+    await seed();
+    await store.update('a', { pinned: true });
+
+    expect(await store.prune({ maxAgeMs: 0.5 * HOUR_MS })).toBe(2);
+    expect((await store.query()).map(e => e.id)).toEqual(['a']);
+
+    await store.insert(MemoryFactory.create({ id: 'd' }));
+    expect(await store.prune({ maxEntries: 1 })).toBe(0);
+    expect(await store.query({ pinned: true })).toHaveLength(1);
+    expect((await store.query({ pinned: false })).map(e => e.id)).toEqual(['d']);
+  });
+
+  it('should keep consolidated entries when pruning by age and count', async () => {
+    await seed();
+    await store.insert(MemoryFactory.create({ id: 'summary', timestamp: new Date(Date.now() - 3 * HOUR_MS), sources: ['a', 'b'] }));
+
+    expect(await store.prune({ maxAgeMs: 0.5 * HOUR_MS })).toBe(3);
+    expect(await store.prune({ maxEntries: 0 })).toBe(0);
+    expect((await store.query()).map(e => e.id)).toEqual(['summary']);
+  });
+
+  it('should get, update and delete entries by id', async () => {
+    await seed();
+
+    const updated = await store.update('a', { tags: ['reviewed', 'reviewed', 'api'], pinned: true });
+    expect(updated).toMatchObject({ id: 'a', tags: ['reviewed', 'api'], pinned: true });
+    expect((await store.query({ tags: ['reviewed'] })).map(e => e.id)).toEqual(['a']);
+    expect(await store.query({ tags: ['coder'] })).toHaveLength(1);
+
+    expect((await store.update('a', { pinned: false }))?.pinned).toBeUndefined();
+    expect(await store.update('missing', { pinned: true })).toBeUndefined();
+
+    expect(await store.delete(['a', 'b', 'missing'])).toBe(2);
+    expect(await store.get('a')).toBeUndefined();
+    expect((await store.get('c'))?.content).toBe('Schema notes');
+    expect(await store.query({ tags: ['reviewed'] })).toHaveLength(0);
+  });
+
+  it('should store and replace embeddings', async () => {
+    await store.insert(MemoryFactory.create({ id: 'e', embedding: { model: 'test', vector: [0.5, -0.25] } }));
+    await store.updateEmbeddings([{ id: 'e', embedding: { model: 'other', vector: [1, 0, 0] } }]);
+
+    const [entry] = await store.query();
+    expect(entry.embedding).toEqual({ model: 'other', vector: [1, 0, 0] });
+  });
+
+  it('should filter by namespace scope', async () => {
+    await store.insertMany([
+      MemoryFactory.create({ id: 'old', namespace: { project: 'shop', run: 'run-1', task: 'design' } }),
+      MemoryFactory.create({ id: 'new', namespace: { project: 'shop', run: 'run-2', task: 'design' } }),
+      MemoryFactory.create({ id: 'other', namespace: { project: 'blog', run: 'run-2' } }),
+      MemoryFactory.create({ id: 'legacy' }),
+    ]);
+
+    const ids = async (scope: object) => (await store.query({ scope })).map(e => e.id).sort();
+    expect(await ids({ project: 'shop' })).toEqual(['new', 'old']);
+    expect(await ids({ project: 'shop', runs: ['run-2'] })).toEqual(['new']);
+    expect(await ids({ runs: ['run-2'] })).toEqual(['new', 'other']);
+    expect(await ids({ project: 'shop', task: 'design', runs: [] })).toEqual([]);
+    expect(await ids({})).toEqual(['legacy', 'new', 'old', 'other']);
+    expect((await store.query({ scope: { project: 'blog' } }))[0].namespace).toEqual({ project: 'blog', run: 'run-2' });
+  });
+
+  it('should count entries by type, tag and embedding model', async () => {
+    const now = await seed();
+    await store.update('b', { pinned: true });
+    await store.updateEmbeddings([{ id: 'c', embedding: { model: 'test', vector: [1] } }]);
+
+    expect(await store.stats()).toEqual({
+      total: 3,
+      pinned: 1,
+      byType: { result: 1, error: 1, knowledge: 1 },
+      byTag: { coder: 2, tester: 1, architect: 1 },
+      byEmbeddingModel: { none: 2, test: 1 },
+      oldest: new Date(now - 3 * HOUR_MS),
+      newest: new Date(now - HOUR_MS),
+    });
+  });
+
+  it('should report no dates for an empty store', async () => {
+    expect(await store.stats()).toEqual({ total: 0, pinned: 0, byType: {}, byTag: {}, byEmbeddingModel: {} });
+  });
+
+  it('should read without writing when opened read-only', async () => {
+    await seed();
+    await store.close();
+    // The store's files, less the write-ahead log files SQLite readers may create, which hold no entries
+    const files = async () => Promise.all((await fs.readdir(tempDir))
+      .filter(file => file.startsWith('memory.') && !/-(wal|shm)$/.test(file))
+      .sort()
+      .map(async file => [file, await fs.readFile(path.join(tempDir, file))]));
+    const before = await files();
+
+    store = createStore(tempDir, { readOnly: true });
+    await store.initialize();
+
+    expect((await store.stats()).total).toBe(3);
+    await expect(store.insert(MemoryFactory.create({ id: 'd' }))).rejects.toThrow();
+    await expect(store.prune({ maxEntries: 0 })).rejects.toThrow();
+    await store.close();
+    expect(await files()).toEqual(before);
+  });
+
+  it('should persist entries across close and reopen', async () => {
+    await seed();
+    await store.close();
+
+    store = createStore(tempDir);
+    await store.initialize();
+
+    expect(await store.count()).toBe(3);
+    expect((await store.query({ tags: ['architect'] })).map(e => e.id)).toEqual(['c']);
+  });
+});
+
+describe('JsonMemoryStore', () => {
+  let tempDir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    tempDir = await createTempDir();
+    filePath = path.join(tempDir, 'memory.json');
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir(tempDir);
+  });
+
+  it('should merge changes flushed by another store on the same file', async () => {
+    const first = new JsonMemoryStore(filePath);
+    await first.initialize();
+    await first.insertMany([MemoryFactory.create({ id: 'shared' }), MemoryFactory.create({ id: 'doomed' })]);
+    await first.flush();
+
+    const second = new JsonMemoryStore(filePath);
+    await second.initialize();
+
+    await first.insert(MemoryFactory.create({ id: 'from-first' }));
+    await first.update('shared', { pinned: true });
+    await second.insert(MemoryFactory.create({ id: 'from-second' }));
+    await second.delete(['doomed']);
+
+    await Promise.all([first.close(), second.close()]);
+
+    const reopened = new JsonMemoryStore(filePath);
+    await reopened.initialize();
+    expect((await reopened.query()).map(e => e.id).sort()).toEqual(['from-first', 'from-second', 'shared']);
+    expect((await reopened.get('shared'))?.pinned).toBe(true);
+    expect((await fs.readdir(tempDir)).sort()).toEqual(['memory.json', 'memory.json.bak']);
+    await reopened.close();
+  });
+
+  it('should leave a corrupt file in place when read-only', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    await fs.writeFile(filePath, '{"agent-1": [{"id": "trunc');
+    await fs.writeJson(`${filePath}.bak`, { 'agent-1': [MemoryFactory.create({ id: 'backup' })] });
+
+    const store = new JsonMemoryStore(filePath, { readOnly: true });
+    await store.initialize();
+
+    expect((await store.query()).map(e => e.id)).toEqual(['backup']);
+    expect((await fs.readdir(tempDir)).sort()).toEqual(['memory.json', 'memory.json.bak']);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('is corrupt'));
+    await store.close();
+    warn.mockRestore();
+  });
+
+  it('should quarantine a corrupt file and restore the last backup', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const store = new JsonMemoryStore(filePath);
+    await store.initialize();
+    await store.insert(MemoryFactory.create({ id: 'first' }));
+    await store.flush();
+    await store.insert(MemoryFactory.create({ id: 'second' }));
+    await store.close();
+
+    await fs.writeFile(filePath, '{"agent-1": [{"id": "trunc');
+    const recovered = new JsonMemoryStore(filePath);
+    await recovered.initialize();
+
+    expect((await recovered.query()).map(e => e.id)).toEqual(['first']);
+    const files = await fs.readdir(tempDir);
+    expect(files.filter(file => file.startsWith('memory.json.corrupt-'))).toHaveLength(1);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('is corrupt'));
+
+    await recovered.close();
+    expect((await fs.readJson(filePath))['test-agent'].map((e: { id: string }) => e.id)).toEqual(['first']);
+    warn.mockRestore();
+  });
+});
+
+describe('SqliteMemoryStore', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await createTempDir();
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir(tempDir);
+  });
+
+  it('should create the database directory', async () => {
+    const dbPath = path.join(tempDir, 'nested', 'memory.db');
+    const store = new SqliteMemoryStore(dbPath);
+
+    await store.initialize();
+    await store.close();
+
+    expect(await fs.pathExists(dbPath)).toBe(true);
+  });
+
+  it('should answer indexed queries over a large store', async () => {
+    const store = new SqliteMemoryStore(path.join(tempDir, 'memory.db'));
+    await store.initialize();
+
+    const start = Date.now() - 50000 * 1000;
+    const entries = Array.from({ length: 50000 }, (_, i) => MemoryFactory.create({
+      id: `mem-${i}`,
+      agentId: `agent-${i % 20}`,
+      type: i % 10 === 0 ? 'error' : 'result',
+      content: `Entry ${i}`,
+      tags: [i % 2 === 0 ? 'coder' : 'tester'],
+      timestamp: new Date(start + i * 1000),
+    }));
+    expect(await store.insertMany(entries)).toBe(50000);
+
+    const recent = await store.query({ tags: ['coder'], types: ['error'], agentId: 'agent-0', order: 'desc', limit: 3 });
+    expect(recent.map(e => e.id)).toEqual(['mem-49980', 'mem-49960', 'mem-49940']);
+
+    await store.close();
+  });
+
+  it('should upgrade databases created by earlier schema versions', async () => {
+    const dbPath = path.join(tempDir, 'memory.db');
+    const Database = (await import('better-sqlite3')).default;
+    const legacy = new Database(dbPath);
+    legacy.exec(`
+      CREATE TABLE memory_entries (id TEXT PRIMARY KEY, agent_id TEXT NOT NULL, type TEXT NOT NULL,
+        timestamp INTEGER NOT NULL, content TEXT NOT NULL, tags TEXT NOT NULL);
+      CREATE TABLE memory_tags (entry_id TEXT NOT NULL, tag TEXT NOT NULL, PRIMARY KEY (tag, entry_id));
+      INSERT INTO memory_entries VALUES ('old', 'agent-1', 'result', 0, '"Old result"', '[]');
+    `);
+    legacy.pragma('user_version = 1');
+    legacy.close();
+
+    const store = new SqliteMemoryStore(dbPath);
+    await store.initialize();
+    await store.updateEmbeddings([{ id: 'old', embedding: { model: 'test', vector: [1] } }]);
+
+    await store.insert(MemoryFactory.create({ id: 'new', namespace: { project: 'shop' }, pinned: true, sources: ['old'] }));
+
+    const [entry] = await store.query({ order: 'asc' });
+    expect(entry.content).toBe('Old result');
+    expect(entry.embedding).toEqual({ model: 'test', vector: [1] });
+    expect(entry.namespace).toBeUndefined();
+    expect((await store.query({ scope: { project: 'shop' } })).map(e => e.id)).toEqual(['new']);
+    expect((await store.query({ pinned: true })).map(e => e.id)).toEqual(['new']);
+    expect((await store.get('new'))?.sources).toEqual(['old']);
+    expect(entry.sources).toBeUndefined();
+    await store.close();
+  });
+
+  it('should refuse to use the store before initialize', async () => {
+    const store = new SqliteMemoryStore(path.join(tempDir, 'memory.db'));
+
+    await expect(store.count()).rejects.toThrow('before initialize');
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Tests for MemoryConsolidator
+ */
+
+import { MemoryConsolidator, MemoryGroup } from '../../src/memory/memory-consolidator';
+import { MockProvider } from '../../src/providers/mock-provider';
+import { MemoryFactory } from '../helpers';
+
+describe('MemoryConsolidator', () => {
+  const entries = [
+    MemoryFactory.create({ id: 'a', tags: ['coder', 'completed'], namespace: { project: 'shop', run: 'run-1' } }),
+    MemoryFactory.create({ id: 'b', tags: ['coder', 'failed'], namespace: { project: 'shop', run: 'run-2' } }),
+    MemoryFactory.create({ id: 'c', tags: ['tester'], namespace: { project: 'shop', run: 'run-1' } }),
+    MemoryFactory.create({ id: 'd', tags: ['coder'], namespace: { project: 'blog', run: 'run-1' } }),
+  ];
+
+  it('should group entries by project and mode tag, or by run', () => {
+    const byTag = new MemoryConsolidator(new MockProvider(), { minGroupSize: 2 }).group(entries);
+    const byRun = new MemoryConsolidator(new MockProvider(), { groupBy: 'namespace', minGroupSize: 2 }).group(entries);
+
+    expect(byTag.map(group => [group.key, group.entries.map(entry => entry.id)])).toEqual([['shop / coder', ['a', 'b']]]);
+    expect(byTag[0].namespace).toEqual({ project: 'shop' });
+    expect(byRun.map(group => [group.key, group.entries.map(entry => entry.id)])).toEqual([['shop / run-1', ['a', 'c']]]);
+    expect(byRun[0].namespace).toEqual({ project: 'shop', run: 'run-1' });
+  });
+
+  it('should map source numbers to entry ids and keep the sources\' mode tags', () => {
+    const group: MemoryGroup = { key: 'shop', entries: entries.slice(0, 3) };
+    const reply = `Here you go:
+\`\`\`json
+[
+  {"type": "decision", "content": " Use retries ", "tags": ["payments", 3], "sources": [3, 3, 9]},
+  {"type": "knowledge", "content": "Both modes agree"},
+  {"type": "result", "content": "Not a durable entry"}
+]
+\`\`\``;
+
+    expect(MemoryConsolidator.parse(reply, group)).toEqual([
+      { type: 'decision', content: 'Use retries', tags: ['tester', 'payments'], sources: ['c'] },
+      { type: 'knowledge', content: 'Both modes agree', tags: ['coder', 'tester'], sources: ['a', 'b', 'c'] },
+    ]);
+  });
+
+  it('should reject replies without usable entries', async () => {
+    const group: MemoryGroup = { key: 'shop', entries };
+
+    expect(MemoryConsolidator.parse('[]', group)).toEqual([]);
+    expect(() => MemoryConsolidator.parse('[{"type": "result", "content": "x"}]', group)).toThrow('no usable entries');
+    await expect(new MemoryConsolidator(new MockProvider({ responses: [{ response: 'No idea' }] })).condense(group))
+      .rejects.toThrow('JSON array');
+  });
+});
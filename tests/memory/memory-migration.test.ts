@@ -0,0 +1,65 @@
+/**
+ * Tests for MemoryMigration
+ */
+
+import path from 'path';
+import fs from 'fs-extra';
+import { MemoryMigration } from '../../src/memory/memory-migration';
+import { SqliteMemoryStore } from '../../src/memory/sqlite-memory-store';
+import { MemoryFactory, createTempDir, cleanupTempDir } from '../helpers';
+
+describe('MemoryMigration', () => {
+  let tempDir: string;
+  let jsonPath: string;
+  let store: SqliteMemoryStore;
+
+  beforeEach(async () => {
+    tempDir = await createTempDir();
+    jsonPath = path.join(tempDir, 'gemini-memory.json');
+    store = new SqliteMemoryStore(path.join(tempDir, 'memory.db'));
+    await store.initialize();
+  });
+
+  afterEach(async () => {
+    await store.close();
+    await cleanupTempDir(tempDir);
+  });
+
+  it('should import every entry of a JSON memory file', async () => {
+    await fs.writeJson(jsonPath, {
+      'agent-1': [MemoryFactory.create({ id: 'm1', agentId: 'agent-1', tags: ['coder'] })],
+      global: [MemoryFactory.createResult({ id: 'm2', agentId: '' })],
+    });
+
+    const result = await MemoryMigration.importJson(jsonPath, store);
+
+    expect(result).toEqual({ imported: 2, skipped: 0, invalid: 0 });
+    const [entry] = await store.query({ tags: ['coder'] });
+    expect(entry.id).toBe('m1');
+    expect(entry.timestamp).toBeInstanceOf(Date);
+    expect((await store.query({ agentId: 'global' })).map(e => e.id)).toEqual(['m2']);
+  });
+
+  it('should skip entries already imported and count invalid ones', async () => {
+    await fs.writeJson(jsonPath, {
+      'agent-1': [
+        MemoryFactory.create({ id: 'm1' }),
+        { id: 'bad', type: 'unknown' },
+      ],
+    });
+
+    await MemoryMigration.importJson(jsonPath, store);
+    const again = await MemoryMigration.importJson(jsonPath, store);
+
+    expect(again).toEqual({ imported: 0, skipped: 1, invalid: 1 });
+    expect(await store.count()).toBe(1);
+  });
+
+  it('should reject files that are not memory files', async () => {
+    await fs.writeJson(jsonPath, [1, 2, 3]);
+    await expect(MemoryMigration.importJson(jsonPath, store)).rejects.toThrow('is not a memory file');
+
+    await expect(MemoryMigration.importJson(path.join(tempDir, 'missing.json'), store))
+      .rejects.toThrow('Could not read memory file');
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Tests for MockProvider
+ */
+
+import { MockProvider } from '../../src/providers/mock-provider';
+import { hashPrompt } from '../../src/providers/provider-utils';
+import { createTempDir, cleanupTempDir } from '../helpers';
+import path from 'path';
+import fs from 'fs-extra';
+
+describe('MockProvider', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await createTempDir();
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir(tempDir);
+  });
+
+  it('should return deterministic responses without a fixture', async () => {
+    const provider = new MockProvider();
+
+    const first = await provider.execute('Design an API', 'architect');
+    const second = await provider.execute('Design an API', 'architect');
+
+    expect(first).toBe(second);
+    expect(first).toBe(`Mock architect response (prompt ${hashPrompt('Design an API')})`);
+  });
+
+  it('should prefer exact prompt matches over mode and catch-all entries', async () => {
+    const provider = new MockProvider({
+      responses: [
+        { response: 'Anything' },
+        { mode: 'coder', response: 'Some code' },
+        { mode: 'coder', promptHash: hashPrompt('Write tests'), response: 'Exact match' },
+      ],
+    });
+
+    expect(await provider.execute('Write tests', 'coder')).toBe('Exact match');
+    expect(await provider.execute('Write more code', 'coder')).toBe('Some code');
+    expect(await provider.execute('Design', 'architect')).toBe('Anything');
+  });
+
+  it('should replay responses from a fixture file', async () => {
+    const fixture = path.join(tempDir, 'session.json');
+    await fs.writeJson(fixture, {
+      responses: [{ mode: 'tester', promptHash: hashPrompt('Test it'), response: 'Recorded answer' }],
+    });
+
+    const provider = new MockProvider({ fixture });
+
+    expect(await provider.execute('Test it', 'tester')).toBe('Recorded answer');
+    await expect(provider.execute('Test it again', 'tester'))
+      .rejects.toThrow(`No response in mock fixture ${fixture} for tester prompt ${hashPrompt('Test it again')}`);
+  });
+
+  it('should reject malformed fixtures', async () => {
+    const fixture = path.join(tempDir, 'bad.json');
+    await fs.writeJson(fixture, { responses: [{ mode: 'coder' }] });
+
+    await expect(new MockProvider({ fixture }).execute('x', 'coder')).rejects.toThrow('Invalid mock fixture');
+  });
+
+  it('should stream the scripted response', async () => {
+    const provider = new MockProvider({ responses: [{ response: 'one two three' }] });
+
+    const chunks: string[] = [];
+    for await (const chunk of provider.streamExecute('Count', 'ask')) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toEqual(['one ', 'two ', 'three']);
+  });
+
+  it('should honour aborted signals', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(new MockProvider().execute('x', 'coder', { signal: controller.signal }))
+      .rejects.toThrow('Request aborted');
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Tests for OllamaProvider
+ */
+
+import { OllamaProvider } from '../../src/providers/ollama-provider';
+
+describe('OllamaProvider', () => {
+  const fetchMock = jest.fn();
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should call the chat endpoint with model options', async () => {
+    fetchMock.mockResolvedValue(new Response(JSON.stringify({ message: { content: 'Local answer' } })));
+    const provider = new OllamaProvider({ model: 'qwen2.5-coder', maxOutputTokens: 256 });
+
+    const result = await provider.execute('Explain', 'documentation');
+
+    expect(result).toBe('Local answer');
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:11434/api/chat');
+    expect(JSON.parse(init.body)).toMatchObject({
+      model: 'qwen2.5-coder',
+      stream: false,
+      options: { temperature: 0.5, num_predict: 256 },
+    });
+  });
+
+  it('should pass a response schema as the output format', async () => {
+    fetchMock.mockResolvedValue(new Response(JSON.stringify({ message: { content: '{"summary": "Done"}' } })));
+    const provider = new OllamaProvider();
+    const schema = { type: 'object' as const, properties: { summary: { type: 'string' as const } }, required: ['summary'] };
+
+    await provider.execute('Explain', 'documentation', { responseSchema: schema });
+
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).format).toEqual(schema);
+  });
+
+  it('should stream newline-delimited chunks', async () => {
+    const lines = [
+      JSON.stringify({ message: { content: 'One ' }, done: false }),
+      JSON.stringify({ message: { content: 'two' }, done: false }),
+      JSON.stringify({ done: true }),
+    ].join('\n');
+    fetchMock.mockResolvedValue(new Response(lines));
+    const provider = new OllamaProvider();
+
+    const chunks: string[] = [];
+    for await (const chunk of provider.streamExecute('Count', 'coder')) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toEqual(['One ', 'two']);
+  });
+
+  it('should attach images for vision models', async () => {
+    fetchMock.mockResolvedValue(new Response(JSON.stringify({ message: { content: 'A cat' } })));
+    const provider = new OllamaProvider();
+
+    await provider.executeMultimodal('What is this?', [{ mimeType: 'image/jpeg', data: Buffer.from('jpg') }], 'designer');
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(body.messages[0].images).toEqual([Buffer.from('jpg').toString('base64')]);
+  });
+
+  it('should estimate token counts', async () => {
+    expect(await new OllamaProvider().countTokens('12345678')).toBe(2);
+  });
+});
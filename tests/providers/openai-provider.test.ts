@@ -0,0 +1,112 @@
+/**
+ * Tests for OpenAICompatibleProvider
+ */
+
+import { OpenAICompatibleProvider } from '../../src/providers/openai-provider';
+
+function jsonResponse(body: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+describe('OpenAICompatibleProvider', () => {
+  const fetchMock = jest.fn();
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should send chat completion requests with the mode temperature', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ choices: [{ message: { content: 'Done' } }] }));
+    const provider = new OpenAICompatibleProvider({ baseUrl: 'http://localhost:8080/v1/', model: 'qwen', apiKey: 'secret-key' });
+
+    const result = await provider.execute('Write code', 'debugger');
+
+    expect(result).toBe('Done');
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:8080/v1/chat/completions');
+    expect(init.headers.Authorization).toBe('Bearer secret-key');
+    expect(JSON.parse(init.body)).toMatchObject({
+      model: 'qwen',
+      temperature: 0.1,
+      messages: [{ role: 'user', content: 'Write code' }],
+      stream: false,
+    });
+  });
+
+  it('should let per-call options override the model and generation settings', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ choices: [{ message: { content: 'Done' } }] }));
+    const provider = new OpenAICompatibleProvider({ model: 'qwen' });
+
+    await provider.execute('Write code', 'coder', { model: 'llama', temperature: 0.9, maxOutputTokens: 256 });
+
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toMatchObject({
+      model: 'llama',
+      temperature: 0.9,
+      max_tokens: 256,
+    });
+  });
+
+  it('should ask for JSON matching a response schema', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ choices: [{ message: { content: '{"summary": "Done"}' } }] }));
+    const provider = new OpenAICompatibleProvider({});
+    const schema = { type: 'object' as const, properties: { summary: { type: 'string' as const } }, required: ['summary'] };
+
+    await provider.execute('Write code', 'coder', { responseSchema: schema });
+
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).response_format).toEqual({
+      type: 'json_schema',
+      json_schema: { name: 'agent_result', schema },
+    });
+  });
+
+  it('should include the HTTP status in errors', async () => {
+    fetchMock.mockResolvedValue(new Response('slow down', { status: 429, statusText: 'Too Many Requests' }));
+    const provider = new OpenAICompatibleProvider();
+
+    await expect(provider.execute('Hi', 'coder')).rejects.toThrow('status 429');
+  });
+
+  it('should stream server-sent event deltas', async () => {
+    const events = [
+      'data: {"choices":[{"delta":{"content":"Hel"}}]}',
+      'data: {"choices":[{"delta":{"content":"lo"}}]}',
+      'data: [DONE]',
+    ].join('\n\n');
+    fetchMock.mockResolvedValue(new Response(events));
+    const provider = new OpenAICompatibleProvider();
+
+    const chunks: string[] = [];
+    for await (const chunk of provider.streamExecute('Hi', 'coder')) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toEqual(['Hel', 'lo']);
+  });
+
+  it('should send images as data URLs and reject other files', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ choices: [{ message: { content: 'A sketch' } }] }));
+    const provider = new OpenAICompatibleProvider();
+
+    await provider.executeMultimodal('Describe', [{ mimeType: 'image/png', data: Buffer.from('png') }], 'designer');
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(body.messages[0].content[1].image_url.url).toBe(`data:image/png;base64,${Buffer.from('png').toString('base64')}`);
+
+    await expect(provider.executeMultimodal('Read', [{ mimeType: 'application/pdf', data: Buffer.from('') }], 'designer'))
+      .rejects.toThrow('does not support application/pdf');
+  });
+
+  it('should report health from the models endpoint', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({ data: [] })).mockRejectedValueOnce(new Error('ECONNREFUSED'));
+    const provider = new OpenAICompatibleProvider();
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    expect(await provider.checkHealth()).toBe(true);
+    expect(await provider.checkHealth()).toBe(false);
+  });
+});
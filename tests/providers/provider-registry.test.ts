@@ -0,0 +1,102 @@
+/**
+ * Tests for ProviderRegistry
+ */
+
+import { ProviderRegistry } from '../../src/providers/provider-registry';
+import { OllamaProvider } from '../../src/providers/ollama-provider';
+import { OpenAICompatibleProvider } from '../../src/providers/openai-provider';
+import { MockProvider } from '../../src/providers/mock-provider';
+import { RecordingProvider } from '../../src/providers/recording-provider';
+import { GeminiClient } from '../../src/core/gemini-client';
+
+jest.mock('../../src/core/gemini-client', () => ({
+  GeminiClient: jest.fn().mockImplementation(() => ({ name: 'gemini' })),
+}));
+
+describe('ProviderRegistry', () => {
+  const config = {
+    apiKey: 'test-api-key-123',
+    providers: {
+      local: { type: 'ollama' as const, model: 'llama3.1' },
+      hosted: { type: 'openai' as const, apiKeyEnv: 'TEST_OPENAI_KEY' },
+    },
+    modes: {
+      documentation: { provider: 'local' },
+      coder: { provider: 'hosted' },
+    },
+  };
+
+  beforeEach(() => {
+    (GeminiClient as unknown as jest.Mock).mockClear();
+  });
+
+  it('should route modes to their configured provider', () => {
+    const registry = new ProviderRegistry(config);
+
+    expect(registry.forMode('documentation')).toBeInstanceOf(OllamaProvider);
+    expect(registry.forMode('coder')).toBeInstanceOf(OpenAICompatibleProvider);
+    expect(registry.forMode('architect').name).toBe('gemini');
+  });
+
+  it('should use the configured default provider', () => {
+    const registry = new ProviderRegistry({ ...config, provider: 'local' });
+
+    expect(registry.getProviderName('architect')).toBe('local');
+    expect(registry.getProviderName('coder')).toBe('hosted');
+  });
+
+  it('should create each provider once', () => {
+    const registry = new ProviderRegistry(config);
+
+    expect(registry.get('local')).toBe(registry.get('local'));
+    registry.get('gemini');
+    registry.get('gemini');
+    expect(GeminiClient).toHaveBeenCalledTimes(1);
+  });
+
+  it('should list the providers in use', () => {
+    const registry = new ProviderRegistry(config);
+
+    expect(registry.getActiveProviderNames()).toEqual(['gemini', 'local', 'hosted']);
+  });
+
+  it('should reject unknown providers', () => {
+    const registry = new ProviderRegistry(config);
+
+    expect(() => registry.get('missing')).toThrow('Unknown provider: missing');
+  });
+
+  it('should pass the shared Gemini credentials to the built-in provider', () => {
+    new ProviderRegistry(config).get('gemini');
+
+    expect(GeminiClient).toHaveBeenCalledWith(expect.objectContaining({
+      apiKey: 'test-api-key-123',
+      authMethod: 'google-account',
+    }));
+  });
+
+  it('should provide the mock provider without configuration', () => {
+    expect(new ProviderRegistry({ provider: 'mock' }).forMode('coder')).toBeInstanceOf(MockProvider);
+  });
+
+  it('should send result schemas only to providers that enforce them', () => {
+    const registry = new ProviderRegistry({
+      ...config,
+      providers: { ...config.providers, strict: { type: 'openai', structuredOutput: true } },
+      modes: { ...config.modes, tester: { provider: 'strict' }, debug: { provider: 'mock' } },
+    });
+
+    expect(registry.supportsStructuredOutput('architect')).toBe(true);
+    expect(registry.supportsStructuredOutput('debug')).toBe(true);
+    expect(registry.supportsStructuredOutput('documentation')).toBe(false);
+    expect(registry.supportsStructuredOutput('coder')).toBe(false);
+    expect(registry.supportsStructuredOutput('tester')).toBe(true);
+  });
+
+  it('should wrap real providers when recording', () => {
+    const registry = new ProviderRegistry({ ...config, recordPath: 'fixtures/session.json' });
+
+    expect(registry.get('local')).toBeInstanceOf(RecordingProvider);
+    expect(registry.get('mock')).toBeInstanceOf(MockProvider);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Tests for RecordingProvider
+ */
+
+import { RecordingProvider } from '../../src/providers/recording-provider';
+import { MockProvider } from '../../src/providers/mock-provider';
+import { hashPrompt } from '../../src/providers/provider-utils';
+import { LLMProvider } from '../../src/types';
+import { createTempDir, cleanupTempDir } from '../helpers';
+import path from 'path';
+import fs from 'fs-extra';
+
+describe('RecordingProvider', () => {
+  let tempDir: string;
+  let fixture: string;
+  let inner: LLMProvider;
+
+  beforeEach(async () => {
+    tempDir = await createTempDir();
+    fixture = path.join(tempDir, 'fixtures', 'session.json');
+    inner = new MockProvider({ responses: [{ mode: 'coder', response: 'Live answer' }] });
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir(tempDir);
+  });
+
+  it('should record responses in a replayable fixture', async () => {
+    const recorder = new RecordingProvider(inner, fixture);
+
+    expect(await recorder.execute('Write code', 'coder')).toBe('Live answer');
+
+    const saved = await fs.readJson(fixture);
+    expect(saved.responses).toEqual([
+      { mode: 'coder', promptHash: hashPrompt('Write code'), prompt: 'Write code', response: 'Live answer' },
+    ]);
+
+    const replay = new MockProvider({ fixture });
+    expect(await replay.execute('Write code', 'coder')).toBe('Live answer');
+  });
+
+  it('should record streamed responses once the stream ends', async () => {
+    const recorder = new RecordingProvider(inner, fixture);
+
+    let streamed = '';
+    for await (const chunk of recorder.streamExecute('Stream code', 'coder')) {
+      streamed += chunk;
+    }
+
+    const saved = await fs.readJson(fixture);
+    expect(saved.responses[0].response).toBe(streamed);
+  });
+
+  it('should replace earlier recordings of the same prompt', async () => {
+    await fs.outputJson(fixture, {
+      responses: [{ mode: 'coder', promptHash: hashPrompt('Write code'), response: 'Old answer' }],
+    });
+    const recorder = new RecordingProvider(inner, fixture);
+
+    await recorder.execute('Write code', 'coder');
+    await recorder.execute('Other task', 'coder');
+
+    const saved = await fs.readJson(fixture);
+    expect(saved.responses.map((r: { response: string }) => r.response)).toEqual(['Live answer', 'Live answer']);
+    expect(saved.responses).toHaveLength(2);
+  });
+
+  it('should return responses when the fixture cannot be written', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    await fs.writeFile(path.join(tempDir, 'not-a-dir'), '');
+    const recorder = new RecordingProvider(inner, path.join(tempDir, 'not-a-dir', 'session.json'));
+
+    try {
+      expect(await recorder.execute('Write code', 'coder')).toBe('Live answer');
+      expect(await recorder.executeMultimodal('Describe', [], 'coder')).toBe('Live answer');
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('Cannot record response'));
+    } finally {
+      warn.mockRestore();
+    }
+  });
+});
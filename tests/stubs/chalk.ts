@@ -0,0 +1,13 @@
+/**
+ * Stand-in for chalk in tests
+ * chalk 5 is published as ESM only, which ts-jest does not transform.
+ * Every style, however chained, returns the text unchanged.
+ */
+
+type Style = ((...text: unknown[]) => string) & { [name: string]: Style };
+
+const chalk: Style = new Proxy((...text: unknown[]) => text.join(' '), {
+  get: () => chalk,
+}) as Style;
+
+export default chalk;
@@ -0,0 +1,28 @@
+/**
+ * Stand-in for ora in tests
+ * ora is published as ESM only, which ts-jest does not transform.
+ * The spinner does nothing.
+ */
+
+interface Spinner {
+  text: string;
+  start(text?: string): Spinner;
+  stop(): Spinner;
+  succeed(text?: string): Spinner;
+  fail(text?: string): Spinner;
+  warn(text?: string): Spinner;
+  info(text?: string): Spinner;
+}
+
+export default function ora(text: string = ''): Spinner {
+  const spinner: Spinner = {
+    text,
+    start: () => spinner,
+    stop: () => spinner,
+    succeed: () => spinner,
+    fail: () => spinner,
+    warn: () => spinner,
+    info: () => spinner,
+  };
+  return spinner;
+}
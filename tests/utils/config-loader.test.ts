@@ -0,0 +1,57 @@
+/**
+ * Tests for ConfigLoader
+ */
+
+import path from 'path';
+import fs from 'fs-extra';
+import { ConfigLoader } from '../../src/utils/config-loader';
+import { createTempDir, cleanupTempDir } from '../helpers';
+
+describe('ConfigLoader', () => {
+  let tempDir: string;
+  let modesPath: string;
+  let configPath: string;
+
+  beforeEach(async () => {
+    tempDir = await createTempDir();
+    modesPath = path.join(tempDir, 'modes');
+    configPath = path.join(tempDir, '.gemini-flow.json');
+    jest.spyOn(process, 'cwd').mockReturnValue(tempDir);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await cleanupTempDir(tempDir);
+  });
+
+  describe('load', () => {
+    it('should let the config override a mode file without repeating its systemPrompt', async () => {
+      await fs.outputFile(path.join(modesPath, 'reviewer.md'), '---\ntemperature: 0.6\nicon: 🔎\n---\nReview the code.');
+      await fs.writeJson(configPath, { modesPath, maxAgents: 2, modes: { reviewer: { temperature: 0.2 } } });
+
+      const config = await ConfigLoader.load(configPath);
+
+      expect(config.maxAgents).toBe(2);
+      expect(config.modes?.reviewer).toMatchObject({ systemPrompt: 'Review the code.', temperature: 0.2, icon: '🔎' });
+    });
+
+    it('should still require a systemPrompt for custom modes without a mode file', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      await fs.writeJson(configPath, { modesPath, modes: { reviewer: { temperature: 0.2 } } });
+
+      expect(await ConfigLoader.load(configPath)).toEqual({});
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('must define a systemPrompt'));
+    });
+
+    it('should skip overrides for a mode whose file is invalid', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      await fs.outputFile(path.join(modesPath, 'reviewer.md'), '---\ntemperature: 0.6\n---\n');
+      await fs.writeJson(configPath, { modesPath, modes: { reviewer: { temperature: 0.2 }, coder: { temperature: 0.1 } } });
+
+      const config = await ConfigLoader.load(configPath);
+
+      expect(config.modes).toEqual({ coder: { temperature: 0.1 } });
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('Skipping mode reviewer'));
+    });
+  });
+});
@@ -2,7 +2,7 @@
  * Tests for ErrorHandler utility
  */
 
-import { ErrorHandler } from '../../src/utils/error-handler';
+import { ErrorHandler, DEFAULT_RETRY_POLICY } from '../../src/utils/error-handler';
 
 describe('ErrorHandler', () => {
   describe('formatError', () => {
@@ -118,4 +118,47 @@ describe('ErrorHandler', () => {
       expect(mockFn).toHaveBeenCalledTimes(3);
     });
   });
+
+  describe('classifyError', () => {
+    it('should classify known error types', () => {
+      expect(ErrorHandler.classifyError(new Error('401 Unauthorized'))).toBe('auth');
+      expect(ErrorHandler.classifyError(new Error('429 Too Many Requests'))).toBe('rate-limit');
+      expect(ErrorHandler.classifyError(new Error('connect ECONNREFUSED'))).toBe('network');
+      expect(ErrorHandler.classifyError(new Error('Something odd'))).toBe('unknown');
+    });
+  });
+
+  describe('retry policies', () => {
+    it('should layer policies over the defaults', () => {
+      const policy = ErrorHandler.resolveRetryPolicy(
+        { maxAttempts: 5 },
+        undefined,
+        { backoffMs: 10, maxAttempts: undefined }
+      );
+
+      expect(policy).toEqual({ ...DEFAULT_RETRY_POLICY, maxAttempts: 5, backoffMs: 10 });
+    });
+
+    it('should only retry listed error classes within the attempt limit', () => {
+      const policy = ErrorHandler.resolveRetryPolicy({ maxAttempts: 2 });
+
+      expect(ErrorHandler.shouldRetry(policy, 'network', 1)).toBe(true);
+      expect(ErrorHandler.shouldRetry(policy, 'network', 2)).toBe(false);
+      expect(ErrorHandler.shouldRetry(policy, 'unknown', 1)).toBe(false);
+    });
+
+    it('should never retry auth errors', () => {
+      const policy = ErrorHandler.resolveRetryPolicy({ retryOn: ['auth', 'network'] });
+
+      expect(ErrorHandler.shouldRetry(policy, 'auth', 1)).toBe(false);
+    });
+
+    it('should back off exponentially up to the cap', () => {
+      const policy = ErrorHandler.resolveRetryPolicy({ backoffMs: 100, maxBackoffMs: 300 });
+
+      expect(ErrorHandler.getRetryDelay(policy, 1)).toBe(100);
+      expect(ErrorHandler.getRetryDelay(policy, 2)).toBe(200);
+      expect(ErrorHandler.getRetryDelay(policy, 3)).toBe(300);
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,62 @@
+/**
+ * Tests for FileLock
+ */
+
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { FileLock, FileLockError } from '../../src/utils/file-lock';
+import { createTempDir, cleanupTempDir } from '../helpers';
+
+// Above the largest pid Linux hands out, so never a live process
+const DEAD_PID = 4194305;
+
+describe('FileLock', () => {
+  let tempDir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    tempDir = await createTempDir();
+    filePath = path.join(tempDir, 'memory.json');
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir(tempDir);
+  });
+
+  it('should run one holder at a time and release the lock', async () => {
+    const events: string[] = [];
+    const hold = (name: string) => FileLock.withLock(filePath, async () => {
+      events.push(`${name} start`);
+      await new Promise(resolve => setTimeout(resolve, 50));
+      events.push(`${name} end`);
+    });
+
+    await Promise.all([hold('a'), hold('b')]);
+
+    expect(events).toEqual(['a start', 'a end', 'b start', 'b end']);
+    expect(await fs.pathExists(`${filePath}.lock`)).toBe(false);
+  });
+
+  it('should take over a lock left by a process that exited', async () => {
+    await fs.writeJson(`${filePath}.lock`, { pid: DEAD_PID, hostname: os.hostname(), token: 'old', acquiredAt: '' });
+
+    await expect(FileLock.withLock(filePath, async () => 'done', { timeoutMs: 200 })).resolves.toBe('done');
+  });
+
+  it('should time out while a live process holds the lock', async () => {
+    await fs.writeJson(`${filePath}.lock`, { pid: process.ppid, hostname: os.hostname(), token: 'other', acquiredAt: '' });
+
+    await expect(FileLock.acquire(filePath, { timeoutMs: 100 })).rejects.toThrow(FileLockError);
+    expect(await fs.pathExists(`${filePath}.lock`)).toBe(true);
+  });
+
+  it('should replace files atomically without leaving temp files', async () => {
+    await fs.writeFile(filePath, 'old');
+
+    await FileLock.writeAtomic(filePath, 'new');
+
+    expect(await fs.readFile(filePath, 'utf8')).toBe('new');
+    expect(await fs.readdir(tempDir)).toEqual(['memory.json']);
+  });
+});
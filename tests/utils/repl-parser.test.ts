@@ -0,0 +1,55 @@
+/**
+ * Tests for ReplParser
+ */
+
+import { ReplParser } from '../../src/utils/repl-parser';
+import { ValidationError } from '../../src/utils/validation';
+
+describe('ReplParser', () => {
+  describe('tokenize', () => {
+    it('should split on whitespace and keep quoted text together', () => {
+      expect(ReplParser.tokenize('add coder "Build the \\"auth\\" module"  --priority high'))
+        .toEqual(['add', 'coder', 'Build the "auth" module', '--priority', 'high']);
+      expect(ReplParser.tokenize("add ask 'What is SPARC?'")).toEqual(['add', 'ask', 'What is SPARC?']);
+    });
+
+    it('should keep empty quoted arguments', () => {
+      expect(ReplParser.tokenize('add coder ""')).toEqual(['add', 'coder', '']);
+    });
+
+    it('should reject unterminated quotes', () => {
+      expect(() => ReplParser.tokenize('add coder "Build it')).toThrow(ValidationError);
+    });
+  });
+
+  describe('parseAddTask', () => {
+    it('should parse mode, description, dependencies and priority', () => {
+      const request = ReplParser.parseAddTask(
+        ReplParser.tokenize('coder "Build the API" --after design,spec --after spec --priority high')
+      );
+
+      expect(request).toEqual({
+        id: undefined,
+        mode: 'coder',
+        description: 'Build the API',
+        dependencies: ['design', 'spec'],
+        priority: 'high',
+      });
+    });
+
+    it('should join unquoted words and accept --flag=value', () => {
+      const request = ReplParser.parseAddTask(ReplParser.tokenize('tester write unit tests --id=tests'));
+
+      expect(request.description).toBe('write unit tests');
+      expect(request.id).toBe('tests');
+      expect(request.priority).toBe('medium');
+    });
+
+    it('should reject missing arguments, unknown options and bad priorities', () => {
+      expect(() => ReplParser.parseAddTask(['coder'])).toThrow('Usage');
+      expect(() => ReplParser.parseAddTask(['coder', 'x', '--urgent', 'yes'])).toThrow('Unknown option --urgent');
+      expect(() => ReplParser.parseAddTask(['coder', 'x', '--after'])).toThrow('needs a value');
+      expect(() => ReplParser.parseAddTask(['coder', 'x', '--priority', 'asap'])).toThrow('Priority');
+    });
+  });
+});
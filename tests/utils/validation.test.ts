@@ -16,6 +16,11 @@ describe('Validator', () => {
       expect(() => Validator.validateAgentMode('invalid')).toThrow(ValidationError);
       expect(() => Validator.validateAgentMode('')).toThrow(ValidationError);
     });
+
+    it('should accept registered custom modes', () => {
+      expect(Validator.validateAgentMode('api-reviewer', ['api-reviewer'])).toBe('api-reviewer');
+      expect(() => Validator.validateAgentMode('api-reviewer')).toThrow('Invalid agent mode');
+    });
   });
 
   describe('validateTaskDescription', () => {
@@ -51,6 +56,60 @@ describe('Validator', () => {
     });
   });
 
+  describe('validateTaskRequest', () => {
+    it('should fill in defaults for optional fields', () => {
+      expect(Validator.validateTaskRequest({ mode: 'coder', description: ' Write tests ' })).toEqual({
+        id: undefined,
+        mode: 'coder',
+        description: 'Write tests',
+        dependencies: [],
+        priority: 'medium',
+      });
+    });
+
+    it('should de-duplicate dependencies', () => {
+      const request = Validator.validateTaskRequest({
+        id: 'build',
+        mode: 'coder',
+        description: 'Build it',
+        dependencies: ['spec', 'spec', 'design'],
+        priority: 'high',
+      });
+
+      expect(request.dependencies).toEqual(['spec', 'design']);
+    });
+
+    it('should name the invalid field', () => {
+      expect(() => Validator.validateTaskRequest('coder')).toThrow('Task must be an object');
+      expect(() => Validator.validateTaskRequest({ mode: 'coder', description: 'x', id: 'has space' }))
+        .toThrow(expect.objectContaining({ field: 'id' }));
+      expect(() => Validator.validateTaskRequest({ mode: 'coder', description: 'x', dependencies: 'spec' }))
+        .toThrow(expect.objectContaining({ field: 'dependencies' }));
+      expect(() => Validator.validateTaskRequest({ mode: 'coder', description: 'x', priority: 'urgent' }))
+        .toThrow(expect.objectContaining({ field: 'priority' }));
+      expect(() => Validator.validateTaskRequest({ mode: 'reviewer', description: 'x' }))
+        .toThrow(expect.objectContaining({ field: 'mode' }));
+    });
+
+    it('should accept custom modes', () => {
+      expect(Validator.validateTaskRequest({ mode: 'reviewer', description: 'x' }, ['reviewer']).mode).toBe('reviewer');
+    });
+
+    it('should split and check workspace include globs', () => {
+      const request = Validator.validateTaskRequest({
+        mode: 'coder',
+        description: 'x',
+        workspace: { dir: ' src ', include: ['core/*.ts,utils/{a,b}.ts', 'core/*.ts'] },
+      });
+
+      expect(request.workspace).toEqual({ dir: 'src', include: ['core/*.ts', 'utils/{a,b}.ts'] });
+      expect(() => Validator.validateTaskRequest({ mode: 'coder', description: 'x', workspace: { include: ['../secrets/*'] } }))
+        .toThrow(expect.objectContaining({ field: 'workspace.include' }));
+      expect(() => Validator.validateTaskRequest({ mode: 'coder', description: 'x', workspace: { dir: '' } }))
+        .toThrow(expect.objectContaining({ field: 'workspace.dir' }));
+    });
+  });
+
   describe('validateApiKey', () => {
     it('should validate correct API keys', () => {
       const apiKey = 'abcd1234567890abcd1234567890';
@@ -106,6 +165,132 @@ describe('Validator', () => {
       const config = { authMethod: 'invalid' };
       expect(() => Validator.validateConfig(config)).toThrow(ValidationError);
     });
+
+    it('should keep global and per-mode retry policies', () => {
+      const result = Validator.validateConfig({
+        retryPolicy: { maxAttempts: 4 },
+        modes: { coder: { retryPolicy: { retryOn: ['network'] } } },
+      });
+
+      expect(result.retryPolicy).toEqual({ maxAttempts: 4 });
+      expect(result.modes).toEqual({ coder: { retryPolicy: { retryOn: ['network'] } } });
+    });
+
+    it('should parse date filters as dates or ages', () => {
+      expect(Validator.validateDate('2024-05-01', 'since').toISOString()).toBe('2024-05-01T00:00:00.000Z');
+      expect(Date.now() - Validator.validateDate('7d', 'since').getTime()).toBeCloseTo(7 * 24 * 60 * 60 * 1000, -3);
+      expect(() => Validator.validateDate('last week', 'since')).toThrow('since must be a date');
+    });
+
+    it('should validate memory scope and project', () => {
+      expect(Validator.validateConfig({ memoryScope: 'run:nightly-2', project: 'shop.api' }))
+        .toEqual({ memoryScope: 'run:nightly-2', project: 'shop.api' });
+      expect(Validator.validateConfig({ memoryScope: 'clean' }).memoryScope).toBe('clean');
+      expect(() => Validator.validateConfig({ memoryScope: 'run:' })).toThrow('Memory scope');
+      expect(() => Validator.validateConfig({ memoryScope: 'global' })).toThrow('Memory scope');
+      expect(() => Validator.validateConfig({ project: '../other' })).toThrow('Project');
+    });
+
+    it('should validate memory consolidation settings', () => {
+      expect(Validator.validateConfig({ memoryConsolidation: { auto: true, threshold: 0.9, groupBy: 'namespace', minGroupSize: 4, provider: 'mock' } }))
+        .toEqual({ memoryConsolidation: { auto: true, threshold: 0.9, groupBy: 'namespace', minGroupSize: 4, provider: 'mock' } });
+      expect(() => Validator.validateConfig({ memoryConsolidation: { threshold: 1.5 } })).toThrow('threshold');
+      expect(() => Validator.validateConfig({ memoryConsolidation: { minGroupSize: 1 } })).toThrow('minGroupSize');
+      expect(() => Validator.validateConfig({ memoryConsolidation: { provider: 'local-llm' } })).toThrow('Unknown provider');
+    });
+  });
+
+  describe('validateProviderConfig', () => {
+    it('should accept provider definitions and mode routing', () => {
+      const result = Validator.validateConfig({
+        provider: 'local',
+        providers: { local: { type: 'ollama', baseUrl: 'http://localhost:11434', model: 'llama3.1', structuredOutput: true } },
+        modes: { documentation: { provider: 'local' } },
+      });
+
+      expect(result.provider).toBe('local');
+      expect(result.providers).toEqual({
+        local: { type: 'ollama', baseUrl: 'http://localhost:11434/', model: 'llama3.1', structuredOutput: true },
+      });
+      expect(result.modes).toEqual({ documentation: { provider: 'local' } });
+    });
+
+    it('should reject unknown provider types and bad URLs', () => {
+      expect(() => Validator.validateProviderConfig('x', { type: 'claude' })).toThrow('type must be one of');
+      expect(() => Validator.validateProviderConfig('x', { type: 'openai', baseUrl: 'file:///etc' }))
+        .toThrow('http or https');
+      expect(() => Validator.validateProviderConfig('x', { type: 'openai', structuredOutput: 'yes' }))
+        .toThrow('structuredOutput must be true or false');
+    });
+
+    it('should reject modes routed to undefined providers', () => {
+      expect(() => Validator.validateConfig({ modes: { coder: { provider: 'nowhere' } } }))
+        .toThrow('Unknown provider "nowhere"');
+    });
+  });
+
+  describe('validateModeOverrides', () => {
+    it('should keep prompt and generation overrides', () => {
+      const result = Validator.validateConfig({
+        modes: {
+          architect: { temperature: 0.2, maxTokens: 4000, model: 'gemini-1.5-flash', systemPrompt: '  Design "carefully".  ' },
+        },
+      });
+
+      expect(result.modes).toEqual({
+        architect: { temperature: 0.2, maxTokens: 4000, model: 'gemini-1.5-flash', systemPrompt: 'Design "carefully".' },
+      });
+    });
+
+    it('should accept custom modes with a system prompt and tools', () => {
+      const result = Validator.validateConfig({
+        modes: { 'api-reviewer': { systemPrompt: 'Review APIs.', tools: ['openapi-lint'] } },
+      });
+
+      expect(result.modes).toEqual({ 'api-reviewer': { systemPrompt: 'Review APIs.', tools: ['openapi-lint'] } });
+    });
+
+    it('should reject custom modes without a prompt or with invalid names', () => {
+      expect(() => Validator.validateConfig({ modes: { 'api-reviewer': { temperature: 0.2 } } }))
+        .toThrow('must define a systemPrompt');
+      expect(() => Validator.validateConfig({ modes: { 'API Reviewer': { systemPrompt: 'Review APIs.' } } }))
+        .toThrow('Invalid custom mode name');
+    });
+
+    it('should reject out-of-range generation settings', () => {
+      expect(() => Validator.validateModeOverrides('coder', { temperature: 3 })).toThrow('temperature');
+      expect(() => Validator.validateModeOverrides('coder', { maxTokens: 0 })).toThrow('maxTokens');
+      expect(() => Validator.validateModeOverrides('coder', { model: '' })).toThrow('model');
+      expect(() => Validator.validateModeOverrides('coder', { contextTokens: 100 })).toThrow('contextTokens');
+    });
+
+    it('should accept known result sections only', () => {
+      expect(Validator.validateModeOverrides('coder', { output: ['code', 'testPlan', 'code'] }))
+        .toEqual({ output: ['code', 'testPlan'] });
+      expect(() => Validator.validateModeOverrides('coder', { output: ['diagram'] })).toThrow('output');
+      expect(() => Validator.validateModeOverrides('coder', { output: [] })).toThrow('output');
+    });
+
+    it('should accept editsFiles as a boolean', () => {
+      expect(Validator.validateModeOverrides('architect', { editsFiles: true })).toEqual({ editsFiles: true });
+      expect(() => Validator.validateModeOverrides('coder', { editsFiles: 'yes' })).toThrow('editsFiles');
+    });
+  });
+
+  describe('validateRetryPolicy', () => {
+    it('should accept a valid policy', () => {
+      const policy = { maxAttempts: 3, backoffMs: 500, maxBackoffMs: 5000, retryOn: ['network', 'timeout'] };
+      expect(Validator.validateRetryPolicy(policy)).toEqual(policy);
+    });
+
+    it('should reject invalid attempt counts', () => {
+      expect(() => Validator.validateRetryPolicy({ maxAttempts: 0 })).toThrow('maxAttempts');
+    });
+
+    it('should reject auth and unknown error classes in retryOn', () => {
+      expect(() => Validator.validateRetryPolicy({ retryOn: ['auth'] })).toThrow('retryOn');
+      expect(() => Validator.validateRetryPolicy({ retryOn: ['gremlins'] })).toThrow('retryOn');
+    });
   });
 
   describe('sanitizeString', () => {